@@ -154,7 +154,7 @@ export interface DigestReport {
 export interface DashboardSnapshot {
   meta: {
     repo: string;
-    provider: "github" | "gitlab" | "bitbucket";
+    provider: "github" | "gitlab" | "bitbucket" | "azure-devops";
     generatedAt: string;
     stale: boolean;
     backoffSeconds: number;
@@ -170,7 +170,7 @@ export interface DashboardSnapshot {
 }
 
 export interface DashboardStatus {
-  provider: "github" | "gitlab" | "bitbucket";
+  provider: "github" | "gitlab" | "bitbucket" | "azure-devops";
   repo: string;
   ready: boolean;
   stale: boolean;
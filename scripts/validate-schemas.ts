@@ -130,6 +130,27 @@ async function run(): Promise<void> {
     "providers",
     "bitbucket.v1.json"
   );
+  const providerContractBitbucketServerFixturePath = path.join(
+    process.cwd(),
+    "conformance",
+    "provider-contract",
+    "providers",
+    "bitbucket-server.v1.json"
+  );
+  const providerContractAzureDevOpsFixturePath = path.join(
+    process.cwd(),
+    "conformance",
+    "provider-contract",
+    "providers",
+    "azure-devops.v1.json"
+  );
+  const providerContractGiteaFixturePath = path.join(
+    process.cwd(),
+    "conformance",
+    "provider-contract",
+    "providers",
+    "gitea.v1.json"
+  );
   const sentinelEyeSamplePath = path.join(process.cwd(), "config", "sentinel-eye.sample.json");
 
   await validateSchemaInstance(policySchemaPath, policyPath, "policy-v2.schema.json", "config/seven-shadow-system.policy.json");
@@ -189,6 +210,24 @@ async function run(): Promise<void> {
     "provider-contract-fixtures-v1.schema.json",
     "conformance/provider-contract/providers/bitbucket.v1.json"
   );
+  await validateSchemaInstance(
+    providerContractFixturesSchemaPath,
+    providerContractBitbucketServerFixturePath,
+    "provider-contract-fixtures-v1.schema.json",
+    "conformance/provider-contract/providers/bitbucket-server.v1.json"
+  );
+  await validateSchemaInstance(
+    providerContractFixturesSchemaPath,
+    providerContractAzureDevOpsFixturePath,
+    "provider-contract-fixtures-v1.schema.json",
+    "conformance/provider-contract/providers/azure-devops.v1.json"
+  );
+  await validateSchemaInstance(
+    providerContractFixturesSchemaPath,
+    providerContractGiteaFixturePath,
+    "provider-contract-fixtures-v1.schema.json",
+    "conformance/provider-contract/providers/gitea.v1.json"
+  );
   await validateSchemaInstance(
     sentinelEyeSchemaPath,
     sentinelEyeSamplePath,
@@ -0,0 +1,123 @@
+import type { ProviderReviewTarget } from "./providers/types";
+
+export interface AiScorer {
+  name: string;
+  score: (target: ProviderReviewTarget) => number;
+}
+
+const HEDGE_PHRASES = [
+  "additionally",
+  "arguably",
+  "generally",
+  "in summary",
+  "it is important to note",
+  "it is worth noting",
+  "it's important to note",
+  "it's worth noting",
+  "likely",
+  "may",
+  "might",
+  "overall",
+  "perhaps",
+  "potentially",
+  "seems",
+  "typically"
+];
+
+const HEDGE_PHRASE_REGEX = new RegExp(`\\b(?:${HEDGE_PHRASES.map((phrase) => phrase.replace(/ /g, "\\s+")).join("|")})\\b`, "gi");
+const STRUCTURED_LINE_REGEX = /^\s*(?:[-*+]\s|\d+[.)]\s|#{1,6}\s)/;
+
+const MIN_SENTENCES = 3;
+const MIN_LINES = 3;
+const MIN_WORDS = 20;
+const TYPE_TOKEN_WINDOW = 100;
+
+function makeError(code: string, message: string): Error {
+  return new Error(`${code}: ${message}`);
+}
+
+function clampUnit(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function tokenizeWords(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+(?:'[a-z]+)?/g) ?? [];
+}
+
+function scoreSentenceLengthVariance(target: ProviderReviewTarget): number {
+  const lengths = target.body
+    .split(/(?<=[.!?])\s+|\n{2,}/)
+    .map((sentence) => tokenizeWords(sentence).length)
+    .filter((length) => length > 0);
+
+  if (lengths.length < MIN_SENTENCES) {
+    return 0;
+  }
+
+  const mean = lengths.reduce((sum, length) => sum + length, 0) / lengths.length;
+  const variance = lengths.reduce((sum, length) => sum + (length - mean) ** 2, 0) / lengths.length;
+  const coefficientOfVariation = Math.sqrt(variance) / mean;
+
+  return clampUnit(1 - coefficientOfVariation / 0.6);
+}
+
+function scoreHedgePhraseDensity(target: ProviderReviewTarget): number {
+  const words = tokenizeWords(target.body);
+  if (words.length < MIN_WORDS) {
+    return 0;
+  }
+
+  const hits = target.body.match(HEDGE_PHRASE_REGEX)?.length ?? 0;
+  const hitsPerHundredWords = (hits * 100) / words.length;
+
+  return clampUnit(hitsPerHundredWords / 4);
+}
+
+function scoreBulletHeadingRatio(target: ProviderReviewTarget): number {
+  const lines = target.body.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  if (lines.length < MIN_LINES) {
+    return 0;
+  }
+
+  const structured = lines.filter((line) => STRUCTURED_LINE_REGEX.test(line)).length;
+  return clampUnit(structured / lines.length);
+}
+
+function scoreTypeTokenRatio(target: ProviderReviewTarget): number {
+  const words = tokenizeWords(target.body).slice(0, TYPE_TOKEN_WINDOW);
+  if (words.length < MIN_WORDS) {
+    return 0;
+  }
+
+  const ratio = new Set(words).size / words.length;
+  return clampUnit((0.75 - ratio) / 0.35);
+}
+
+export const BUILTIN_AI_SCORERS: readonly AiScorer[] = [
+  { name: "sentence-length-variance", score: scoreSentenceLengthVariance },
+  { name: "hedge-phrase-density", score: scoreHedgePhraseDensity },
+  { name: "bullet-heading-ratio", score: scoreBulletHeadingRatio },
+  { name: "type-token-ratio", score: scoreTypeTokenRatio }
+];
+
+export function buildAiScorerRegistry(customScorers: AiScorer[] = []): Map<string, AiScorer> {
+  const registry = new Map<string, AiScorer>();
+
+  for (const scorer of [...BUILTIN_AI_SCORERS, ...customScorers]) {
+    if (registry.has(scorer.name)) {
+      throw makeError("E_AI_SCORER_DUPLICATE", `scorer '${scorer.name}' is registered more than once`);
+    }
+    registry.set(scorer.name, scorer);
+  }
+
+  return registry;
+}
+
+export function runAiScorer(scorer: AiScorer, target: ProviderReviewTarget): number {
+  const value = scorer.score(target);
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw makeError("E_AI_SCORER_OUTPUT_INVALID", `scorer '${scorer.name}' returned a non-finite score`);
+  }
+
+  return clampUnit(value);
+}
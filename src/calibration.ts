@@ -0,0 +1,288 @@
+import type { AiScorer } from "./aiScorers";
+import type { LabeledExample } from "./classifier";
+import { evaluateTargets, type GuardPolicy, type ReviewTarget } from "./sevenShadowSystem";
+
+const THRESHOLD_STEPS = 20;
+const DEFAULT_TARGET_RECALL = 0.9;
+
+export interface ConfusionMatrix {
+  truePositive: number;
+  falsePositive: number;
+  trueNegative: number;
+  falseNegative: number;
+  precision: number | null;
+  recall: number | null;
+  accuracy: number;
+}
+
+export interface RuleCalibration {
+  rule: string;
+  action: GuardPolicy["rules"][number]["action"];
+  matches: number;
+  truePositive: number;
+  falsePositive: number;
+  falseNegative: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface ThresholdRecommendation {
+  threshold: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface CalibrationReport {
+  schemaVersion: 1;
+  policyPath: string;
+  corpusPath: string;
+  corpusSha256: string;
+  examples: {
+    total: number;
+    ai: number;
+    human: number;
+  };
+  currentThresholds: {
+    maxAiScore: number;
+    disclosureRequiredScore: number;
+  };
+  confusionMatrix: ConfusionMatrix;
+  rules: RuleCalibration[];
+  recommendedThresholds: {
+    maxAiScore: ThresholdRecommendation;
+    disclosureRequiredScore: ThresholdRecommendation & { targetRecall: number };
+  };
+}
+
+export interface CalibratePolicyOptions {
+  policy: GuardPolicy;
+  examples: LabeledExample[];
+  policyPath: string;
+  corpusPath: string;
+  corpusSha256: string;
+  scorers?: AiScorer[];
+  targetRecall?: number;
+}
+
+interface ScoredExample {
+  label: LabeledExample["label"];
+  aiScore: number;
+  matchedRules: Set<string>;
+  ruleBlocked: boolean;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : Math.round((numerator / denominator) * 10_000) / 10_000;
+}
+
+function f1Score(precision: number | null, recall: number | null): number | null {
+  if (precision === null || recall === null || precision + recall === 0) {
+    return null;
+  }
+
+  return Math.round(((2 * precision * recall) / (precision + recall)) * 10_000) / 10_000;
+}
+
+function toTarget(example: LabeledExample, index: number): ReviewTarget {
+  return {
+    source: example.source ?? "review",
+    referenceId: `corpus:${index + 1}`,
+    authorLogin: example.authorLogin ?? "calibration-corpus",
+    authorType: example.authorType ?? "User",
+    body: example.body
+  };
+}
+
+function buildConfusionMatrix(scored: ScoredExample[], isFlagged: (example: ScoredExample) => boolean): ConfusionMatrix {
+  let truePositive = 0;
+  let falsePositive = 0;
+  let trueNegative = 0;
+  let falseNegative = 0;
+
+  for (const example of scored) {
+    const flagged = isFlagged(example);
+    if (example.label === "ai") {
+      if (flagged) {
+        truePositive += 1;
+      } else {
+        falseNegative += 1;
+      }
+    } else if (flagged) {
+      falsePositive += 1;
+    } else {
+      trueNegative += 1;
+    }
+  }
+
+  return {
+    truePositive,
+    falsePositive,
+    trueNegative,
+    falseNegative,
+    precision: ratio(truePositive, truePositive + falsePositive),
+    recall: ratio(truePositive, truePositive + falseNegative),
+    accuracy: ratio(truePositive + trueNegative, scored.length) ?? 0
+  };
+}
+
+function toRecommendation(matrix: ConfusionMatrix, threshold: number): ThresholdRecommendation {
+  return {
+    threshold,
+    precision: matrix.precision,
+    recall: matrix.recall,
+    f1: f1Score(matrix.precision, matrix.recall)
+  };
+}
+
+function candidateThresholds(): number[] {
+  return Array.from({ length: THRESHOLD_STEPS + 1 }, (_, step) => step / THRESHOLD_STEPS);
+}
+
+function recommendMaxAiScore(scored: ScoredExample[]): ThresholdRecommendation {
+  let best: ThresholdRecommendation | null = null;
+
+  for (const threshold of candidateThresholds()) {
+    const candidate = toRecommendation(
+      buildConfusionMatrix(scored, (example) => example.aiScore > threshold),
+      threshold
+    );
+
+    if (!best || (candidate.f1 ?? -1) >= (best.f1 ?? -1)) {
+      best = candidate;
+    }
+  }
+
+  return best ?? toRecommendation(buildConfusionMatrix(scored, () => false), 1);
+}
+
+function recommendDisclosureScore(
+  scored: ScoredExample[],
+  targetRecall: number,
+  maxAiScore: number
+): ThresholdRecommendation & { targetRecall: number } {
+  let best: ThresholdRecommendation | null = null;
+
+  for (const threshold of candidateThresholds().filter((item) => item <= maxAiScore)) {
+    const candidate = toRecommendation(
+      buildConfusionMatrix(scored, (example) => example.aiScore >= threshold),
+      threshold
+    );
+
+    if (!best || (candidate.recall ?? 0) >= targetRecall) {
+      best = candidate;
+    }
+  }
+
+  return {
+    ...(best ?? toRecommendation(buildConfusionMatrix(scored, () => true), 0)),
+    targetRecall
+  };
+}
+
+export function calibratePolicy(options: CalibratePolicyOptions): CalibrationReport {
+  const { policy, examples } = options;
+  const targets = examples.map((example, index) => toTarget(example, index));
+  const result = evaluateTargets(policy, targets, options.scorers);
+
+  const scored: ScoredExample[] = result.targetEvaluations.map((evaluation, index) => ({
+    label: examples[index]?.label ?? "human",
+    aiScore: evaluation.aiScore,
+    matchedRules: new Set(evaluation.matchedRules),
+    ruleBlocked: evaluation.findings.some((finding) => finding.code === "GUARD_RULE_BLOCK")
+  }));
+
+  const rules: RuleCalibration[] = policy.rules.map((rule) => {
+    const matrix = buildConfusionMatrix(scored, (example) => example.matchedRules.has(rule.name));
+    return {
+      rule: rule.name,
+      action: rule.action,
+      matches: matrix.truePositive + matrix.falsePositive,
+      truePositive: matrix.truePositive,
+      falsePositive: matrix.falsePositive,
+      falseNegative: matrix.falseNegative,
+      precision: matrix.precision,
+      recall: matrix.recall
+    };
+  });
+
+  const maxAiScore = recommendMaxAiScore(scored);
+
+  return {
+    schemaVersion: 1,
+    policyPath: options.policyPath,
+    corpusPath: options.corpusPath,
+    corpusSha256: options.corpusSha256,
+    examples: {
+      total: scored.length,
+      ai: scored.filter((example) => example.label === "ai").length,
+      human: scored.filter((example) => example.label === "human").length
+    },
+    currentThresholds: {
+      maxAiScore: policy.maxAiScore,
+      disclosureRequiredScore: policy.disclosureRequiredScore
+    },
+    confusionMatrix: buildConfusionMatrix(
+      scored,
+      (example) => example.ruleBlocked || example.aiScore > policy.maxAiScore
+    ),
+    rules,
+    recommendedThresholds: {
+      maxAiScore,
+      disclosureRequiredScore: recommendDisclosureScore(
+        scored,
+        options.targetRecall ?? DEFAULT_TARGET_RECALL,
+        maxAiScore.threshold
+      )
+    }
+  };
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? "n/a" : value.toFixed(3);
+}
+
+export function renderCalibrationMarkdown(report: CalibrationReport): string {
+  const lines: string[] = [];
+  const matrix = report.confusionMatrix;
+  const recommended = report.recommendedThresholds;
+
+  lines.push("# Seven Shadow Calibration Report");
+  lines.push("");
+  lines.push(`- Policy: \`${report.policyPath}\``);
+  lines.push(`- Corpus: \`${report.corpusPath}\` (${report.examples.ai} ai, ${report.examples.human} human)`);
+  lines.push(`- Corpus sha256: \`${report.corpusSha256}\``);
+  lines.push("");
+  lines.push("## Confusion Matrix (current policy)");
+  lines.push("");
+  lines.push("| | Flagged | Not flagged |");
+  lines.push("| --- | --- | --- |");
+  lines.push(`| Labeled ai | ${matrix.truePositive} | ${matrix.falseNegative} |`);
+  lines.push(`| Labeled human | ${matrix.falsePositive} | ${matrix.trueNegative} |`);
+  lines.push("");
+  lines.push(
+    `Precision ${formatRatio(matrix.precision)}, recall ${formatRatio(matrix.recall)}, accuracy ${matrix.accuracy.toFixed(3)}.`
+  );
+  lines.push("");
+  lines.push("## Rules");
+  lines.push("");
+  lines.push("| Rule | Action | Matches | Precision | Recall |");
+  lines.push("| --- | --- | --- | --- | --- |");
+  for (const rule of report.rules) {
+    lines.push(
+      `| \`${rule.rule}\` | ${rule.action} | ${rule.matches} | ${formatRatio(rule.precision)} | ${formatRatio(rule.recall)} |`
+    );
+  }
+  lines.push("");
+  lines.push("## Recommended Thresholds");
+  lines.push("");
+  lines.push(
+    `- \`maxAiScore\`: ${recommended.maxAiScore.threshold.toFixed(2)} (current ${report.currentThresholds.maxAiScore.toFixed(2)}; precision ${formatRatio(recommended.maxAiScore.precision)}, recall ${formatRatio(recommended.maxAiScore.recall)}, F1 ${formatRatio(recommended.maxAiScore.f1)})`
+  );
+  lines.push(
+    `- \`disclosureRequiredScore\`: ${recommended.disclosureRequiredScore.threshold.toFixed(2)} (current ${report.currentThresholds.disclosureRequiredScore.toFixed(2)}; recall ${formatRatio(recommended.disclosureRequiredScore.recall)}, target ${recommended.disclosureRequiredScore.targetRecall.toFixed(2)})`
+  );
+  lines.push("");
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,215 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { z } from "zod";
+
+import type { AiScorer } from "./aiScorers";
+import { sha256Hex } from "./policyGovernance";
+import type { GuardPolicy } from "./sevenShadowSystem";
+
+export const CLASSIFIER_SCORER_NAME = "classifier";
+
+const ClassifierLabelCountsSchema = z
+  .object({
+    ai: z.number().int().min(0),
+    human: z.number().int().min(0)
+  })
+  .strict();
+
+const ClassifierModelSchema = z
+  .object({
+    schemaVersion: z.literal(1),
+    kind: z.literal("naive-bayes"),
+    features: z.literal("word-1-2-gram"),
+    smoothing: z.number().positive(),
+    corpusSha256: z.string().regex(/^[a-f0-9]{64}$/),
+    documents: ClassifierLabelCountsSchema,
+    tokenTotals: ClassifierLabelCountsSchema,
+    vocabulary: z.array(z.tuple([z.string().min(1), z.number().int().min(0), z.number().int().min(0)]))
+  })
+  .strict();
+
+const LabeledExampleSchema = z.object({
+  body: z.string(),
+  label: z.enum(["ai", "human"]),
+  source: z.enum(["pr_body", "review", "comment"]).optional(),
+  authorLogin: z.string().min(1).optional(),
+  authorType: z.enum(["User", "Bot", "Unknown"]).optional()
+});
+
+export type ClassifierModel = z.infer<typeof ClassifierModelSchema>;
+export type LabeledExample = z.infer<typeof LabeledExampleSchema>;
+
+export interface TrainClassifierOptions {
+  minCount?: number;
+  maxFeatures?: number;
+  smoothing?: number;
+}
+
+function makeError(code: string, message: string): Error {
+  return new Error(`${code}: ${message}`);
+}
+
+function compareText(a: string, b: string): number {
+  if (a < b) {
+    return -1;
+  }
+
+  if (a > b) {
+    return 1;
+  }
+
+  return 0;
+}
+
+export function extractClassifierFeatures(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9]+(?:'[a-z]+)?/g) ?? [];
+  const features = [...words];
+
+  for (let index = 1; index < words.length; index += 1) {
+    features.push(`${words[index - 1]} ${words[index]}`);
+  }
+
+  return features;
+}
+
+export function parseLabeledCorpus(corpusJsonl: string): LabeledExample[] {
+  const examples: LabeledExample[] = [];
+
+  corpusJsonl.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim().length === 0) {
+      return;
+    }
+
+    try {
+      examples.push(LabeledExampleSchema.parse(JSON.parse(line) as unknown));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw makeError("E_CLASSIFIER_CORPUS_INVALID", `line ${index + 1}: ${message.replace(/\s+/g, " ").slice(0, 220)}`);
+    }
+  });
+
+  if (!examples.some((example) => example.label === "ai") || !examples.some((example) => example.label === "human")) {
+    throw makeError("E_CLASSIFIER_CORPUS_INVALID", "corpus needs at least one 'ai' and one 'human' example");
+  }
+
+  return examples;
+}
+
+export function trainClassifier(corpusJsonl: string, options: TrainClassifierOptions = {}): ClassifierModel {
+  const minCount = options.minCount ?? 2;
+  const maxFeatures = options.maxFeatures ?? 5_000;
+  const documents = { ai: 0, human: 0 };
+  const counts = new Map<string, [number, number]>();
+
+  for (const example of parseLabeledCorpus(corpusJsonl)) {
+    documents[example.label] += 1;
+    const slot = example.label === "ai" ? 0 : 1;
+    for (const feature of extractClassifierFeatures(example.body)) {
+      const entry = counts.get(feature) ?? [0, 0];
+      entry[slot] += 1;
+      counts.set(feature, entry);
+    }
+  }
+
+  const vocabulary: ClassifierModel["vocabulary"] = Array.from(counts.entries())
+    .filter(([, [ai, human]]) => ai + human >= minCount)
+    .sort((a, b) => b[1][0] + b[1][1] - (a[1][0] + a[1][1]) || compareText(a[0], b[0]))
+    .slice(0, maxFeatures)
+    .sort((a, b) => compareText(a[0], b[0]))
+    .map(([feature, [ai, human]]) => [feature, ai, human]);
+
+  return {
+    schemaVersion: 1,
+    kind: "naive-bayes",
+    features: "word-1-2-gram",
+    smoothing: options.smoothing ?? 1,
+    corpusSha256: sha256Hex(corpusJsonl),
+    documents,
+    tokenTotals: {
+      ai: vocabulary.reduce((sum, [, ai]) => sum + ai, 0),
+      human: vocabulary.reduce((sum, [, , human]) => sum + human, 0)
+    },
+    vocabulary
+  };
+}
+
+export function serializeClassifierModel(model: ClassifierModel): string {
+  return `${JSON.stringify(model)}\n`;
+}
+
+export function parseClassifierModel(raw: unknown): ClassifierModel {
+  try {
+    return ClassifierModelSchema.parse(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw makeError("E_CLASSIFIER_MODEL_INVALID", message.replace(/\s+/g, " ").slice(0, 220));
+  }
+}
+
+export function createClassifierScorer(model: ClassifierModel): AiScorer {
+  const alpha = model.smoothing;
+  const size = model.vocabulary.length;
+  const aiDenominator = model.tokenTotals.ai + alpha * size;
+  const humanDenominator = model.tokenTotals.human + alpha * size;
+  const logPrior = Math.log(model.documents.ai / model.documents.human);
+  const logRatios = new Map<string, number>();
+
+  for (const [feature, ai, human] of model.vocabulary) {
+    logRatios.set(feature, Math.log((ai + alpha) / aiDenominator) - Math.log((human + alpha) / humanDenominator));
+  }
+
+  return {
+    name: CLASSIFIER_SCORER_NAME,
+    score: (target) => {
+      let logOdds = logPrior;
+      for (const feature of extractClassifierFeatures(target.body)) {
+        logOdds += logRatios.get(feature) ?? 0;
+      }
+
+      return 1 / (1 + Math.exp(-logOdds));
+    }
+  };
+}
+
+export async function loadClassifierModel(
+  modelPath: string,
+  expectedSha256: string,
+  baseDir = process.cwd()
+): Promise<ClassifierModel> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.resolve(baseDir, modelPath), "utf8");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw makeError("E_CLASSIFIER_MODEL_READ", message.slice(0, 220));
+  }
+
+  const actualSha256 = sha256Hex(raw);
+  if (actualSha256 !== expectedSha256) {
+    throw makeError(
+      "E_CLASSIFIER_MODEL_HASH_MISMATCH",
+      `model='${modelPath}' expected=${expectedSha256} actual=${actualSha256}`
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw) as unknown;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw makeError("E_CLASSIFIER_MODEL_INVALID", message.slice(0, 220));
+  }
+
+  return parseClassifierModel(parsed);
+}
+
+export async function loadPolicyScorers(policy: Pick<GuardPolicy, "scoring">, policyFilePath: string): Promise<AiScorer[]> {
+  const reference = policy.scoring?.classifier;
+  if (!reference) {
+    return [];
+  }
+
+  const baseDir = path.dirname(path.resolve(process.cwd(), policyFilePath));
+  return [createClassifierScorer(await loadClassifierModel(reference.modelPath, reference.sha256, baseDir))];
+}
@@ -1,3 +1,4 @@
+import { runCalibrateCommand } from "./commands/calibrate";
 import { runCommentsCommand } from "./commands/comments";
 import { runDashboardCommand } from "./commands/dashboard";
 import { runDigestCommand } from "./commands/digest";
@@ -8,8 +9,12 @@ import { runInboxCommand } from "./commands/inbox";
 import { runLintCommand } from "./commands/lint";
 import { runPatternsCommand } from "./commands/patterns";
 import { runScoreCommand } from "./commands/score";
+import { runServeCommand } from "./commands/serve";
 import { runShadowGateCommand } from "./commands/shadowGate";
+import { runSimulateCommand } from "./commands/simulate";
+import { runSummaryCommentCommand } from "./commands/summaryComment";
 import { runTestQualityCommand } from "./commands/testQuality";
+import { runTrainClassifierCommand } from "./commands/trainClassifier";
 import { runSevenShadowSystem } from "./sevenShadowSystem";
 
 function renderHelp(): string {
@@ -18,18 +23,23 @@ function renderHelp(): string {
     "",
     "Usage:",
     "  7s guard [guard options]",
-    "  7s comments [--pr N] [--repo owner/repo] [--provider github|gitlab|bitbucket] [--format md|xml|json]",
-    "  7s failures [--pr N] [--run id] [--repo owner/repo] [--provider github|gitlab|bitbucket] [--format md|json]",
-    "  7s lint [--pr N] [--run id] [--repo owner/repo] [--provider github|gitlab|bitbucket] [--format md|json]",
+    "  7s comments [--pr N] [--repo owner/repo] [--provider github|gitlab|bitbucket|azure-devops] [--api-base-url url] [--format md|xml|json]",
+    "  7s failures [--pr N] [--run id] [--repo owner/repo] [--provider github|gitlab|bitbucket|azure-devops] [--api-base-url url] [--format md|json]",
+    "  7s lint [--pr N] [--run id] [--repo owner/repo] [--provider github|gitlab|bitbucket|azure-devops] [--api-base-url url] [--format md|json]",
     "  7s test-quality [--path test] [--format md|json] [--base-ref ref] [--head-ref ref]",
-    "  7s patterns [--repo owner/repo] [--provider github|gitlab|bitbucket] [--limit N] [--format md|json] [--config path]",
-    "  7s inbox [--repo owner/repo] [--provider github|gitlab|bitbucket] [--limit N] [--all] [--format md|json] [--config path]",
-    "  7s score [--pr N] [--repo owner/repo] [--provider github|gitlab|bitbucket] [--limit N] [--format md|json] [--config path]",
-    "  7s digest [--repo owner/repo] [--provider github|gitlab|bitbucket] [--limit N] [--all] [--format md|json] [--config path]",
-    "  7s dashboard [--repo owner/repo] [--provider github|gitlab|bitbucket] [--limit N] [--config path] [--host 127.0.0.1|0.0.0.0] [--port N] [--refresh-sec N] [--open] [--no-open]",
+    "  7s patterns [--repo owner/repo] [--provider github|gitlab|bitbucket|azure-devops] [--api-base-url url] [--limit N] [--format md|json] [--config path]",
+    "  7s inbox [--repo owner/repo] [--provider github|gitlab|bitbucket|azure-devops] [--api-base-url url] [--limit N] [--all] [--format md|json] [--config path]",
+    "  7s score [--pr N] [--repo owner/repo] [--provider github|gitlab|bitbucket|azure-devops] [--api-base-url url] [--limit N] [--format md|json] [--config path]",
+    "  7s digest [--repo owner/repo] [--provider github|gitlab|bitbucket|azure-devops] [--api-base-url url] [--limit N] [--all] [--format md|json] [--config path]",
+    "  7s dashboard [--repo owner/repo] [--provider github|gitlab|bitbucket|azure-devops] [--api-base-url url] [--limit N] [--config path] [--host 127.0.0.1|0.0.0.0] [--port N] [--refresh-sec N] [--open] [--no-open]",
     "  7s doctrine [--quickstart] [--format md|json] [--doctrine path]",
     "  7s doctrine-lint [--doctrine path] [--policy path] [--format md|json]",
     "  7s shadow-gate [--policy path] [--doctrine path] [--exceptions path] [--event path] [--event-name name] [--format md|json]",
+    "  7s serve [--policy path] [--shadow-policy path] [--doctrine path] [--exceptions path] [--codeowners path] [--host 127.0.0.1|0.0.0.0] [--port N] [--max-queue N] [--max-body-bytes N] [--public-url url] [--no-status] [--summary-comment]",
+    "  7s summary-comment [--guard-report path] [--shadow-report path] [--event path] [--event-name name] [--provider github|gitlab|bitbucket] [--api-base-url url] [--dry-run]",
+    "  7s train-classifier --corpus path.jsonl [--out path] [--min-count N] [--max-features N] [--format md|json]",
+    "  7s calibrate --corpus path.jsonl [--policy path] [--target-recall 0-1] [--format md|json]",
+    "  7s simulate --candidate path [--policy path] (--export path | --repo owner/repo [--provider github] [--api-base-url url] [--limit N]) [--save-export path] [--format md|json]",
     "",
     "Backward compatibility:",
     "  seven-shadow-system --policy ... (implicit guard mode)",
@@ -117,6 +127,26 @@ export async function runCli(
     return runShadowGateCommand(rest, env);
   }
 
+  if (command === "serve") {
+    return runServeCommand(rest, env);
+  }
+
+  if (command === "summary-comment") {
+    return runSummaryCommentCommand(rest, env);
+  }
+
+  if (command === "train-classifier") {
+    return runTrainClassifierCommand(rest, env);
+  }
+
+  if (command === "calibrate") {
+    return runCalibrateCommand(rest, env);
+  }
+
+  if (command === "simulate") {
+    return runSimulateCommand(rest, env);
+  }
+
   throw new Error(`E_UNKNOWN_COMMAND: '${command}'. Use --help to view supported commands.`);
 }
 
@@ -0,0 +1,193 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+export interface CodeOwnersRule {
+  pattern: string;
+  owners: string[];
+  line: number;
+  matcher: RegExp;
+}
+
+export interface CodeOwnersFile {
+  path: string;
+  content: string;
+  error?: string;
+}
+
+export interface CodeOwnerApprovalGap {
+  path: string;
+  owners: string[];
+}
+
+export const DEFAULT_CODEOWNERS_PATHS = [
+  ".github/CODEOWNERS",
+  "CODEOWNERS",
+  "docs/CODEOWNERS",
+  ".gitlab/CODEOWNERS",
+  ".bitbucket/CODEOWNERS"
+];
+
+function makeError(code: string, message: string): Error {
+  return new Error(`${code}: ${message}`);
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+function globToRegexSource(glob: string): string {
+  let source = "";
+  let index = 0;
+
+  while (index < glob.length) {
+    const char = glob[index];
+    if (char === "*" && glob[index + 1] === "*") {
+      if (glob[index + 2] === "/") {
+        source += "(?:.*/)?";
+        index += 3;
+      } else {
+        source += ".*";
+        index += 2;
+      }
+      continue;
+    }
+
+    if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += escapeRegex(char);
+    }
+    index += 1;
+  }
+
+  return source;
+}
+
+export function compileCodeOwnersPattern(pattern: string): RegExp {
+  let body = pattern;
+  const directoryOnly = body.endsWith("/");
+  if (directoryOnly) {
+    body = body.slice(0, -1);
+  }
+
+  const anchored = body.startsWith("/") || body.includes("/");
+  if (body.startsWith("/")) {
+    body = body.slice(1);
+  }
+
+  const lastSegment = body.slice(body.lastIndexOf("/") + 1);
+  const prefix = anchored ? "^" : "^(?:.*/)?";
+  const suffix = directoryOnly ? "/.*$" : /[*?]/.test(lastSegment) ? "$" : "(?:/.*)?$";
+
+  return new RegExp(`${prefix}${globToRegexSource(body)}${suffix}`);
+}
+
+export function normalizeCodeOwner(owner: string): string {
+  return owner.trim().replace(/^@/, "").toLowerCase();
+}
+
+export function parseCodeOwners(text: string): CodeOwnersRule[] {
+  const rules: CodeOwnersRule[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index].replace(/(^|\s)#.*$/, "").trim();
+    if (line.length === 0 || /^\^?\[[^\]]*\]/.test(line)) {
+      continue;
+    }
+
+    const [pattern, ...owners] = line.split(/\s+/);
+    if (pattern.startsWith("!")) {
+      throw makeError("E_CODEOWNERS_PATTERN", `negated pattern '${pattern}' is not supported (line ${index + 1})`);
+    }
+
+    rules.push({
+      pattern,
+      owners: owners.map(normalizeCodeOwner).filter((owner) => owner.length > 0),
+      line: index + 1,
+      matcher: compileCodeOwnersPattern(pattern)
+    });
+  }
+
+  return rules;
+}
+
+export function resolveCodeOwners(rules: CodeOwnersRule[], filePath: string): string[] {
+  const normalizedPath = filePath.replace(/^\/+/, "");
+
+  for (let index = rules.length - 1; index >= 0; index -= 1) {
+    if (rules[index].matcher.test(normalizedPath)) {
+      return rules[index].owners;
+    }
+  }
+
+  return [];
+}
+
+export function isTeamCodeOwner(owner: string): boolean {
+  return owner.includes("/") && !owner.includes("@");
+}
+
+export function findCodeOwnerApprovalGaps(
+  rules: CodeOwnersRule[],
+  changedFiles: string[],
+  approverLogins: Iterable<string>,
+  teamMembers: ReadonlyMap<string, readonly string[]> = new Map()
+): CodeOwnerApprovalGap[] {
+  const approvers = new Set(Array.from(approverLogins, normalizeCodeOwner));
+  const gaps: CodeOwnerApprovalGap[] = [];
+  const ownerApproved = (owner: string): boolean =>
+    approvers.has(owner) || (teamMembers.get(owner) ?? []).some((member) => approvers.has(normalizeCodeOwner(member)));
+
+  for (const filePath of Array.from(new Set(changedFiles)).sort()) {
+    const owners = resolveCodeOwners(rules, filePath);
+    if (owners.length === 0 || owners.some(ownerApproved)) {
+      continue;
+    }
+
+    gaps.push({
+      path: filePath,
+      owners
+    });
+  }
+
+  return gaps;
+}
+
+export function isCodeOwnersPath(filePath: string, configuredPath?: string): boolean {
+  const normalize = (value: string): string => value.replace(/\\/g, "/").replace(/^\.?\//, "");
+  const candidates = configuredPath ? [configuredPath, ...DEFAULT_CODEOWNERS_PATHS] : DEFAULT_CODEOWNERS_PATHS;
+  return candidates.some((candidate) => normalize(candidate) === normalize(filePath));
+}
+
+export async function readCodeOwnersFile(rootDir: string, configuredPath?: string): Promise<CodeOwnersFile | null> {
+  const candidates = configuredPath ? [configuredPath] : DEFAULT_CODEOWNERS_PATHS;
+
+  for (const candidate of candidates) {
+    const filePath = path.resolve(rootDir, candidate);
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        continue;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        path: candidate,
+        content: "",
+        error: message.slice(0, 220)
+      };
+    }
+
+    return {
+      path: candidate,
+      content: raw
+    };
+  }
+
+  return null;
+}
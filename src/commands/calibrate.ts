@@ -0,0 +1,135 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { calibratePolicy, renderCalibrationMarkdown } from "../calibration";
+import { loadPolicyScorers, parseLabeledCorpus } from "../classifier";
+import { sha256Hex } from "../policyGovernance";
+import { parseGuardPolicy } from "../sevenShadowSystem";
+
+interface CalibrateArgs {
+  policyPath: string;
+  corpusPath?: string;
+  targetRecall: number;
+  format: "md" | "json";
+}
+
+function makeError(code: string, message: string): Error {
+  return new Error(`${code}: ${message}`);
+}
+
+function readValue(argv: string[], index: number, optionName: string): string {
+  const value = argv[index + 1];
+  if (!value || value.startsWith("--")) {
+    throw makeError("E_SENTINEL_ARG_REQUIRED", optionName);
+  }
+
+  return value;
+}
+
+export function parseCalibrateArgs(argv: string[]): CalibrateArgs {
+  const args: CalibrateArgs = {
+    policyPath: "config/seven-shadow-system.policy.json",
+    targetRecall: 0.9,
+    format: "md"
+  };
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const token = argv[index] ?? "";
+
+    if (token === "--help" || token === "-h") {
+      throw makeError(
+        "E_SENTINEL_HELP",
+        "Usage: 7s calibrate --corpus <path.jsonl> [--policy <path>] [--target-recall <0-1>] [--format md|json]"
+      );
+    }
+
+    if (token === "--policy") {
+      args.policyPath = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--corpus") {
+      args.corpusPath = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--target-recall") {
+      const parsed = Number(readValue(argv, index, token));
+      if (!Number.isFinite(parsed) || parsed <= 0 || parsed > 1) {
+        throw makeError("E_SENTINEL_ARG_INVALID", "--target-recall must be a number in (0, 1]");
+      }
+      args.targetRecall = parsed;
+      index += 1;
+      continue;
+    }
+
+    if (token === "--format") {
+      const value = readValue(argv, index, token).trim().toLowerCase();
+      if (value !== "md" && value !== "json") {
+        throw makeError("E_SENTINEL_ARG_INVALID", "--format must be md|json");
+      }
+      args.format = value;
+      index += 1;
+      continue;
+    }
+
+    if (token.startsWith("--")) {
+      throw makeError("E_SENTINEL_ARG_UNKNOWN", token);
+    }
+  }
+
+  if (!args.corpusPath) {
+    throw makeError("E_SENTINEL_ARG_REQUIRED", "--corpus");
+  }
+
+  return args;
+}
+
+async function readText(filePath: string, code: string): Promise<string> {
+  try {
+    return await fs.readFile(path.resolve(process.cwd(), filePath), "utf8");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw makeError(code, message.slice(0, 220));
+  }
+}
+
+export async function runCalibrateCommand(
+  argv: string[] = process.argv.slice(2),
+  _env: NodeJS.ProcessEnv = process.env
+): Promise<number> {
+  const args = parseCalibrateArgs(argv);
+  const corpusPath = args.corpusPath ?? "";
+  const policyText = await readText(args.policyPath, "E_CALIBRATE_POLICY_READ");
+
+  let policyRaw: unknown;
+  try {
+    policyRaw = JSON.parse(policyText) as unknown;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw makeError("E_CALIBRATE_POLICY_READ", message.slice(0, 220));
+  }
+
+  const policy = parseGuardPolicy(policyRaw);
+  const corpus = await readText(corpusPath, "E_CALIBRATE_CORPUS_READ");
+
+  const report = calibratePolicy({
+    policy,
+    examples: parseLabeledCorpus(corpus),
+    policyPath: args.policyPath,
+    corpusPath,
+    corpusSha256: sha256Hex(corpus),
+    scorers: await loadPolicyScorers(policy, args.policyPath),
+    targetRecall: args.targetRecall
+  });
+
+  if (args.format === "json") {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+    return 0;
+  }
+
+  process.stdout.write(renderCalibrationMarkdown(report));
+  return 0;
+}
@@ -9,6 +9,7 @@ interface CommentsArgs {
   prNumber?: number;
   repoArg?: string;
   providerName: string;
+  apiBaseUrlArg?: string;
   format: CommentsFormat;
 }
 
@@ -45,7 +46,7 @@ export function parseCommentsArgs(argv: string[]): CommentsArgs {
     if (token === "--help" || token === "-h") {
       throw makeError(
         "E_SENTINEL_HELP",
-        "Usage: 7s comments [--pr <number>] [--repo <owner/repo>] [--provider github|gitlab|bitbucket] [--format md|xml|json]"
+        "Usage: 7s comments [--pr <number>] [--repo <owner/repo>] [--provider github|gitlab|bitbucket|azure-devops] [--api-base-url <url>] [--format md|xml|json]"
       );
     }
 
@@ -71,6 +72,16 @@ export function parseCommentsArgs(argv: string[]): CommentsArgs {
       continue;
     }
 
+    if (token === "--api-base-url") {
+      const value = argv[index + 1];
+      if (!value || value.startsWith("--")) {
+        throw makeError("E_SENTINEL_ARG_REQUIRED", "--api-base-url");
+      }
+      args.apiBaseUrlArg = value;
+      index += 1;
+      continue;
+    }
+
     if (token === "--provider") {
       const value = argv[index + 1];
       if (!value || value.startsWith("--")) {
@@ -138,13 +149,15 @@ export async function runCommentsCommand(
   const context = await resolveSentinelContext({
     providerName: args.providerName,
     repoArg: args.repoArg,
+    apiBaseUrlArg: args.apiBaseUrlArg,
     prNumber: args.prNumber,
     env,
     requirePr: true
   });
 
   const rawComments = await context.sentinel.listUnresolvedComments(context.repo, context.prNumber ?? 0, {
-    authToken: context.authToken
+    authToken: context.authToken,
+    apiBaseUrl: context.apiBaseUrl
   });
 
   const comments = sortComments(
@@ -9,6 +9,7 @@ import type { SentinelProviderName } from "./types";
 interface DashboardArgs {
   repoArg?: string;
   providerName: SentinelProviderName;
+  apiBaseUrlArg?: string;
   limit: number;
   configPath?: string;
   host: "127.0.0.1" | "0.0.0.0";
@@ -54,7 +55,7 @@ export function parseDashboardArgs(argv: string[]): DashboardArgs {
     if (token === "--help" || token === "-h") {
       throw makeError(
         "E_SENTINEL_HELP",
-        "Usage: 7s dashboard [--repo <owner/repo>] [--provider github|gitlab|bitbucket] [--limit <n>] [--config <path>] [--host 127.0.0.1|0.0.0.0] [--port <n>] [--refresh-sec <n>] [--open] [--no-open]"
+        "Usage: 7s dashboard [--repo <owner/repo>] [--provider github|gitlab|bitbucket|azure-devops] [--api-base-url <url>] [--limit <n>] [--config <path>] [--host 127.0.0.1|0.0.0.0] [--port <n>] [--refresh-sec <n>] [--open] [--no-open]"
       );
     }
 
@@ -68,6 +69,16 @@ export function parseDashboardArgs(argv: string[]): DashboardArgs {
       continue;
     }
 
+    if (token === "--api-base-url") {
+      const value = argv[index + 1];
+      if (!value || value.startsWith("--")) {
+        throw makeError("E_SENTINEL_ARG_REQUIRED", "--api-base-url");
+      }
+      args.apiBaseUrlArg = value;
+      index += 1;
+      continue;
+    }
+
     if (token === "--provider") {
       const value = argv[index + 1];
       if (!value || value.startsWith("--")) {
@@ -75,8 +86,13 @@ export function parseDashboardArgs(argv: string[]): DashboardArgs {
       }
 
       const normalized = value.trim().toLowerCase();
-      if (normalized !== "github" && normalized !== "gitlab" && normalized !== "bitbucket") {
-        throw makeError("E_SENTINEL_ARG_INVALID", "--provider must be github|gitlab|bitbucket");
+      if (
+        normalized !== "github" &&
+        normalized !== "gitlab" &&
+        normalized !== "bitbucket" &&
+        normalized !== "azure-devops"
+      ) {
+        throw makeError("E_SENTINEL_ARG_INVALID", "--provider must be github|gitlab|bitbucket|azure-devops");
       }
 
       args.providerName = normalized;
@@ -240,6 +256,7 @@ export async function runDashboardCommand(
     refreshSeconds: args.refreshSec,
     providerName: args.providerName,
     repoArg: args.repoArg,
+    apiBaseUrlArg: args.apiBaseUrlArg,
     limit: args.limit,
     configPath: args.configPath,
     env: auth.env,
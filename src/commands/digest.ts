@@ -1,5 +1,5 @@
 import { resolveSentinelContext } from "./shared/context";
-import { loadSentinelEyeConfig } from "./shared/sentinelEyeConfig";
+import { getConfiguredApiBaseUrl, loadSentinelEyeConfig } from "./shared/sentinelEyeConfig";
 import { enrichAndScorePullRequests } from "./shared/triageEngine";
 import type { SentinelDigestReport } from "./types";
 import type { SentinelNotification } from "../providers/types";
@@ -7,6 +7,7 @@ import type { SentinelNotification } from "../providers/types";
 interface DigestArgs {
   repoArg?: string;
   providerName: string;
+  apiBaseUrlArg?: string;
   format: "md" | "json";
   limit: number;
   includeAll: boolean;
@@ -48,7 +49,7 @@ export function parseDigestArgs(argv: string[]): DigestArgs {
     if (token === "--help" || token === "-h") {
       throw makeError(
         "E_SENTINEL_HELP",
-        "Usage: 7s digest [--repo <owner/repo>] [--provider github|gitlab|bitbucket] [--limit <n>] [--all] [--format md|json] [--config <path>]"
+        "Usage: 7s digest [--repo <owner/repo>] [--provider github|gitlab|bitbucket|azure-devops] [--api-base-url <url>] [--limit <n>] [--all] [--format md|json] [--config <path>]"
       );
     }
 
@@ -62,6 +63,16 @@ export function parseDigestArgs(argv: string[]): DigestArgs {
       continue;
     }
 
+    if (token === "--api-base-url") {
+      const value = argv[index + 1];
+      if (!value || value.startsWith("--")) {
+        throw makeError("E_SENTINEL_ARG_REQUIRED", "--api-base-url");
+      }
+      args.apiBaseUrlArg = value;
+      index += 1;
+      continue;
+    }
+
     if (token === "--provider") {
       const value = argv[index + 1];
       if (!value || value.startsWith("--")) {
@@ -201,17 +212,19 @@ export async function buildDigestReport(
   env: NodeJS.ProcessEnv = process.env
 ): Promise<{ args: DigestArgs; report: SentinelDigestReport }> {
   const args = parseDigestArgs(argv);
+  const configResult = await loadSentinelEyeConfig({
+    configPath: args.configPath
+  });
+
   const context = await resolveSentinelContext({
     providerName: args.providerName,
     repoArg: args.repoArg,
+    apiBaseUrlArg: args.apiBaseUrlArg,
+    configApiBaseUrl: getConfiguredApiBaseUrl(configResult.config, args.providerName),
     env,
     requirePr: false
   });
 
-  const configResult = await loadSentinelEyeConfig({
-    configPath: args.configPath
-  });
-
   const includeRead = args.includeAll || configResult.config.inbox.includeReadByDefault;
   const maxNotifications = Math.min(
     configResult.config.limits.maxNotifications,
@@ -227,7 +240,8 @@ export async function buildDigestReport(
         includeRead
       },
       {
-        authToken: context.authToken
+        authToken: context.authToken,
+        apiBaseUrl: context.apiBaseUrl
       }
     );
   } catch (error) {
@@ -242,6 +256,7 @@ export async function buildDigestReport(
   const scored = await enrichAndScorePullRequests({
     sentinel: context.sentinel,
     authToken: context.authToken,
+    apiBaseUrl: context.apiBaseUrl,
     config: configResult.config,
     pulls: deduped
       .filter((notification) => notification.pullNumber !== null)
@@ -7,6 +7,7 @@ export interface FailuresArgs {
   runId?: number;
   repoArg?: string;
   providerName: string;
+  apiBaseUrlArg?: string;
   format: "md" | "json";
   maxLinesPerRun: number;
   contextLines: number;
@@ -60,7 +61,7 @@ export function parseFailuresArgs(argv: string[]): FailuresArgs {
     if (token === "--help" || token === "-h") {
       throw makeError(
         "E_SENTINEL_HELP",
-        "Usage: 7s failures [--pr <number>] [--run <id>] [--repo <owner/repo>] [--provider github|gitlab|bitbucket] [--format md|json] [--context-lines <n>] [--max-lines-per-run <n>] [--max-runs <n>] [--max-log-bytes <n>] [--match token,token]"
+        "Usage: 7s failures [--pr <number>] [--run <id>] [--repo <owner/repo>] [--provider github|gitlab|bitbucket|azure-devops] [--api-base-url <url>] [--format md|json] [--context-lines <n>] [--max-lines-per-run <n>] [--max-runs <n>] [--max-log-bytes <n>] [--match token,token]"
       );
     }
 
@@ -94,6 +95,16 @@ export function parseFailuresArgs(argv: string[]): FailuresArgs {
       continue;
     }
 
+    if (token === "--api-base-url") {
+      const value = argv[index + 1];
+      if (!value || value.startsWith("--")) {
+        throw makeError("E_SENTINEL_ARG_REQUIRED", "--api-base-url");
+      }
+      args.apiBaseUrlArg = value;
+      index += 1;
+      continue;
+    }
+
     if (token === "--provider") {
       const value = argv[index + 1];
       if (!value || value.startsWith("--")) {
@@ -183,6 +194,7 @@ export async function collectFailureExcerpts(
   const context = await resolveSentinelContext({
     providerName: args.providerName,
     repoArg: args.repoArg,
+    apiBaseUrlArg: args.apiBaseUrlArg,
     prNumber: args.prNumber,
     env,
     requirePr: args.runId === undefined
@@ -195,7 +207,7 @@ export async function collectFailureExcerpts(
       runId: args.runId,
       maxRuns: args.maxRuns
     },
-    { authToken: context.authToken }
+    { authToken: context.authToken, apiBaseUrl: context.apiBaseUrl }
   );
 
   const excerpts: FailureLogExcerpt[] = [];
@@ -206,6 +218,7 @@ export async function collectFailureExcerpts(
         repo: context.repo,
         jobId: job.jobId,
         authToken: context.authToken,
+        apiBaseUrl: context.apiBaseUrl,
         maxLogBytes: args.maxLogBytes
       });
 
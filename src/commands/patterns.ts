@@ -1,11 +1,12 @@
 import { resolveSentinelContext } from "./shared/context";
 import { enrichAndScorePullRequests } from "./shared/triageEngine";
-import { loadSentinelEyeConfig } from "./shared/sentinelEyeConfig";
+import { getConfiguredApiBaseUrl, loadSentinelEyeConfig } from "./shared/sentinelEyeConfig";
 import type { SentinelPatternsReport } from "./types";
 
 interface PatternsArgs {
   repoArg?: string;
   providerName: string;
+  apiBaseUrlArg?: string;
   format: "md" | "json";
   limit: number;
   configPath?: string;
@@ -45,7 +46,7 @@ export function parsePatternsArgs(argv: string[]): PatternsArgs {
     if (token === "--help" || token === "-h") {
       throw makeError(
         "E_SENTINEL_HELP",
-        "Usage: 7s patterns [--repo <owner/repo>] [--provider github|gitlab|bitbucket] [--limit <n>] [--format md|json] [--config <path>]"
+        "Usage: 7s patterns [--repo <owner/repo>] [--provider github|gitlab|bitbucket|azure-devops] [--api-base-url <url>] [--limit <n>] [--format md|json] [--config <path>]"
       );
     }
 
@@ -59,6 +60,16 @@ export function parsePatternsArgs(argv: string[]): PatternsArgs {
       continue;
     }
 
+    if (token === "--api-base-url") {
+      const value = argv[index + 1];
+      if (!value || value.startsWith("--")) {
+        throw makeError("E_SENTINEL_ARG_REQUIRED", "--api-base-url");
+      }
+      args.apiBaseUrlArg = value;
+      index += 1;
+      continue;
+    }
+
     if (token === "--provider") {
       const value = argv[index + 1];
       if (!value || value.startsWith("--")) {
@@ -137,16 +148,19 @@ export async function buildPatternsReport(
   env: NodeJS.ProcessEnv = process.env
 ): Promise<{ args: PatternsArgs; report: SentinelPatternsReport }> {
   const args = parsePatternsArgs(argv);
+  const configResult = await loadSentinelEyeConfig({
+    configPath: args.configPath
+  });
+
   const context = await resolveSentinelContext({
     providerName: args.providerName,
     repoArg: args.repoArg,
+    apiBaseUrlArg: args.apiBaseUrlArg,
+    configApiBaseUrl: getConfiguredApiBaseUrl(configResult.config, args.providerName),
     env,
     requirePr: false
   });
 
-  const configResult = await loadSentinelEyeConfig({
-    configPath: args.configPath
-  });
   const pullLimit = Math.min(args.limit, configResult.config.limits.maxPullRequests);
 
   const pulls = await context.sentinel.listOpenPullRequests(
@@ -155,13 +169,15 @@ export async function buildPatternsReport(
       maxPullRequests: pullLimit
     },
     {
-      authToken: context.authToken
+      authToken: context.authToken,
+      apiBaseUrl: context.apiBaseUrl
     }
   );
 
   const scored = await enrichAndScorePullRequests({
     sentinel: context.sentinel,
     authToken: context.authToken,
+    apiBaseUrl: context.apiBaseUrl,
     config: configResult.config,
     pulls: pulls.map((summary) => ({
       repo: context.repo,
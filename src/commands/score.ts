@@ -1,5 +1,5 @@
 import { resolveSentinelContext } from "./shared/context";
-import { loadSentinelEyeConfig } from "./shared/sentinelEyeConfig";
+import { getConfiguredApiBaseUrl, loadSentinelEyeConfig } from "./shared/sentinelEyeConfig";
 import { enrichAndScorePullRequests } from "./shared/triageEngine";
 import type { SentinelScoreReport } from "./types";
 
@@ -7,6 +7,7 @@ interface ScoreArgs {
   prNumber?: number;
   repoArg?: string;
   providerName: string;
+  apiBaseUrlArg?: string;
   format: "md" | "json";
   limit: number;
   configPath?: string;
@@ -46,7 +47,7 @@ export function parseScoreArgs(argv: string[]): ScoreArgs {
     if (token === "--help" || token === "-h") {
       throw makeError(
         "E_SENTINEL_HELP",
-        "Usage: 7s score [--pr <number>] [--repo <owner/repo>] [--provider github|gitlab|bitbucket] [--limit <n>] [--format md|json] [--config <path>]"
+        "Usage: 7s score [--pr <number>] [--repo <owner/repo>] [--provider github|gitlab|bitbucket|azure-devops] [--api-base-url <url>] [--limit <n>] [--format md|json] [--config <path>]"
       );
     }
 
@@ -70,6 +71,16 @@ export function parseScoreArgs(argv: string[]): ScoreArgs {
       continue;
     }
 
+    if (token === "--api-base-url") {
+      const value = argv[index + 1];
+      if (!value || value.startsWith("--")) {
+        throw makeError("E_SENTINEL_ARG_REQUIRED", "--api-base-url");
+      }
+      args.apiBaseUrlArg = value;
+      index += 1;
+      continue;
+    }
+
     if (token === "--provider") {
       const value = argv[index + 1];
       if (!value || value.startsWith("--")) {
@@ -149,34 +160,43 @@ export async function buildScoreReport(
   env: NodeJS.ProcessEnv = process.env
 ): Promise<{ args: ScoreArgs; report: SentinelScoreReport }> {
   const args = parseScoreArgs(argv);
+  const configResult = await loadSentinelEyeConfig({
+    configPath: args.configPath
+  });
+
   const context = await resolveSentinelContext({
     providerName: args.providerName,
     repoArg: args.repoArg,
+    apiBaseUrlArg: args.apiBaseUrlArg,
+    configApiBaseUrl: getConfiguredApiBaseUrl(configResult.config, args.providerName),
     prNumber: args.prNumber,
     env,
     requirePr: false
   });
 
-  const configResult = await loadSentinelEyeConfig({
-    configPath: args.configPath
-  });
-
   const pullLimit = Math.min(args.limit, configResult.config.limits.maxPullRequests);
   const pulls = args.prNumber
-    ? [await context.sentinel.getPullRequestSummary(context.repo, args.prNumber, { authToken: context.authToken })]
+    ? [
+        await context.sentinel.getPullRequestSummary(context.repo, args.prNumber, {
+          authToken: context.authToken,
+          apiBaseUrl: context.apiBaseUrl
+        })
+      ]
     : await context.sentinel.listOpenPullRequests(
         context.repo,
         {
           maxPullRequests: pullLimit
         },
         {
-          authToken: context.authToken
+          authToken: context.authToken,
+          apiBaseUrl: context.apiBaseUrl
         }
       );
 
   const scored = await enrichAndScorePullRequests({
     sentinel: context.sentinel,
     authToken: context.authToken,
+    apiBaseUrl: context.apiBaseUrl,
     config: configResult.config,
     pulls: pulls.map((summary) => ({
       repo: context.repo,
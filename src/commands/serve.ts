@@ -0,0 +1,256 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { loadPolicyScorers } from "../classifier";
+import { readCodeOwnersFile } from "../codeOwners";
+import { parseGuardPolicy } from "../sevenShadowSystem";
+import { parseShadowPolicy } from "../shadows/engine";
+import { WEBHOOK_PROVIDERS, WEBHOOK_SECRET_ENV_VARS, type WebhookProviderName } from "../webhook/signatures";
+import { startWebhookServer, type WebhookShadowGateMaterial } from "../webhook/server";
+
+interface ServeArgs {
+  policyPath: string;
+  shadowPolicyPath?: string;
+  doctrinePath: string;
+  exceptionsPath?: string;
+  codeOwnersPath?: string;
+  host: "127.0.0.1" | "0.0.0.0";
+  port: number;
+  maxQueue: number;
+  maxBodyBytes: number;
+  publicUrl?: string;
+  postStatuses: boolean;
+  postSummaryComment: boolean;
+}
+
+function makeError(code: string, message: string): Error {
+  return new Error(`${code}: ${message}`);
+}
+
+function parsePositiveInt(value: string, optionName: string): number {
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw makeError("E_SENTINEL_ARG_INVALID", `${optionName} must be a positive integer`);
+  }
+
+  return parsed;
+}
+
+function parseHost(value: string): "127.0.0.1" | "0.0.0.0" {
+  if (value === "127.0.0.1" || value === "0.0.0.0") {
+    return value;
+  }
+
+  throw makeError("E_SENTINEL_ARG_INVALID", "--host must be 127.0.0.1|0.0.0.0");
+}
+
+function readValue(argv: string[], index: number, optionName: string): string {
+  const value = argv[index + 1];
+  if (!value || value.startsWith("--")) {
+    throw makeError("E_SENTINEL_ARG_REQUIRED", optionName);
+  }
+
+  return value;
+}
+
+export function parseServeArgs(argv: string[]): ServeArgs {
+  const args: ServeArgs = {
+    policyPath: "config/seven-shadow-system.policy.json",
+    doctrinePath: "config/shadow-doctrine.sample.json",
+    host: "127.0.0.1",
+    port: 8787,
+    maxQueue: 100,
+    maxBodyBytes: 1024 * 1024,
+    postStatuses: true,
+    postSummaryComment: false
+  };
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const token = argv[index] ?? "";
+
+    if (token === "--help" || token === "-h") {
+      throw makeError(
+        "E_SENTINEL_HELP",
+        "Usage: 7s serve [--policy <path>] [--shadow-policy <path>] [--doctrine <path>] [--exceptions <path>] [--codeowners <path>] [--host 127.0.0.1|0.0.0.0] [--port <n>] [--max-queue <n>] [--max-body-bytes <n>] [--public-url <url>] [--no-status] [--summary-comment]"
+      );
+    }
+
+    if (token === "--policy") {
+      args.policyPath = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--shadow-policy") {
+      args.shadowPolicyPath = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--doctrine") {
+      args.doctrinePath = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--exceptions") {
+      args.exceptionsPath = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--codeowners") {
+      args.codeOwnersPath = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--host") {
+      args.host = parseHost(readValue(argv, index, token).trim());
+      index += 1;
+      continue;
+    }
+
+    if (token === "--port") {
+      const parsed = parsePositiveInt(readValue(argv, index, token), token);
+      if (parsed > 65535) {
+        throw makeError("E_SENTINEL_ARG_INVALID", "--port must be <= 65535");
+      }
+      args.port = parsed;
+      index += 1;
+      continue;
+    }
+
+    if (token === "--max-queue") {
+      args.maxQueue = parsePositiveInt(readValue(argv, index, token), token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--max-body-bytes") {
+      args.maxBodyBytes = parsePositiveInt(readValue(argv, index, token), token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--public-url") {
+      const value = readValue(argv, index, token).trim().replace(/\/+$/, "");
+      if (!/^https?:\/\//.test(value)) {
+        throw makeError("E_SENTINEL_ARG_INVALID", "--public-url must be an http(s) URL");
+      }
+      args.publicUrl = value;
+      index += 1;
+      continue;
+    }
+
+    if (token === "--no-status") {
+      args.postStatuses = false;
+      continue;
+    }
+
+    if (token === "--summary-comment") {
+      args.postSummaryComment = true;
+      continue;
+    }
+
+    if (token.startsWith("--")) {
+      throw makeError("E_SENTINEL_ARG_UNKNOWN", token);
+    }
+  }
+
+  return args;
+}
+
+async function loadJson(filePath: string): Promise<unknown> {
+  const raw = await fs.readFile(path.resolve(process.cwd(), filePath), "utf8");
+  return JSON.parse(raw) as unknown;
+}
+
+export function resolveWebhookSecrets(env: NodeJS.ProcessEnv): Partial<Record<WebhookProviderName, string>> {
+  const secrets: Partial<Record<WebhookProviderName, string>> = {};
+
+  for (const provider of WEBHOOK_PROVIDERS) {
+    const value = env[WEBHOOK_SECRET_ENV_VARS[provider]]?.trim();
+    if (value) {
+      secrets[provider] = value;
+    }
+  }
+
+  return secrets;
+}
+
+export async function runServeCommand(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): Promise<number> {
+  const args = parseServeArgs(argv);
+  const secrets = resolveWebhookSecrets(env);
+  const enabledProviders = WEBHOOK_PROVIDERS.filter((provider) => Boolean(secrets[provider]));
+
+  if (enabledProviders.length === 0) {
+    throw makeError(
+      "E_WEBHOOK_SECRET_REQUIRED",
+      `set at least one of ${WEBHOOK_PROVIDERS.map((provider) => WEBHOOK_SECRET_ENV_VARS[provider]).join(", ")}`
+    );
+  }
+
+  const guardPolicyRaw = await loadJson(args.policyPath);
+  const shadowPolicyRaw = args.shadowPolicyPath ? await loadJson(args.shadowPolicyPath) : undefined;
+  const shadowGate: WebhookShadowGateMaterial | undefined = args.shadowPolicyPath
+    ? {
+        policyRaw: shadowPolicyRaw,
+        doctrineRaw: await loadJson(args.doctrinePath),
+        exceptionsRaw: args.exceptionsPath ? await loadJson(args.exceptionsPath) : undefined,
+        scorers: await loadPolicyScorers(parseShadowPolicy(shadowPolicyRaw).guardPolicy, args.shadowPolicyPath)
+      }
+    : undefined;
+  const codeOwners = await readCodeOwnersFile(process.cwd(), args.codeOwnersPath);
+
+  const server = await startWebhookServer({
+    host: args.host,
+    port: args.port,
+    guardPolicyRaw,
+    guardPolicyPath: args.policyPath,
+    guardScorers: await loadPolicyScorers(parseGuardPolicy(guardPolicyRaw), args.policyPath),
+    shadowGate,
+    codeOwners,
+    secrets,
+    env,
+    maxQueueSize: args.maxQueue,
+    maxBodyBytes: args.maxBodyBytes,
+    dedupCapacity: 1000,
+    postStatuses: args.postStatuses,
+    postSummaryComment: args.postSummaryComment,
+    statusTimeoutMs: 10000,
+    publicUrl: args.publicUrl,
+    log: (line) => {
+      process.stdout.write(`${line}\n`);
+    }
+  });
+
+  process.stdout.write(`Seven Shadow webhook receiver running at ${server.url}\n`);
+  process.stdout.write(`Providers: ${enabledProviders.join(", ")}\n`);
+  process.stdout.write(`Shadow gate: ${shadowGate ? "enabled" : "disabled"}\n`);
+
+  const shutdown = async (): Promise<void> => {
+    try {
+      await server.close();
+      process.stdout.write("Seven Shadow webhook receiver stopped.\n");
+      process.exit(0);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      process.stderr.write(`Webhook receiver shutdown failed: ${message}\n`);
+      process.exit(1);
+    }
+  };
+
+  process.once("SIGINT", () => {
+    void shutdown();
+  });
+
+  process.once("SIGTERM", () => {
+    void shutdown();
+  });
+
+  return 0;
+}
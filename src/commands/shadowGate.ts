@@ -1,8 +1,13 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 
-import { evaluateShadowGate, renderShadowGateMarkdown } from "../shadows/engine";
-import type { ShadowGateReportV3 } from "../shadows/types";
+import { loadPolicyScorers } from "../classifier";
+import { loadCoverageReport } from "../coverage";
+import { resolveProviderApiBaseUrl } from "../providers/apiBaseUrl";
+import { getProviderByName } from "../providers/registry";
+import { readGitDiff } from "../shadows/diff";
+import { evaluateShadowGate, parseShadowPolicy, renderShadowGateMarkdown } from "../shadows/engine";
+import type { NormalizedShadowPolicy, ShadowGateReportV3 } from "../shadows/types";
 
 interface ShadowGateArgs {
   policyPath: string;
@@ -11,6 +16,12 @@ interface ShadowGateArgs {
   eventPath?: string;
   eventName?: string;
   providerName: string;
+  diffPath?: string;
+  diffBase?: string;
+  diffHead?: string;
+  diffFromProvider: boolean;
+  coveragePath?: string;
+  baseCoveragePath?: string;
   format: "md" | "json";
   noColor: boolean;
   forceColor: boolean;
@@ -33,6 +44,7 @@ export function parseShadowGateArgs(argv: string[]): ShadowGateArgs {
     policyPath: "config/seven-shadow-system.policy.v3.sample.json",
     doctrinePath: "config/shadow-doctrine.sample.json",
     providerName: "github",
+    diffFromProvider: false,
     format: "md",
     noColor: false,
     forceColor: false
@@ -44,7 +56,7 @@ export function parseShadowGateArgs(argv: string[]): ShadowGateArgs {
     if (token === "--help" || token === "-h") {
       throw makeError(
         "E_SHADOW_HELP",
-        "Usage: 7s shadow-gate [--policy <path>] [--doctrine <path>] [--exceptions <path>] [--event <path>] [--event-name <name>] [--provider github|gitlab|bitbucket] [--format md|json] [--no-color]"
+        "Usage: 7s shadow-gate [--policy <path>] [--doctrine <path>] [--exceptions <path>] [--event <path>] [--event-name <name>] [--provider github|gitlab|bitbucket|bitbucket-server|azure-devops|gitea] [--diff <path> | --diff-base <ref> [--diff-head <ref>] | --diff-from-provider] [--coverage <path> [--base-coverage <path>]] [--format md|json] [--no-color]"
       );
     }
 
@@ -108,6 +120,44 @@ export function parseShadowGateArgs(argv: string[]): ShadowGateArgs {
       continue;
     }
 
+    if (token === "--diff" || token === "--diff-base" || token === "--diff-head") {
+      const value = argv[index + 1];
+      if (!value || value.startsWith("--")) {
+        throw makeError("E_SHADOW_ARG_REQUIRED", token);
+      }
+      if (token !== "--diff" && value.startsWith("-")) {
+        throw makeError("E_SHADOW_ARG_INVALID", `${token} must be a git ref`);
+      }
+      if (token === "--diff") {
+        args.diffPath = value;
+      } else if (token === "--diff-base") {
+        args.diffBase = value;
+      } else {
+        args.diffHead = value;
+      }
+      index += 1;
+      continue;
+    }
+
+    if (token === "--diff-from-provider") {
+      args.diffFromProvider = true;
+      continue;
+    }
+
+    if (token === "--coverage" || token === "--base-coverage") {
+      const value = argv[index + 1];
+      if (!value || value.startsWith("--")) {
+        throw makeError("E_SHADOW_ARG_REQUIRED", token);
+      }
+      if (token === "--coverage") {
+        args.coveragePath = value;
+      } else {
+        args.baseCoveragePath = value;
+      }
+      index += 1;
+      continue;
+    }
+
     if (token === "--format") {
       const value = argv[index + 1];
       if (!value || value.startsWith("--")) {
@@ -133,6 +183,19 @@ export function parseShadowGateArgs(argv: string[]): ShadowGateArgs {
     }
   }
 
+  const diffSources = [args.diffPath !== undefined, args.diffBase !== undefined, args.diffFromProvider].filter((item) => item);
+  if (diffSources.length > 1) {
+    throw makeError("E_SHADOW_ARG_INVALID", "use only one of --diff, --diff-base or --diff-from-provider");
+  }
+
+  if (args.diffHead && !args.diffBase) {
+    throw makeError("E_SHADOW_ARG_REQUIRED", "--diff-base is required with --diff-head");
+  }
+
+  if (args.baseCoveragePath && !args.coveragePath) {
+    throw makeError("E_SHADOW_ARG_REQUIRED", "--coverage is required with --base-coverage");
+  }
+
   return args;
 }
 
@@ -141,6 +204,72 @@ async function loadJson(filePath: string): Promise<unknown> {
   return JSON.parse(raw) as unknown;
 }
 
+async function loadProviderDiff(
+  args: ShadowGateArgs,
+  env: NodeJS.ProcessEnv,
+  eventName: string,
+  eventPayload: unknown,
+  policy: NormalizedShadowPolicy
+): Promise<string> {
+  const provider = getProviderByName(args.providerName);
+  if (!provider?.fetchPullRequestDiff) {
+    throw makeError("E_SHADOW_DIFF_UNSUPPORTED", `provider '${args.providerName}' cannot list changed file patches; use --diff or --diff-base`);
+  }
+
+  const pullContext = provider.extractPullContext(eventName, eventPayload);
+  if (!pullContext) {
+    throw makeError("E_SHADOW_DIFF_READ", "event payload has no pull request context");
+  }
+
+  const tokenEnvVar = provider.approvalTokenEnvVar ?? "GITHUB_TOKEN";
+  const token = env[tokenEnvVar];
+  if (!token) {
+    throw makeError("E_SHADOW_DIFF_READ", `${tokenEnvVar} is required for --diff-from-provider`);
+  }
+
+  try {
+    return await provider.fetchPullRequestDiff(pullContext, {
+      authToken: token,
+      githubToken: token,
+      apiBaseUrl: resolveProviderApiBaseUrl(provider, { env }),
+      allowedAuthors: new Set(),
+      fetchTimeoutMs: policy.guardPolicy.approvals.fetchTimeoutMs,
+      maxPages: policy.guardPolicy.approvals.maxPages,
+      retry: policy.guardPolicy.approvals.retry
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw makeError("E_SHADOW_DIFF_READ", message.slice(0, 220));
+  }
+}
+
+async function loadDiff(
+  args: ShadowGateArgs,
+  env: NodeJS.ProcessEnv,
+  eventName: string,
+  eventPayload: unknown,
+  policy: NormalizedShadowPolicy
+): Promise<string | undefined> {
+  if (args.diffPath) {
+    try {
+      return await fs.readFile(path.resolve(process.cwd(), args.diffPath), "utf8");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw makeError("E_SHADOW_DIFF_READ", message.slice(0, 220));
+    }
+  }
+
+  if (args.diffBase) {
+    return readGitDiff(args.diffBase, args.diffHead ?? "HEAD");
+  }
+
+  if (args.diffFromProvider) {
+    return loadProviderDiff(args, env, eventName, eventPayload, policy);
+  }
+
+  return undefined;
+}
+
 function shouldUseColor(args: ShadowGateArgs, env: NodeJS.ProcessEnv): boolean {
   if (args.noColor || env.NO_COLOR === "1" || env.NO_COLOR === "true") {
     return false;
@@ -205,13 +334,24 @@ export async function buildShadowGateReport(
     }
   }
 
+  const policy = parseShadowPolicy(policyRaw);
+  const coverage = args.coveragePath
+    ? {
+        head: await loadCoverageReport(args.coveragePath),
+        ...(args.baseCoveragePath ? { base: await loadCoverageReport(args.baseCoveragePath) } : {})
+      }
+    : undefined;
   const evaluation = evaluateShadowGate({
     providerName: args.providerName,
     eventName,
     eventPayload,
     policyRaw,
     doctrineRaw,
-    exceptionsRaw
+    exceptionsRaw,
+    scorers: await loadPolicyScorers(policy.guardPolicy, policyPath),
+    diff: await loadDiff(args, env, eventName, eventPayload, policy),
+    secretFingerprintKey: env.SEVEN_SHADOW_FINGERPRINT_KEY,
+    coverage
   });
 
   return {
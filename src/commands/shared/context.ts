@@ -1,6 +1,7 @@
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
 
+import { resolveProviderApiBaseUrl } from "../../providers/apiBaseUrl";
 import { getProviderByName } from "../../providers/registry";
 import type { ProviderAdapter, SentinelProviderAdapter, SentinelRepositoryRef } from "../../providers/types";
 
@@ -14,6 +15,7 @@ export interface ResolvedSentinelContext {
   prNumber: number | null;
   authToken: string;
   authTokenEnvVar: string;
+  apiBaseUrl?: string;
 }
 
 interface ResolveSentinelContextOptions {
@@ -23,6 +25,8 @@ interface ResolveSentinelContextOptions {
   cwd?: string;
   env?: NodeJS.ProcessEnv;
   requirePr?: boolean;
+  apiBaseUrlArg?: string;
+  configApiBaseUrl?: string;
 }
 
 function makeError(code: string, message: string): Error {
@@ -152,6 +156,11 @@ export async function resolveSentinelContext(options: ResolveSentinelContextOpti
     );
   }
 
+  const apiBaseUrl = resolveProviderApiBaseUrl(provider, {
+    flag: options.apiBaseUrlArg,
+    env,
+    config: options.configApiBaseUrl
+  });
   const cwd = options.cwd ?? process.cwd();
   const repo = options.repoArg ? parseRepoArg(options.repoArg) : await detectRepoFromGit(cwd);
   const requestedPr = asPositiveInt(options.prNumber, "--pr");
@@ -162,7 +171,8 @@ export async function resolveSentinelContext(options: ResolveSentinelContextOpti
   if (!prNumber && requirePr) {
     const branch = await detectCurrentBranch(cwd);
     prNumber = await sentinel.resolveOpenPullRequestForBranch(repo, branch, {
-      authToken
+      authToken,
+      apiBaseUrl
     });
 
     if (!prNumber) {
@@ -180,6 +190,7 @@ export async function resolveSentinelContext(options: ResolveSentinelContextOpti
     repo,
     prNumber,
     authToken,
-    authTokenEnvVar
+    authTokenEnvVar,
+    apiBaseUrl
   };
 }
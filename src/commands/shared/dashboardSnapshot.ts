@@ -4,6 +4,7 @@ import {
 } from "./context";
 import {
   type SentinelEyeConfig,
+  getConfiguredApiBaseUrl,
   loadSentinelEyeConfig
 } from "./sentinelEyeConfig";
 import { enrichAndScorePullRequests } from "./triageEngine";
@@ -24,6 +25,7 @@ import type {
 export interface BuildDashboardSnapshotOptions {
   providerName: SentinelProviderName;
   repoArg?: string;
+  apiBaseUrlArg?: string;
   limit: number;
   configPath?: string;
   env?: NodeJS.ProcessEnv;
@@ -133,17 +135,19 @@ async function resolveBaseInputs(
   config: SentinelEyeConfig;
   configPath: string;
 }> {
+  const configResult = await loadSentinelEyeConfig({
+    configPath: options.configPath
+  });
+
   const context = await resolveSentinelContext({
     providerName: options.providerName,
     repoArg: options.repoArg,
+    apiBaseUrlArg: options.apiBaseUrlArg,
+    configApiBaseUrl: getConfiguredApiBaseUrl(configResult.config, options.providerName),
     env: options.env,
     requirePr: false
   });
 
-  const configResult = await loadSentinelEyeConfig({
-    configPath: options.configPath
-  });
-
   return {
     context,
     config: configResult.config,
@@ -259,13 +263,15 @@ export async function buildDashboardSnapshot(options: BuildDashboardSnapshotOpti
         maxPullRequests: pullLimit
       },
       {
-        authToken: context.authToken
+        authToken: context.authToken,
+        apiBaseUrl: context.apiBaseUrl
       }
     );
 
     const scored = await enrichAndScorePullRequests({
       sentinel: context.sentinel,
       authToken: context.authToken,
+      apiBaseUrl: context.apiBaseUrl,
       config,
       pulls: pulls.map((summary) => ({
         repo: context.repo,
@@ -316,7 +322,8 @@ export async function buildDashboardSnapshot(options: BuildDashboardSnapshotOpti
           includeRead
         },
         {
-          authToken: context.authToken
+          authToken: context.authToken,
+          apiBaseUrl: context.apiBaseUrl
         }
       );
     } catch (error) {
@@ -331,6 +338,7 @@ export async function buildDashboardSnapshot(options: BuildDashboardSnapshotOpti
     const scored = await enrichAndScorePullRequests({
       sentinel: context.sentinel,
       authToken: context.authToken,
+      apiBaseUrl: context.apiBaseUrl,
       config,
       pulls: deduped
         .filter((notification) => notification.pullNumber !== null)
@@ -38,7 +38,15 @@ const SentinelEyeConfigSchema = z.object({
       linesChanged: z.number().min(0).max(100),
       duplicatePeers: z.number().min(0).max(100)
     })
-  })
+  }),
+  providers: z
+    .record(
+      z.string().regex(/^[a-z][a-z0-9-]*$/),
+      z.object({
+        apiBaseUrl: z.string().url().optional()
+      })
+    )
+    .optional()
 });
 
 export type SentinelEyeConfig = z.infer<typeof SentinelEyeConfigSchema>;
@@ -116,6 +124,26 @@ export function parseSentinelEyeConfig(raw: unknown): SentinelEyeConfig {
   }
 }
 
+function buildCanonicalProviders(
+  providers: SentinelEyeConfig["providers"]
+): Pick<SentinelEyeConfig, "providers"> {
+  if (!providers) {
+    return {};
+  }
+
+  const canonical: NonNullable<SentinelEyeConfig["providers"]> = {};
+  for (const name of Object.keys(providers).sort()) {
+    const entry = providers[name];
+    canonical[name] = entry?.apiBaseUrl ? { apiBaseUrl: entry.apiBaseUrl } : {};
+  }
+
+  return { providers: canonical };
+}
+
+export function getConfiguredApiBaseUrl(config: SentinelEyeConfig, providerName: string): string | undefined {
+  return config.providers?.[providerName]?.apiBaseUrl;
+}
+
 export function buildCanonicalSentinelEyeConfig(config: SentinelEyeConfig): SentinelEyeConfig {
   return {
     version: 1,
@@ -152,7 +180,8 @@ export function buildCanonicalSentinelEyeConfig(config: SentinelEyeConfig): Sent
         linesChanged: config.scoring.weights.linesChanged,
         duplicatePeers: config.scoring.weights.duplicatePeers
       }
-    }
+    },
+    ...buildCanonicalProviders(config.providers)
   };
 }
 
@@ -29,6 +29,7 @@ interface ClusterMembership {
 interface BuildScoreOptions {
   sentinel: SentinelProviderAdapter;
   authToken: string;
+  apiBaseUrl?: string;
   config: SentinelEyeConfig;
   pulls: PullRequestWorkItem[];
 }
@@ -308,9 +309,15 @@ export async function enrichAndScorePullRequests(options: BuildScoreOptions): Pr
   const baseItems: SentinelScoredPullRequest[] = [];
 
   for (const pull of pulls) {
-    const summary = pull.summary ?? (await options.sentinel.getPullRequestSummary(pull.repo, pull.prNumber, { authToken: options.authToken }));
+    const summary =
+      pull.summary ??
+      (await options.sentinel.getPullRequestSummary(pull.repo, pull.prNumber, {
+        authToken: options.authToken,
+        apiBaseUrl: options.apiBaseUrl
+      }));
     const comments = await options.sentinel.listUnresolvedComments(pull.repo, pull.prNumber, {
-      authToken: options.authToken
+      authToken: options.authToken,
+      apiBaseUrl: options.apiBaseUrl
     });
     const failureRuns = await options.sentinel.listFailureRuns(
       pull.repo,
@@ -319,7 +326,8 @@ export async function enrichAndScorePullRequests(options: BuildScoreOptions): Pr
         maxRuns: options.config.limits.maxFailureRunsPerPullRequest
       },
       {
-        authToken: options.authToken
+        authToken: options.authToken,
+        apiBaseUrl: options.apiBaseUrl
       }
     );
     const files = await options.sentinel.listPullRequestFiles(
@@ -329,7 +337,8 @@ export async function enrichAndScorePullRequests(options: BuildScoreOptions): Pr
         maxFiles: options.config.limits.maxFilesPerPullRequest
       },
       {
-        authToken: options.authToken
+        authToken: options.authToken,
+        apiBaseUrl: options.apiBaseUrl
       }
     );
 
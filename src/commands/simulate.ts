@@ -0,0 +1,235 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { loadPolicyScorers } from "../classifier";
+import { resolveProviderApiBaseUrl } from "../providers/apiBaseUrl";
+import { getProviderByName } from "../providers/registry";
+import type { ProviderAdapter, ProviderHistoricalPullRequest } from "../providers/types";
+import { expandAuthorTeams, parseGuardPolicy } from "../sevenShadowSystem";
+import { parseSimulationExport, renderSimulationMarkdown, simulatePolicies, type SimulationPolicy } from "../simulation";
+
+interface SimulateArgs {
+  policyPath: string;
+  candidatePath?: string;
+  exportPath?: string;
+  repo?: string;
+  providerName: string;
+  apiBaseUrlArg?: string;
+  limit: number;
+  saveExportPath?: string;
+  format: "md" | "json";
+}
+
+function makeError(code: string, message: string): Error {
+  return new Error(`${code}: ${message}`);
+}
+
+function readValue(argv: string[], index: number, optionName: string): string {
+  const value = argv[index + 1];
+  if (!value || value.startsWith("--")) {
+    throw makeError("E_SENTINEL_ARG_REQUIRED", optionName);
+  }
+
+  return value;
+}
+
+export function parseSimulateArgs(argv: string[]): SimulateArgs {
+  const args: SimulateArgs = {
+    policyPath: "config/seven-shadow-system.policy.json",
+    providerName: "github",
+    limit: 50,
+    format: "md"
+  };
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const token = argv[index] ?? "";
+
+    if (token === "--help" || token === "-h") {
+      throw makeError(
+        "E_SENTINEL_HELP",
+        "Usage: 7s simulate --candidate <path> [--policy <path>] (--export <path> | --repo owner/repo [--provider github] [--api-base-url <url>] [--limit <n>]) [--save-export <path>] [--format md|json]"
+      );
+    }
+
+    if (token === "--policy") {
+      args.policyPath = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--candidate") {
+      args.candidatePath = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--export") {
+      args.exportPath = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--repo") {
+      const value = readValue(argv, index, token).trim();
+      if (!/^[^/\s]+\/[^/\s]+$/.test(value)) {
+        throw makeError("E_SENTINEL_ARG_INVALID", "--repo must be owner/repo");
+      }
+      args.repo = value;
+      index += 1;
+      continue;
+    }
+
+    if (token === "--provider") {
+      args.providerName = readValue(argv, index, token).trim().toLowerCase();
+      index += 1;
+      continue;
+    }
+
+    if (token === "--api-base-url") {
+      args.apiBaseUrlArg = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--limit") {
+      const parsed = Number.parseInt(readValue(argv, index, token), 10);
+      if (!Number.isInteger(parsed) || parsed <= 0 || parsed > 500) {
+        throw makeError("E_SENTINEL_ARG_INVALID", "--limit must be an integer between 1 and 500");
+      }
+      args.limit = parsed;
+      index += 1;
+      continue;
+    }
+
+    if (token === "--save-export") {
+      args.saveExportPath = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--format") {
+      const value = readValue(argv, index, token).trim().toLowerCase();
+      if (value !== "md" && value !== "json") {
+        throw makeError("E_SENTINEL_ARG_INVALID", "--format must be md|json");
+      }
+      args.format = value;
+      index += 1;
+      continue;
+    }
+
+    if (token.startsWith("--")) {
+      throw makeError("E_SENTINEL_ARG_UNKNOWN", token);
+    }
+  }
+
+  if (!args.candidatePath) {
+    throw makeError("E_SENTINEL_ARG_REQUIRED", "--candidate");
+  }
+
+  if (Boolean(args.exportPath) === Boolean(args.repo)) {
+    throw makeError("E_SENTINEL_ARG_REQUIRED", "exactly one of --export or --repo");
+  }
+
+  return args;
+}
+
+async function loadJson(filePath: string, code: string): Promise<unknown> {
+  try {
+    const raw = await fs.readFile(path.resolve(process.cwd(), filePath), "utf8");
+    return JSON.parse(raw) as unknown;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw makeError(code, message.slice(0, 220));
+  }
+}
+
+async function loadSimulationPolicy(
+  policyPath: string,
+  provider: ProviderAdapter,
+  env: NodeJS.ProcessEnv,
+  apiBaseUrl: string | undefined
+): Promise<SimulationPolicy> {
+  const policy = parseGuardPolicy(await loadJson(policyPath, "E_SIMULATE_POLICY_READ"));
+  const teamExpansion = await expandAuthorTeams(policy, provider, env, apiBaseUrl, undefined);
+
+  return {
+    path: policyPath,
+    policy: teamExpansion.policy,
+    scorers: await loadPolicyScorers(policy, policyPath),
+    findings: teamExpansion.findings
+  };
+}
+
+async function fetchHistory(
+  args: SimulateArgs,
+  provider: ProviderAdapter,
+  env: NodeJS.ProcessEnv,
+  apiBaseUrl: string | undefined
+): Promise<ProviderHistoricalPullRequest[]> {
+  if (!provider.listMergedPullRequests) {
+    throw makeError("E_SIMULATE_PROVIDER_UNSUPPORTED", `provider '${provider.name}' cannot list merged pull requests; use --export`);
+  }
+
+  const tokenEnvVar = provider.approvalTokenEnvVar ?? "GITHUB_TOKEN";
+  const authToken = env[tokenEnvVar];
+  if (!authToken) {
+    throw makeError("E_SIMULATE_TOKEN_REQUIRED", `${tokenEnvVar} is required to read pull request history`);
+  }
+
+  const [owner, repo] = (args.repo ?? "").split("/");
+  return provider.listMergedPullRequests(
+    {
+      owner: owner ?? "",
+      repo: repo ?? "",
+      limit: args.limit
+    },
+    {
+      authToken,
+      apiBaseUrl,
+      fetchTimeoutMs: 10_000
+    }
+  );
+}
+
+export async function runSimulateCommand(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): Promise<number> {
+  const args = parseSimulateArgs(argv);
+  const provider = getProviderByName(args.providerName);
+  if (!provider) {
+    throw makeError("E_SENTINEL_ARG_INVALID", `--provider '${args.providerName}' is not supported`);
+  }
+
+  const apiBaseUrl = resolveProviderApiBaseUrl(provider, {
+    flag: args.apiBaseUrlArg,
+    env
+  });
+  const current = await loadSimulationPolicy(args.policyPath, provider, env, apiBaseUrl);
+  const candidate = await loadSimulationPolicy(args.candidatePath ?? "", provider, env, apiBaseUrl);
+
+  const pullRequests = args.exportPath
+    ? parseSimulationExport(await loadJson(args.exportPath, "E_SIMULATE_EXPORT_READ"))
+    : await fetchHistory(args, provider, env, apiBaseUrl);
+
+  if (args.saveExportPath) {
+    const savePath = path.resolve(process.cwd(), args.saveExportPath);
+    await fs.mkdir(path.dirname(savePath), { recursive: true });
+    await fs.writeFile(savePath, `${JSON.stringify({ pullRequests }, null, 2)}\n`, "utf8");
+  }
+
+  const report = simulatePolicies({
+    source: args.exportPath ? `export:${args.exportPath}` : `${args.providerName}:${args.repo ?? ""}`,
+    current,
+    candidate,
+    pullRequests
+  });
+
+  if (args.format === "json") {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+    return 0;
+  }
+
+  process.stdout.write(renderSimulationMarkdown(report));
+  return 0;
+}
@@ -0,0 +1,153 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { resolveProviderApiBaseUrl } from "../providers/apiBaseUrl";
+import { getProviderByName } from "../providers/registry";
+import type { GuardReportV2 } from "../sevenShadowSystem";
+import type { ShadowGateReportV3 } from "../shadows/types";
+import { publishSummaryComment, renderSummaryComment } from "../summaryComment";
+
+interface SummaryCommentArgs {
+  guardReportPath?: string;
+  shadowReportPath?: string;
+  eventPath?: string;
+  eventName?: string;
+  providerName: string;
+  apiBaseUrlArg?: string;
+  dryRun: boolean;
+}
+
+function makeError(code: string, message: string): Error {
+  return new Error(`${code}: ${message}`);
+}
+
+function readValue(argv: string[], index: number, optionName: string): string {
+  const value = argv[index + 1];
+  if (!value || value.startsWith("--")) {
+    throw makeError("E_SENTINEL_ARG_REQUIRED", optionName);
+  }
+
+  return value;
+}
+
+export function parseSummaryCommentArgs(argv: string[]): SummaryCommentArgs {
+  const args: SummaryCommentArgs = {
+    providerName: "github",
+    dryRun: false
+  };
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const token = argv[index] ?? "";
+
+    if (token === "--help" || token === "-h") {
+      throw makeError(
+        "E_SENTINEL_HELP",
+        "Usage: 7s summary-comment [--guard-report <path>] [--shadow-report <path>] [--event <path>] [--event-name <name>] [--provider github|gitlab|bitbucket] [--api-base-url <url>] [--dry-run]"
+      );
+    }
+
+    if (token === "--guard-report") {
+      args.guardReportPath = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--shadow-report") {
+      args.shadowReportPath = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--event") {
+      args.eventPath = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--event-name") {
+      args.eventName = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--provider") {
+      args.providerName = readValue(argv, index, token).trim().toLowerCase();
+      index += 1;
+      continue;
+    }
+
+    if (token === "--api-base-url") {
+      args.apiBaseUrlArg = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--dry-run") {
+      args.dryRun = true;
+      continue;
+    }
+
+    if (token.startsWith("--")) {
+      throw makeError("E_SENTINEL_ARG_UNKNOWN", token);
+    }
+  }
+
+  if (!args.guardReportPath && !args.shadowReportPath) {
+    throw makeError("E_SENTINEL_ARG_REQUIRED", "--guard-report or --shadow-report");
+  }
+
+  return args;
+}
+
+async function loadJson<T>(filePath: string, label: string): Promise<T> {
+  try {
+    const raw = await fs.readFile(path.resolve(process.cwd(), filePath), "utf8");
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw makeError("E_SUMMARY_COMMENT_READ", `${label}: ${message.slice(0, 220)}`);
+  }
+}
+
+export async function runSummaryCommentCommand(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): Promise<number> {
+  const args = parseSummaryCommentArgs(argv);
+  const guardReport = args.guardReportPath ? await loadJson<GuardReportV2>(args.guardReportPath, "--guard-report") : null;
+  const shadowGateReport = args.shadowReportPath
+    ? await loadJson<ShadowGateReportV3>(args.shadowReportPath, "--shadow-report")
+    : null;
+  const body = renderSummaryComment({ guardReport, shadowGateReport });
+
+  if (args.dryRun) {
+    process.stdout.write(body);
+    return 0;
+  }
+
+  const provider = getProviderByName(args.providerName);
+  if (!provider) {
+    throw makeError("E_SENTINEL_ARG_INVALID", `--provider '${args.providerName}' is not supported`);
+  }
+
+  const eventPath = args.eventPath ?? env.GITHUB_EVENT_PATH;
+  if (!eventPath) {
+    throw makeError("E_SENTINEL_ARG_REQUIRED", "--event (or GITHUB_EVENT_PATH)");
+  }
+
+  const eventPayload = await loadJson<unknown>(eventPath, "--event");
+  const result = await publishSummaryComment({
+    provider,
+    eventName: args.eventName ?? env.GITHUB_EVENT_NAME ?? "pull_request",
+    eventPayload,
+    body,
+    env,
+    apiBaseUrl: resolveProviderApiBaseUrl(provider, {
+      flag: args.apiBaseUrlArg,
+      env
+    })
+  });
+
+  process.stdout.write(`Summary comment ${result.action} (id ${result.id}).\n`);
+  return 0;
+}
@@ -3,6 +3,11 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import { promisify } from "node:util";
 
+import { compareCoverage, loadCoverageReport, type CoverageComparison } from "../coverage";
+import { parseUnifiedDiff } from "../shadows/diff";
+import { DEFAULT_TEST_MAPPING } from "../shadows/engine";
+import { isMappedSourceFile } from "../shadows/testMapping";
+import type { ShadowDiffFile } from "../shadows/types";
 import type { TestNameFinding, TestQualityMetrics, TestQualityReport } from "./types";
 
 const execFileAsync = promisify(execFile);
@@ -15,6 +20,8 @@ interface TestQualityArgs {
   providerName: string;
   repoArg?: string;
   prNumber?: number;
+  coveragePath?: string;
+  baseCoveragePath?: string;
 }
 
 interface ParsedTestCase {
@@ -28,6 +35,7 @@ interface DiffMetrics {
   testsRemoved: number;
   testLinesDelta: number;
   codeLinesAdded: number;
+  files: ShadowDiffFile[];
 }
 
 function makeError(code: string, message: string): Error {
@@ -64,7 +72,7 @@ export function parseTestQualityArgs(argv: string[]): TestQualityArgs {
     if (token === "--help" || token === "-h") {
       throw makeError(
         "E_SENTINEL_HELP",
-        "Usage: 7s test-quality [--path <dir>] [--format md|json] [--base-ref <ref>] [--head-ref <ref>] [--provider github|gitlab|bitbucket] [--repo <owner/repo>] [--pr <number>]"
+        "Usage: 7s test-quality [--path <dir>] [--format md|json] [--base-ref <ref>] [--head-ref <ref>] [--provider github|gitlab|bitbucket] [--repo <owner/repo>] [--pr <number>] [--coverage <path> [--base-coverage <path>]]"
       );
     }
 
@@ -138,11 +146,29 @@ export function parseTestQualityArgs(argv: string[]): TestQualityArgs {
       continue;
     }
 
+    if (token === "--coverage" || token === "--base-coverage") {
+      const value = argv[index + 1];
+      if (!value || value.startsWith("--")) {
+        throw makeError("E_SENTINEL_ARG_REQUIRED", token);
+      }
+      if (token === "--coverage") {
+        args.coveragePath = value;
+      } else {
+        args.baseCoveragePath = value;
+      }
+      index += 1;
+      continue;
+    }
+
     if (token.startsWith("--")) {
       throw makeError("E_SENTINEL_ARG_UNKNOWN", token);
     }
   }
 
+  if (args.baseCoveragePath && !args.coveragePath) {
+    throw makeError("E_SENTINEL_ARG_REQUIRED", "--coverage is required with --base-coverage");
+  }
+
   return args;
 }
 
@@ -352,7 +378,7 @@ async function runGit(args: string[]): Promise<string> {
   return result.stdout;
 }
 
-function parseNumstat(output: string): DiffMetrics {
+function parseNumstat(output: string): Omit<DiffMetrics, "files"> {
   let testLinesAdded = 0;
   let testLinesRemoved = 0;
   let codeLinesAdded = 0;
@@ -428,30 +454,53 @@ async function getDiffMetrics(baseRef: string, headRef: string): Promise<DiffMet
     testsAdded: testDefDelta.added,
     testsRemoved: testDefDelta.removed,
     testLinesDelta: baseMetrics.testLinesDelta,
-    codeLinesAdded: baseMetrics.codeLinesAdded
+    codeLinesAdded: baseMetrics.codeLinesAdded,
+    files: parseUnifiedDiff(patch)
   };
 }
 
-function buildMetrics(diff: DiffMetrics | null): TestQualityMetrics {
+function toMetricsCoverage(coverage: CoverageComparison): NonNullable<TestQualityMetrics["coverage"]> {
+  return {
+    format: coverage.format,
+    head: coverage.head,
+    base: coverage.base,
+    patch: coverage.patch
+      ? {
+          coveredLines: coverage.patch.coveredLines,
+          totalLines: coverage.patch.totalLines,
+          percent: coverage.patch.percent
+        }
+      : null
+  };
+}
+
+function buildMetrics(diff: DiffMetrics | null, coverage: CoverageComparison | null): TestQualityMetrics {
+  const coverageDeltaPercent = coverage?.deltaPercent ?? null;
+  const coverageFields = coverage ? { coverage: toMetricsCoverage(coverage) } : {};
+
   if (!diff) {
     return {
       testsAdded: null,
       testsRemoved: null,
       testLinesDelta: null,
       codeLinesAdded: null,
-      coverageDeltaPercent: null,
+      coverageDeltaPercent,
+      ...coverageFields,
       inflationWarning: false,
       consolidationPraise: false,
       notes: [
         "PR diff metrics unavailable. Provide --base-ref and --head-ref for test/code delta analysis.",
-        "Coverage delta unavailable in this execution context."
+        coverageDeltaPercent === null
+          ? "Coverage delta unavailable in this execution context. Provide --coverage and --base-coverage reports."
+          : "Patch coverage unavailable without --base-ref and --head-ref."
       ]
     };
   }
 
-  const coverageDeltaPercent: number | null = null;
-  const inflationWarning = diff.testsAdded > Math.max(0, diff.codeLinesAdded * 2);
-  const consolidationPraise = diff.testsRemoved > 0 && diff.testLinesDelta <= 0;
+  const inflationWarning =
+    diff.testsAdded > Math.max(0, diff.codeLinesAdded * 2) && (coverageDeltaPercent === null || coverageDeltaPercent <= 0);
+  const consolidationPraise =
+    diff.testsRemoved > 0 && diff.testLinesDelta <= 0 && (coverageDeltaPercent === null || coverageDeltaPercent >= 0);
 
   const notes: string[] = [];
   if (coverageDeltaPercent === null) {
@@ -464,6 +513,7 @@ function buildMetrics(diff: DiffMetrics | null): TestQualityMetrics {
     testLinesDelta: diff.testLinesDelta,
     codeLinesAdded: diff.codeLinesAdded,
     coverageDeltaPercent,
+    ...coverageFields,
     inflationWarning,
     consolidationPraise,
     notes
@@ -513,12 +563,22 @@ export async function buildTestQualityReport(args: TestQualityArgs): Promise<Tes
     }
   }
 
+  let coverage: CoverageComparison | null = null;
+  if (args.coveragePath) {
+    coverage = compareCoverage({
+      head: await loadCoverageReport(args.coveragePath),
+      ...(args.baseCoveragePath ? { base: await loadCoverageReport(args.baseCoveragePath) } : {}),
+      ...(diff ? { diff: diff.files } : {}),
+      isSourceFile: (filePath) => isMappedSourceFile(filePath, DEFAULT_TEST_MAPPING)
+    });
+  }
+
   return {
     scannedPath: path.resolve(args.rootPath),
     totalTests: tests.length,
     flaggedNames,
     behavioralExamples,
-    metrics: buildMetrics(diff)
+    metrics: buildMetrics(diff, coverage)
   };
 }
 
@@ -559,6 +619,14 @@ export function renderTestQualityMarkdown(report: TestQualityReport): string {
   lines.push(`- Code lines added in diff: ${metrics.codeLinesAdded === null ? "n/a" : metrics.codeLinesAdded}`);
   lines.push(`- Coverage delta: ${metrics.coverageDeltaPercent === null ? "n/a" : `${metrics.coverageDeltaPercent.toFixed(2)}%`}`);
 
+  if (metrics.coverage) {
+    const { head, patch } = metrics.coverage;
+    lines.push(`- Head coverage (${metrics.coverage.format}): ${head.percent === null ? "n/a" : `${head.percent.toFixed(2)}%`} (${head.coveredLines}/${head.totalLines} lines)`);
+    lines.push(
+      `- Patch coverage: ${patch?.percent === null || patch?.percent === undefined ? "n/a" : `${patch.percent.toFixed(2)}% (${patch.coveredLines}/${patch.totalLines} changed lines)`}`
+    );
+  }
+
   if (metrics.inflationWarning) {
     lines.push("- Inflation warning: potential test padding detected (tests added exceed 2x code lines added)");
   }
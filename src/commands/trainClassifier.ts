@@ -0,0 +1,151 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { serializeClassifierModel, trainClassifier } from "../classifier";
+import { sha256Hex } from "../policyGovernance";
+
+interface TrainClassifierArgs {
+  corpusPath?: string;
+  outPath: string;
+  minCount: number;
+  maxFeatures: number;
+  format: "md" | "json";
+}
+
+function makeError(code: string, message: string): Error {
+  return new Error(`${code}: ${message}`);
+}
+
+function parsePositiveInt(value: string, optionName: string): number {
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw makeError("E_SENTINEL_ARG_INVALID", `${optionName} must be a positive integer`);
+  }
+
+  return parsed;
+}
+
+function readValue(argv: string[], index: number, optionName: string): string {
+  const value = argv[index + 1];
+  if (!value || value.startsWith("--")) {
+    throw makeError("E_SENTINEL_ARG_REQUIRED", optionName);
+  }
+
+  return value;
+}
+
+export function parseTrainClassifierArgs(argv: string[]): TrainClassifierArgs {
+  const args: TrainClassifierArgs = {
+    outPath: "seven-shadow-classifier.json",
+    minCount: 2,
+    maxFeatures: 5_000,
+    format: "md"
+  };
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const token = argv[index] ?? "";
+
+    if (token === "--help" || token === "-h") {
+      throw makeError(
+        "E_SENTINEL_HELP",
+        "Usage: 7s train-classifier --corpus <path.jsonl> [--out <path>] [--min-count <n>] [--max-features <n>] [--format md|json]"
+      );
+    }
+
+    if (token === "--corpus") {
+      args.corpusPath = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--out") {
+      args.outPath = readValue(argv, index, token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--min-count") {
+      args.minCount = parsePositiveInt(readValue(argv, index, token), token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--max-features") {
+      args.maxFeatures = parsePositiveInt(readValue(argv, index, token), token);
+      index += 1;
+      continue;
+    }
+
+    if (token === "--format") {
+      const value = readValue(argv, index, token).trim().toLowerCase();
+      if (value !== "md" && value !== "json") {
+        throw makeError("E_SENTINEL_ARG_INVALID", "--format must be md|json");
+      }
+      args.format = value;
+      index += 1;
+      continue;
+    }
+
+    if (token.startsWith("--")) {
+      throw makeError("E_SENTINEL_ARG_UNKNOWN", token);
+    }
+  }
+
+  if (!args.corpusPath) {
+    throw makeError("E_SENTINEL_ARG_REQUIRED", "--corpus");
+  }
+
+  return args;
+}
+
+export async function runTrainClassifierCommand(
+  argv: string[] = process.argv.slice(2),
+  _env: NodeJS.ProcessEnv = process.env
+): Promise<number> {
+  const args = parseTrainClassifierArgs(argv);
+  const corpusPath = path.resolve(process.cwd(), args.corpusPath ?? "");
+
+  let corpus: string;
+  try {
+    corpus = await fs.readFile(corpusPath, "utf8");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw makeError("E_CLASSIFIER_CORPUS_READ", message.slice(0, 220));
+  }
+
+  const model = trainClassifier(corpus, {
+    minCount: args.minCount,
+    maxFeatures: args.maxFeatures
+  });
+  const serialized = serializeClassifierModel(model);
+  const outPath = path.resolve(process.cwd(), args.outPath);
+  await fs.mkdir(path.dirname(outPath), { recursive: true });
+  await fs.writeFile(outPath, serialized, "utf8");
+
+  const summary = {
+    modelPath: args.outPath,
+    sha256: sha256Hex(serialized),
+    corpusSha256: model.corpusSha256,
+    documents: model.documents,
+    features: model.vocabulary.length
+  };
+
+  if (args.format === "json") {
+    process.stdout.write(`${JSON.stringify(summary, null, 2)}\n`);
+    return 0;
+  }
+
+  process.stdout.write(
+    [
+      `Classifier model written to ${summary.modelPath}`,
+      `sha256: ${summary.sha256}`,
+      `Examples: ${summary.documents.ai} ai, ${summary.documents.human} human`,
+      `Features: ${summary.features}`,
+      "",
+      "Reference it from a guard policy:",
+      JSON.stringify({ scoring: { classifier: { modelPath: summary.modelPath, sha256: summary.sha256, weight: 0.5 } } }),
+      ""
+    ].join("\n")
+  );
+  return 0;
+}
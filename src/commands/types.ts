@@ -1,7 +1,8 @@
+import type { CoverageFormat, CoverageSummary } from "../coverage";
 import type { SentinelFailureRun, SentinelUnresolvedComment } from "../providers/types";
 import type { ShadowGateReportV3 } from "../shadows/types";
 
-export type SentinelProviderName = "github" | "gitlab" | "bitbucket";
+export type SentinelProviderName = "github" | "gitlab" | "bitbucket" | "azure-devops";
 
 export interface CommandResolution {
   providerName: SentinelProviderName;
@@ -54,12 +55,20 @@ export interface TestNameFinding {
   reason: string;
 }
 
+export interface TestQualityCoverage {
+  format: CoverageFormat;
+  head: CoverageSummary;
+  base: CoverageSummary | null;
+  patch: CoverageSummary | null;
+}
+
 export interface TestQualityMetrics {
   testsAdded: number | null;
   testsRemoved: number | null;
   testLinesDelta: number | null;
   codeLinesAdded: number | null;
   coverageDeltaPercent: number | null;
+  coverage?: TestQualityCoverage;
   inflationWarning: boolean;
   consolidationPraise: boolean;
   notes: string[];
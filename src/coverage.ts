@@ -0,0 +1,332 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { isExecutableLine } from "./shadows/testMapping";
+import type { ShadowDiffFile, ShadowFindingLocation } from "./shadows/types";
+
+export type CoverageFormat = "lcov" | "cobertura" | "istanbul" | "go";
+
+export interface CoverageReport {
+  format: CoverageFormat;
+  files: Map<string, Map<number, number>>;
+}
+
+export interface CoverageSummary {
+  coveredLines: number;
+  totalLines: number;
+  percent: number | null;
+}
+
+export interface PatchCoverage extends CoverageSummary {
+  uncovered: ShadowFindingLocation[];
+}
+
+export interface CoverageComparison {
+  format: CoverageFormat;
+  head: CoverageSummary;
+  base: CoverageSummary | null;
+  deltaPercent: number | null;
+  patch: PatchCoverage | null;
+}
+
+export interface PatchCoverageOptions {
+  isSourceFile?: (filePath: string) => boolean;
+}
+
+export interface CompareCoverageOptions extends PatchCoverageOptions {
+  head: CoverageReport;
+  base?: CoverageReport;
+  diff?: ShadowDiffFile[];
+}
+
+const MAX_UNCOVERED_LINES = 200;
+
+function makeError(code: string, message: string): Error {
+  return new Error(`${code}: ${message}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function normalizeCoveragePath(filePath: string): string {
+  return filePath.trim().replace(/\\/g, "/").replace(/^\.\//, "");
+}
+
+function recordHits(files: Map<string, Map<number, number>>, filePath: string, line: number, hits: number): void {
+  if (!Number.isInteger(line) || line <= 0 || !Number.isFinite(hits)) {
+    return;
+  }
+
+  const normalized = normalizeCoveragePath(filePath);
+  const lines = files.get(normalized) ?? new Map<number, number>();
+  lines.set(line, Math.max(lines.get(line) ?? 0, Math.max(0, hits)));
+  files.set(normalized, lines);
+}
+
+function toPercent(covered: number, total: number): number | null {
+  return total === 0 ? null : Number(((covered / total) * 100).toFixed(2));
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function readXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1] ?? ""] = decodeXmlEntities(match[2] ?? "");
+  }
+  return attributes;
+}
+
+export function parseLcov(text: string): CoverageReport {
+  const files = new Map<string, Map<number, number>>();
+  let current: string | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith("SF:")) {
+      current = line.slice(3);
+      continue;
+    }
+
+    if (line === "end_of_record") {
+      current = null;
+      continue;
+    }
+
+    if (current !== null && line.startsWith("DA:")) {
+      const [lineNumber, hits] = line.slice(3).split(",");
+      recordHits(files, current, Number.parseInt(lineNumber ?? "", 10), Number.parseInt(hits ?? "", 10));
+    }
+  }
+
+  return { format: "lcov", files };
+}
+
+export function parseCobertura(text: string): CoverageReport {
+  const files = new Map<string, Map<number, number>>();
+
+  for (const classMatch of text.matchAll(/<class\b([^>]*?)(?<!\/)>([\s\S]*?)<\/class>/g)) {
+    const filename = readXmlAttributes(classMatch[1] ?? "").filename;
+    if (!filename) {
+      continue;
+    }
+
+    for (const lineMatch of (classMatch[2] ?? "").matchAll(/<line\b([^>]*?)\/?>/g)) {
+      const attributes = readXmlAttributes(lineMatch[1] ?? "");
+      recordHits(files, filename, Number.parseInt(attributes.number ?? "", 10), Number.parseInt(attributes.hits ?? "", 10));
+    }
+  }
+
+  return { format: "cobertura", files };
+}
+
+export function parseIstanbulCoverage(raw: unknown): CoverageReport {
+  if (!isRecord(raw)) {
+    throw makeError("E_COVERAGE_PARSE", "istanbul coverage must be an object keyed by file path");
+  }
+
+  const files = new Map<string, Map<number, number>>();
+  for (const [key, entry] of Object.entries(raw)) {
+    if (!isRecord(entry) || !isRecord(entry.statementMap) || !isRecord(entry.s)) {
+      throw makeError("E_COVERAGE_PARSE", `istanbul entry '${key}' is missing statementMap or s`);
+    }
+
+    const filePath = typeof entry.path === "string" ? entry.path : key;
+    for (const [statementId, location] of Object.entries(entry.statementMap)) {
+      const start = isRecord(location) && isRecord(location.start) ? location.start.line : undefined;
+      const hits = entry.s[statementId];
+      if (typeof start === "number" && typeof hits === "number") {
+        recordHits(files, filePath, start, hits);
+      }
+    }
+  }
+
+  return { format: "istanbul", files };
+}
+
+export function parseGoCoverProfile(text: string): CoverageReport {
+  const files = new Map<string, Map<number, number>>();
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const match = /^(.+):(\d+)\.\d+,(\d+)\.\d+ \d+ (\d+)$/.exec(rawLine.trim());
+    if (!match) {
+      continue;
+    }
+
+    const startLine = Number.parseInt(match[2] ?? "", 10);
+    const endLine = Number.parseInt(match[3] ?? "", 10);
+    const hits = Number.parseInt(match[4] ?? "", 10);
+    for (let line = startLine; line <= endLine; line += 1) {
+      recordHits(files, match[1] ?? "", line, hits);
+    }
+  }
+
+  return { format: "go", files };
+}
+
+export function detectCoverageFormat(text: string): CoverageFormat {
+  const head = text.trimStart().slice(0, 512);
+
+  if (/^mode:\s*(?:set|count|atomic)\b/.test(head)) {
+    return "go";
+  }
+
+  if (/^(?:TN:|SF:)/m.test(head)) {
+    return "lcov";
+  }
+
+  if (head.startsWith("<")) {
+    return "cobertura";
+  }
+
+  if (head.startsWith("{")) {
+    return "istanbul";
+  }
+
+  throw makeError("E_COVERAGE_FORMAT", "unrecognized coverage format; expected lcov, Cobertura XML, Istanbul JSON or a Go cover profile");
+}
+
+export function parseCoverageReport(text: string, format: CoverageFormat = detectCoverageFormat(text)): CoverageReport {
+  if (format === "lcov") {
+    return parseLcov(text);
+  }
+
+  if (format === "cobertura") {
+    return parseCobertura(text);
+  }
+
+  if (format === "go") {
+    return parseGoCoverProfile(text);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text) as unknown;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw makeError("E_COVERAGE_PARSE", message.slice(0, 220));
+  }
+
+  return parseIstanbulCoverage(raw);
+}
+
+export async function loadCoverageReport(filePath: string): Promise<CoverageReport> {
+  let text: string;
+  try {
+    text = await fs.readFile(path.resolve(process.cwd(), filePath), "utf8");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw makeError("E_COVERAGE_READ", message.slice(0, 220));
+  }
+
+  return parseCoverageReport(text);
+}
+
+export function summarizeCoverage(report: CoverageReport): CoverageSummary {
+  let coveredLines = 0;
+  let totalLines = 0;
+
+  for (const lines of report.files.values()) {
+    for (const hits of lines.values()) {
+      totalLines += 1;
+      coveredLines += hits > 0 ? 1 : 0;
+    }
+  }
+
+  return {
+    coveredLines,
+    totalLines,
+    percent: toPercent(coveredLines, totalLines)
+  };
+}
+
+function findCoverageFile(report: CoverageReport, filePath: string): Map<number, number> | undefined {
+  const exact = report.files.get(filePath);
+  if (exact) {
+    return exact;
+  }
+
+  for (const [coveragePath, lines] of report.files) {
+    if (coveragePath.endsWith(`/${filePath}`) || filePath.endsWith(`/${coveragePath}`)) {
+      return lines;
+    }
+  }
+
+  return undefined;
+}
+
+export function computePatchCoverage(report: CoverageReport, diff: ShadowDiffFile[], options: PatchCoverageOptions = {}): PatchCoverage {
+  const uncovered: ShadowFindingLocation[] = [];
+  const reportedExtensions = new Set(Array.from(report.files.keys(), (filePath) => path.extname(filePath)).filter(Boolean));
+  let coveredLines = 0;
+  let totalLines = 0;
+
+  for (const file of diff) {
+    if (file.status === "deleted") {
+      continue;
+    }
+
+    const lines = findCoverageFile(report, file.path);
+    if (!lines) {
+      // Coverage tools omit files that no test loaded, so executable added lines of such source files count as uncovered.
+      if (!reportedExtensions.has(path.extname(file.path)) || !(options.isSourceFile?.(file.path) ?? false)) {
+        continue;
+      }
+
+      for (const added of file.addedLines) {
+        if (!isExecutableLine(file.path, added.text)) {
+          continue;
+        }
+
+        totalLines += 1;
+        if (uncovered.length < MAX_UNCOVERED_LINES) {
+          uncovered.push({ file: file.path, line: added.line });
+        }
+      }
+      continue;
+    }
+
+    for (const added of file.addedLines) {
+      const hits = lines.get(added.line);
+      if (hits === undefined) {
+        continue;
+      }
+
+      totalLines += 1;
+      if (hits > 0) {
+        coveredLines += 1;
+      } else if (uncovered.length < MAX_UNCOVERED_LINES) {
+        uncovered.push({ file: file.path, line: added.line });
+      }
+    }
+  }
+
+  return {
+    coveredLines,
+    totalLines,
+    percent: toPercent(coveredLines, totalLines),
+    uncovered
+  };
+}
+
+export function compareCoverage(options: CompareCoverageOptions): CoverageComparison {
+  const head = summarizeCoverage(options.head);
+  const base = options.base ? summarizeCoverage(options.base) : null;
+
+  return {
+    format: options.head.format,
+    head,
+    base,
+    deltaPercent:
+      base && base.percent !== null && head.percent !== null ? Number((head.percent - base.percent).toFixed(2)) : null,
+    patch: options.diff ? computePatchCoverage(options.head, options.diff, { isSourceFile: options.isSourceFile }) : null
+  };
+}
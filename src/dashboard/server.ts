@@ -24,6 +24,7 @@ export interface StartDashboardServerOptions {
   refreshSeconds: number;
   providerName: SentinelProviderName;
   repoArg?: string;
+  apiBaseUrlArg?: string;
   limit: number;
   configPath?: string;
   env: NodeJS.ProcessEnv;
@@ -432,6 +433,7 @@ export async function startDashboardServer(options: StartDashboardServerOptions)
       const candidate = await buildDashboardSnapshot({
         providerName: options.providerName,
         repoArg: options.repoArg,
+        apiBaseUrlArg: options.apiBaseUrlArg,
         limit: options.limit,
         configPath: options.configPath,
         env: options.env,
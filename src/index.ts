@@ -1,20 +1,57 @@
 export {
   GuardPolicySchema,
+  evaluateGuard,
   evaluateTargets,
   extractTargetsFromEvent,
+  parseGuardPolicy,
   runSevenShadowSystem
 } from "./sevenShadowSystem";
+export { BUILTIN_AI_SCORERS } from "./aiScorers";
+export { calibratePolicy, renderCalibrationMarkdown } from "./calibration";
+export {
+  createClassifierScorer,
+  loadClassifierModel,
+  loadPolicyScorers,
+  parseClassifierModel,
+  parseLabeledCorpus,
+  serializeClassifierModel,
+  trainClassifier
+} from "./classifier";
 export { runCli } from "./cli";
+export { runCalibrateCommand } from "./commands/calibrate";
+export { findCodeOwnerApprovalGaps, parseCodeOwners, readCodeOwnersFile, resolveCodeOwners } from "./codeOwners";
+export {
+  compareCoverage,
+  computePatchCoverage,
+  detectCoverageFormat,
+  loadCoverageReport,
+  parseCobertura,
+  parseCoverageReport,
+  parseGoCoverProfile,
+  parseIstanbulCoverage,
+  parseLcov,
+  summarizeCoverage
+} from "./coverage";
 export { runDashboardCommand } from "./commands/dashboard";
 export { runDoctrineCommand } from "./commands/doctrine";
 export { runDoctrineLintCommand } from "./commands/doctrineLint";
 export { buildShadowGateReport, runShadowGateCommand } from "./commands/shadowGate";
+export { runServeCommand } from "./commands/serve";
+export { runSimulateCommand } from "./commands/simulate";
+export { runSummaryCommentCommand } from "./commands/summaryComment";
+export { runTrainClassifierCommand } from "./commands/trainClassifier";
+export { azureDevOpsProvider } from "./providers/azureDevOps";
+export { azureDevOpsSentinelAdapter } from "./providers/azureDevOpsSentinel";
 export { bitbucketProvider } from "./providers/bitbucket";
-export { bitbucketServerStub } from "./providers/bitbucket-server.stub";
+export { bitbucketSentinelAdapter } from "./providers/bitbucketSentinel";
+export { bitbucketServerProvider } from "./providers/bitbucketServer";
+export { giteaProvider } from "./providers/gitea";
 export { githubProvider } from "./providers/github";
 export { githubSentinelAdapter } from "./providers/githubSentinel";
 export { gitlabProvider } from "./providers/gitlab";
+export { gitlabSentinelAdapter } from "./providers/gitlabSentinel";
 export { getProviderByName, listProviderNames, listProviders, providerRegistry } from "./providers/registry";
+export { clearTeamMembershipCache, parseTeamReference, resolveTeamMembers } from "./providers/teamMembership";
 export { ProviderApprovalError } from "./providers/types";
 export {
   DEFAULT_POLICY_OVERRIDE_CONSTRAINTS,
@@ -31,6 +68,11 @@ export {
   verifyPolicyBundleWithTrustStore,
   verifyPolicyBundle
 } from "./policyGovernance";
+export { parseUnifiedDiff, readGitDiff } from "./shadows/diff";
+export { scanMarkupAccessibility } from "./shadows/markup";
+export { redactSecret, scanDiffForSecrets, shannonEntropy } from "./shadows/secrets";
+export { expandTestTemplates, mapSourcesToTests } from "./shadows/testMapping";
+export type { ShadowTestMappingResult } from "./shadows/testMapping";
 export {
   evaluateShadowGate,
   parseShadowDoctrine,
@@ -38,23 +80,53 @@ export {
   parseShadowPolicy,
   renderShadowGateMarkdown
 } from "./shadows/engine";
+export { parseSimulationExport, renderSimulationMarkdown, simulatePolicies } from "./simulation";
+export { SUMMARY_COMMENT_MARKER, publishSummaryComment, renderSummaryComment } from "./summaryComment";
+export { resolveWebhookDeliveryId, resolveWebhookEventName, verifyWebhookSignature } from "./webhook/signatures";
+export { startWebhookServer } from "./webhook/server";
 
 export type {
   AccessibilitySummary,
+  DisclosureBlock,
+  EvaluateGuardOptions,
   GuardFinding,
   GuardPolicy,
   GuardReportV2,
   GuardResult,
+  ReportRuleMatch,
   ReportTargetSummary,
   ReviewTarget,
+  RuleMatch,
+  ScoreContribution,
   TargetEvaluation
 } from "./sevenShadowSystem";
+export type { AiScorer } from "./aiScorers";
+export type {
+  CalibratePolicyOptions,
+  CalibrationReport,
+  ConfusionMatrix,
+  RuleCalibration,
+  ThresholdRecommendation
+} from "./calibration";
+export type { ClassifierModel, LabeledExample, TrainClassifierOptions } from "./classifier";
 export type {
   ApprovalRetryPolicy,
   ProviderAdapter,
   ProviderApprovalOptions,
+  ProviderCheckRun,
+  ProviderCheckRunAnnotation,
+  ProviderCheckRunConclusion,
+  ProviderCheckRunResult,
+  ProviderCodeOwnerReview,
+  ProviderCommitStatus,
+  ProviderCommitStatusState,
+  ProviderHeadApprovalSummary,
+  ProviderHistoricalPullRequest,
+  ProviderHistoryRequest,
   ProviderPolicyContext,
   ProviderReviewTarget,
+  ProviderStickyComment,
+  ProviderStickyCommentResult,
   SentinelFailureJob,
   SentinelFailureRun,
   SentinelFailureStep,
@@ -70,8 +142,20 @@ export type {
   SentinelResolvePullRequestOptions,
   SentinelUnresolvedComment,
   ProviderTargetExtractionResult,
+  ProviderTeamReference,
+  ProviderWriteOptions,
   PullContext
 } from "./providers/types";
+export type { CodeOwnerApprovalGap, CodeOwnersFile, CodeOwnersRule } from "./codeOwners";
+export type {
+  CompareCoverageOptions,
+  CoverageComparison,
+  CoverageFormat,
+  CoverageReport,
+  CoverageSummary,
+  PatchCoverage,
+  PatchCoverageOptions
+} from "./coverage";
 export type {
   SentinelDashboardError,
   SentinelDashboardMeta,
@@ -103,7 +187,12 @@ export type {
 } from "./policyGovernance";
 export type {
   NormalizedShadowPolicy,
+  ShadowAccessViolation,
+  ShadowCoverageReport,
+  ShadowCoverageThresholds,
   ShadowDecision,
+  ShadowDiffFile,
+  ShadowDiffLine,
   ShadowDoctrine,
   ShadowDomain,
   ShadowDomainDecision,
@@ -111,5 +200,26 @@ export type {
   ShadowEnforcementStage,
   ShadowExceptionRecord,
   ShadowFinding,
-  ShadowGateReportV3
+  ShadowFindingLocation,
+  ShadowGateReportV3,
+  ShadowSecretMatch,
+  ShadowTestConvention,
+  ShadowTestGap,
+  ShadowTestMapping
 } from "./shadows/types";
+export type {
+  SimulatePoliciesOptions,
+  SimulationAuthorResult,
+  SimulationFlip,
+  SimulationPolicy,
+  SimulationReport,
+  SimulationRuleResult
+} from "./simulation";
+export type { PublishSummaryCommentOptions, SummaryCommentInput } from "./summaryComment";
+export type { WebhookProviderName } from "./webhook/signatures";
+export type {
+  StartWebhookServerOptions,
+  WebhookDeliveryRecord,
+  WebhookServerHandle,
+  WebhookShadowGateMaterial
+} from "./webhook/server";
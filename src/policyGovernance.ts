@@ -140,6 +140,7 @@ export const DEFAULT_POLICY_OVERRIDE_CONSTRAINTS: PolicyOverrideConstraints = {
     "maxAiScore",
     "disclosureTag",
     "disclosureRequiredScore",
+    "disclosure",
     "runtime.failOnUnsupportedEvent",
     "runtime.failOnMalformedPayload"
   ]
@@ -0,0 +1,55 @@
+import type { ProviderAdapter } from "./types";
+
+export interface ApiBaseUrlSources {
+  flag?: string;
+  env?: NodeJS.ProcessEnv;
+  config?: string;
+}
+
+function makeError(code: string, message: string): Error {
+  return new Error(`${code}: ${message}`);
+}
+
+export function normalizeApiBaseUrl(value: string | undefined | null): string | null {
+  const trimmed = value?.trim() ?? "";
+  if (trimmed.length === 0) {
+    return null;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    return null;
+  }
+
+  if ((parsed.protocol !== "https:" && parsed.protocol !== "http:") || parsed.search || parsed.hash) {
+    return null;
+  }
+
+  return `${parsed.origin}${parsed.pathname}`.replace(/\/+$/, "");
+}
+
+export function resolveProviderApiBaseUrl(provider: ProviderAdapter, sources: ApiBaseUrlSources): string | undefined {
+  const envVar = provider.apiBaseUrlEnvVar;
+  const candidates: Array<{ label: string; value: string | undefined }> = [
+    { label: "--api-base-url", value: sources.flag },
+    { label: envVar ?? "env", value: envVar ? sources.env?.[envVar] : undefined },
+    { label: `providers.${provider.name}.apiBaseUrl`, value: sources.config }
+  ];
+
+  for (const candidate of candidates) {
+    if (!candidate.value || candidate.value.trim().length === 0) {
+      continue;
+    }
+
+    const normalized = normalizeApiBaseUrl(candidate.value);
+    if (!normalized) {
+      throw makeError("E_API_BASE_URL_INVALID", `${candidate.label} must be an absolute http(s) URL without query or fragment`);
+    }
+
+    return normalized;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,612 @@
+import type {
+  ApprovalRetryPolicy,
+  ProviderAdapter,
+  ProviderApprovalOptions,
+  ProviderPolicyContext,
+  ProviderReviewTarget,
+  ProviderTargetExtractionResult,
+  PullContext
+} from "./types";
+import { azureDevOpsSentinelAdapter } from "./azureDevOpsSentinel";
+import { ProviderApprovalError } from "./types";
+
+interface AzureDevOpsIdentity {
+  id?: string;
+  displayName?: string;
+  uniqueName?: string;
+  isContainer?: boolean;
+}
+
+interface AzureDevOpsReviewer extends AzureDevOpsIdentity {
+  vote?: number;
+}
+
+interface ApprovalAttemptLog {
+  attempt: number;
+  category: "timeout" | "status";
+  status?: number;
+  delayMs?: number;
+  retryAfterMs?: number;
+}
+
+const AZURE_DEVOPS_PULL_REQUEST_EVENTS = new Set(["git.pullrequest.created", "git.pullrequest.updated"]);
+const AZURE_DEVOPS_COMMENT_EVENT = "ms.vss-code.git-pullrequest-comment-event";
+const AZURE_DEVOPS_SUPPORTED_EVENTS = new Set([...AZURE_DEVOPS_PULL_REQUEST_EVENTS, AZURE_DEVOPS_COMMENT_EVENT]);
+const AZURE_DEVOPS_API_BASE_URL = "https://dev.azure.com";
+const AZURE_DEVOPS_API_VERSION = "7.1";
+const APPROVING_VOTE_THRESHOLD = 5;
+const MAX_ERROR_SNIPPET = 180;
+
+function normalizeLogin(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  return value as Record<string, unknown>;
+}
+
+function asNonEmptyString(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function isCommentEvent(eventName: string): boolean {
+  return eventName === AZURE_DEVOPS_COMMENT_EVENT;
+}
+
+function getResource(payload: Record<string, unknown>): Record<string, unknown> | null {
+  return asObject(payload.resource);
+}
+
+function getPullRequest(eventName: string, payload: Record<string, unknown>): Record<string, unknown> | null {
+  const resource = getResource(payload);
+  if (!resource) {
+    return null;
+  }
+
+  return isCommentEvent(eventName) ? asObject(resource.pullRequest) : resource;
+}
+
+function pullRequestPath(eventName: string): string {
+  return isCommentEvent(eventName) ? "resource.pullRequest" : "resource";
+}
+
+function organizationFromCollectionUrl(value: unknown): string | null {
+  const raw = asNonEmptyString(value);
+  if (!raw) {
+    return null;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(raw);
+  } catch {
+    return null;
+  }
+
+  if (parsed.hostname.endsWith(".visualstudio.com")) {
+    return parsed.hostname.split(".")[0] ?? null;
+  }
+
+  const segments = parsed.pathname.split("/").filter(Boolean);
+  return segments[segments.length - 1] ?? null;
+}
+
+function organizationFromRepositoryUrl(value: unknown): string | null {
+  const raw = asNonEmptyString(value);
+  if (!raw) {
+    return null;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(raw);
+  } catch {
+    return null;
+  }
+
+  if (parsed.hostname.endsWith(".visualstudio.com")) {
+    return parsed.hostname.split(".")[0] ?? null;
+  }
+
+  if (parsed.hostname === "dev.azure.com") {
+    return parsed.pathname.split("/").filter(Boolean)[0] ?? null;
+  }
+
+  return null;
+}
+
+function parseOrganization(payload: Record<string, unknown>, repository: Record<string, unknown> | null): string | null {
+  const containers = asObject(payload.resourceContainers);
+  const candidates = [
+    organizationFromCollectionUrl(asObject(containers?.collection)?.baseUrl),
+    organizationFromCollectionUrl(asObject(containers?.account)?.baseUrl),
+    organizationFromRepositoryUrl(repository?.url)
+  ];
+
+  for (const candidate of candidates) {
+    if (candidate && candidate.length > 0) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+function parseRepository(
+  eventName: string,
+  payload: Record<string, unknown>
+): { organization: string | null; project: string; repo: string } | null {
+  const repository = asObject(getPullRequest(eventName, payload)?.repository);
+  const project = asNonEmptyString(asObject(repository?.project)?.name);
+  const repo = asNonEmptyString(repository?.name);
+  if (!repository || !project || !repo) {
+    return null;
+  }
+
+  return {
+    organization: parseOrganization(payload, repository),
+    project,
+    repo
+  };
+}
+
+function parsePullRequestId(eventName: string, payload: Record<string, unknown>): number | null {
+  const pullRequestId = getPullRequest(eventName, payload)?.pullRequestId;
+  if (typeof pullRequestId !== "number" || !Number.isInteger(pullRequestId) || pullRequestId <= 0) {
+    return null;
+  }
+
+  return pullRequestId;
+}
+
+function getIdentityLogin(identity: unknown): string {
+  const record = asObject(identity);
+  if (!record) {
+    return "unknown";
+  }
+
+  return asNonEmptyString(record.uniqueName) ?? asNonEmptyString(record.displayName) ?? asNonEmptyString(record.id) ?? "unknown";
+}
+
+function isBotIdentity(identity: unknown): boolean {
+  const record = asObject(identity);
+  if (!record) {
+    return false;
+  }
+
+  const login = getIdentityLogin(record).toLowerCase();
+  const displayName = asNonEmptyString(record.displayName)?.toLowerCase() ?? "";
+  return login.endsWith("[bot]") || login.startsWith("build\\") || displayName.includes("build service");
+}
+
+function getActorInfo(identity: unknown): { login: string; type: "User" | "Bot" | "Unknown" } {
+  const record = asObject(identity);
+  if (!record) {
+    return {
+      login: "unknown",
+      type: "Unknown"
+    };
+  }
+
+  return {
+    login: getIdentityLogin(record),
+    type: isBotIdentity(record) ? "Bot" : "User"
+  };
+}
+
+function getComment(payload: Record<string, unknown>): Record<string, unknown> | null {
+  return asObject(getResource(payload)?.comment);
+}
+
+function validateEventShape(eventName: string, payload: Record<string, unknown>): string[] {
+  const reasons: string[] = [];
+
+  if (!AZURE_DEVOPS_SUPPORTED_EVENTS.has(eventName)) {
+    return [`unsupported event '${eventName}'`];
+  }
+
+  if (!getResource(payload)) {
+    reasons.push("missing resource object");
+    return reasons;
+  }
+
+  const pathLabel = pullRequestPath(eventName);
+  if (!getPullRequest(eventName, payload)) {
+    reasons.push(`missing ${pathLabel} object`);
+    return reasons;
+  }
+
+  const repository = parseRepository(eventName, payload);
+  if (!repository) {
+    reasons.push(`missing ${pathLabel}.repository`);
+  } else if (!repository.organization) {
+    reasons.push("missing organization in resourceContainers");
+  }
+
+  if (parsePullRequestId(eventName, payload) === null) {
+    reasons.push(`missing ${pathLabel}.pullRequestId`);
+  }
+
+  if (isCommentEvent(eventName)) {
+    const comment = getComment(payload);
+    if (!comment) {
+      reasons.push("missing resource.comment object");
+      return reasons;
+    }
+
+    if (typeof comment.content !== "string") {
+      reasons.push("missing resource.comment.content");
+    }
+  }
+
+  return reasons;
+}
+
+function extractTargets(
+  eventName: string,
+  payload: Record<string, unknown>,
+  policy: ProviderPolicyContext
+): ProviderReviewTarget[] {
+  const targets: ProviderReviewTarget[] = [];
+  const pullRequest = getPullRequest(eventName, payload);
+  const pullRequestId = parsePullRequestId(eventName, payload);
+
+  if (policy.scanPrBody && !isCommentEvent(eventName) && pullRequest && typeof pullRequest.description === "string") {
+    const body = pullRequest.description.trim();
+    if (body.length > 0) {
+      const actor = getActorInfo(pullRequest.createdBy);
+      targets.push({
+        source: "pr_body",
+        referenceId: `pr:${pullRequestId ?? "unknown"}`,
+        authorLogin: actor.login,
+        authorType: actor.type,
+        body
+      });
+    }
+  }
+
+  if (policy.scanCommentBody && isCommentEvent(eventName)) {
+    const comment = getComment(payload);
+    const body = typeof comment?.content === "string" ? comment.content.trim() : "";
+    if (body.length > 0) {
+      const actor = getActorInfo(comment?.author);
+      targets.push({
+        source: "comment",
+        referenceId: `comment:${String(comment?.id ?? "unknown")}`,
+        authorLogin: actor.login,
+        authorType: comment?.commentType === "system" ? "Bot" : actor.type,
+        body
+      });
+    }
+  }
+
+  return targets;
+}
+
+function extractPullContext(eventName: string, payload: Record<string, unknown>): PullContext | null {
+  const repository = parseRepository(eventName, payload);
+  const pullNumber = parsePullRequestId(eventName, payload);
+  if (!repository || !repository.organization || pullNumber === null) {
+    return null;
+  }
+
+  return {
+    owner: `${repository.organization}/${repository.project}`,
+    repo: repository.repo,
+    pullNumber
+  };
+}
+
+function normalizeRetryPolicy(policy: ApprovalRetryPolicy): ApprovalRetryPolicy {
+  const maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+  const baseDelayMs = Math.max(1, Math.floor(policy.baseDelayMs));
+  const maxDelayMs = Math.max(baseDelayMs, Math.floor(policy.maxDelayMs));
+  const jitterRatio = Math.min(1, Math.max(0, policy.jitterRatio));
+  const retryableStatusCodes = Array.from(
+    new Set(
+      policy.retryableStatusCodes
+        .filter((status) => Number.isInteger(status) && status >= 100 && status <= 599)
+        .map((status) => Math.floor(status))
+    )
+  );
+
+  return {
+    enabled: policy.enabled,
+    maxAttempts,
+    baseDelayMs,
+    maxDelayMs,
+    jitterRatio,
+    retryableStatusCodes
+  };
+}
+
+function parseRetryAfterMs(retryAfterHeader: string | null): number | null {
+  if (!retryAfterHeader || retryAfterHeader.trim().length === 0) {
+    return null;
+  }
+
+  const seconds = Number.parseInt(retryAfterHeader.trim(), 10);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1_000;
+  }
+
+  const asDate = Date.parse(retryAfterHeader);
+  if (!Number.isNaN(asDate)) {
+    return Math.max(0, asDate - Date.now());
+  }
+
+  return null;
+}
+
+function computeRetryDelayMs(attempt: number, retryPolicy: ApprovalRetryPolicy, retryAfterMs?: number | null): number {
+  const exponent = Math.max(0, attempt - 1);
+  const exponentialDelay = Math.min(retryPolicy.maxDelayMs, retryPolicy.baseDelayMs * 2 ** exponent);
+  const jitterWindow = Math.round(exponentialDelay * retryPolicy.jitterRatio);
+  const jitter = jitterWindow > 0 ? Math.floor(Math.random() * (jitterWindow + 1)) : 0;
+  const withJitter = Math.min(retryPolicy.maxDelayMs, exponentialDelay + jitter);
+
+  if (retryAfterMs === undefined || retryAfterMs === null) {
+    return withJitter;
+  }
+
+  return Math.min(retryPolicy.maxDelayMs, Math.max(withJitter, Math.max(0, Math.floor(retryAfterMs))));
+}
+
+function sleep(delayMs: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, delayMs);
+  });
+}
+
+function pushAttemptLog(log: ApprovalAttemptLog[], item: ApprovalAttemptLog): void {
+  log.push(item);
+  if (log.length > 20) {
+    log.splice(0, log.length - 20);
+  }
+}
+
+function toProviderApprovalError(
+  kind: ProviderApprovalError["kind"],
+  message: string,
+  details: Record<string, unknown>
+): ProviderApprovalError {
+  return new ProviderApprovalError(kind, message, details);
+}
+
+function countHumanApprovals(reviewers: AzureDevOpsReviewer[], allowedAuthors: Set<string>): number {
+  const approvedLogins = new Set<string>();
+
+  for (const reviewer of reviewers) {
+    if (typeof reviewer.vote !== "number" || reviewer.vote < APPROVING_VOTE_THRESHOLD || reviewer.isContainer === true) {
+      continue;
+    }
+
+    const login = normalizeLogin(getIdentityLogin(reviewer));
+    if (!login || login === "unknown") {
+      continue;
+    }
+
+    if (allowedAuthors.has(login)) {
+      continue;
+    }
+
+    if (isBotIdentity(reviewer)) {
+      continue;
+    }
+
+    approvedLogins.add(login);
+  }
+
+  return approvedLogins.size;
+}
+
+function splitOwner(owner: string): { organization: string; project: string } | null {
+  const index = owner.indexOf("/");
+  if (index <= 0 || index >= owner.length - 1) {
+    return null;
+  }
+
+  return {
+    organization: owner.slice(0, index),
+    project: owner.slice(index + 1)
+  };
+}
+
+async function fetchHumanApprovalCount(context: PullContext, options: ProviderApprovalOptions): Promise<number> {
+  const token = options.authToken ?? options.githubToken;
+  if (!token) {
+    throw toProviderApprovalError("fetch_error", "Azure DevOps approval fetch token missing", {
+      tokenEnvVar: "AZURE_DEVOPS_TOKEN"
+    });
+  }
+
+  const owner = splitOwner(context.owner);
+  if (!owner) {
+    throw toProviderApprovalError("fetch_error", "Azure DevOps pull context owner must be organization/project", {
+      owner: context.owner
+    });
+  }
+
+  const retryPolicy = normalizeRetryPolicy(options.retry);
+  const baseUrl = options.apiBaseUrl ?? AZURE_DEVOPS_API_BASE_URL;
+  const organization = encodeURIComponent(owner.organization);
+  const project = encodeURIComponent(owner.project);
+  const repository = encodeURIComponent(context.repo);
+  const url = `${baseUrl}/${organization}/${project}/_apis/git/repositories/${repository}/pullRequests/${context.pullNumber}/reviewers?api-version=${AZURE_DEVOPS_API_VERSION}`;
+  const authorization = `Basic ${Buffer.from(`:${token}`).toString("base64")}`;
+  const attempts: ApprovalAttemptLog[] = [];
+
+  for (let attempt = 1; attempt <= retryPolicy.maxAttempts; attempt += 1) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      controller.abort();
+    }, options.fetchTimeoutMs);
+
+    let response: Response;
+    try {
+      response = await (options.fetch ?? fetch)(url, {
+        headers: {
+          Accept: "application/json",
+          Authorization: authorization
+        },
+        signal: controller.signal
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const isTimeout = error instanceof Error && error.name === "AbortError";
+
+      if (isTimeout) {
+        const canRetry = retryPolicy.enabled && attempt < retryPolicy.maxAttempts;
+        if (canRetry) {
+          const delayMs = computeRetryDelayMs(attempt, retryPolicy);
+          pushAttemptLog(attempts, {
+            attempt,
+            category: "timeout",
+            delayMs
+          });
+          await sleep(delayMs);
+          continue;
+        }
+
+        throw toProviderApprovalError(
+          "timeout",
+          `Timed out while fetching Azure DevOps pull request reviewers (attempt ${attempt})`,
+          {
+            url,
+            attempt,
+            maxAttempts: retryPolicy.maxAttempts,
+            fetchTimeoutMs: options.fetchTimeoutMs,
+            attempts
+          }
+        );
+      }
+
+      throw toProviderApprovalError("fetch_error", "Azure DevOps approval fetch failed", {
+        url,
+        attempt,
+        error: message.slice(0, MAX_ERROR_SNIPPET),
+        attempts
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!response.ok) {
+      const retryAfterMs = parseRetryAfterMs(response.headers.get("retry-after"));
+      const responseText = (await response.text()).slice(0, MAX_ERROR_SNIPPET);
+      const isRateLimited = response.status === 429;
+      const isRetryableStatus = retryPolicy.retryableStatusCodes.includes(response.status);
+
+      if ((isRateLimited || isRetryableStatus) && retryPolicy.enabled && attempt < retryPolicy.maxAttempts) {
+        const delayMs = computeRetryDelayMs(attempt, retryPolicy, retryAfterMs);
+        pushAttemptLog(attempts, {
+          attempt,
+          category: "status",
+          status: response.status,
+          delayMs,
+          retryAfterMs: retryAfterMs ?? undefined
+        });
+        await sleep(delayMs);
+        continue;
+      }
+
+      if (isRateLimited && retryPolicy.enabled && retryPolicy.maxAttempts > 1 && attempt >= retryPolicy.maxAttempts) {
+        throw toProviderApprovalError("retry_exhausted", "Approval verification retries exhausted after rate limiting", {
+          url,
+          attempt,
+          status: response.status,
+          retryAfterMs,
+          maxAttempts: retryPolicy.maxAttempts,
+          attempts
+        });
+      }
+
+      if (isRetryableStatus && retryPolicy.enabled && retryPolicy.maxAttempts > 1 && attempt >= retryPolicy.maxAttempts) {
+        throw toProviderApprovalError("retry_exhausted", "Approval verification retries exhausted", {
+          url,
+          attempt,
+          status: response.status,
+          maxAttempts: retryPolicy.maxAttempts,
+          responseText,
+          attempts
+        });
+      }
+
+      if (isRateLimited) {
+        throw toProviderApprovalError("rate_limited", "Azure DevOps approval fetch was rate limited", {
+          url,
+          attempt,
+          status: response.status,
+          retryAfterMs,
+          attempts
+        });
+      }
+
+      throw toProviderApprovalError("http_error", `Azure DevOps reviewers API returned status ${response.status}`, {
+        url,
+        attempt,
+        status: response.status,
+        responseText,
+        attempts
+      });
+    }
+
+    const payload = (await response.json()) as unknown;
+    const reviewers = asObject(payload)?.value;
+    if (!Array.isArray(reviewers)) {
+      throw toProviderApprovalError("fetch_error", "Azure DevOps reviewers payload is missing value[]", {
+        url
+      });
+    }
+
+    return countHumanApprovals(
+      reviewers.filter((item): item is AzureDevOpsReviewer => asObject(item) !== null),
+      options.allowedAuthors
+    );
+  }
+
+  throw toProviderApprovalError("retry_exhausted", "Approval verification retries exhausted before response was received", {
+    url,
+    maxAttempts: retryPolicy.maxAttempts
+  });
+}
+
+export const azureDevOpsProvider: ProviderAdapter = {
+  name: "azure-devops",
+  approvalTokenEnvVar: "AZURE_DEVOPS_TOKEN",
+  apiBaseUrlEnvVar: "AZURE_DEVOPS_API_URL",
+  sentinel: azureDevOpsSentinelAdapter,
+  supportedEvents: AZURE_DEVOPS_SUPPORTED_EVENTS,
+  extractTargets: (eventName: string, payload: unknown, policy: ProviderPolicyContext): ProviderTargetExtractionResult => {
+    const obj = asObject(payload);
+    if (!obj) {
+      return {
+        targets: [],
+        malformedReasons: ["event payload is not an object"]
+      };
+    }
+
+    return {
+      targets: extractTargets(eventName, obj, policy),
+      malformedReasons: validateEventShape(eventName, obj)
+    };
+  },
+  extractPullContext: (eventName: string, payload: unknown): PullContext | null => {
+    const obj = asObject(payload);
+    if (!obj) {
+      return null;
+    }
+
+    return extractPullContext(eventName, obj);
+  },
+  fetchHumanApprovalCount
+};
@@ -0,0 +1,853 @@
+import type {
+  SentinelFailureJob,
+  SentinelFailureRun,
+  SentinelFailureStep,
+  SentinelGetJobLogsRequest,
+  SentinelListFailureRunsRequest,
+  SentinelListNotificationsRequest,
+  SentinelListOpenPullRequestsRequest,
+  SentinelListPullRequestFilesRequest,
+  SentinelNotification,
+  SentinelPullRequestFile,
+  SentinelPullRequestSummary,
+  SentinelProviderAdapter,
+  SentinelRepositoryRef,
+  SentinelResolvePullRequestOptions,
+  SentinelUnresolvedComment
+} from "./types";
+
+interface AzureDevOpsIdentitySummary {
+  id?: unknown;
+  displayName?: unknown;
+  uniqueName?: unknown;
+  vote?: unknown;
+}
+
+interface AzureDevOpsListResponse<T> {
+  value?: T[];
+}
+
+interface AzureDevOpsPullRequestSummary {
+  pullRequestId?: unknown;
+  title?: unknown;
+  status?: unknown;
+  isDraft?: unknown;
+  createdBy?: AzureDevOpsIdentitySummary;
+  creationDate?: unknown;
+  closedDate?: unknown;
+  sourceRefName?: unknown;
+  lastMergeSourceCommit?: {
+    commitId?: unknown;
+  };
+  reviewers?: AzureDevOpsIdentitySummary[];
+}
+
+interface AzureDevOpsThreadComment {
+  id?: unknown;
+  author?: AzureDevOpsIdentitySummary;
+  content?: unknown;
+  publishedDate?: unknown;
+  commentType?: unknown;
+  isDeleted?: unknown;
+}
+
+interface AzureDevOpsFilePosition {
+  line?: unknown;
+}
+
+interface AzureDevOpsThread {
+  id?: unknown;
+  status?: unknown;
+  isDeleted?: unknown;
+  threadContext?: {
+    filePath?: unknown;
+    rightFileStart?: AzureDevOpsFilePosition | null;
+    leftFileStart?: AzureDevOpsFilePosition | null;
+  } | null;
+  comments?: AzureDevOpsThreadComment[];
+}
+
+interface AzureDevOpsIteration {
+  id?: unknown;
+  updatedDate?: unknown;
+}
+
+interface AzureDevOpsIterationChanges {
+  changeEntries?: Array<{
+    changeType?: unknown;
+    item?: {
+      path?: unknown;
+    };
+  }>;
+}
+
+interface AzureDevOpsBuildSummary {
+  id?: unknown;
+  buildNumber?: unknown;
+  status?: unknown;
+  result?: unknown;
+  sourceVersion?: unknown;
+  definition?: {
+    name?: unknown;
+  };
+  triggerInfo?: Record<string, unknown>;
+  _links?: {
+    web?: {
+      href?: unknown;
+    };
+  };
+}
+
+interface AzureDevOpsTimelineRecord {
+  id?: unknown;
+  parentId?: unknown;
+  type?: unknown;
+  name?: unknown;
+  result?: unknown;
+  order?: unknown;
+  log?: {
+    id?: unknown;
+  } | null;
+}
+
+interface AzureDevOpsTimeline {
+  records?: AzureDevOpsTimelineRecord[];
+}
+
+interface AzureDevOpsConnectionData {
+  authenticatedUser?: {
+    id?: unknown;
+  };
+}
+
+interface AzureDevOpsProjectRef {
+  organization: string;
+  project: string;
+}
+
+const AZURE_DEVOPS_API_BASE_URL = "https://dev.azure.com";
+const AZURE_DEVOPS_API_VERSION = "7.1";
+const MAX_BUILDS_PER_QUERY = 50;
+const MAX_CHANGE_ENTRIES = 1_000;
+
+// Timeline jobs are addressed by GUID; job ids encode build id and log id so
+// getJobLogs can fetch the log without extra state.
+const LOG_INDEX_RADIX = 10_000;
+
+const UNRESOLVED_THREAD_STATUSES = new Set(["active", "pending"]);
+const FAILURE_RESULTS = new Set(["failed", "canceled", "abandoned"]);
+
+const CONCLUSION_BY_RESULT: Record<string, string> = {
+  failed: "failure",
+  canceled: "cancelled",
+  abandoned: "cancelled",
+  succeeded: "success",
+  succeededwithissues: "success",
+  partiallysucceeded: "neutral",
+  skipped: "skipped"
+};
+
+const STATUS_BY_CHANGE_TYPE: Record<string, string> = {
+  add: "added",
+  delete: "removed",
+  rename: "renamed",
+  edit: "modified"
+};
+
+function asNonEmptyString(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function asPositiveInt(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    return null;
+  }
+
+  return value;
+}
+
+function asIsoTimestamp(value: unknown): string | null {
+  const raw = asNonEmptyString(value);
+  if (!raw) {
+    return null;
+  }
+
+  const parsed = Date.parse(raw);
+  if (Number.isNaN(parsed)) {
+    return null;
+  }
+
+  return new Date(parsed).toISOString();
+}
+
+function getIdentityLogin(identity: AzureDevOpsIdentitySummary | undefined): string {
+  return (
+    asNonEmptyString(identity?.uniqueName) ??
+    asNonEmptyString(identity?.displayName) ??
+    asNonEmptyString(identity?.id) ??
+    "unknown"
+  );
+}
+
+function splitOwner(repo: SentinelRepositoryRef): AzureDevOpsProjectRef {
+  const index = repo.owner.indexOf("/");
+  if (index <= 0 || index >= repo.owner.length - 1) {
+    throw new Error("E_SENTINEL_ARG_INVALID: azure-devops --repo must be in organization/project/repository format");
+  }
+
+  return {
+    organization: repo.owner.slice(0, index),
+    project: repo.owner.slice(index + 1)
+  };
+}
+
+function azureApiBase(apiBaseUrl: string | undefined): string {
+  return apiBaseUrl ?? AZURE_DEVOPS_API_BASE_URL;
+}
+
+function projectBaseUrl(apiBase: string, repo: SentinelRepositoryRef): string {
+  const { organization, project } = splitOwner(repo);
+  return `${apiBase}/${encodeURIComponent(organization)}/${encodeURIComponent(project)}`;
+}
+
+function projectApiUrl(apiBase: string, repo: SentinelRepositoryRef, suffix: string): string {
+  return `${projectBaseUrl(apiBase, repo)}/_apis${suffix}?api-version=${AZURE_DEVOPS_API_VERSION}`;
+}
+
+function repositoryApiUrl(apiBase: string, repo: SentinelRepositoryRef, suffix: string): string {
+  return projectApiUrl(apiBase, repo, `/git/repositories/${encodeURIComponent(repo.repo)}${suffix}`);
+}
+
+function repositoryWebUrl(apiBase: string, repo: SentinelRepositoryRef, suffix: string): string {
+  return `${projectBaseUrl(apiBase, repo)}/_git/${encodeURIComponent(repo.repo)}${suffix}`;
+}
+
+function normalizeResult(value: unknown): string {
+  return asNonEmptyString(value)?.toLowerCase() ?? "unknown";
+}
+
+function toConclusion(result: unknown): string {
+  const normalized = normalizeResult(result);
+  return CONCLUSION_BY_RESULT[normalized] ?? normalized;
+}
+
+function isFailingResult(result: unknown): boolean {
+  return FAILURE_RESULTS.has(normalizeResult(result));
+}
+
+function headersForAzureDevOps(token: string): Record<string, string> {
+  return {
+    Accept: "application/json",
+    Authorization: `Basic ${Buffer.from(`:${token}`).toString("base64")}`
+  };
+}
+
+function throwApiError(status: number, url: string, body: string): never {
+  const snippet = body.trim().replace(/\s+/g, " ").slice(0, 220);
+  throw new Error(`E_SENTINEL_API_ERROR: status=${status} url=${url} body=${snippet}`);
+}
+
+async function azureRestJson<T>(url: string, token: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: headersForAzureDevOps(token)
+  });
+
+  if (!response.ok) {
+    throwApiError(response.status, url, await response.text());
+  }
+
+  return (await response.json()) as T;
+}
+
+async function azureRestList<T>(url: string, token: string): Promise<T[]> {
+  const payload = await azureRestJson<AzureDevOpsListResponse<T>>(url, token);
+  return Array.isArray(payload.value) ? payload.value : [];
+}
+
+async function azureRestText(url: string, token: string): Promise<{ text: string; bytes: number }> {
+  const response = await fetch(url, {
+    headers: {
+      ...headersForAzureDevOps(token),
+      Accept: "text/plain"
+    },
+    redirect: "follow"
+  });
+
+  if (!response.ok) {
+    throwApiError(response.status, url, await response.text());
+  }
+
+  const buffer = await response.arrayBuffer();
+  return {
+    text: Buffer.from(buffer).toString("utf8"),
+    bytes: buffer.byteLength
+  };
+}
+
+function encodeJobId(buildId: number, logId: number): number {
+  return buildId * LOG_INDEX_RADIX + logId;
+}
+
+function decodeJobId(jobId: number): { buildId: number; logId: number } | null {
+  const buildId = Math.floor(jobId / LOG_INDEX_RADIX);
+  const logId = jobId % LOG_INDEX_RADIX;
+  if (buildId <= 0 || logId <= 0) {
+    return null;
+  }
+
+  return { buildId, logId };
+}
+
+async function fetchPullRequest(
+  repo: SentinelRepositoryRef,
+  prNumber: number,
+  token: string,
+  apiBase: string
+): Promise<AzureDevOpsPullRequestSummary> {
+  return azureRestJson<AzureDevOpsPullRequestSummary>(repositoryApiUrl(apiBase, repo, `/pullRequests/${prNumber}`), token);
+}
+
+async function fetchThreads(
+  repo: SentinelRepositoryRef,
+  prNumber: number,
+  token: string,
+  apiBase: string
+): Promise<AzureDevOpsThread[]> {
+  const threads = await azureRestList<AzureDevOpsThread>(
+    repositoryApiUrl(apiBase, repo, `/pullRequests/${prNumber}/threads`),
+    token
+  );
+
+  return threads.filter((thread) => thread.isDeleted !== true);
+}
+
+function userComments(thread: AzureDevOpsThread): AzureDevOpsThreadComment[] {
+  if (!Array.isArray(thread.comments)) {
+    return [];
+  }
+
+  return thread.comments.filter((comment) => comment.isDeleted !== true && comment.commentType !== "system");
+}
+
+async function fetchLatestIteration(
+  repo: SentinelRepositoryRef,
+  prNumber: number,
+  token: string,
+  apiBase: string
+): Promise<AzureDevOpsIteration | null> {
+  const iterations = await azureRestList<AzureDevOpsIteration>(
+    repositoryApiUrl(apiBase, repo, `/pullRequests/${prNumber}/iterations`),
+    token
+  );
+
+  let latest: AzureDevOpsIteration | null = null;
+  for (const iteration of iterations) {
+    const id = asPositiveInt(iteration.id);
+    if (id && (!latest || id > (asPositiveInt(latest.id) ?? 0))) {
+      latest = iteration;
+    }
+  }
+
+  return latest;
+}
+
+function toPullRequestFile(entry: NonNullable<AzureDevOpsIterationChanges["changeEntries"]>[number]): SentinelPullRequestFile | null {
+  const rawPath = asNonEmptyString(entry.item?.path);
+  if (!rawPath) {
+    return null;
+  }
+
+  const changeType = asNonEmptyString(entry.changeType)?.toLowerCase() ?? "edit";
+  const primaryType = changeType.split(",")[0]?.trim() ?? "edit";
+
+  return {
+    path: rawPath.replace(/^\/+/, ""),
+    status: STATUS_BY_CHANGE_TYPE[primaryType] ?? primaryType,
+    additions: 0,
+    deletions: 0,
+    changes: 0
+  };
+}
+
+async function fetchIterationFiles(
+  repo: SentinelRepositoryRef,
+  prNumber: number,
+  iterationId: number,
+  maxFiles: number,
+  token: string,
+  apiBase: string
+): Promise<SentinelPullRequestFile[]> {
+  const url = new URL(repositoryApiUrl(apiBase, repo, `/pullRequests/${prNumber}/iterations/${iterationId}/changes`));
+  url.searchParams.set("$top", String(Math.min(maxFiles, MAX_CHANGE_ENTRIES)));
+
+  const changes = await azureRestJson<AzureDevOpsIterationChanges>(url.toString(), token);
+  const entries = Array.isArray(changes.changeEntries) ? changes.changeEntries : [];
+
+  return entries
+    .map(toPullRequestFile)
+    .filter((item): item is SentinelPullRequestFile => item !== null)
+    .slice(0, maxFiles);
+}
+
+async function buildPullRequestSummary(
+  repo: SentinelRepositoryRef,
+  raw: AzureDevOpsPullRequestSummary,
+  token: string,
+  apiBase: string
+): Promise<SentinelPullRequestSummary | null> {
+  const number = asPositiveInt(raw.pullRequestId);
+  const title = asNonEmptyString(raw.title);
+  const state = asNonEmptyString(raw.status);
+  const createdAt = asIsoTimestamp(raw.creationDate);
+  const headSha = asNonEmptyString(raw.lastMergeSourceCommit?.commitId);
+
+  if (!number || !title || !state || !createdAt || !headSha) {
+    return null;
+  }
+
+  const latestIteration = await fetchLatestIteration(repo, number, token, apiBase);
+  const latestIterationId = asPositiveInt(latestIteration?.id);
+  const files = latestIterationId
+    ? await fetchIterationFiles(repo, number, latestIterationId, MAX_CHANGE_ENTRIES, token, apiBase)
+    : [];
+  const commits = await azureRestList<unknown>(repositoryApiUrl(apiBase, repo, `/pullRequests/${number}/commits`), token);
+  const threads = (await fetchThreads(repo, number, token, apiBase)).filter((thread) => userComments(thread).length > 0);
+  const reviewComments = threads.filter((thread) => asNonEmptyString(thread.threadContext?.filePath) !== null).length;
+
+  return {
+    number,
+    title,
+    state: state === "active" ? "open" : state,
+    draft: raw.isDraft === true,
+    author: getIdentityLogin(raw.createdBy),
+    additions: 0,
+    deletions: 0,
+    changedFiles: files.length,
+    comments: threads.length - reviewComments,
+    reviewComments,
+    commits: commits.length,
+    createdAt,
+    updatedAt: asIsoTimestamp(latestIteration?.updatedDate) ?? asIsoTimestamp(raw.closedDate) ?? createdAt,
+    htmlUrl: repositoryWebUrl(apiBase, repo, `/pullrequest/${number}`),
+    headSha
+  };
+}
+
+async function resolveOpenPullRequestForBranch(
+  repo: SentinelRepositoryRef,
+  branch: string,
+  options: SentinelResolvePullRequestOptions
+): Promise<number | null> {
+  const apiBase = azureApiBase(options.apiBaseUrl);
+  const sourceRefName = `refs/heads/${branch}`;
+  const url = new URL(repositoryApiUrl(apiBase, repo, "/pullrequests"));
+  url.searchParams.set("searchCriteria.status", "active");
+  url.searchParams.set("searchCriteria.sourceRefName", sourceRefName);
+  url.searchParams.set("$top", "10");
+
+  const pulls = await azureRestList<AzureDevOpsPullRequestSummary>(url.toString(), options.authToken);
+  for (const pull of pulls) {
+    const id = asPositiveInt(pull.pullRequestId);
+    if (id && asNonEmptyString(pull.sourceRefName) === sourceRefName) {
+      return id;
+    }
+  }
+
+  return null;
+}
+
+async function listUnresolvedComments(
+  repo: SentinelRepositoryRef,
+  prNumber: number,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelUnresolvedComment[]> {
+  const apiBase = azureApiBase(options.apiBaseUrl);
+  const threads = await fetchThreads(repo, prNumber, options.authToken, apiBase);
+  const pullRequestUrl = repositoryWebUrl(apiBase, repo, `/pullrequest/${prNumber}`);
+  const comments: SentinelUnresolvedComment[] = [];
+
+  for (const thread of threads) {
+    const status = asNonEmptyString(thread.status)?.toLowerCase() ?? "unknown";
+    const threadId = asPositiveInt(thread.id);
+    const filePath = asNonEmptyString(thread.threadContext?.filePath);
+    const notes = userComments(thread);
+    const latest = notes[notes.length - 1];
+    if (!UNRESOLVED_THREAD_STATUSES.has(status) || !threadId || !filePath || !latest) {
+      continue;
+    }
+
+    comments.push({
+      file: filePath.replace(/^\/+/, ""),
+      line:
+        asPositiveInt(thread.threadContext?.rightFileStart?.line) ??
+        asPositiveInt(thread.threadContext?.leftFileStart?.line) ??
+        1,
+      author: getIdentityLogin(latest.author),
+      body: asNonEmptyString(latest.content) ?? "",
+      createdAt: asIsoTimestamp(latest.publishedDate) ?? new Date(0).toISOString(),
+      url: `${pullRequestUrl}?discussionId=${threadId}`,
+      resolved: false,
+      outdated: false
+    });
+  }
+
+  return comments;
+}
+
+function toFailureStep(record: AzureDevOpsTimelineRecord, fallbackNumber: number): SentinelFailureStep | null {
+  const name = asNonEmptyString(record.name);
+  if (!name) {
+    return null;
+  }
+
+  return {
+    name,
+    conclusion: toConclusion(record.result),
+    number: asPositiveInt(record.order) ?? fallbackNumber
+  };
+}
+
+async function fetchFailingJobsForBuild(
+  repo: SentinelRepositoryRef,
+  buildId: number,
+  runUrl: string,
+  token: string,
+  apiBase: string
+): Promise<SentinelFailureJob[]> {
+  const timeline = await azureRestJson<AzureDevOpsTimeline>(
+    projectApiUrl(apiBase, repo, `/build/builds/${buildId}/timeline`),
+    token
+  );
+  const records = Array.isArray(timeline.records) ? timeline.records : [];
+  const failingJobs: SentinelFailureJob[] = [];
+
+  for (const record of records) {
+    if (asNonEmptyString(record.type) !== "Job" || !isFailingResult(record.result)) {
+      continue;
+    }
+
+    const recordId = asNonEmptyString(record.id);
+    const name = asNonEmptyString(record.name);
+    const logId = asPositiveInt(record.log?.id);
+    if (!recordId || !name || !logId || logId >= LOG_INDEX_RADIX) {
+      continue;
+    }
+
+    const tasks = records
+      .filter((item) => asNonEmptyString(item.parentId) === recordId && asNonEmptyString(item.type) === "Task")
+      .sort((left, right) => (asPositiveInt(left.order) ?? 0) - (asPositiveInt(right.order) ?? 0));
+    const steps = tasks
+      .map((task, index) => toFailureStep(task, index + 1))
+      .filter((item): item is SentinelFailureStep => item !== null);
+    const failedTask = tasks.find((task) => isFailingResult(task.result));
+
+    failingJobs.push({
+      jobId: encodeJobId(buildId, logId),
+      name,
+      conclusion: toConclusion(record.result),
+      htmlUrl: `${runUrl}&view=logs&j=${encodeURIComponent(recordId)}`,
+      failedStepName: asNonEmptyString(failedTask?.name),
+      steps
+    });
+  }
+
+  failingJobs.sort((left, right) => left.jobId - right.jobId);
+  return failingJobs;
+}
+
+function buildSourceSha(build: AzureDevOpsBuildSummary): string | null {
+  return asNonEmptyString(build.triggerInfo?.["pr.sourceSha"]) ?? asNonEmptyString(build.sourceVersion);
+}
+
+async function toFailureRun(
+  repo: SentinelRepositoryRef,
+  build: AzureDevOpsBuildSummary,
+  token: string,
+  apiBase: string
+): Promise<SentinelFailureRun | null> {
+  const runId = asPositiveInt(build.id);
+  const headSha = buildSourceSha(build);
+  if (!runId || !headSha || !isFailingResult(build.result)) {
+    return null;
+  }
+
+  const htmlUrl =
+    asNonEmptyString(build._links?.web?.href) ?? `${projectBaseUrl(apiBase, repo)}/_build/results?buildId=${runId}`;
+  const jobs = await fetchFailingJobsForBuild(repo, runId, htmlUrl, token, apiBase);
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return {
+    runId,
+    workflowName: asNonEmptyString(build.definition?.name) ?? `Build ${asNonEmptyString(build.buildNumber) ?? runId}`,
+    workflowPath: null,
+    runNumber: runId,
+    runAttempt: 1,
+    headSha,
+    conclusion: toConclusion(build.result),
+    htmlUrl,
+    jobs
+  };
+}
+
+async function collectFailureRuns(
+  repo: SentinelRepositoryRef,
+  builds: AzureDevOpsBuildSummary[],
+  maxRuns: number,
+  token: string,
+  apiBase: string
+): Promise<SentinelFailureRun[]> {
+  const runs: SentinelFailureRun[] = [];
+
+  for (const build of builds) {
+    const run = await toFailureRun(repo, build, token, apiBase);
+    if (!run) {
+      continue;
+    }
+
+    runs.push(run);
+    if (runs.length >= maxRuns) {
+      break;
+    }
+  }
+
+  return runs;
+}
+
+async function listFailureRuns(
+  repo: SentinelRepositoryRef,
+  request: SentinelListFailureRunsRequest,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelFailureRun[]> {
+  const apiBase = azureApiBase(options.apiBaseUrl);
+  if (request.runId) {
+    const build = await azureRestJson<AzureDevOpsBuildSummary>(
+      projectApiUrl(apiBase, repo, `/build/builds/${request.runId}`),
+      options.authToken
+    );
+    const run = await toFailureRun(repo, build, options.authToken, apiBase);
+    return run ? [run] : [];
+  }
+
+  const url = new URL(projectApiUrl(apiBase, repo, "/build/builds"));
+  url.searchParams.set("statusFilter", "completed");
+  url.searchParams.set("queryOrder", "finishTimeDescending");
+  url.searchParams.set("$top", String(MAX_BUILDS_PER_QUERY));
+
+  if (request.prNumber) {
+    const pull = await fetchPullRequest(repo, request.prNumber, options.authToken, apiBase);
+    const headSha = asNonEmptyString(pull.lastMergeSourceCommit?.commitId);
+    if (!headSha) {
+      throw new Error(`E_SENTINEL_API_ERROR: missing pull request head SHA for PR ${request.prNumber}`);
+    }
+
+    url.searchParams.set("branchName", `refs/pull/${request.prNumber}/merge`);
+    const builds = await azureRestList<AzureDevOpsBuildSummary>(url.toString(), options.authToken);
+    return collectFailureRuns(
+      repo,
+      builds.filter((build) => buildSourceSha(build) === headSha),
+      request.maxRuns,
+      options.authToken,
+      apiBase
+    );
+  }
+
+  url.searchParams.set("repositoryId", repo.repo);
+  url.searchParams.set("repositoryType", "TfsGit");
+  const builds = await azureRestList<AzureDevOpsBuildSummary>(url.toString(), options.authToken);
+  return collectFailureRuns(repo, builds, request.maxRuns, options.authToken, apiBase);
+}
+
+async function listNotifications(
+  request: SentinelListNotificationsRequest,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelNotification[]> {
+  const apiBase = azureApiBase(options.apiBaseUrl);
+  if (!request.repo) {
+    throw new Error("E_SENTINEL_ARG_INVALID: azure-devops notifications require a repository scope");
+  }
+
+  const repo = request.repo;
+  const { organization } = splitOwner(repo);
+  const connectionUrl = `${apiBase}/${encodeURIComponent(organization)}/_apis/connectionData`;
+  const connectionResponse = await fetch(connectionUrl, {
+    headers: headersForAzureDevOps(options.authToken)
+  });
+
+  if (!connectionResponse.ok) {
+    const body = await connectionResponse.text();
+    if (connectionResponse.status === 401 || connectionResponse.status === 403) {
+      throw new Error(
+        `E_SENTINEL_NOTIFICATIONS_SCOPE_REQUIRED: status=${connectionResponse.status} ensure token grants Code (Read) access`
+      );
+    }
+    throwApiError(connectionResponse.status, connectionUrl, body);
+  }
+
+  const connection = (await connectionResponse.json()) as AzureDevOpsConnectionData;
+  const currentUserId = asNonEmptyString(connection.authenticatedUser?.id);
+  if (!currentUserId) {
+    throw new Error("E_SENTINEL_API_ERROR: missing authenticated user id");
+  }
+
+  const maxItems = Math.max(1, request.maxItems);
+  const url = new URL(repositoryApiUrl(apiBase, repo, "/pullrequests"));
+  url.searchParams.set("searchCriteria.status", "active");
+  url.searchParams.set("searchCriteria.reviewerId", currentUserId);
+  url.searchParams.set("$top", String(maxItems));
+
+  const pulls = await azureRestList<AzureDevOpsPullRequestSummary>(url.toString(), options.authToken);
+  const notifications: SentinelNotification[] = [];
+
+  for (const pull of pulls) {
+    const id = asPositiveInt(pull.pullRequestId);
+    if (!id) {
+      continue;
+    }
+
+    const reviewer = Array.isArray(pull.reviewers)
+      ? pull.reviewers.find((item) => asNonEmptyString(item.id) === currentUserId)
+      : undefined;
+    const reviewed = typeof reviewer?.vote === "number" && reviewer.vote !== 0;
+    if (reviewed && !request.includeRead) {
+      continue;
+    }
+
+    notifications.push({
+      id: `pullrequest:${id}`,
+      reason: "review_requested",
+      unread: !reviewed,
+      updatedAt: asIsoTimestamp(pull.creationDate) ?? new Date(0).toISOString(),
+      repository: { owner: repo.owner, repo: repo.repo },
+      subjectType: "PullRequest",
+      title: asNonEmptyString(pull.title) ?? "(untitled)",
+      pullNumber: id,
+      apiUrl: repositoryApiUrl(apiBase, repo, `/pullRequests/${id}`),
+      webUrl: repositoryWebUrl(apiBase, repo, `/pullrequest/${id}`)
+    });
+
+    if (notifications.length >= maxItems) {
+      break;
+    }
+  }
+
+  notifications.sort((left, right) => {
+    const updatedCompare = right.updatedAt.localeCompare(left.updatedAt);
+    if (updatedCompare !== 0) {
+      return updatedCompare;
+    }
+
+    return left.id.localeCompare(right.id);
+  });
+
+  return notifications;
+}
+
+async function listOpenPullRequests(
+  repo: SentinelRepositoryRef,
+  request: SentinelListOpenPullRequestsRequest,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelPullRequestSummary[]> {
+  const apiBase = azureApiBase(options.apiBaseUrl);
+  const maxPullRequests = Math.max(1, request.maxPullRequests);
+  const url = new URL(repositoryApiUrl(apiBase, repo, "/pullrequests"));
+  url.searchParams.set("searchCriteria.status", "active");
+  url.searchParams.set("$top", String(maxPullRequests));
+
+  const pulls = await azureRestList<AzureDevOpsPullRequestSummary>(url.toString(), options.authToken);
+  const results: SentinelPullRequestSummary[] = [];
+
+  for (const pull of pulls) {
+    const normalized = await buildPullRequestSummary(repo, pull, options.authToken, apiBase);
+    if (!normalized) {
+      continue;
+    }
+
+    results.push(normalized);
+    if (results.length >= maxPullRequests) {
+      break;
+    }
+  }
+
+  return results;
+}
+
+async function getPullRequestSummary(
+  repo: SentinelRepositoryRef,
+  prNumber: number,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelPullRequestSummary> {
+  const apiBase = azureApiBase(options.apiBaseUrl);
+  const pull = await fetchPullRequest(repo, prNumber, options.authToken, apiBase);
+  const normalized = await buildPullRequestSummary(repo, pull, options.authToken, apiBase);
+  if (!normalized) {
+    throw new Error(`E_SENTINEL_API_ERROR: missing pull request summary fields for PR ${prNumber}`);
+  }
+
+  return normalized;
+}
+
+async function listPullRequestFiles(
+  repo: SentinelRepositoryRef,
+  prNumber: number,
+  request: SentinelListPullRequestFilesRequest,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelPullRequestFile[]> {
+  const apiBase = azureApiBase(options.apiBaseUrl);
+  const maxFiles = Math.max(1, request.maxFiles);
+  const latestIteration = await fetchLatestIteration(repo, prNumber, options.authToken, apiBase);
+  const latestIterationId = asPositiveInt(latestIteration?.id);
+  if (!latestIterationId) {
+    return [];
+  }
+
+  const files = await fetchIterationFiles(repo, prNumber, latestIterationId, maxFiles, options.authToken, apiBase);
+
+  files.sort((left, right) => {
+    const pathCompare = left.path.localeCompare(right.path);
+    if (pathCompare !== 0) {
+      return pathCompare;
+    }
+
+    return left.status.localeCompare(right.status);
+  });
+
+  return files;
+}
+
+async function getJobLogs(request: SentinelGetJobLogsRequest): Promise<string> {
+  const decoded = decodeJobId(request.jobId);
+  if (!decoded) {
+    throw new Error(`E_SENTINEL_API_ERROR: job=${request.jobId} is not an azure-devops build log reference`);
+  }
+
+  const url = projectApiUrl(
+    azureApiBase(request.apiBaseUrl),
+    request.repo,
+    `/build/builds/${decoded.buildId}/logs/${decoded.logId}`
+  );
+  const log = await azureRestText(url, request.authToken);
+
+  if (log.bytes > request.maxLogBytes) {
+    throw new Error(`E_SENTINEL_LOG_TOO_LARGE: job=${request.jobId} bytes=${log.bytes} maxLogBytes=${request.maxLogBytes}`);
+  }
+
+  return log.text;
+}
+
+export const azureDevOpsSentinelAdapter: SentinelProviderAdapter = {
+  resolveOpenPullRequestForBranch,
+  listUnresolvedComments,
+  listFailureRuns,
+  listNotifications,
+  listOpenPullRequests,
+  getPullRequestSummary,
+  listPullRequestFiles,
+  getJobLogs
+};
@@ -2,12 +2,19 @@ import type {
   ApprovalRetryPolicy,
   ProviderAdapter,
   ProviderApprovalOptions,
+  ProviderCodeOwnerReview,
+  ProviderCommitStatus,
+  ProviderHeadApprovalSummary,
   ProviderPolicyContext,
   ProviderReviewTarget,
+  ProviderStickyComment,
+  ProviderStickyCommentResult,
   ProviderTargetExtractionResult,
+  ProviderWriteOptions,
   PullContext
 } from "./types";
 import { ProviderApprovalError } from "./types";
+import { bitbucketSentinelAdapter } from "./bitbucketSentinel";
 
 interface BitbucketUser {
   nickname?: string;
@@ -22,6 +29,41 @@ interface BitbucketParticipant {
   user?: BitbucketUser;
 }
 
+interface BitbucketDiffStat {
+  new?: {
+    path?: string;
+  } | null;
+  old?: {
+    path?: string;
+  } | null;
+}
+
+interface BitbucketComment {
+  id?: number;
+  deleted?: boolean;
+  user?: {
+    uuid?: string;
+  };
+  content?: {
+    raw?: string;
+  };
+}
+
+interface BitbucketActivity {
+  update?: {
+    date?: string;
+    source?: {
+      commit?: {
+        hash?: string;
+      };
+    };
+  };
+  approval?: {
+    date?: string;
+    user?: BitbucketUser;
+  };
+}
+
 interface ApprovalAttemptLog {
   attempt: number;
   category: "timeout" | "status";
@@ -36,7 +78,9 @@ const BITBUCKET_SUPPORTED_EVENTS = new Set([
   "pullrequest:comment_created",
   "pullrequest:comment_updated"
 ]);
+const BITBUCKET_API_BASE_URL = "https://api.bitbucket.org/2.0";
 const MAX_ERROR_SNIPPET = 180;
+const MAX_STICKY_COMMENT_PAGES = 20;
 
 function normalizeLogin(value: string): string {
   return value.trim().toLowerCase();
@@ -229,10 +273,13 @@ function extractPullContext(payload: Record<string, unknown>): PullContext | nul
     return null;
   }
 
+  const source = asObject(asObject(payload.pullrequest)?.source);
+  const headSha = asObject(source?.commit)?.hash;
   return {
     owner: repo.owner,
     repo: repo.repo,
-    pullNumber
+    pullNumber,
+    ...(typeof headSha === "string" && headSha.length > 0 ? { headSha } : {})
   };
 }
 
@@ -312,7 +359,7 @@ function toProviderApprovalError(
   return new ProviderApprovalError(kind, message, details);
 }
 
-function countHumanApprovals(participants: BitbucketParticipant[], allowedAuthors: Set<string>): number {
+function collectApprovedLogins(participants: BitbucketParticipant[], allowedAuthors: Set<string>): Set<string> {
   const approvedLogins = new Set<string>();
 
   for (const participant of participants) {
@@ -336,21 +383,15 @@ function countHumanApprovals(participants: BitbucketParticipant[], allowedAuthor
     approvedLogins.add(login);
   }
 
-  return approvedLogins.size;
+  return approvedLogins;
 }
 
-async function fetchHumanApprovalCount(context: PullContext, options: ProviderApprovalOptions): Promise<number> {
-  const token = options.authToken ?? options.githubToken;
-  if (!token) {
-    throw toProviderApprovalError("fetch_error", "Bitbucket approval fetch token missing", {
-      tokenEnvVar: "BITBUCKET_TOKEN"
-    });
-  }
-
-  const retryPolicy = normalizeRetryPolicy(options.retry);
-  const owner = encodeURIComponent(context.owner);
-  const repo = encodeURIComponent(context.repo);
-  const url = `https://api.bitbucket.org/2.0/repositories/${owner}/${repo}/pullrequests/${context.pullNumber}`;
+async function fetchWithApprovalRetry(
+  url: string,
+  token: string,
+  options: ProviderApprovalOptions,
+  retryPolicy: ApprovalRetryPolicy
+): Promise<Response> {
   const attempts: ApprovalAttemptLog[] = [];
 
   for (let attempt = 1; attempt <= retryPolicy.maxAttempts; attempt += 1) {
@@ -361,7 +402,7 @@ async function fetchHumanApprovalCount(context: PullContext, options: ProviderAp
 
     let response: Response;
     try {
-      response = await fetch(url, {
+      response = await (options.fetch ?? fetch)(url, {
         headers: {
           Accept: "application/json",
           Authorization: `Bearer ${token}`
@@ -464,18 +505,7 @@ async function fetchHumanApprovalCount(context: PullContext, options: ProviderAp
       });
     }
 
-    const payload = (await response.json()) as unknown;
-    const record = asObject(payload);
-    if (!record) {
-      throw toProviderApprovalError("fetch_error", "Bitbucket pull request approval payload is not an object", {
-        url
-      });
-    }
-
-    const participants = Array.isArray(record.participants)
-      ? record.participants.filter((item): item is BitbucketParticipant => Boolean(asObject(item)))
-      : [];
-    return countHumanApprovals(participants, options.allowedAuthors);
+    return response;
   }
 
   throw toProviderApprovalError("retry_exhausted", "Approval verification retries exhausted before response was received", {
@@ -484,9 +514,326 @@ async function fetchHumanApprovalCount(context: PullContext, options: ProviderAp
   });
 }
 
+function requireToken(options: ProviderApprovalOptions): string {
+  const token = options.authToken ?? options.githubToken;
+  if (!token) {
+    throw toProviderApprovalError("fetch_error", "Bitbucket approval fetch token missing", {
+      tokenEnvVar: "BITBUCKET_TOKEN"
+    });
+  }
+
+  return token;
+}
+
+function pullRequestApiUrl(options: ProviderApprovalOptions, context: PullContext, suffix: string): string {
+  const apiBase = options.apiBaseUrl ?? BITBUCKET_API_BASE_URL;
+  const owner = encodeURIComponent(context.owner);
+  const repo = encodeURIComponent(context.repo);
+  return `${apiBase}/repositories/${owner}/${repo}/pullrequests/${context.pullNumber}${suffix}`;
+}
+
+async function fetchPullRequestRecord(
+  context: PullContext,
+  options: ProviderApprovalOptions,
+  token: string
+): Promise<Record<string, unknown>> {
+  const url = pullRequestApiUrl(options, context, "");
+  const response = await fetchWithApprovalRetry(url, token, options, normalizeRetryPolicy(options.retry));
+  const record = asObject((await response.json()) as unknown);
+  if (!record) {
+    throw toProviderApprovalError("fetch_error", "Bitbucket pull request approval payload is not an object", {
+      url
+    });
+  }
+
+  return record;
+}
+
+function collectHumanApprovers(record: Record<string, unknown>, allowedAuthors: Set<string>): Set<string> {
+  const participants = Array.isArray(record.participants)
+    ? record.participants.filter((item): item is BitbucketParticipant => Boolean(asObject(item)))
+    : [];
+  return collectApprovedLogins(participants, allowedAuthors);
+}
+
+async function fetchHumanApprovalCount(context: PullContext, options: ProviderApprovalOptions): Promise<number> {
+  const token = requireToken(options);
+  const record = await fetchPullRequestRecord(context, options, token);
+  return collectHumanApprovers(record, options.allowedAuthors).size;
+}
+
+function commitHashesMatch(left: string, right: string): boolean {
+  const a = left.toLowerCase();
+  const b = right.toLowerCase();
+  return a.length > 0 && b.length > 0 && (a.startsWith(b) || b.startsWith(a));
+}
+
+async function fetchActivityTimes(
+  context: PullContext,
+  options: ProviderApprovalOptions,
+  token: string,
+  headSha: string
+): Promise<{ headUpdatedAt: number | null; approvedAtByLogin: Map<string, number> }> {
+  const retryPolicy = normalizeRetryPolicy(options.retry);
+  const approvedAtByLogin = new Map<string, number>();
+  let headUpdatedAt: number | null = null;
+  let url: string | null = pullRequestApiUrl(options, context, "/activity?pagelen=50");
+  let page = 1;
+
+  while (url && page <= options.maxPages) {
+    const response = await fetchWithApprovalRetry(url, token, options, retryPolicy);
+    const record = asObject((await response.json()) as unknown);
+    const values = Array.isArray(record?.values)
+      ? record.values.filter((item): item is BitbucketActivity => Boolean(asObject(item)))
+      : [];
+
+    for (const activity of values) {
+      const updateDate = typeof activity.update?.date === "string" ? Date.parse(activity.update.date) : Number.NaN;
+      const updateHash = activity.update?.source?.commit?.hash;
+      if (!Number.isNaN(updateDate) && typeof updateHash === "string" && commitHashesMatch(updateHash, headSha)) {
+        headUpdatedAt = headUpdatedAt === null ? updateDate : Math.min(headUpdatedAt, updateDate);
+      }
+
+      const approvalDate = typeof activity.approval?.date === "string" ? Date.parse(activity.approval.date) : Number.NaN;
+      const login = normalizeLogin(getUserLogin(activity.approval?.user));
+      if (!Number.isNaN(approvalDate) && login !== "unknown") {
+        approvedAtByLogin.set(login, Math.max(approvedAtByLogin.get(login) ?? approvalDate, approvalDate));
+      }
+    }
+
+    url = typeof record?.next === "string" && record.next.length > 0 ? record.next : null;
+    page += 1;
+  }
+
+  if (url) {
+    throw toProviderApprovalError("fetch_error", `Bitbucket activity pagination exceeded max pages ${options.maxPages}`, {
+      maxPages: options.maxPages
+    });
+  }
+
+  return {
+    headUpdatedAt,
+    approvedAtByLogin
+  };
+}
+
+async function fetchHeadApprovalSummary(
+  context: PullContext,
+  options: ProviderApprovalOptions
+): Promise<ProviderHeadApprovalSummary> {
+  const token = requireToken(options);
+  const record = await fetchPullRequestRecord(context, options, token);
+  const liveHash = asObject(asObject(asObject(record.source)?.commit))?.hash;
+  const headSha = context.headSha ?? (typeof liveHash === "string" ? liveHash : "");
+  if (headSha.length === 0) {
+    throw toProviderApprovalError("fetch_error", "Bitbucket pull request head commit missing", {
+      url: pullRequestApiUrl(options, context, "")
+    });
+  }
+
+  const approvers = collectHumanApprovers(record, options.allowedAuthors);
+  const activity = await fetchActivityTimes(context, options, token, headSha);
+  if (activity.headUpdatedAt === null) {
+    throw toProviderApprovalError("fetch_error", "Bitbucket pull request activity for head commit not found", {
+      url: pullRequestApiUrl(options, context, "/activity"),
+      headSha
+    });
+  }
+
+  const headApproverLogins: string[] = [];
+  let staleApprovals = 0;
+  for (const login of approvers) {
+    const approvedAt = activity.approvedAtByLogin.get(login);
+    if (approvedAt !== undefined && approvedAt >= activity.headUpdatedAt) {
+      headApproverLogins.push(login);
+    } else {
+      staleApprovals += 1;
+    }
+  }
+
+  return {
+    headSha,
+    approvals: headApproverLogins.length,
+    staleApprovals,
+    headApproverLogins
+  };
+}
+
+async function fetchChangedFiles(context: PullContext, options: ProviderApprovalOptions, token: string): Promise<string[]> {
+  const retryPolicy = normalizeRetryPolicy(options.retry);
+  const changedFiles: string[] = [];
+  let url: string | null = pullRequestApiUrl(options, context, "/diffstat?pagelen=100");
+  let page = 1;
+
+  while (url && page <= options.maxPages) {
+    const response = await fetchWithApprovalRetry(url, token, options, retryPolicy);
+    const record = asObject((await response.json()) as unknown);
+    const values = Array.isArray(record?.values)
+      ? record.values.filter((item): item is BitbucketDiffStat => Boolean(asObject(item)))
+      : [];
+
+    for (const entry of values) {
+      const filePath = entry.new?.path ?? entry.old?.path;
+      if (typeof filePath === "string" && filePath.length > 0) {
+        changedFiles.push(filePath);
+      }
+    }
+
+    url = typeof record?.next === "string" && record.next.length > 0 ? record.next : null;
+    page += 1;
+  }
+
+  if (url) {
+    throw toProviderApprovalError("fetch_error", `Bitbucket diffstat pagination exceeded max pages ${options.maxPages}`, {
+      maxPages: options.maxPages
+    });
+  }
+
+  return changedFiles;
+}
+
+async function fetchCodeOwnerReview(
+  context: PullContext,
+  options: ProviderApprovalOptions
+): Promise<ProviderCodeOwnerReview> {
+  const token = requireToken(options);
+  const record = await fetchPullRequestRecord(context, options, token);
+  const changedFiles = await fetchChangedFiles(context, options, token);
+
+  return {
+    changedFiles,
+    approverLogins: Array.from(collectHumanApprovers(record, options.allowedAuthors))
+  };
+}
+
+const BITBUCKET_STATUS_STATES: Record<ProviderCommitStatus["state"], string> = {
+  pending: "INPROGRESS",
+  success: "SUCCESSFUL",
+  failure: "FAILED",
+  error: "FAILED"
+};
+
+async function sendAuthorizedRequest(
+  method: "GET" | "POST" | "PUT",
+  url: string,
+  body: unknown,
+  options: ProviderWriteOptions
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => {
+    controller.abort();
+  }, options.fetchTimeoutMs);
+
+  let response: Response;
+  try {
+    response = await (options.fetch ?? fetch)(url, {
+      method,
+      headers: {
+        Accept: "application/json",
+        Authorization: `Bearer ${options.authToken}`,
+        "Content-Type": "application/json"
+      },
+      ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+      signal: controller.signal
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const isTimeout = error instanceof Error && error.name === "AbortError";
+    throw toProviderApprovalError(isTimeout ? "timeout" : "fetch_error", `Bitbucket ${method} request failed: ${message}`, {
+      url
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  if (!response.ok) {
+    const responseText = (await response.text()).slice(0, MAX_ERROR_SNIPPET);
+    throw toProviderApprovalError("http_error", `Bitbucket ${method} request returned status ${response.status}`, {
+      url,
+      status: response.status,
+      responseText
+    });
+  }
+
+  return response;
+}
+
+async function postCommitStatus(status: ProviderCommitStatus, options: ProviderWriteOptions): Promise<void> {
+  const apiBase = options.apiBaseUrl ?? BITBUCKET_API_BASE_URL;
+  const owner = encodeURIComponent(status.owner);
+  const repo = encodeURIComponent(status.repo);
+  const url = `${apiBase}/repositories/${owner}/${repo}/commit/${encodeURIComponent(status.sha)}/statuses/build`;
+  await sendAuthorizedRequest(
+    "POST",
+    url,
+    {
+      key: status.context.slice(0, 40),
+      name: status.context,
+      state: BITBUCKET_STATUS_STATES[status.state],
+      description: status.description.slice(0, 255),
+      url: status.targetUrl ?? `https://bitbucket.org/${status.owner}/${status.repo}/commits/${status.sha}`
+    },
+    options
+  );
+}
+
+async function upsertStickyComment(
+  comment: ProviderStickyComment,
+  options: ProviderWriteOptions
+): Promise<ProviderStickyCommentResult> {
+  const apiBase = options.apiBaseUrl ?? BITBUCKET_API_BASE_URL;
+  const owner = encodeURIComponent(comment.owner);
+  const repo = encodeURIComponent(comment.repo);
+  const commentsUrl = `${apiBase}/repositories/${owner}/${repo}/pullrequests/${comment.pullNumber}/comments`;
+  const currentUser = (await (await sendAuthorizedRequest("GET", `${apiBase}/user`, undefined, options)).json()) as { uuid?: unknown };
+  const uuid = typeof currentUser.uuid === "string" && currentUser.uuid.length > 0 ? currentUser.uuid : null;
+  if (!uuid) {
+    throw toProviderApprovalError("http_error", "Bitbucket /user response did not include a uuid", { url: `${apiBase}/user` });
+  }
+
+  let url: string | null = `${commentsUrl}?pagelen=100`;
+  let page = 0;
+
+  while (url && page < MAX_STICKY_COMMENT_PAGES) {
+    const response = await sendAuthorizedRequest("GET", url, undefined, options);
+    const record = asObject((await response.json()) as unknown);
+    const values = Array.isArray(record?.values)
+      ? record.values.filter((item): item is BitbucketComment => Boolean(asObject(item)))
+      : [];
+
+    const match = values.find(
+      (item) =>
+        typeof item.id === "number" &&
+        item.deleted !== true &&
+        item.user?.uuid === uuid &&
+        item.content?.raw?.includes(comment.marker)
+    );
+    if (match?.id !== undefined) {
+      await sendAuthorizedRequest("PUT", `${commentsUrl}/${match.id}`, { content: { raw: comment.body } }, options);
+      return {
+        id: String(match.id),
+        action: "updated"
+      };
+    }
+
+    url = typeof record?.next === "string" && record.next.length > 0 ? record.next : null;
+    page += 1;
+  }
+
+  const created = (await (
+    await sendAuthorizedRequest("POST", commentsUrl, { content: { raw: comment.body } }, options)
+  ).json()) as BitbucketComment;
+  return {
+    id: String(created.id ?? ""),
+    action: "created"
+  };
+}
+
 export const bitbucketProvider: ProviderAdapter = {
   name: "bitbucket",
   approvalTokenEnvVar: "BITBUCKET_TOKEN",
+  apiBaseUrlEnvVar: "BITBUCKET_API_URL",
+  sentinel: bitbucketSentinelAdapter,
   supportedEvents: BITBUCKET_SUPPORTED_EVENTS,
   extractTargets: (eventName: string, payload: unknown, policy: ProviderPolicyContext): ProviderTargetExtractionResult => {
     const obj = asObject(payload);
@@ -510,5 +857,9 @@ export const bitbucketProvider: ProviderAdapter = {
 
     return extractPullContext(obj);
   },
-  fetchHumanApprovalCount
+  fetchHumanApprovalCount,
+  fetchHeadApprovalSummary,
+  fetchCodeOwnerReview,
+  postCommitStatus,
+  upsertStickyComment
 };
@@ -0,0 +1,853 @@
+import type {
+  SentinelFailureJob,
+  SentinelFailureRun,
+  SentinelGetJobLogsRequest,
+  SentinelListFailureRunsRequest,
+  SentinelListNotificationsRequest,
+  SentinelListOpenPullRequestsRequest,
+  SentinelListPullRequestFilesRequest,
+  SentinelNotification,
+  SentinelPullRequestFile,
+  SentinelPullRequestSummary,
+  SentinelProviderAdapter,
+  SentinelRepositoryRef,
+  SentinelResolvePullRequestOptions,
+  SentinelUnresolvedComment
+} from "./types";
+
+interface BitbucketUserSummary {
+  uuid?: unknown;
+  account_id?: unknown;
+  nickname?: unknown;
+  username?: unknown;
+  display_name?: unknown;
+}
+
+interface BitbucketLinks {
+  html?: {
+    href?: unknown;
+  };
+}
+
+interface BitbucketPage<T> {
+  values?: T[];
+  next?: unknown;
+}
+
+interface BitbucketComment {
+  id?: unknown;
+  content?: {
+    raw?: unknown;
+  };
+  user?: BitbucketUserSummary;
+  created_on?: unknown;
+  deleted?: unknown;
+  resolution?: unknown;
+  parent?: unknown;
+  inline?: {
+    path?: unknown;
+    to?: unknown;
+    from?: unknown;
+  };
+  links?: BitbucketLinks;
+}
+
+interface BitbucketTask {
+  id?: unknown;
+  state?: unknown;
+  content?: {
+    raw?: unknown;
+  };
+  creator?: BitbucketUserSummary;
+  created_on?: unknown;
+  comment?: {
+    id?: unknown;
+  };
+}
+
+interface BitbucketParticipant {
+  user?: BitbucketUserSummary;
+  role?: unknown;
+  approved?: unknown;
+  state?: unknown;
+}
+
+interface BitbucketPullRequestSummary {
+  id?: unknown;
+  title?: unknown;
+  state?: unknown;
+  draft?: unknown;
+  author?: BitbucketUserSummary;
+  comment_count?: unknown;
+  created_on?: unknown;
+  updated_on?: unknown;
+  links?: BitbucketLinks;
+  source?: {
+    branch?: {
+      name?: unknown;
+    };
+    commit?: {
+      hash?: unknown;
+    };
+  };
+  participants?: BitbucketParticipant[];
+}
+
+interface BitbucketDiffstatEntry {
+  status?: unknown;
+  lines_added?: unknown;
+  lines_removed?: unknown;
+  old?: {
+    path?: unknown;
+  } | null;
+  new?: {
+    path?: unknown;
+  } | null;
+}
+
+interface BitbucketPipelineResult {
+  name?: unknown;
+}
+
+interface BitbucketPipelineState {
+  name?: unknown;
+  result?: BitbucketPipelineResult;
+}
+
+interface BitbucketPipelineSummary {
+  uuid?: unknown;
+  build_number?: unknown;
+  state?: BitbucketPipelineState;
+  target?: {
+    commit?: {
+      hash?: unknown;
+    };
+  };
+  run_number?: unknown;
+}
+
+interface BitbucketPipelineStep {
+  uuid?: unknown;
+  name?: unknown;
+  state?: BitbucketPipelineState;
+}
+
+const BITBUCKET_API_BASE_URL = "https://api.bitbucket.org/2.0";
+const BITBUCKET_PIPELINES_CONFIG_PATH = "bitbucket-pipelines.yml";
+const PAGE_LENGTH = 50;
+const MAX_DETAIL_PAGES = 10;
+
+// Pipeline steps are addressed by UUID; job ids encode build number and step position so
+// getJobLogs can resolve the step without extra state.
+const STEP_INDEX_RADIX = 1_000;
+
+const FAILURE_RESULTS = new Set(["failed", "error", "stopped"]);
+
+const CONCLUSION_BY_RESULT: Record<string, string> = {
+  failed: "failure",
+  error: "failure",
+  stopped: "cancelled",
+  successful: "success",
+  expired: "timed_out"
+};
+
+function asNonEmptyString(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function asPositiveInt(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    return null;
+  }
+
+  return value;
+}
+
+function asNonNegativeInt(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    return null;
+  }
+
+  return value;
+}
+
+function asIsoTimestamp(value: unknown): string | null {
+  const raw = asNonEmptyString(value);
+  if (!raw) {
+    return null;
+  }
+
+  const parsed = Date.parse(raw);
+  if (Number.isNaN(parsed)) {
+    return null;
+  }
+
+  return new Date(parsed).toISOString();
+}
+
+function getUserLogin(user: BitbucketUserSummary | undefined): string {
+  if (!user) {
+    return "unknown";
+  }
+
+  return (
+    asNonEmptyString(user.nickname) ??
+    asNonEmptyString(user.username) ??
+    asNonEmptyString(user.display_name) ??
+    asNonEmptyString(user.account_id) ??
+    "unknown"
+  );
+}
+
+function bitbucketApiBase(apiBaseUrl: string | undefined): string {
+  return apiBaseUrl ?? BITBUCKET_API_BASE_URL;
+}
+
+function bitbucketWebBase(apiBase: string): string {
+  const parsed = new URL(apiBase);
+  const host = parsed.host.startsWith("api.") ? parsed.host.slice("api.".length) : parsed.host;
+  return `${parsed.protocol}//${host}${parsed.pathname.replace(/\/2\.0$/, "")}`;
+}
+
+function repositoryApiUrl(apiBase: string, repo: SentinelRepositoryRef, suffix: string): string {
+  return `${apiBase}/repositories/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.repo)}${suffix}`;
+}
+
+function repositoryWebUrl(apiBase: string, repo: SentinelRepositoryRef, suffix: string): string {
+  return `${bitbucketWebBase(apiBase)}/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.repo)}${suffix}`;
+}
+
+function resultName(state: BitbucketPipelineState | undefined): string {
+  return asNonEmptyString(state?.result?.name)?.toLowerCase() ?? "unknown";
+}
+
+function toConclusion(state: BitbucketPipelineState | undefined): string {
+  const result = resultName(state);
+  return CONCLUSION_BY_RESULT[result] ?? result;
+}
+
+function isFailingState(state: BitbucketPipelineState | undefined): boolean {
+  return FAILURE_RESULTS.has(resultName(state));
+}
+
+function headersForBitbucket(token: string): Record<string, string> {
+  return {
+    Accept: "application/json",
+    Authorization: `Bearer ${token}`
+  };
+}
+
+function throwApiError(status: number, url: string, body: string): never {
+  const snippet = body.trim().replace(/\s+/g, " ").slice(0, 220);
+  throw new Error(`E_SENTINEL_API_ERROR: status=${status} url=${url} body=${snippet}`);
+}
+
+async function bitbucketRestJson<T>(url: string, token: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: headersForBitbucket(token)
+  });
+
+  if (!response.ok) {
+    throwApiError(response.status, url, await response.text());
+  }
+
+  return (await response.json()) as T;
+}
+
+async function bitbucketRestText(url: string, token: string): Promise<{ text: string; bytes: number }> {
+  const response = await fetch(url, {
+    headers: {
+      ...headersForBitbucket(token),
+      Accept: "application/octet-stream"
+    },
+    redirect: "follow"
+  });
+
+  if (!response.ok) {
+    throwApiError(response.status, url, await response.text());
+  }
+
+  const buffer = await response.arrayBuffer();
+  return {
+    text: Buffer.from(buffer).toString("utf8"),
+    bytes: buffer.byteLength
+  };
+}
+
+async function bitbucketRestPaged<T>(firstUrl: string, token: string, maxPages: number): Promise<T[]> {
+  const items: T[] = [];
+  const initial = new URL(firstUrl);
+  if (!initial.searchParams.has("pagelen")) {
+    initial.searchParams.set("pagelen", String(PAGE_LENGTH));
+  }
+
+  let nextUrl: string | null = initial.toString();
+  for (let page = 1; page <= maxPages && nextUrl; page += 1) {
+    const payload: BitbucketPage<T> = await bitbucketRestJson<BitbucketPage<T>>(nextUrl, token);
+    if (Array.isArray(payload.values)) {
+      items.push(...payload.values);
+    }
+
+    nextUrl = asNonEmptyString(payload.next);
+  }
+
+  return items;
+}
+
+function encodeJobId(buildNumber: number, stepPosition: number): number {
+  return buildNumber * STEP_INDEX_RADIX + stepPosition;
+}
+
+function decodeJobId(jobId: number): { buildNumber: number; stepPosition: number } | null {
+  const buildNumber = Math.floor(jobId / STEP_INDEX_RADIX);
+  const stepPosition = jobId % STEP_INDEX_RADIX;
+  if (buildNumber <= 0 || stepPosition <= 0) {
+    return null;
+  }
+
+  return { buildNumber, stepPosition };
+}
+
+async function fetchPullRequest(
+  repo: SentinelRepositoryRef,
+  prNumber: number,
+  token: string,
+  apiBase: string
+): Promise<BitbucketPullRequestSummary> {
+  return bitbucketRestJson<BitbucketPullRequestSummary>(repositoryApiUrl(apiBase, repo, `/pullrequests/${prNumber}`), token);
+}
+
+async function fetchDiffstat(
+  repo: SentinelRepositoryRef,
+  prNumber: number,
+  token: string,
+  apiBase: string,
+  maxPages: number
+): Promise<BitbucketDiffstatEntry[]> {
+  return bitbucketRestPaged<BitbucketDiffstatEntry>(repositoryApiUrl(apiBase, repo, `/pullrequests/${prNumber}/diffstat`), token, maxPages);
+}
+
+type PullRequestListFields = Omit<SentinelPullRequestSummary, "additions" | "deletions" | "changedFiles" | "commits">;
+
+function toPullRequestListFields(raw: BitbucketPullRequestSummary): PullRequestListFields | null {
+  const number = asPositiveInt(raw.id);
+  const title = asNonEmptyString(raw.title);
+  const state = asNonEmptyString(raw.state);
+  const createdAt = asIsoTimestamp(raw.created_on);
+  const updatedAt = asIsoTimestamp(raw.updated_on);
+  const htmlUrl = asNonEmptyString(raw.links?.html?.href);
+  const headSha = asNonEmptyString(raw.source?.commit?.hash);
+
+  if (!number || !title || !state || !createdAt || !updatedAt || !htmlUrl || !headSha) {
+    return null;
+  }
+
+  return {
+    number,
+    title,
+    state: state.toLowerCase(),
+    draft: raw.draft === true,
+    author: getUserLogin(raw.author),
+    comments: asNonNegativeInt(raw.comment_count) ?? 0,
+    reviewComments: 0,
+    createdAt,
+    updatedAt,
+    htmlUrl,
+    headSha
+  };
+}
+
+async function buildPullRequestSummary(
+  repo: SentinelRepositoryRef,
+  fields: PullRequestListFields,
+  token: string,
+  apiBase: string
+): Promise<SentinelPullRequestSummary> {
+  const diffstat = await fetchDiffstat(repo, fields.number, token, apiBase, MAX_DETAIL_PAGES);
+  const commits = await bitbucketRestPaged<unknown>(
+    repositoryApiUrl(apiBase, repo, `/pullrequests/${fields.number}/commits`),
+    token,
+    MAX_DETAIL_PAGES
+  );
+
+  let additions = 0;
+  let deletions = 0;
+  for (const entry of diffstat) {
+    additions += asNonNegativeInt(entry.lines_added) ?? 0;
+    deletions += asNonNegativeInt(entry.lines_removed) ?? 0;
+  }
+
+  return {
+    ...fields,
+    additions,
+    deletions,
+    changedFiles: diffstat.length,
+    commits: commits.length
+  };
+}
+
+async function resolveOpenPullRequestForBranch(
+  repo: SentinelRepositoryRef,
+  branch: string,
+  options: SentinelResolvePullRequestOptions
+): Promise<number | null> {
+  const apiBase = bitbucketApiBase(options.apiBaseUrl);
+  const url = new URL(repositoryApiUrl(apiBase, repo, "/pullrequests"));
+  url.searchParams.set("state", "OPEN");
+  url.searchParams.set("q", `source.branch.name="${branch.replace(/"/g, '\\"')}"`);
+  url.searchParams.set("pagelen", "10");
+
+  const page = await bitbucketRestJson<BitbucketPage<BitbucketPullRequestSummary>>(url.toString(), options.authToken);
+  const pulls = Array.isArray(page.values) ? page.values : [];
+
+  for (const pull of pulls) {
+    const id = asPositiveInt(pull.id);
+    if (id && asNonEmptyString(pull.source?.branch?.name) === branch) {
+      return id;
+    }
+  }
+
+  return null;
+}
+
+async function listUnresolvedComments(
+  repo: SentinelRepositoryRef,
+  prNumber: number,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelUnresolvedComment[]> {
+  const apiBase = bitbucketApiBase(options.apiBaseUrl);
+  const rawComments = await bitbucketRestPaged<BitbucketComment>(
+    repositoryApiUrl(apiBase, repo, `/pullrequests/${prNumber}/comments`),
+    options.authToken,
+    MAX_DETAIL_PAGES
+  );
+  const tasks = await bitbucketRestPaged<BitbucketTask>(
+    repositoryApiUrl(apiBase, repo, `/pullrequests/${prNumber}/tasks`),
+    options.authToken,
+    MAX_DETAIL_PAGES
+  );
+
+  const pullRequestUrl = repositoryWebUrl(apiBase, repo, `/pull-requests/${prNumber}`);
+  const commentsById = new Map<number, BitbucketComment>();
+  for (const comment of rawComments) {
+    const id = asPositiveInt(comment.id);
+    if (id) {
+      commentsById.set(id, comment);
+    }
+  }
+
+  const comments: SentinelUnresolvedComment[] = [];
+
+  for (const comment of rawComments) {
+    const id = asPositiveInt(comment.id);
+    const file = asNonEmptyString(comment.inline?.path);
+    if (!id || !file || comment.deleted === true || comment.parent || comment.resolution) {
+      continue;
+    }
+
+    comments.push({
+      file,
+      line: asPositiveInt(comment.inline?.to) ?? asPositiveInt(comment.inline?.from) ?? 1,
+      author: getUserLogin(comment.user),
+      body: asNonEmptyString(comment.content?.raw) ?? "",
+      createdAt: asIsoTimestamp(comment.created_on) ?? new Date(0).toISOString(),
+      url: asNonEmptyString(comment.links?.html?.href) ?? `${pullRequestUrl}#comment-${id}`,
+      resolved: false,
+      outdated: false
+    });
+  }
+
+  for (const task of tasks) {
+    const id = asPositiveInt(task.id);
+    if (!id || asNonEmptyString(task.state) !== "UNRESOLVED") {
+      continue;
+    }
+
+    const linkedCommentId = asPositiveInt(task.comment?.id);
+    const linkedComment = linkedCommentId ? commentsById.get(linkedCommentId) : undefined;
+
+    comments.push({
+      file: asNonEmptyString(linkedComment?.inline?.path) ?? "(pull request)",
+      line: asPositiveInt(linkedComment?.inline?.to) ?? asPositiveInt(linkedComment?.inline?.from) ?? 1,
+      author: getUserLogin(task.creator),
+      body: asNonEmptyString(task.content?.raw) ?? "",
+      createdAt: asIsoTimestamp(task.created_on) ?? new Date(0).toISOString(),
+      url: linkedCommentId ? `${pullRequestUrl}#comment-${linkedCommentId}` : `${pullRequestUrl}#task-${id}`,
+      resolved: false,
+      outdated: false
+    });
+  }
+
+  return comments;
+}
+
+async function fetchFailingStepsForPipeline(
+  repo: SentinelRepositoryRef,
+  pipelineUuid: string,
+  buildNumber: number,
+  token: string,
+  apiBase: string
+): Promise<SentinelFailureJob[]> {
+  const steps = await bitbucketRestPaged<BitbucketPipelineStep>(
+    repositoryApiUrl(apiBase, repo, `/pipelines/${encodeURIComponent(pipelineUuid)}/steps/`),
+    token,
+    MAX_DETAIL_PAGES
+  );
+
+  const failingJobs: SentinelFailureJob[] = [];
+  steps.forEach((step, index) => {
+    if (!isFailingState(step.state)) {
+      return;
+    }
+
+    const stepUuid = asNonEmptyString(step.uuid);
+    const name = asNonEmptyString(step.name) ?? `Step ${index + 1}`;
+    if (!stepUuid || index + 1 >= STEP_INDEX_RADIX) {
+      return;
+    }
+
+    failingJobs.push({
+      jobId: encodeJobId(buildNumber, index + 1),
+      name,
+      conclusion: toConclusion(step.state),
+      htmlUrl: repositoryWebUrl(apiBase, repo, `/pipelines/results/${buildNumber}/steps/${encodeURIComponent(stepUuid)}`),
+      failedStepName: null,
+      steps: []
+    });
+  });
+
+  return failingJobs;
+}
+
+async function toFailureRun(
+  repo: SentinelRepositoryRef,
+  pipeline: BitbucketPipelineSummary,
+  token: string,
+  apiBase: string
+): Promise<SentinelFailureRun | null> {
+  const pipelineUuid = asNonEmptyString(pipeline.uuid);
+  const buildNumber = asPositiveInt(pipeline.build_number);
+  const headSha = asNonEmptyString(pipeline.target?.commit?.hash);
+
+  if (!pipelineUuid || !buildNumber || !headSha) {
+    return null;
+  }
+
+  const jobs = await fetchFailingStepsForPipeline(repo, pipelineUuid, buildNumber, token, apiBase);
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return {
+    runId: buildNumber,
+    workflowName: `Pipeline #${buildNumber}`,
+    workflowPath: BITBUCKET_PIPELINES_CONFIG_PATH,
+    runNumber: buildNumber,
+    runAttempt: asPositiveInt(pipeline.run_number) ?? 1,
+    headSha,
+    conclusion: toConclusion(pipeline.state),
+    htmlUrl: repositoryWebUrl(apiBase, repo, `/pipelines/results/${buildNumber}`),
+    jobs
+  };
+}
+
+function commitMatches(pipelineHash: string | null, headSha: string): boolean {
+  if (!pipelineHash) {
+    return false;
+  }
+
+  // Pull request payloads expose abbreviated hashes while pipelines carry full ones.
+  return pipelineHash.startsWith(headSha) || headSha.startsWith(pipelineHash);
+}
+
+async function listFailureRuns(
+  repo: SentinelRepositoryRef,
+  request: SentinelListFailureRunsRequest,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelFailureRun[]> {
+  const apiBase = bitbucketApiBase(options.apiBaseUrl);
+  if (request.runId) {
+    const pipeline = await bitbucketRestJson<BitbucketPipelineSummary>(
+      repositoryApiUrl(apiBase, repo, `/pipelines/${request.runId}`),
+      options.authToken
+    );
+    const run = await toFailureRun(repo, pipeline, options.authToken, apiBase);
+    return run ? [run] : [];
+  }
+
+  let headSha: string | null = null;
+  if (request.prNumber) {
+    const pull = await fetchPullRequest(repo, request.prNumber, options.authToken, apiBase);
+    headSha = asNonEmptyString(pull.source?.commit?.hash);
+    if (!headSha) {
+      throw new Error(`E_SENTINEL_API_ERROR: missing pull request head SHA for PR ${request.prNumber}`);
+    }
+  }
+
+  const url = new URL(repositoryApiUrl(apiBase, repo, "/pipelines/"));
+  url.searchParams.set("sort", "-created_on");
+  url.searchParams.set("pagelen", "100");
+
+  const pipelines = await bitbucketRestPaged<BitbucketPipelineSummary>(url.toString(), options.authToken, 1);
+  const runs: SentinelFailureRun[] = [];
+
+  for (const pipeline of pipelines) {
+    if (!isFailingState(pipeline.state)) {
+      continue;
+    }
+
+    if (headSha && !commitMatches(asNonEmptyString(pipeline.target?.commit?.hash), headSha)) {
+      continue;
+    }
+
+    const run = await toFailureRun(repo, pipeline, options.authToken, apiBase);
+    if (!run) {
+      continue;
+    }
+
+    runs.push(run);
+    if (runs.length >= request.maxRuns) {
+      break;
+    }
+  }
+
+  return runs;
+}
+
+async function listNotifications(
+  request: SentinelListNotificationsRequest,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelNotification[]> {
+  const apiBase = bitbucketApiBase(options.apiBaseUrl);
+  if (!request.repo) {
+    throw new Error("E_SENTINEL_ARG_INVALID: bitbucket notifications require a repository scope");
+  }
+
+  const repo = request.repo;
+  const userResponse = await fetch(`${apiBase}/user`, {
+    headers: headersForBitbucket(options.authToken)
+  });
+
+  if (!userResponse.ok) {
+    const body = await userResponse.text();
+    if (userResponse.status === 401 || userResponse.status === 403) {
+      throw new Error(
+        `E_SENTINEL_NOTIFICATIONS_SCOPE_REQUIRED: status=${userResponse.status} ensure token grants account and pull request read access`
+      );
+    }
+    throwApiError(userResponse.status, `${apiBase}/user`, body);
+  }
+
+  const currentUser = (await userResponse.json()) as BitbucketUserSummary;
+  const currentUuid = asNonEmptyString(currentUser.uuid);
+  if (!currentUuid) {
+    throw new Error("E_SENTINEL_API_ERROR: missing current user uuid");
+  }
+
+  const maxItems = Math.max(1, request.maxItems);
+  const url = new URL(repositoryApiUrl(apiBase, repo, "/pullrequests"));
+  url.searchParams.set("state", "OPEN");
+  url.searchParams.set("q", `reviewers.uuid="${currentUuid}"`);
+  url.searchParams.set("fields", "+values.participants");
+
+  const pulls = await bitbucketRestPaged<BitbucketPullRequestSummary>(
+    url.toString(),
+    options.authToken,
+    Math.max(1, Math.ceil(maxItems / PAGE_LENGTH))
+  );
+
+  const notifications: SentinelNotification[] = [];
+  for (const pull of pulls) {
+    const id = asPositiveInt(pull.id);
+    if (!id) {
+      continue;
+    }
+
+    const participant = Array.isArray(pull.participants)
+      ? pull.participants.find((item) => asNonEmptyString(item.user?.uuid) === currentUuid)
+      : undefined;
+    const reviewed = participant?.approved === true || asNonEmptyString(participant?.state) !== null;
+    if (reviewed && !request.includeRead) {
+      continue;
+    }
+
+    notifications.push({
+      id: `pullrequest:${id}`,
+      reason: "review_requested",
+      unread: !reviewed,
+      updatedAt: asIsoTimestamp(pull.updated_on) ?? new Date(0).toISOString(),
+      repository: { owner: repo.owner, repo: repo.repo },
+      subjectType: "PullRequest",
+      title: asNonEmptyString(pull.title) ?? "(untitled)",
+      pullNumber: id,
+      apiUrl: repositoryApiUrl(apiBase, repo, `/pullrequests/${id}`),
+      webUrl: asNonEmptyString(pull.links?.html?.href)
+    });
+
+    if (notifications.length >= maxItems) {
+      break;
+    }
+  }
+
+  notifications.sort((left, right) => {
+    const updatedCompare = right.updatedAt.localeCompare(left.updatedAt);
+    if (updatedCompare !== 0) {
+      return updatedCompare;
+    }
+
+    return left.id.localeCompare(right.id);
+  });
+
+  return notifications;
+}
+
+async function listOpenPullRequests(
+  repo: SentinelRepositoryRef,
+  request: SentinelListOpenPullRequestsRequest,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelPullRequestSummary[]> {
+  const apiBase = bitbucketApiBase(options.apiBaseUrl);
+  const maxPullRequests = Math.max(1, request.maxPullRequests);
+  const url = new URL(repositoryApiUrl(apiBase, repo, "/pullrequests"));
+  url.searchParams.set("state", "OPEN");
+  url.searchParams.set("sort", "-updated_on");
+
+  const pulls = await bitbucketRestPaged<BitbucketPullRequestSummary>(
+    url.toString(),
+    options.authToken,
+    Math.max(1, Math.ceil(maxPullRequests / PAGE_LENGTH))
+  );
+  const selected = pulls
+    .map(toPullRequestListFields)
+    .filter((fields): fields is PullRequestListFields => fields !== null)
+    .slice(0, maxPullRequests);
+  const results: SentinelPullRequestSummary[] = [];
+
+  for (const fields of selected) {
+    results.push(await buildPullRequestSummary(repo, fields, options.authToken, apiBase));
+  }
+
+  return results;
+}
+
+async function getPullRequestSummary(
+  repo: SentinelRepositoryRef,
+  prNumber: number,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelPullRequestSummary> {
+  const apiBase = bitbucketApiBase(options.apiBaseUrl);
+  const pull = await fetchPullRequest(repo, prNumber, options.authToken, apiBase);
+  const fields = toPullRequestListFields(pull);
+  if (!fields) {
+    throw new Error(`E_SENTINEL_API_ERROR: missing pull request summary fields for PR ${prNumber}`);
+  }
+
+  return buildPullRequestSummary(repo, fields, options.authToken, apiBase);
+}
+
+async function listPullRequestFiles(
+  repo: SentinelRepositoryRef,
+  prNumber: number,
+  request: SentinelListPullRequestFilesRequest,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelPullRequestFile[]> {
+  const apiBase = bitbucketApiBase(options.apiBaseUrl);
+  const maxFiles = Math.max(1, request.maxFiles);
+  const diffstat = await fetchDiffstat(
+    repo,
+    prNumber,
+    options.authToken,
+    apiBase,
+    Math.max(1, Math.ceil(maxFiles / PAGE_LENGTH))
+  );
+  const files: SentinelPullRequestFile[] = [];
+
+  for (const entry of diffstat) {
+    const pathValue = asNonEmptyString(entry.new?.path) ?? asNonEmptyString(entry.old?.path);
+    if (!pathValue) {
+      continue;
+    }
+
+    const additions = asNonNegativeInt(entry.lines_added) ?? 0;
+    const deletions = asNonNegativeInt(entry.lines_removed) ?? 0;
+
+    files.push({
+      path: pathValue,
+      status: asNonEmptyString(entry.status) ?? "unknown",
+      additions,
+      deletions,
+      changes: additions + deletions
+    });
+
+    if (files.length >= maxFiles) {
+      break;
+    }
+  }
+
+  files.sort((left, right) => {
+    const pathCompare = left.path.localeCompare(right.path);
+    if (pathCompare !== 0) {
+      return pathCompare;
+    }
+
+    return left.status.localeCompare(right.status);
+  });
+
+  return files;
+}
+
+async function getJobLogs(request: SentinelGetJobLogsRequest): Promise<string> {
+  const apiBase = bitbucketApiBase(request.apiBaseUrl);
+  const decoded = decodeJobId(request.jobId);
+  if (!decoded) {
+    throw new Error(`E_SENTINEL_API_ERROR: job=${request.jobId} is not a bitbucket pipeline step reference`);
+  }
+
+  const pipeline = await bitbucketRestJson<BitbucketPipelineSummary>(
+    repositoryApiUrl(apiBase, request.repo, `/pipelines/${decoded.buildNumber}`),
+    request.authToken
+  );
+  const pipelineUuid = asNonEmptyString(pipeline.uuid);
+  if (!pipelineUuid) {
+    throw new Error(`E_SENTINEL_API_ERROR: missing pipeline uuid for build ${decoded.buildNumber}`);
+  }
+
+  const steps = await bitbucketRestPaged<BitbucketPipelineStep>(
+    repositoryApiUrl(apiBase, request.repo, `/pipelines/${encodeURIComponent(pipelineUuid)}/steps/`),
+    request.authToken,
+    MAX_DETAIL_PAGES
+  );
+  const stepUuid = asNonEmptyString(steps[decoded.stepPosition - 1]?.uuid);
+  if (!stepUuid) {
+    throw new Error(`E_SENTINEL_API_ERROR: missing pipeline step ${decoded.stepPosition} for build ${decoded.buildNumber}`);
+  }
+
+  const url = repositoryApiUrl(
+    apiBase,
+    request.repo,
+    `/pipelines/${encodeURIComponent(pipelineUuid)}/steps/${encodeURIComponent(stepUuid)}/log`
+  );
+  const log = await bitbucketRestText(url, request.authToken);
+
+  if (log.bytes > request.maxLogBytes) {
+    throw new Error(`E_SENTINEL_LOG_TOO_LARGE: job=${request.jobId} bytes=${log.bytes} maxLogBytes=${request.maxLogBytes}`);
+  }
+
+  return log.text;
+}
+
+export const bitbucketSentinelAdapter: SentinelProviderAdapter = {
+  resolveOpenPullRequestForBranch,
+  listUnresolvedComments,
+  listFailureRuns,
+  listNotifications,
+  listOpenPullRequests,
+  getPullRequestSummary,
+  listPullRequestFiles,
+  getJobLogs
+};
@@ -0,0 +1,626 @@
+import type {
+  ApprovalRetryPolicy,
+  ProviderAdapter,
+  ProviderApprovalOptions,
+  ProviderPolicyContext,
+  ProviderReviewTarget,
+  ProviderTargetExtractionResult,
+  PullContext
+} from "./types";
+import { normalizeApiBaseUrl } from "./apiBaseUrl";
+import { ProviderApprovalError } from "./types";
+
+interface GiteaReview {
+  state?: string;
+  dismissed?: boolean;
+  user?: {
+    login?: string;
+    username?: string;
+  } | null;
+}
+
+interface ApprovalAttemptLog {
+  attempt: number;
+  category: "timeout" | "status";
+  status?: number;
+  delayMs?: number;
+  retryAfterMs?: number;
+}
+
+const GITEA_SUPPORTED_EVENTS = new Set([
+  "pull_request",
+  "pull_request_review",
+  "pull_request_review_approved",
+  "pull_request_review_rejected",
+  "pull_request_comment",
+  "issue_comment"
+]);
+const GITEA_ACTIONS_LOGINS = new Set(["gitea-actions", "forgejo-actions"]);
+const DECISIVE_REVIEW_STATES = new Set(["APPROVED", "REQUEST_CHANGES"]);
+const REVIEWS_PAGE_SIZE = 50;
+const MAX_ERROR_SNIPPET = 180;
+
+function normalizeLogin(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  return value as Record<string, unknown>;
+}
+
+function getUserLogin(user: unknown): string {
+  const record = asObject(user);
+  if (!record) {
+    return "unknown";
+  }
+
+  const candidates = [record.login, record.username];
+  for (const candidate of candidates) {
+    if (typeof candidate === "string" && candidate.trim().length > 0) {
+      return candidate;
+    }
+  }
+
+  return "unknown";
+}
+
+function isBotLogin(login: string): boolean {
+  const normalized = normalizeLogin(login);
+  return normalized.endsWith("[bot]") || GITEA_ACTIONS_LOGINS.has(normalized);
+}
+
+function getActorInfo(payload: Record<string, unknown>, user: unknown): { login: string; type: "User" | "Bot" | "Unknown" } {
+  const resolvedUser = asObject(user) ?? asObject(payload.sender);
+  if (!resolvedUser) {
+    return { login: "unknown", type: "Unknown" };
+  }
+
+  const login = getUserLogin(resolvedUser);
+  if (login === "unknown") {
+    return { login, type: "Unknown" };
+  }
+
+  return {
+    login,
+    type: isBotLogin(login) ? "Bot" : "User"
+  };
+}
+
+function isReviewEvent(eventName: string): boolean {
+  return (
+    eventName === "pull_request_review" ||
+    eventName === "pull_request_review_approved" ||
+    eventName === "pull_request_review_rejected"
+  );
+}
+
+function isCommentEvent(eventName: string): boolean {
+  return eventName === "issue_comment" || eventName === "pull_request_comment";
+}
+
+function parseRepository(payload: Record<string, unknown>): { owner: string; repo: string } | null {
+  const repository = asObject(payload.repository);
+  if (!repository) {
+    return null;
+  }
+
+  if (typeof repository.full_name === "string") {
+    const [owner, repo] = repository.full_name.split("/");
+    if (owner && repo) {
+      return { owner, repo };
+    }
+  }
+
+  const owner = getUserLogin(repository.owner);
+  const repo = typeof repository.name === "string" ? repository.name.trim() : "";
+  if (owner === "unknown" || repo.length === 0) {
+    return null;
+  }
+
+  return { owner, repo };
+}
+
+function asPullNumber(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    return null;
+  }
+
+  return value;
+}
+
+function isPullRequestIssue(payload: Record<string, unknown>): boolean {
+  const issue = asObject(payload.issue);
+  return payload.is_pull === true || asObject(issue?.pull_request) !== null;
+}
+
+function getReviewBody(review: Record<string, unknown>): string | null {
+  if (typeof review.content === "string") {
+    return review.content;
+  }
+
+  if (typeof review.body === "string") {
+    return review.body;
+  }
+
+  return null;
+}
+
+function validateEventShape(eventName: string, payload: Record<string, unknown>): string[] {
+  if (!GITEA_SUPPORTED_EVENTS.has(eventName)) {
+    return [`unsupported event '${eventName}'`];
+  }
+
+  const reasons: string[] = [];
+  if (!parseRepository(payload)) {
+    reasons.push("missing repository.full_name");
+  }
+
+  if (isCommentEvent(eventName)) {
+    const issue = asObject(payload.issue);
+    if (!issue) {
+      reasons.push("missing issue object");
+    } else if (!isPullRequestIssue(payload)) {
+      reasons.push(`${eventName} is not attached to a pull request`);
+    }
+
+    const comment = asObject(payload.comment);
+    if (!comment) {
+      reasons.push("missing comment object");
+    } else if (typeof comment.body !== "string") {
+      reasons.push("missing comment.body");
+    }
+
+    return reasons;
+  }
+
+  const pullRequest = asObject(payload.pull_request);
+  if (!pullRequest) {
+    reasons.push("missing pull_request object");
+  } else if (asPullNumber(pullRequest.number) === null) {
+    reasons.push("missing pull_request.number");
+  }
+
+  if (isReviewEvent(eventName) && !asObject(payload.review)) {
+    reasons.push("missing review object");
+  }
+
+  return reasons;
+}
+
+function extractTargets(
+  eventName: string,
+  payload: Record<string, unknown>,
+  policy: ProviderPolicyContext
+): ProviderReviewTarget[] {
+  const targets: ProviderReviewTarget[] = [];
+  if (!GITEA_SUPPORTED_EVENTS.has(eventName)) {
+    return targets;
+  }
+
+  const pullRequest = asObject(payload.pull_request);
+  if (policy.scanPrBody && pullRequest && typeof pullRequest.body === "string" && pullRequest.body.trim().length > 0) {
+    const actor = getActorInfo(payload, pullRequest.user);
+    targets.push({
+      source: "pr_body",
+      referenceId: `pr:${String(pullRequest.number ?? "unknown")}`,
+      authorLogin: actor.login,
+      authorType: actor.type,
+      body: pullRequest.body
+    });
+  }
+
+  const review = asObject(payload.review);
+  if (policy.scanReviewBody && isReviewEvent(eventName) && review) {
+    const body = getReviewBody(review);
+    if (body && body.trim().length > 0) {
+      const actor = getActorInfo(payload, review.user);
+      targets.push({
+        source: "review",
+        referenceId: `review:${String(review.id ?? pullRequest?.number ?? "unknown")}`,
+        authorLogin: actor.login,
+        authorType: actor.type,
+        body
+      });
+    }
+  }
+
+  const comment = asObject(payload.comment);
+  if (
+    policy.scanCommentBody &&
+    isCommentEvent(eventName) &&
+    comment &&
+    typeof comment.body === "string" &&
+    comment.body.trim().length > 0
+  ) {
+    const actor = getActorInfo(payload, comment.user);
+    targets.push({
+      source: "comment",
+      referenceId: `comment:${String(comment.id ?? "unknown")}`,
+      authorLogin: actor.login,
+      authorType: actor.type,
+      body: comment.body
+    });
+  }
+
+  if (targets.length === 0 && eventName === "pull_request" && pullRequest && typeof pullRequest.body === "string") {
+    const actor = getActorInfo(payload, pullRequest.user);
+    targets.push({
+      source: "pr_body",
+      referenceId: `pr:${String(pullRequest.number ?? "unknown")}`,
+      authorLogin: actor.login,
+      authorType: actor.type,
+      body: pullRequest.body
+    });
+  }
+
+  return targets;
+}
+
+function extractPullContext(eventName: string, payload: Record<string, unknown>): PullContext | null {
+  const repo = parseRepository(payload);
+  if (!repo) {
+    return null;
+  }
+
+  const pullNumber = asPullNumber(asObject(payload.pull_request)?.number);
+  if (pullNumber !== null) {
+    return {
+      owner: repo.owner,
+      repo: repo.repo,
+      pullNumber
+    };
+  }
+
+  if (isCommentEvent(eventName) && isPullRequestIssue(payload)) {
+    const issueNumber = asPullNumber(asObject(payload.issue)?.number);
+    if (issueNumber !== null) {
+      return {
+        owner: repo.owner,
+        repo: repo.repo,
+        pullNumber: issueNumber
+      };
+    }
+  }
+
+  return null;
+}
+
+function normalizeRetryPolicy(policy: ApprovalRetryPolicy): ApprovalRetryPolicy {
+  const maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+  const baseDelayMs = Math.max(1, Math.floor(policy.baseDelayMs));
+  const maxDelayMs = Math.max(baseDelayMs, Math.floor(policy.maxDelayMs));
+  const jitterRatio = Math.min(1, Math.max(0, policy.jitterRatio));
+  const retryableStatusCodes = Array.from(
+    new Set(
+      policy.retryableStatusCodes
+        .filter((status) => Number.isInteger(status) && status >= 100 && status <= 599)
+        .map((status) => Math.floor(status))
+    )
+  );
+
+  return {
+    enabled: policy.enabled,
+    maxAttempts,
+    baseDelayMs,
+    maxDelayMs,
+    jitterRatio,
+    retryableStatusCodes
+  };
+}
+
+function parseRetryAfterMs(retryAfterHeader: string | null, rateLimitResetHeader: string | null): number | null {
+  if (retryAfterHeader && retryAfterHeader.trim().length > 0) {
+    const seconds = Number.parseInt(retryAfterHeader.trim(), 10);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      return seconds * 1_000;
+    }
+
+    const asDate = Date.parse(retryAfterHeader);
+    if (!Number.isNaN(asDate)) {
+      return Math.max(0, asDate - Date.now());
+    }
+  }
+
+  if (rateLimitResetHeader && rateLimitResetHeader.trim().length > 0) {
+    const resetEpochSeconds = Number.parseInt(rateLimitResetHeader.trim(), 10);
+    if (Number.isFinite(resetEpochSeconds) && resetEpochSeconds >= 0) {
+      const resetMs = resetEpochSeconds * 1_000;
+      return Math.max(0, resetMs - Date.now());
+    }
+  }
+
+  return null;
+}
+
+function computeRetryDelayMs(attempt: number, retryPolicy: ApprovalRetryPolicy, retryAfterMs?: number | null): number {
+  const exponent = Math.max(0, attempt - 1);
+  const exponentialDelay = Math.min(retryPolicy.maxDelayMs, retryPolicy.baseDelayMs * 2 ** exponent);
+
+  const jitterWindow = Math.round(exponentialDelay * retryPolicy.jitterRatio);
+  const jitter = jitterWindow > 0 ? Math.floor(Math.random() * (jitterWindow + 1)) : 0;
+  const withJitter = Math.min(retryPolicy.maxDelayMs, exponentialDelay + jitter);
+
+  if (retryAfterMs === undefined || retryAfterMs === null) {
+    return withJitter;
+  }
+
+  return Math.min(retryPolicy.maxDelayMs, Math.max(withJitter, Math.max(0, Math.floor(retryAfterMs))));
+}
+
+function sleep(delayMs: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, delayMs);
+  });
+}
+
+function pushAttemptLog(log: ApprovalAttemptLog[], item: ApprovalAttemptLog): void {
+  log.push(item);
+  if (log.length > 20) {
+    log.splice(0, log.length - 20);
+  }
+}
+
+function toProviderApprovalError(
+  kind: ProviderApprovalError["kind"],
+  message: string,
+  details: Record<string, unknown>
+): ProviderApprovalError {
+  return new ProviderApprovalError(kind, message, details);
+}
+
+async function fetchHumanApprovalCount(
+  context: PullContext,
+  options: ProviderApprovalOptions
+): Promise<number> {
+  const token = options.authToken ?? options.githubToken;
+  if (!token) {
+    throw toProviderApprovalError("fetch_error", "Gitea approval fetch token missing", {
+      tokenEnvVar: "GITEA_TOKEN"
+    });
+  }
+
+  const apiBase = normalizeApiBaseUrl(options.apiBaseUrl);
+  if (!apiBase) {
+    throw toProviderApprovalError("fetch_error", "Gitea API base URL missing or invalid", {
+      baseUrlEnvVar: "GITEA_API_URL"
+    });
+  }
+
+  const retryPolicy = normalizeRetryPolicy(options.retry);
+  const owner = encodeURIComponent(context.owner);
+  const repo = encodeURIComponent(context.repo);
+  const latestStateByLogin = new Map<string, string>();
+
+  let page = 1;
+  while (page <= options.maxPages) {
+    const url = `${apiBase}/repos/${owner}/${repo}/pulls/${context.pullNumber}/reviews?limit=${REVIEWS_PAGE_SIZE}&page=${page}`;
+    const attempts: ApprovalAttemptLog[] = [];
+    let response: Response | null = null;
+
+    for (let attempt = 1; attempt <= retryPolicy.maxAttempts; attempt += 1) {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => {
+        controller.abort();
+      }, options.fetchTimeoutMs);
+
+      try {
+        response = await (options.fetch ?? fetch)(url, {
+          headers: {
+            Accept: "application/json",
+            Authorization: `token ${token}`
+          },
+          signal: controller.signal
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const isTimeout = error instanceof Error && error.name === "AbortError";
+
+        if (isTimeout) {
+          const canRetry = retryPolicy.enabled && attempt < retryPolicy.maxAttempts;
+          if (canRetry) {
+            const delayMs = computeRetryDelayMs(attempt, retryPolicy);
+            pushAttemptLog(attempts, {
+              attempt,
+              category: "timeout",
+              delayMs
+            });
+            await sleep(delayMs);
+            continue;
+          }
+
+          throw toProviderApprovalError(
+            "timeout",
+            `Timed out while fetching Gitea pull request reviews (attempt ${attempt})`,
+            {
+              url,
+              page,
+              attempt,
+              maxAttempts: retryPolicy.maxAttempts,
+              fetchTimeoutMs: options.fetchTimeoutMs,
+              attempts
+            }
+          );
+        }
+
+        throw toProviderApprovalError("fetch_error", "Gitea approval fetch failed", {
+          url,
+          page,
+          attempt,
+          error: message.slice(0, MAX_ERROR_SNIPPET),
+          attempts
+        });
+      } finally {
+        clearTimeout(timeout);
+      }
+
+      if (!response.ok) {
+        const retryAfterMs = parseRetryAfterMs(
+          response.headers.get("retry-after"),
+          response.headers.get("x-ratelimit-reset")
+        );
+        const responseText = (await response.text()).slice(0, MAX_ERROR_SNIPPET);
+        const isRateLimited = response.status === 429;
+        const isRetryableStatus = retryPolicy.retryableStatusCodes.includes(response.status);
+
+        if (isRateLimited) {
+          const canRetry = retryPolicy.enabled && attempt < retryPolicy.maxAttempts;
+          if (canRetry) {
+            const delayMs = computeRetryDelayMs(attempt, retryPolicy, retryAfterMs);
+            pushAttemptLog(attempts, {
+              attempt,
+              category: "status",
+              status: response.status,
+              delayMs,
+              retryAfterMs: retryAfterMs ?? undefined
+            });
+            await sleep(delayMs);
+            continue;
+          }
+
+          if (retryPolicy.enabled && retryPolicy.maxAttempts > 1 && attempt >= retryPolicy.maxAttempts) {
+            throw toProviderApprovalError(
+              "retry_exhausted",
+              `Approval verification retries exhausted after rate limiting (${attempt} attempts)`,
+              {
+                url,
+                page,
+                attempt,
+                maxAttempts: retryPolicy.maxAttempts,
+                status: response.status,
+                retryAfterMs,
+                attempts
+              }
+            );
+          }
+
+          throw toProviderApprovalError("rate_limited", "Gitea approval fetch was rate limited", {
+            url,
+            page,
+            attempt,
+            maxAttempts: retryPolicy.maxAttempts,
+            status: response.status,
+            retryAfterMs,
+            attempts
+          });
+        }
+
+        if (isRetryableStatus && retryPolicy.enabled && attempt < retryPolicy.maxAttempts) {
+          const delayMs = computeRetryDelayMs(attempt, retryPolicy);
+          pushAttemptLog(attempts, {
+            attempt,
+            category: "status",
+            status: response.status,
+            delayMs
+          });
+          await sleep(delayMs);
+          continue;
+        }
+
+        if (isRetryableStatus && retryPolicy.enabled && retryPolicy.maxAttempts > 1 && attempt >= retryPolicy.maxAttempts) {
+          throw toProviderApprovalError("retry_exhausted", "Approval verification retries exhausted", {
+            url,
+            page,
+            attempt,
+            maxAttempts: retryPolicy.maxAttempts,
+            status: response.status,
+            responseText,
+            attempts
+          });
+        }
+
+        throw toProviderApprovalError("http_error", `Gitea reviews API returned status ${response.status}`, {
+          url,
+          page,
+          attempt,
+          status: response.status,
+          responseText,
+          attempts
+        });
+      }
+
+      break;
+    }
+
+    if (!response) {
+      throw toProviderApprovalError("retry_exhausted", "Approval verification retries exhausted before response was received", {
+        url,
+        page,
+        maxAttempts: retryPolicy.maxAttempts
+      });
+    }
+
+    const reviews = (await response.json()) as GiteaReview[];
+    if (!Array.isArray(reviews) || reviews.length === 0) {
+      break;
+    }
+
+    for (const review of reviews) {
+      const login = normalizeLogin(getUserLogin(review.user));
+      const state = String(review.state ?? "").toUpperCase();
+      if (login === "unknown" || review.dismissed === true || !DECISIVE_REVIEW_STATES.has(state)) {
+        continue;
+      }
+
+      latestStateByLogin.set(login, state);
+    }
+
+    if (reviews.length < REVIEWS_PAGE_SIZE) {
+      break;
+    }
+
+    page += 1;
+  }
+
+  if (page > options.maxPages) {
+    throw toProviderApprovalError("fetch_error", `Gitea review pagination exceeded max pages ${options.maxPages}`, {
+      maxPages: options.maxPages
+    });
+  }
+
+  let approvals = 0;
+  for (const [login, state] of latestStateByLogin.entries()) {
+    if (options.allowedAuthors.has(login) || isBotLogin(login)) {
+      continue;
+    }
+
+    if (state === "APPROVED") {
+      approvals += 1;
+    }
+  }
+
+  return approvals;
+}
+
+export const giteaProvider: ProviderAdapter = {
+  name: "gitea",
+  approvalTokenEnvVar: "GITEA_TOKEN",
+  apiBaseUrlEnvVar: "GITEA_API_URL",
+  supportedEvents: GITEA_SUPPORTED_EVENTS,
+  extractTargets: (eventName: string, payload: unknown, policy: ProviderPolicyContext): ProviderTargetExtractionResult => {
+    const obj = asObject(payload);
+    if (!obj) {
+      return {
+        targets: [],
+        malformedReasons: ["event payload is not an object"]
+      };
+    }
+
+    return {
+      targets: extractTargets(eventName, obj, policy),
+      malformedReasons: validateEventShape(eventName, obj)
+    };
+  },
+  extractPullContext: (eventName: string, payload: unknown): PullContext | null => {
+    const obj = asObject(payload);
+    if (!obj) {
+      return null;
+    }
+
+    return extractPullContext(eventName, obj);
+  },
+  fetchHumanApprovalCount
+};
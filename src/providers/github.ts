@@ -2,9 +2,21 @@ import type {
   ApprovalRetryPolicy,
   ProviderAdapter,
   ProviderApprovalOptions,
+  ProviderCheckRun,
+  ProviderCheckRunAnnotation,
+  ProviderCheckRunResult,
+  ProviderCodeOwnerReview,
+  ProviderCommitStatus,
+  ProviderHeadApprovalSummary,
+  ProviderHistoricalPullRequest,
+  ProviderHistoryRequest,
   ProviderPolicyContext,
   ProviderReviewTarget,
+  ProviderStickyComment,
+  ProviderStickyCommentResult,
   ProviderTargetExtractionResult,
+  ProviderTeamReference,
+  ProviderWriteOptions,
   PullContext
 } from "./types";
 import { ProviderApprovalError } from "./types";
@@ -12,12 +24,53 @@ import { githubSentinelAdapter } from "./githubSentinel";
 
 interface GitHubReview {
   state?: string;
+  commit_id?: string;
   user?: {
     login?: string;
     type?: string;
   };
 }
 
+interface GitHubCheckRunResponse {
+  id?: number;
+  html_url?: string;
+}
+
+interface GitHubIssueComment {
+  id?: number;
+  body?: string;
+  user?: {
+    login?: string;
+    type?: string;
+  };
+}
+
+interface GitHubTeamMember {
+  login?: string;
+}
+
+interface GitHubPullFile {
+  filename?: string;
+  previous_filename?: string;
+  status?: string;
+  patch?: string;
+}
+
+interface GitHubPullSummary {
+  number?: number;
+  title?: string;
+  body?: string | null;
+  merged_at?: string | null;
+  updated_at?: string;
+  user?: unknown;
+}
+
+interface GitHubAuthoredItem {
+  id?: number;
+  body?: string | null;
+  user?: unknown;
+}
+
 interface ApprovalAttemptLog {
   attempt: number;
   category: "timeout" | "status";
@@ -32,7 +85,12 @@ const GITHUB_SUPPORTED_EVENTS = new Set([
   "pull_request_review_comment",
   "issue_comment"
 ]);
+const GITHUB_API_BASE_URL = "https://api.github.com";
 const MAX_ERROR_SNIPPET = 180;
+const MAX_CHECK_RUN_ANNOTATIONS_PER_REQUEST = 50;
+const MAX_CHECK_RUN_SUMMARY_CHARS = 65535;
+const MAX_STICKY_COMMENT_PAGES = 20;
+const MAX_HISTORY_PAGES = 10;
 
 function normalizeLogin(value: string): string {
   return value.trim().toLowerCase();
@@ -278,176 +336,191 @@ function toProviderApprovalError(
   return new ProviderApprovalError(kind, message, details);
 }
 
-async function fetchHumanApprovalCount(
-  context: PullContext,
-  options: ProviderApprovalOptions
-): Promise<number> {
-  const token = options.authToken ?? options.githubToken;
-  const retryPolicy = normalizeRetryPolicy(options.retry);
-  const latestStateByLogin = new Map<string, { state: string; type: string }>();
+interface LatestReviewState {
+  state: string;
+  type: string;
+  commitId: string | null;
+}
 
-  let page = 1;
-  while (page <= options.maxPages) {
-    const url = `https://api.github.com/repos/${context.owner}/${context.repo}/pulls/${context.pullNumber}/reviews?per_page=100&page=${page}`;
-    const attempts: ApprovalAttemptLog[] = [];
-    let response: Response | null = null;
-
-    for (let attempt = 1; attempt <= retryPolicy.maxAttempts; attempt += 1) {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => {
-        controller.abort();
-      }, options.fetchTimeoutMs);
-
-      try {
-        response = await fetch(url, {
-          headers: {
-            Accept: "application/vnd.github+json",
-            Authorization: `Bearer ${token}`,
-            "X-GitHub-Api-Version": "2022-11-28"
-          },
-          signal: controller.signal
-        });
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        const isTimeout = error instanceof Error && error.name === "AbortError";
-
-        if (isTimeout) {
-          const canRetry = retryPolicy.enabled && attempt < retryPolicy.maxAttempts;
-          if (canRetry) {
-            const delayMs = computeRetryDelayMs(attempt, retryPolicy);
-            pushAttemptLog(attempts, {
-              attempt,
-              category: "timeout",
-              delayMs
-            });
-            await sleep(delayMs);
-            continue;
+async function fetchWithApprovalRetry(
+  url: string,
+  page: number,
+  token: string,
+  options: ProviderApprovalOptions,
+  retryPolicy: ApprovalRetryPolicy
+): Promise<Response> {
+  const attempts: ApprovalAttemptLog[] = [];
+
+  for (let attempt = 1; attempt <= retryPolicy.maxAttempts; attempt += 1) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      controller.abort();
+    }, options.fetchTimeoutMs);
+
+    let response: Response;
+    try {
+      response = await (options.fetch ?? fetch)(url, {
+        headers: {
+          Accept: "application/vnd.github+json",
+          Authorization: `Bearer ${token}`,
+          "X-GitHub-Api-Version": "2022-11-28"
+        },
+        signal: controller.signal
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const isTimeout = error instanceof Error && error.name === "AbortError";
+
+      if (isTimeout) {
+        const canRetry = retryPolicy.enabled && attempt < retryPolicy.maxAttempts;
+        if (canRetry) {
+          const delayMs = computeRetryDelayMs(attempt, retryPolicy);
+          pushAttemptLog(attempts, {
+            attempt,
+            category: "timeout",
+            delayMs
+          });
+          await sleep(delayMs);
+          continue;
+        }
+
+        throw toProviderApprovalError(
+          "timeout",
+          `Timed out while fetching GitHub pull request reviews (attempt ${attempt})`,
+          {
+            url,
+            page,
+            attempt,
+            maxAttempts: retryPolicy.maxAttempts,
+            fetchTimeoutMs: options.fetchTimeoutMs,
+            attempts
           }
+        );
+      }
+
+      throw toProviderApprovalError("fetch_error", "GitHub approval fetch failed", {
+        url,
+        page,
+        attempt,
+        error: message.slice(0, MAX_ERROR_SNIPPET),
+        attempts
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
 
+    if (!response.ok) {
+      const retryAfterMs = parseRetryAfterMs(
+        response.headers.get("retry-after"),
+        response.headers.get("x-ratelimit-reset")
+      );
+      const rateLimitRemaining = response.headers.get("x-ratelimit-remaining");
+      const responseText = (await response.text()).slice(0, MAX_ERROR_SNIPPET);
+      const isRateLimited = response.status === 429;
+      const isRetryableStatus = retryPolicy.retryableStatusCodes.includes(response.status);
+
+      if (isRateLimited) {
+        const canRetry = retryPolicy.enabled && attempt < retryPolicy.maxAttempts;
+        if (canRetry) {
+          const delayMs = computeRetryDelayMs(attempt, retryPolicy, retryAfterMs);
+          pushAttemptLog(attempts, {
+            attempt,
+            category: "status",
+            status: response.status,
+            delayMs,
+            retryAfterMs: retryAfterMs ?? undefined
+          });
+          await sleep(delayMs);
+          continue;
+        }
+
+        if (retryPolicy.enabled && retryPolicy.maxAttempts > 1 && attempt >= retryPolicy.maxAttempts) {
           throw toProviderApprovalError(
-            "timeout",
-            `Timed out while fetching GitHub pull request reviews (attempt ${attempt})`,
+            "retry_exhausted",
+            `Approval verification retries exhausted after rate limiting (${attempt} attempts)`,
             {
               url,
               page,
               attempt,
               maxAttempts: retryPolicy.maxAttempts,
-              fetchTimeoutMs: options.fetchTimeoutMs,
+              status: response.status,
+              retryAfterMs,
+              rateLimitRemaining,
               attempts
             }
           );
         }
 
-        throw toProviderApprovalError("fetch_error", "GitHub approval fetch failed", {
+        throw toProviderApprovalError("rate_limited", "GitHub approval fetch was rate limited", {
           url,
           page,
           attempt,
-          error: message.slice(0, MAX_ERROR_SNIPPET),
+          maxAttempts: retryPolicy.maxAttempts,
+          status: response.status,
+          retryAfterMs,
+          rateLimitRemaining,
           attempts
         });
-      } finally {
-        clearTimeout(timeout);
       }
 
-      if (!response.ok) {
-        const retryAfterMs = parseRetryAfterMs(
-          response.headers.get("retry-after"),
-          response.headers.get("x-ratelimit-reset")
-        );
-        const rateLimitRemaining = response.headers.get("x-ratelimit-remaining");
-        const responseText = (await response.text()).slice(0, MAX_ERROR_SNIPPET);
-        const isRateLimited = response.status === 429;
-        const isRetryableStatus = retryPolicy.retryableStatusCodes.includes(response.status);
-
-        if (isRateLimited) {
-          const canRetry = retryPolicy.enabled && attempt < retryPolicy.maxAttempts;
-          if (canRetry) {
-            const delayMs = computeRetryDelayMs(attempt, retryPolicy, retryAfterMs);
-            pushAttemptLog(attempts, {
-              attempt,
-              category: "status",
-              status: response.status,
-              delayMs,
-              retryAfterMs: retryAfterMs ?? undefined
-            });
-            await sleep(delayMs);
-            continue;
-          }
-
-          if (retryPolicy.enabled && retryPolicy.maxAttempts > 1 && attempt >= retryPolicy.maxAttempts) {
-            throw toProviderApprovalError(
-              "retry_exhausted",
-              `Approval verification retries exhausted after rate limiting (${attempt} attempts)`,
-              {
-                url,
-                page,
-                attempt,
-                maxAttempts: retryPolicy.maxAttempts,
-                status: response.status,
-                retryAfterMs,
-                rateLimitRemaining,
-                attempts
-              }
-            );
-          }
-
-          throw toProviderApprovalError("rate_limited", "GitHub approval fetch was rate limited", {
-            url,
-            page,
-            attempt,
-            maxAttempts: retryPolicy.maxAttempts,
-            status: response.status,
-            retryAfterMs,
-            rateLimitRemaining,
-            attempts
-          });
-        }
-
-        if (isRetryableStatus && retryPolicy.enabled && attempt < retryPolicy.maxAttempts) {
-          const delayMs = computeRetryDelayMs(attempt, retryPolicy);
-          pushAttemptLog(attempts, {
-            attempt,
-            category: "status",
-            status: response.status,
-            delayMs
-          });
-          await sleep(delayMs);
-          continue;
-        }
-
-        if (isRetryableStatus && retryPolicy.enabled && retryPolicy.maxAttempts > 1 && attempt >= retryPolicy.maxAttempts) {
-          throw toProviderApprovalError("retry_exhausted", "Approval verification retries exhausted", {
-            url,
-            page,
-            attempt,
-            maxAttempts: retryPolicy.maxAttempts,
-            status: response.status,
-            responseText,
-            attempts
-          });
-        }
+      if (isRetryableStatus && retryPolicy.enabled && attempt < retryPolicy.maxAttempts) {
+        const delayMs = computeRetryDelayMs(attempt, retryPolicy);
+        pushAttemptLog(attempts, {
+          attempt,
+          category: "status",
+          status: response.status,
+          delayMs
+        });
+        await sleep(delayMs);
+        continue;
+      }
 
-        throw toProviderApprovalError("http_error", `GitHub reviews API returned status ${response.status}`, {
+      if (isRetryableStatus && retryPolicy.enabled && retryPolicy.maxAttempts > 1 && attempt >= retryPolicy.maxAttempts) {
+        throw toProviderApprovalError("retry_exhausted", "Approval verification retries exhausted", {
           url,
           page,
           attempt,
+          maxAttempts: retryPolicy.maxAttempts,
           status: response.status,
           responseText,
           attempts
         });
       }
 
-      break;
-    }
-
-    if (!response) {
-      throw toProviderApprovalError("retry_exhausted", "Approval verification retries exhausted before response was received", {
+      throw toProviderApprovalError("http_error", `GitHub reviews API returned status ${response.status}`, {
         url,
         page,
-        maxAttempts: retryPolicy.maxAttempts
+        attempt,
+        status: response.status,
+        responseText,
+        attempts
       });
     }
 
+    return response;
+  }
+
+  throw toProviderApprovalError("retry_exhausted", "Approval verification retries exhausted before response was received", {
+    url,
+    page,
+    maxAttempts: retryPolicy.maxAttempts
+  });
+}
+
+async function fetchLatestReviewStates(
+  context: PullContext,
+  options: ProviderApprovalOptions
+): Promise<Map<string, LatestReviewState>> {
+  const token = options.authToken ?? options.githubToken;
+  const retryPolicy = normalizeRetryPolicy(options.retry);
+  const apiBase = options.apiBaseUrl ?? GITHUB_API_BASE_URL;
+  const latestStateByLogin = new Map<string, LatestReviewState>();
+
+  let page = 1;
+  while (page <= options.maxPages) {
+    const url = `${apiBase}/repos/${context.owner}/${context.repo}/pulls/${context.pullNumber}/reviews?per_page=100&page=${page}`;
+    const response = await fetchWithApprovalRetry(url, page, token, options, retryPolicy);
+
     const reviews = (await response.json()) as GitHubReview[];
     if (!Array.isArray(reviews) || reviews.length === 0) {
       break;
@@ -461,7 +534,8 @@ async function fetchHumanApprovalCount(
 
       latestStateByLogin.set(login, {
         state: String(review.state ?? ""),
-        type: String(review.user?.type ?? "Unknown")
+        type: String(review.user?.type ?? "Unknown"),
+        commitId: typeof review.commit_id === "string" && review.commit_id.length > 0 ? review.commit_id : null
       });
     }
 
@@ -478,22 +552,199 @@ async function fetchHumanApprovalCount(
     });
   }
 
+  return latestStateByLogin;
+}
+
+function isCountedApproval(login: string, latest: LatestReviewState, allowedAuthors: Set<string>): boolean {
+  if (allowedAuthors.has(login)) {
+    return false;
+  }
+
+  if (latest.type === "Bot") {
+    return false;
+  }
+
+  return latest.state === "APPROVED";
+}
+
+async function fetchHumanApprovalCount(
+  context: PullContext,
+  options: ProviderApprovalOptions
+): Promise<number> {
+  const latestStateByLogin = await fetchLatestReviewStates(context, options);
+
   let approvals = 0;
   for (const [login, latest] of latestStateByLogin.entries()) {
-    if (options.allowedAuthors.has(login)) {
-      continue;
+    if (isCountedApproval(login, latest, options.allowedAuthors)) {
+      approvals += 1;
     }
+  }
+
+  return approvals;
+}
 
-    if (latest.type === "Bot") {
+async function resolveHeadSha(context: PullContext, options: ProviderApprovalOptions): Promise<string> {
+  if (context.headSha) {
+    return context.headSha;
+  }
+
+  const token = options.authToken ?? options.githubToken;
+  const apiBase = options.apiBaseUrl ?? GITHUB_API_BASE_URL;
+  const url = `${apiBase}/repos/${context.owner}/${context.repo}/pulls/${context.pullNumber}`;
+  const response = await fetchWithApprovalRetry(url, 1, token, options, normalizeRetryPolicy(options.retry));
+  const pull = asObject(await response.json());
+  const headSha = asObject(pull?.head)?.sha;
+  if (typeof headSha !== "string" || headSha.length === 0) {
+    throw toProviderApprovalError("fetch_error", "GitHub pull request head SHA missing", {
+      url
+    });
+  }
+
+  return headSha;
+}
+
+async function fetchHeadApprovalSummary(
+  context: PullContext,
+  options: ProviderApprovalOptions
+): Promise<ProviderHeadApprovalSummary> {
+  const headSha = await resolveHeadSha(context, options);
+  const latestStateByLogin = await fetchLatestReviewStates(context, options);
+
+  const headApproverLogins: string[] = [];
+  let staleApprovals = 0;
+  for (const [login, latest] of latestStateByLogin.entries()) {
+    if (!isCountedApproval(login, latest, options.allowedAuthors)) {
       continue;
     }
 
-    if (latest.state === "APPROVED") {
-      approvals += 1;
+    if (latest.commitId === headSha) {
+      headApproverLogins.push(login);
+    } else {
+      staleApprovals += 1;
     }
   }
 
-  return approvals;
+  return {
+    headSha,
+    approvals: headApproverLogins.length,
+    staleApprovals,
+    headApproverLogins
+  };
+}
+
+async function fetchPullFiles(context: PullContext, options: ProviderApprovalOptions): Promise<GitHubPullFile[]> {
+  const token = options.authToken ?? options.githubToken;
+  const retryPolicy = normalizeRetryPolicy(options.retry);
+  const apiBase = options.apiBaseUrl ?? GITHUB_API_BASE_URL;
+  const changedFiles: GitHubPullFile[] = [];
+
+  let page = 1;
+  while (page <= options.maxPages) {
+    const url = `${apiBase}/repos/${context.owner}/${context.repo}/pulls/${context.pullNumber}/files?per_page=100&page=${page}`;
+    const response = await fetchWithApprovalRetry(url, page, token, options, retryPolicy);
+
+    const files = (await response.json()) as GitHubPullFile[];
+    if (!Array.isArray(files) || files.length === 0) {
+      break;
+    }
+
+    for (const file of files) {
+      if (typeof file.filename === "string" && file.filename.length > 0) {
+        changedFiles.push(file);
+      }
+    }
+
+    if (files.length < 100) {
+      break;
+    }
+
+    page += 1;
+  }
+
+  if (page > options.maxPages) {
+    throw toProviderApprovalError("fetch_error", `GitHub pull request file pagination exceeded max pages ${options.maxPages}`, {
+      maxPages: options.maxPages
+    });
+  }
+
+  return changedFiles;
+}
+
+async function fetchChangedFiles(context: PullContext, options: ProviderApprovalOptions): Promise<string[]> {
+  return (await fetchPullFiles(context, options)).map((file) => file.filename ?? "");
+}
+
+async function fetchPullRequestDiff(context: PullContext, options: ProviderApprovalOptions): Promise<string> {
+  const sections: string[] = [];
+
+  for (const file of await fetchPullFiles(context, options)) {
+    const filename = file.filename ?? "";
+    const previous = file.previous_filename ?? filename;
+    sections.push(`diff --git a/${previous} b/${filename}`);
+    sections.push(`--- ${file.status === "added" ? "/dev/null" : `a/${previous}`}`);
+    sections.push(`+++ ${file.status === "removed" ? "/dev/null" : `b/${filename}`}`);
+    if (typeof file.patch === "string" && file.patch.length > 0) {
+      sections.push(file.patch);
+    }
+  }
+
+  return sections.length > 0 ? `${sections.join("\n")}\n` : "";
+}
+
+async function fetchCodeOwnerReview(
+  context: PullContext,
+  options: ProviderApprovalOptions
+): Promise<ProviderCodeOwnerReview> {
+  const changedFiles = await fetchChangedFiles(context, options);
+  const latestStateByLogin = await fetchLatestReviewStates(context, options);
+  const approverLogins = Array.from(latestStateByLogin.entries())
+    .filter(([login, latest]) => isCountedApproval(login, latest, options.allowedAuthors))
+    .map(([login]) => login);
+
+  return {
+    changedFiles,
+    approverLogins
+  };
+}
+
+async function fetchTeamMembers(team: ProviderTeamReference, options: ProviderApprovalOptions): Promise<string[]> {
+  const token = options.authToken ?? options.githubToken;
+  const retryPolicy = normalizeRetryPolicy(options.retry);
+  const apiBase = options.apiBaseUrl ?? GITHUB_API_BASE_URL;
+  const org = encodeURIComponent(team.org);
+  const slug = encodeURIComponent(team.slug);
+  const members: string[] = [];
+
+  let page = 1;
+  while (page <= options.maxPages) {
+    const url = `${apiBase}/orgs/${org}/teams/${slug}/members?per_page=100&page=${page}`;
+    const response = await fetchWithApprovalRetry(url, page, token, options, retryPolicy);
+
+    const entries = (await response.json()) as GitHubTeamMember[];
+    if (!Array.isArray(entries) || entries.length === 0) {
+      break;
+    }
+
+    for (const entry of entries) {
+      if (typeof entry.login === "string" && entry.login.length > 0) {
+        members.push(normalizeLogin(entry.login));
+      }
+    }
+
+    if (entries.length < 100) {
+      break;
+    }
+
+    page += 1;
+  }
+
+  if (page > options.maxPages) {
+    throw toProviderApprovalError("fetch_error", `GitHub team member pagination exceeded max pages ${options.maxPages}`, {
+      maxPages: options.maxPages
+    });
+  }
+
+  return members;
 }
 
 function extractPullContext(eventName: string, payload: Record<string, unknown>): PullContext | null {
@@ -504,10 +755,12 @@ function extractPullContext(eventName: string, payload: Record<string, unknown>)
 
   const pullRequest = asObject(payload.pull_request);
   if (pullRequest && typeof pullRequest.number === "number") {
+    const headSha = asObject(pullRequest.head)?.sha;
     return {
       owner: repo.owner,
       repo: repo.repo,
-      pullNumber: pullRequest.number
+      pullNumber: pullRequest.number,
+      ...(typeof headSha === "string" && headSha.length > 0 ? { headSha } : {})
     };
   }
 
@@ -526,9 +779,318 @@ function extractPullContext(eventName: string, payload: Record<string, unknown>)
   return null;
 }
 
+async function sendAuthorizedRequest(
+  method: "GET" | "POST" | "PATCH",
+  url: string,
+  body: unknown,
+  options: ProviderWriteOptions
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => {
+    controller.abort();
+  }, options.fetchTimeoutMs);
+
+  let response: Response;
+  try {
+    response = await (options.fetch ?? fetch)(url, {
+      method,
+      headers: {
+        Accept: "application/vnd.github+json",
+        Authorization: `Bearer ${options.authToken}`,
+        "Content-Type": "application/json",
+        "X-GitHub-Api-Version": "2022-11-28"
+      },
+      ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+      signal: controller.signal
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const isTimeout = error instanceof Error && error.name === "AbortError";
+    throw toProviderApprovalError(isTimeout ? "timeout" : "fetch_error", `GitHub ${method} request failed: ${message}`, {
+      url
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  if (!response.ok) {
+    const responseText = (await response.text()).slice(0, MAX_ERROR_SNIPPET);
+    throw toProviderApprovalError("http_error", `GitHub ${method} request returned status ${response.status}`, {
+      url,
+      status: response.status,
+      responseText
+    });
+  }
+
+  return response;
+}
+
+async function postCommitStatus(status: ProviderCommitStatus, options: ProviderWriteOptions): Promise<void> {
+  const apiBase = options.apiBaseUrl ?? GITHUB_API_BASE_URL;
+  const url = `${apiBase}/repos/${status.owner}/${status.repo}/statuses/${encodeURIComponent(status.sha)}`;
+  await sendAuthorizedRequest(
+    "POST",
+    url,
+    {
+      state: status.state,
+      context: status.context,
+      description: status.description.slice(0, 140),
+      ...(status.targetUrl ? { target_url: status.targetUrl } : {})
+    },
+    options
+  );
+}
+
+function toCheckRunAnnotations(annotations: ProviderCheckRunAnnotation[]): Array<Record<string, unknown>> {
+  return annotations.map((annotation) => ({
+    path: annotation.path,
+    start_line: annotation.startLine,
+    end_line: annotation.endLine,
+    annotation_level: annotation.level,
+    title: annotation.title.slice(0, 255),
+    message: annotation.message.slice(0, 64 * 1024)
+  }));
+}
+
+async function publishCheckRun(checkRun: ProviderCheckRun, options: ProviderWriteOptions): Promise<ProviderCheckRunResult> {
+  const apiBase = options.apiBaseUrl ?? GITHUB_API_BASE_URL;
+  const output = {
+    title: checkRun.title.slice(0, 255),
+    summary: checkRun.summary.slice(0, MAX_CHECK_RUN_SUMMARY_CHARS)
+  };
+  const batches: ProviderCheckRunAnnotation[][] = [];
+  for (let index = 0; index < checkRun.annotations.length; index += MAX_CHECK_RUN_ANNOTATIONS_PER_REQUEST) {
+    batches.push(checkRun.annotations.slice(index, index + MAX_CHECK_RUN_ANNOTATIONS_PER_REQUEST));
+  }
+
+  const response = await sendAuthorizedRequest(
+    "POST",
+    `${apiBase}/repos/${checkRun.owner}/${checkRun.repo}/check-runs`,
+    {
+      name: checkRun.name,
+      head_sha: checkRun.headSha,
+      status: "completed",
+      conclusion: checkRun.conclusion,
+      ...(checkRun.detailsUrl ? { details_url: checkRun.detailsUrl } : {}),
+      output: {
+        ...output,
+        annotations: toCheckRunAnnotations(batches[0] ?? [])
+      }
+    },
+    options
+  );
+
+  const created = (await response.json()) as GitHubCheckRunResponse;
+  if (typeof created.id !== "number") {
+    throw toProviderApprovalError("http_error", "GitHub check run response did not include an id", {
+      url: `${apiBase}/repos/${checkRun.owner}/${checkRun.repo}/check-runs`
+    });
+  }
+
+  for (const batch of batches.slice(1)) {
+    await sendAuthorizedRequest(
+      "PATCH",
+      `${apiBase}/repos/${checkRun.owner}/${checkRun.repo}/check-runs/${created.id}`,
+      {
+        output: {
+          ...output,
+          annotations: toCheckRunAnnotations(batch)
+        }
+      },
+      options
+    );
+  }
+
+  return {
+    id: created.id,
+    ...(typeof created.html_url === "string" ? { url: created.html_url } : {})
+  };
+}
+
+async function resolveAuthenticatedLogin(apiBase: string, options: ProviderWriteOptions): Promise<string | null> {
+  try {
+    const response = await sendAuthorizedRequest("GET", `${apiBase}/user`, undefined, options);
+    const user = (await response.json()) as { login?: unknown };
+    return typeof user.login === "string" && user.login.length > 0 ? user.login.toLowerCase() : null;
+  } catch (error) {
+    if (error instanceof ProviderApprovalError && error.details.status === 403) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function upsertStickyComment(
+  comment: ProviderStickyComment,
+  options: ProviderWriteOptions
+): Promise<ProviderStickyCommentResult> {
+  const apiBase = options.apiBaseUrl ?? GITHUB_API_BASE_URL;
+  const commentsUrl = `${apiBase}/repos/${comment.owner}/${comment.repo}/issues/${comment.pullNumber}/comments`;
+  // Installation tokens (GITHUB_TOKEN, GitHub Apps) cannot read /user; only bot accounts can post as them.
+  const login = await resolveAuthenticatedLogin(apiBase, options);
+  const isOwnComment = (item: GitHubIssueComment): boolean =>
+    login ? item.user?.login?.toLowerCase() === login : item.user?.type === "Bot";
+
+  for (let page = 1; page <= MAX_STICKY_COMMENT_PAGES; page += 1) {
+    const response = await sendAuthorizedRequest("GET", `${commentsUrl}?per_page=100&page=${page}`, undefined, options);
+    const existing = (await response.json()) as GitHubIssueComment[];
+    if (!Array.isArray(existing)) {
+      break;
+    }
+
+    const match = existing.find((item) => typeof item.id === "number" && isOwnComment(item) && item.body?.includes(comment.marker));
+    if (match?.id !== undefined) {
+      await sendAuthorizedRequest(
+        "PATCH",
+        `${apiBase}/repos/${comment.owner}/${comment.repo}/issues/comments/${match.id}`,
+        { body: comment.body },
+        options
+      );
+      return {
+        id: String(match.id),
+        action: "updated"
+      };
+    }
+
+    if (existing.length < 100) {
+      break;
+    }
+  }
+
+  const created = (await (await sendAuthorizedRequest("POST", commentsUrl, { body: comment.body }, options)).json()) as GitHubIssueComment;
+  return {
+    id: String(created.id ?? ""),
+    action: "created"
+  };
+}
+
+async function listHistoryPages<T>(url: string, options: ProviderWriteOptions): Promise<T[]> {
+  const items: T[] = [];
+
+  for (let page = 1; page <= MAX_HISTORY_PAGES; page += 1) {
+    const response = await sendAuthorizedRequest("GET", `${url}?per_page=100&page=${page}`, undefined, options);
+    const entries = (await response.json()) as T[];
+    if (!Array.isArray(entries)) {
+      break;
+    }
+
+    items.push(...entries);
+    if (entries.length < 100) {
+      break;
+    }
+  }
+
+  return items;
+}
+
+function toHistoryTargets(
+  source: ProviderReviewTarget["source"],
+  items: GitHubAuthoredItem[]
+): ProviderReviewTarget[] {
+  const targets: ProviderReviewTarget[] = [];
+
+  for (const item of items) {
+    if (typeof item.body !== "string" || item.body.trim().length === 0) {
+      continue;
+    }
+
+    const actor = getActorInfo(item.user);
+    targets.push({
+      source,
+      referenceId: `${source}:${String(item.id ?? "unknown")}`,
+      authorLogin: actor.login,
+      authorType: actor.type,
+      body: item.body
+    });
+  }
+
+  return targets;
+}
+
+async function listMergedPullRequests(
+  request: ProviderHistoryRequest,
+  options: ProviderWriteOptions
+): Promise<ProviderHistoricalPullRequest[]> {
+  const apiBase = options.apiBaseUrl ?? GITHUB_API_BASE_URL;
+  const repoUrl = `${apiBase}/repos/${request.owner}/${request.repo}`;
+  const merged: Array<{ number: number; mergedAt: string; pull: GitHubPullSummary }> = [];
+  // The list API cannot sort by merged_at. Pages are ordered by updated_at, which is never older than merged_at,
+  // so paging stops once the limit-th newest merge is at least as recent as everything not yet fetched.
+  let oldestUpdatedAt: string | null = null;
+  const hasNewestMerges = (): boolean => {
+    if (merged.length < request.limit) {
+      return false;
+    }
+
+    const cutoff = merged.map((item) => item.mergedAt).sort((a, b) => Date.parse(b) - Date.parse(a))[request.limit - 1];
+    return oldestUpdatedAt === null || Date.parse(cutoff ?? "") >= Date.parse(oldestUpdatedAt);
+  };
+
+  for (let page = 1; page <= MAX_HISTORY_PAGES && !hasNewestMerges(); page += 1) {
+    const response = await sendAuthorizedRequest(
+      "GET",
+      `${repoUrl}/pulls?state=closed&sort=updated&direction=desc&per_page=100&page=${page}`,
+      undefined,
+      options
+    );
+    const pulls = (await response.json()) as GitHubPullSummary[];
+    if (!Array.isArray(pulls)) {
+      break;
+    }
+
+    for (const pull of pulls) {
+      if (typeof pull.number === "number" && typeof pull.merged_at === "string") {
+        merged.push({ number: pull.number, mergedAt: pull.merged_at, pull });
+      }
+
+      if (typeof pull.updated_at === "string") {
+        oldestUpdatedAt = pull.updated_at;
+      }
+    }
+
+    if (pulls.length < 100) {
+      break;
+    }
+  }
+
+  const results: ProviderHistoricalPullRequest[] = [];
+  merged.sort((a, b) => Date.parse(b.mergedAt) - Date.parse(a.mergedAt));
+  for (const { number, mergedAt, pull } of merged.slice(0, request.limit)) {
+    const author = getActorInfo(pull.user);
+    const targets: ProviderReviewTarget[] = [];
+
+    if (typeof pull.body === "string" && pull.body.trim().length > 0) {
+      targets.push({
+        source: "pr_body",
+        referenceId: `pr:${number}`,
+        authorLogin: author.login,
+        authorType: author.type,
+        body: pull.body
+      });
+    }
+
+    targets.push(
+      ...toHistoryTargets("review", await listHistoryPages<GitHubAuthoredItem>(`${repoUrl}/pulls/${number}/reviews`, options)),
+      ...toHistoryTargets("comment", await listHistoryPages<GitHubAuthoredItem>(`${repoUrl}/pulls/${number}/comments`, options)),
+      ...toHistoryTargets("comment", await listHistoryPages<GitHubAuthoredItem>(`${repoUrl}/issues/${number}/comments`, options))
+    );
+
+    results.push({
+      number,
+      title: pull.title ?? "",
+      authorLogin: author.login,
+      mergedAt,
+      targets
+    });
+  }
+
+  return results;
+}
+
 export const githubProvider: ProviderAdapter = {
   name: "github",
   approvalTokenEnvVar: "GITHUB_TOKEN",
+  apiBaseUrlEnvVar: "GITHUB_API_URL",
   sentinel: githubSentinelAdapter,
   supportedEvents: GITHUB_SUPPORTED_EVENTS,
   extractTargets: (eventName: string, payload: unknown, policy: ProviderPolicyContext): ProviderTargetExtractionResult => {
@@ -556,5 +1118,13 @@ export const githubProvider: ProviderAdapter = {
 
     return extractPullContext(eventName, obj);
   },
-  fetchHumanApprovalCount
+  fetchHumanApprovalCount,
+  fetchHeadApprovalSummary,
+  fetchCodeOwnerReview,
+  fetchTeamMembers,
+  fetchPullRequestDiff,
+  postCommitStatus,
+  publishCheckRun,
+  upsertStickyComment,
+  listMergedPullRequests
 };
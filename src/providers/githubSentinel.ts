@@ -146,6 +146,8 @@ interface GitHubJobsResponse {
   jobs?: GitHubJobSummary[];
 }
 
+const GITHUB_API_BASE_URL = "https://api.github.com";
+
 const FAILURE_CONCLUSIONS = new Set([
   "failure",
   "cancelled",
@@ -256,6 +258,18 @@ function headersForGitHub(token: string): Record<string, string> {
   };
 }
 
+function githubApiBase(apiBaseUrl: string | undefined): string {
+  return apiBaseUrl ?? GITHUB_API_BASE_URL;
+}
+
+function githubGraphqlUrl(apiBase: string): string {
+  if (apiBase.endsWith("/api/v3")) {
+    return `${apiBase.slice(0, -"/v3".length)}/graphql`;
+  }
+
+  return `${apiBase}/graphql`;
+}
+
 function throwApiError(status: number, url: string, body: string): never {
   const snippet = body.trim().replace(/\s+/g, " ").slice(0, 220);
   throw new Error(`E_SENTINEL_API_ERROR: status=${status} url=${url} body=${snippet}`);
@@ -287,8 +301,13 @@ async function githubRestBinary(url: string, token: string): Promise<Uint8Array>
   return new Uint8Array(buffer);
 }
 
-async function githubGraphql<T>(query: string, variables: Record<string, unknown>, token: string): Promise<T> {
-  const url = "https://api.github.com/graphql";
+async function githubGraphql<T>(
+  query: string,
+  variables: Record<string, unknown>,
+  token: string,
+  apiBase: string
+): Promise<T> {
+  const url = githubGraphqlUrl(apiBase);
   const response = await fetch(url, {
     method: "POST",
     headers: {
@@ -336,8 +355,13 @@ function toFailureStep(step: GitHubJobStep): SentinelFailureStep | null {
   };
 }
 
-async function fetchJobsForRun(repo: SentinelRepositoryRef, runId: number, token: string): Promise<SentinelFailureJob[]> {
-  const jobsUrl = `https://api.github.com/repos/${repo.owner}/${repo.repo}/actions/runs/${runId}/jobs?per_page=100`;
+async function fetchJobsForRun(
+  repo: SentinelRepositoryRef,
+  runId: number,
+  token: string,
+  apiBase: string
+): Promise<SentinelFailureJob[]> {
+  const jobsUrl = `${apiBase}/repos/${repo.owner}/${repo.repo}/actions/runs/${runId}/jobs?per_page=100`;
   const response = await githubRestJson<GitHubJobsResponse>(jobsUrl, token);
 
   const jobs = Array.isArray(response.jobs) ? response.jobs : [];
@@ -375,9 +399,10 @@ async function listFailingRunsFromSha(
   repo: SentinelRepositoryRef,
   headSha: string,
   maxRuns: number,
-  token: string
+  token: string,
+  apiBase: string
 ): Promise<SentinelFailureRun[]> {
-  const runsUrl = new URL(`https://api.github.com/repos/${repo.owner}/${repo.repo}/actions/runs`);
+  const runsUrl = new URL(`${apiBase}/repos/${repo.owner}/${repo.repo}/actions/runs`);
   runsUrl.searchParams.set("head_sha", headSha);
   runsUrl.searchParams.set("per_page", "100");
 
@@ -399,7 +424,7 @@ async function listFailingRunsFromSha(
       continue;
     }
 
-    const jobs = await fetchJobsForRun(repo, runId, token);
+    const jobs = await fetchJobsForRun(repo, runId, token, apiBase);
     if (jobs.length === 0) {
       continue;
     }
@@ -420,8 +445,13 @@ async function listFailingRunsFromSha(
   return results;
 }
 
-async function fetchPullHeadSha(repo: SentinelRepositoryRef, prNumber: number, token: string): Promise<string> {
-  const pullUrl = `https://api.github.com/repos/${repo.owner}/${repo.repo}/pulls/${prNumber}`;
+async function fetchPullHeadSha(
+  repo: SentinelRepositoryRef,
+  prNumber: number,
+  token: string,
+  apiBase: string
+): Promise<string> {
+  const pullUrl = `${apiBase}/repos/${repo.owner}/${repo.repo}/pulls/${prNumber}`;
   const pull = await githubRestJson<GitHubPullSummary>(pullUrl, token);
   const headSha = asNonEmptyString(pull.head?.sha);
 
@@ -557,7 +587,8 @@ async function listUnresolvedComments(
         pr: prNumber,
         cursor
       },
-      options.authToken
+      options.authToken,
+      githubApiBase(options.apiBaseUrl)
     );
 
     const page = data.repository?.pullRequest?.reviewThreads;
@@ -609,7 +640,8 @@ async function resolveOpenPullRequestForBranch(
   branch: string,
   options: SentinelResolvePullRequestOptions
 ): Promise<number | null> {
-  const directUrl = new URL(`https://api.github.com/repos/${repo.owner}/${repo.repo}/pulls`);
+  const apiBase = githubApiBase(options.apiBaseUrl);
+  const directUrl = new URL(`${apiBase}/repos/${repo.owner}/${repo.repo}/pulls`);
   directUrl.searchParams.set("state", "open");
   directUrl.searchParams.set("head", `${repo.owner}:${branch}`);
   directUrl.searchParams.set("per_page", "10");
@@ -620,7 +652,7 @@ async function resolveOpenPullRequestForBranch(
     return directNumber;
   }
 
-  const fallbackUrl = new URL(`https://api.github.com/repos/${repo.owner}/${repo.repo}/pulls`);
+  const fallbackUrl = new URL(`${apiBase}/repos/${repo.owner}/${repo.repo}/pulls`);
   fallbackUrl.searchParams.set("state", "open");
   fallbackUrl.searchParams.set("per_page", "100");
   const pulls = await githubRestJson<GitHubPullSummary[]>(fallbackUrl.toString(), options.authToken);
@@ -641,8 +673,9 @@ async function listFailureRuns(
   request: SentinelListFailureRunsRequest,
   options: SentinelResolvePullRequestOptions
 ): Promise<SentinelFailureRun[]> {
+  const apiBase = githubApiBase(options.apiBaseUrl);
   if (request.runId) {
-    const runUrl = `https://api.github.com/repos/${repo.owner}/${repo.repo}/actions/runs/${request.runId}`;
+    const runUrl = `${apiBase}/repos/${repo.owner}/${repo.repo}/actions/runs/${request.runId}`;
     const run = await githubRestJson<GitHubWorkflowRunSummary>(runUrl, options.authToken);
 
     const runId = asPositiveInt(run.id);
@@ -656,7 +689,7 @@ async function listFailureRuns(
       return [];
     }
 
-    const jobs = await fetchJobsForRun(repo, runId, options.authToken);
+    const jobs = await fetchJobsForRun(repo, runId, options.authToken, apiBase);
     if (jobs.length === 0) {
       return [];
     }
@@ -677,11 +710,11 @@ async function listFailureRuns(
   }
 
   if (request.prNumber) {
-    const headSha = await fetchPullHeadSha(repo, request.prNumber, options.authToken);
-    return listFailingRunsFromSha(repo, headSha, request.maxRuns, options.authToken);
+    const headSha = await fetchPullHeadSha(repo, request.prNumber, options.authToken, apiBase);
+    return listFailingRunsFromSha(repo, headSha, request.maxRuns, options.authToken, apiBase);
   }
 
-  const runsUrl = new URL(`https://api.github.com/repos/${repo.owner}/${repo.repo}/actions/runs`);
+  const runsUrl = new URL(`${apiBase}/repos/${repo.owner}/${repo.repo}/actions/runs`);
   runsUrl.searchParams.set("per_page", "100");
 
   const runsResponse = await githubRestJson<GitHubWorkflowRunsResponse>(runsUrl.toString(), options.authToken);
@@ -704,7 +737,7 @@ async function listFailureRuns(
       continue;
     }
 
-    const jobs = await fetchJobsForRun(repo, runId, options.authToken);
+    const jobs = await fetchJobsForRun(repo, runId, options.authToken, apiBase);
     if (jobs.length === 0) {
       continue;
     }
@@ -733,13 +766,14 @@ async function listNotifications(
   request: SentinelListNotificationsRequest,
   options: SentinelResolvePullRequestOptions
 ): Promise<SentinelNotification[]> {
+  const apiBase = githubApiBase(options.apiBaseUrl);
   const maxItems = Math.max(1, request.maxItems);
   const perPage = 50;
   const maxPages = Math.max(1, Math.ceil(maxItems / perPage));
   const notifications: SentinelNotification[] = [];
 
   for (let page = 1; page <= maxPages; page += 1) {
-    const url = new URL("https://api.github.com/notifications");
+    const url = new URL(`${apiBase}/notifications`);
     url.searchParams.set("per_page", String(perPage));
     url.searchParams.set("page", String(page));
     url.searchParams.set("all", request.includeRead ? "true" : "false");
@@ -844,9 +878,10 @@ async function listOpenPullRequests(
   const perPage = 100;
   const maxPages = Math.max(1, Math.ceil(maxPullRequests / perPage));
   const results: SentinelPullRequestSummary[] = [];
+  const apiBase = githubApiBase(options.apiBaseUrl);
 
   for (let page = 1; page <= maxPages; page += 1) {
-    const url = new URL(`https://api.github.com/repos/${repo.owner}/${repo.repo}/pulls`);
+    const url = new URL(`${apiBase}/repos/${repo.owner}/${repo.repo}/pulls`);
     url.searchParams.set("state", "open");
     url.searchParams.set("sort", "updated");
     url.searchParams.set("direction", "desc");
@@ -884,7 +919,7 @@ async function getPullRequestSummary(
   prNumber: number,
   options: SentinelResolvePullRequestOptions
 ): Promise<SentinelPullRequestSummary> {
-  const pullUrl = `https://api.github.com/repos/${repo.owner}/${repo.repo}/pulls/${prNumber}`;
+  const pullUrl = `${githubApiBase(options.apiBaseUrl)}/repos/${repo.owner}/${repo.repo}/pulls/${prNumber}`;
   const pull = await githubRestJson<GitHubPullSummary>(pullUrl, options.authToken);
   const normalized = toPullRequestSummary(pull);
   if (!normalized) {
@@ -904,9 +939,10 @@ async function listPullRequestFiles(
   const perPage = 100;
   const maxPages = Math.max(1, Math.ceil(maxFiles / perPage));
   const files: SentinelPullRequestFile[] = [];
+  const apiBase = githubApiBase(options.apiBaseUrl);
 
   for (let page = 1; page <= maxPages; page += 1) {
-    const url = new URL(`https://api.github.com/repos/${repo.owner}/${repo.repo}/pulls/${prNumber}/files`);
+    const url = new URL(`${apiBase}/repos/${repo.owner}/${repo.repo}/pulls/${prNumber}/files`);
     url.searchParams.set("per_page", String(perPage));
     url.searchParams.set("page", String(page));
 
@@ -960,7 +996,7 @@ async function listPullRequestFiles(
 }
 
 async function getJobLogs(request: SentinelGetJobLogsRequest): Promise<string> {
-  const url = `https://api.github.com/repos/${request.repo.owner}/${request.repo.repo}/actions/jobs/${request.jobId}/logs`;
+  const url = `${githubApiBase(request.apiBaseUrl)}/repos/${request.repo.owner}/${request.repo.repo}/actions/jobs/${request.jobId}/logs`;
   const bytes = await githubRestBinary(url, request.authToken);
 
   if (bytes.byteLength > request.maxLogBytes) {
@@ -2,12 +2,20 @@ import type {
   ApprovalRetryPolicy,
   ProviderAdapter,
   ProviderApprovalOptions,
+  ProviderCodeOwnerReview,
+  ProviderCommitStatus,
+  ProviderHeadApprovalSummary,
   ProviderPolicyContext,
   ProviderReviewTarget,
+  ProviderStickyComment,
+  ProviderStickyCommentResult,
   ProviderTargetExtractionResult,
+  ProviderTeamReference,
+  ProviderWriteOptions,
   PullContext
 } from "./types";
 import { ProviderApprovalError } from "./types";
+import { gitlabSentinelAdapter } from "./gitlabSentinel";
 
 interface GitLabApprovalUser {
   username?: string;
@@ -18,6 +26,30 @@ interface GitLabApprovalEntry {
   user?: GitLabApprovalUser;
 }
 
+interface GitLabMergeRequestVersion {
+  head_commit_sha?: string;
+  created_at?: string;
+}
+
+interface GitLabNote {
+  id?: number;
+  body?: string;
+  system?: boolean;
+  created_at?: string;
+  author?: {
+    username?: string;
+  };
+}
+
+interface GitLabGroupMember {
+  username?: string;
+}
+
+interface GitLabMergeRequestDiff {
+  new_path?: string;
+  old_path?: string;
+}
+
 interface ApprovalAttemptLog {
   attempt: number;
   category: "timeout" | "status";
@@ -27,7 +59,10 @@ interface ApprovalAttemptLog {
 }
 
 const GITLAB_SUPPORTED_EVENTS = new Set(["Merge Request Hook", "Note Hook"]);
+const GITLAB_API_BASE_URL = "https://gitlab.com/api/v4";
+const GITLAB_APPROVAL_NOTE = "approved this merge request";
 const MAX_ERROR_SNIPPET = 180;
+const MAX_STICKY_COMMENT_PAGES = 20;
 
 function normalizeLogin(value: string): string {
   return value.trim().toLowerCase();
@@ -190,6 +225,18 @@ function extractTargets(
   return targets;
 }
 
+function withHeadSha(context: PullContext, mergeRequest: Record<string, unknown> | null): PullContext {
+  const headSha = asObject(mergeRequest?.last_commit)?.id;
+  if (typeof headSha !== "string" || headSha.length === 0) {
+    return context;
+  }
+
+  return {
+    ...context,
+    headSha
+  };
+}
+
 function extractPullContext(eventName: string, payload: Record<string, unknown>): PullContext | null {
   const project = parseProjectPath(payload);
   if (!project) {
@@ -202,11 +249,14 @@ function extractPullContext(eventName: string, payload: Record<string, unknown>)
       return null;
     }
 
-    return {
-      owner: project.owner,
-      repo: project.repo,
-      pullNumber: iid
-    };
+    return withHeadSha(
+      {
+        owner: project.owner,
+        repo: project.repo,
+        pullNumber: iid
+      },
+      asObject(payload.object_attributes)
+    );
   }
 
   if (eventName === "Note Hook") {
@@ -220,11 +270,14 @@ function extractPullContext(eventName: string, payload: Record<string, unknown>)
       return null;
     }
 
-    return {
-      owner: project.owner,
-      repo: project.repo,
-      pullNumber: iid
-    };
+    return withHeadSha(
+      {
+        owner: project.owner,
+        repo: project.repo,
+        pullNumber: iid
+      },
+      asObject(payload.merge_request)
+    );
   }
 
   return null;
@@ -336,169 +389,175 @@ function isBotUser(user: GitLabApprovalUser): boolean {
   return typeof user.username === "string" && user.username.toLowerCase().endsWith("[bot]");
 }
 
-async function fetchHumanApprovalCount(context: PullContext, options: ProviderApprovalOptions): Promise<number> {
-  const token = options.authToken ?? options.githubToken;
-  if (!token) {
-    throw toProviderApprovalError("fetch_error", "GitLab approval fetch token missing", {
-      tokenEnvVar: "GITLAB_TOKEN"
-    });
-  }
-
-  const retryPolicy = normalizeRetryPolicy(options.retry);
-  const approvalsByLogin = new Set<string>();
+async function fetchWithApprovalRetry(
+  url: string,
+  page: number,
+  token: string,
+  options: ProviderApprovalOptions,
+  retryPolicy: ApprovalRetryPolicy
+): Promise<Response> {
+  const attempts: ApprovalAttemptLog[] = [];
+
+  for (let attempt = 1; attempt <= retryPolicy.maxAttempts; attempt += 1) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      controller.abort();
+    }, options.fetchTimeoutMs);
+
+    let response: Response;
+    try {
+      response = await (options.fetch ?? fetch)(url, {
+        headers: {
+          Accept: "application/json",
+          "PRIVATE-TOKEN": token
+        },
+        signal: controller.signal
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const isTimeout = error instanceof Error && error.name === "AbortError";
 
-  let page = 1;
-  while (page <= options.maxPages) {
-    const projectPath = encodeURIComponent(`${context.owner}/${context.repo}`);
-    const url = `https://gitlab.com/api/v4/projects/${projectPath}/merge_requests/${context.pullNumber}/approvals?per_page=100&page=${page}`;
-    const attempts: ApprovalAttemptLog[] = [];
-    let response: Response | null = null;
-
-    for (let attempt = 1; attempt <= retryPolicy.maxAttempts; attempt += 1) {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => {
-        controller.abort();
-      }, options.fetchTimeoutMs);
-
-      try {
-        response = await fetch(url, {
-          headers: {
-            Accept: "application/json",
-            "PRIVATE-TOKEN": token
-          },
-          signal: controller.signal
-        });
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        const isTimeout = error instanceof Error && error.name === "AbortError";
-
-        if (isTimeout) {
-          const canRetry = retryPolicy.enabled && attempt < retryPolicy.maxAttempts;
-          if (canRetry) {
-            const delayMs = computeRetryDelayMs(attempt, retryPolicy);
-            pushAttemptLog(attempts, {
-              attempt,
-              category: "timeout",
-              delayMs
-            });
-            await sleep(delayMs);
-            continue;
-          }
-
-          throw toProviderApprovalError("timeout", `Timed out while fetching GitLab merge request approvals (attempt ${attempt})`, {
-            url,
-            page,
+      if (isTimeout) {
+        const canRetry = retryPolicy.enabled && attempt < retryPolicy.maxAttempts;
+        if (canRetry) {
+          const delayMs = computeRetryDelayMs(attempt, retryPolicy);
+          pushAttemptLog(attempts, {
             attempt,
-            maxAttempts: retryPolicy.maxAttempts,
-            fetchTimeoutMs: options.fetchTimeoutMs,
-            attempts
+            category: "timeout",
+            delayMs
           });
+          await sleep(delayMs);
+          continue;
         }
 
-        throw toProviderApprovalError("fetch_error", "GitLab approval fetch failed", {
+        throw toProviderApprovalError("timeout", `Timed out while fetching GitLab merge request approvals (attempt ${attempt})`, {
           url,
           page,
           attempt,
-          error: message.slice(0, MAX_ERROR_SNIPPET),
+          maxAttempts: retryPolicy.maxAttempts,
+          fetchTimeoutMs: options.fetchTimeoutMs,
           attempts
         });
-      } finally {
-        clearTimeout(timeout);
       }
 
-      if (!response.ok) {
-        const retryAfterMs = parseRetryAfterMs(response.headers.get("retry-after"));
-        const responseText = (await response.text()).slice(0, MAX_ERROR_SNIPPET);
-        const isRateLimited = response.status === 429;
-        const isRetryableStatus = retryPolicy.retryableStatusCodes.includes(response.status);
-
-        if (isRateLimited) {
-          const canRetry = retryPolicy.enabled && attempt < retryPolicy.maxAttempts;
-          if (canRetry) {
-            const delayMs = computeRetryDelayMs(attempt, retryPolicy, retryAfterMs);
-            pushAttemptLog(attempts, {
-              attempt,
-              category: "status",
-              status: response.status,
-              delayMs,
-              retryAfterMs: retryAfterMs ?? undefined
-            });
-            await sleep(delayMs);
-            continue;
-          }
-
-          if (retryPolicy.enabled && retryPolicy.maxAttempts > 1 && attempt >= retryPolicy.maxAttempts) {
-            throw toProviderApprovalError(
-              "retry_exhausted",
-              `Approval verification retries exhausted after rate limiting (${attempt} attempts)`,
-              {
-                url,
-                page,
-                attempt,
-                maxAttempts: retryPolicy.maxAttempts,
-                status: response.status,
-                retryAfterMs,
-                attempts
-              }
-            );
-          }
-
-          throw toProviderApprovalError("rate_limited", "GitLab approval fetch was rate limited", {
-            url,
-            page,
-            attempt,
-            maxAttempts: retryPolicy.maxAttempts,
-            status: response.status,
-            retryAfterMs,
-            attempts
-          });
-        }
+      throw toProviderApprovalError("fetch_error", "GitLab approval fetch failed", {
+        url,
+        page,
+        attempt,
+        error: message.slice(0, MAX_ERROR_SNIPPET),
+        attempts
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
 
-        if (isRetryableStatus && retryPolicy.enabled && attempt < retryPolicy.maxAttempts) {
-          const delayMs = computeRetryDelayMs(attempt, retryPolicy);
+    if (!response.ok) {
+      const retryAfterMs = parseRetryAfterMs(response.headers.get("retry-after"));
+      const responseText = (await response.text()).slice(0, MAX_ERROR_SNIPPET);
+      const isRateLimited = response.status === 429;
+      const isRetryableStatus = retryPolicy.retryableStatusCodes.includes(response.status);
+
+      if (isRateLimited) {
+        const canRetry = retryPolicy.enabled && attempt < retryPolicy.maxAttempts;
+        if (canRetry) {
+          const delayMs = computeRetryDelayMs(attempt, retryPolicy, retryAfterMs);
           pushAttemptLog(attempts, {
             attempt,
             category: "status",
             status: response.status,
-            delayMs
+            delayMs,
+            retryAfterMs: retryAfterMs ?? undefined
           });
           await sleep(delayMs);
           continue;
         }
 
-        if (isRetryableStatus && retryPolicy.enabled && retryPolicy.maxAttempts > 1 && attempt >= retryPolicy.maxAttempts) {
-          throw toProviderApprovalError("retry_exhausted", "Approval verification retries exhausted", {
-            url,
-            page,
-            attempt,
-            maxAttempts: retryPolicy.maxAttempts,
-            status: response.status,
-            responseText,
-            attempts
-          });
+        if (retryPolicy.enabled && retryPolicy.maxAttempts > 1 && attempt >= retryPolicy.maxAttempts) {
+          throw toProviderApprovalError(
+            "retry_exhausted",
+            `Approval verification retries exhausted after rate limiting (${attempt} attempts)`,
+            {
+              url,
+              page,
+              attempt,
+              maxAttempts: retryPolicy.maxAttempts,
+              status: response.status,
+              retryAfterMs,
+              attempts
+            }
+          );
         }
 
-        throw toProviderApprovalError("http_error", `GitLab approvals API returned status ${response.status}`, {
+        throw toProviderApprovalError("rate_limited", "GitLab approval fetch was rate limited", {
           url,
           page,
           attempt,
+          maxAttempts: retryPolicy.maxAttempts,
           status: response.status,
-          responseText,
+          retryAfterMs,
           attempts
         });
       }
 
-      break;
-    }
+      if (isRetryableStatus && retryPolicy.enabled && attempt < retryPolicy.maxAttempts) {
+        const delayMs = computeRetryDelayMs(attempt, retryPolicy);
+        pushAttemptLog(attempts, {
+          attempt,
+          category: "status",
+          status: response.status,
+          delayMs
+        });
+        await sleep(delayMs);
+        continue;
+      }
 
-    if (!response) {
-      throw toProviderApprovalError("retry_exhausted", "Approval verification retries exhausted before response was received", {
+      if (isRetryableStatus && retryPolicy.enabled && retryPolicy.maxAttempts > 1 && attempt >= retryPolicy.maxAttempts) {
+        throw toProviderApprovalError("retry_exhausted", "Approval verification retries exhausted", {
+          url,
+          page,
+          attempt,
+          maxAttempts: retryPolicy.maxAttempts,
+          status: response.status,
+          responseText,
+          attempts
+        });
+      }
+
+      throw toProviderApprovalError("http_error", `GitLab approvals API returned status ${response.status}`, {
         url,
         page,
-        maxAttempts: retryPolicy.maxAttempts
+        attempt,
+        status: response.status,
+        responseText,
+        attempts
       });
     }
 
+    return response;
+  }
+
+  throw toProviderApprovalError("retry_exhausted", "Approval verification retries exhausted before response was received", {
+    url,
+    page,
+    maxAttempts: retryPolicy.maxAttempts
+  });
+}
+
+function mergeRequestApiUrl(apiBase: string, context: PullContext, suffix: string): string {
+  const projectPath = encodeURIComponent(`${context.owner}/${context.repo}`);
+  return `${apiBase}/projects/${projectPath}/merge_requests/${context.pullNumber}${suffix}`;
+}
+
+async function fetchHumanApproverLogins(context: PullContext, options: ProviderApprovalOptions, token: string): Promise<Set<string>> {
+  const retryPolicy = normalizeRetryPolicy(options.retry);
+  const apiBase = options.apiBaseUrl ?? GITLAB_API_BASE_URL;
+  const approvalsByLogin = new Set<string>();
+
+  let page = 1;
+  while (page <= options.maxPages) {
+    const url = mergeRequestApiUrl(apiBase, context, `/approvals?per_page=100&page=${page}`);
+    const response = await fetchWithApprovalRetry(url, page, token, options, retryPolicy);
+
     const payload = (await response.json()) as unknown;
     const parsed = parseApprovalEntries(payload);
     if (parsed.entries.length === 0) {
@@ -536,12 +595,362 @@ async function fetchHumanApprovalCount(context: PullContext, options: ProviderAp
     });
   }
 
-  return approvalsByLogin.size;
+  return approvalsByLogin;
+}
+
+function requireToken(options: ProviderApprovalOptions): string {
+  const token = options.authToken ?? options.githubToken;
+  if (!token) {
+    throw toProviderApprovalError("fetch_error", "GitLab approval fetch token missing", {
+      tokenEnvVar: "GITLAB_TOKEN"
+    });
+  }
+
+  return token;
+}
+
+async function fetchHumanApprovalCount(context: PullContext, options: ProviderApprovalOptions): Promise<number> {
+  const token = requireToken(options);
+  return (await fetchHumanApproverLogins(context, options, token)).size;
+}
+
+async function resolveHeadSha(context: PullContext, options: ProviderApprovalOptions, token: string): Promise<string> {
+  if (context.headSha) {
+    return context.headSha;
+  }
+
+  const url = mergeRequestApiUrl(options.apiBaseUrl ?? GITLAB_API_BASE_URL, context, "");
+  const response = await fetchWithApprovalRetry(url, 1, token, options, normalizeRetryPolicy(options.retry));
+  const mergeRequest = asObject(await response.json());
+  if (!mergeRequest || typeof mergeRequest.sha !== "string" || mergeRequest.sha.length === 0) {
+    throw toProviderApprovalError("fetch_error", "GitLab merge request head SHA missing", {
+      url
+    });
+  }
+
+  return mergeRequest.sha;
+}
+
+async function fetchHeadPushedAt(
+  context: PullContext,
+  options: ProviderApprovalOptions,
+  token: string,
+  headSha: string
+): Promise<number> {
+  const url = mergeRequestApiUrl(options.apiBaseUrl ?? GITLAB_API_BASE_URL, context, "/versions?per_page=100");
+  const response = await fetchWithApprovalRetry(url, 1, token, options, normalizeRetryPolicy(options.retry));
+  const payload = (await response.json()) as unknown;
+  const versions = Array.isArray(payload) ? payload.filter((item): item is GitLabMergeRequestVersion => Boolean(asObject(item))) : [];
+
+  let pushedAt: number | null = null;
+  for (const version of versions) {
+    const createdAt = typeof version.created_at === "string" ? Date.parse(version.created_at) : Number.NaN;
+    if (version.head_commit_sha !== headSha || Number.isNaN(createdAt)) {
+      continue;
+    }
+
+    pushedAt = pushedAt === null ? createdAt : Math.min(pushedAt, createdAt);
+  }
+
+  if (pushedAt === null) {
+    throw toProviderApprovalError("fetch_error", "GitLab merge request version for head SHA not found", {
+      url,
+      headSha
+    });
+  }
+
+  return pushedAt;
+}
+
+async function fetchLatestApprovalTimes(
+  context: PullContext,
+  options: ProviderApprovalOptions,
+  token: string
+): Promise<Map<string, number>> {
+  const retryPolicy = normalizeRetryPolicy(options.retry);
+  const apiBase = options.apiBaseUrl ?? GITLAB_API_BASE_URL;
+  const approvedAtByLogin = new Map<string, number>();
+
+  let page = 1;
+  while (page <= options.maxPages) {
+    const url = mergeRequestApiUrl(apiBase, context, `/notes?sort=asc&order_by=created_at&per_page=100&page=${page}`);
+    const response = await fetchWithApprovalRetry(url, page, token, options, retryPolicy);
+    const payload = (await response.json()) as unknown;
+    const notes = Array.isArray(payload) ? payload.filter((item): item is GitLabNote => Boolean(asObject(item))) : [];
+    if (notes.length === 0) {
+      break;
+    }
+
+    for (const note of notes) {
+      const createdAt = typeof note.created_at === "string" ? Date.parse(note.created_at) : Number.NaN;
+      const username = note.author?.username;
+      if (note.system !== true || note.body !== GITLAB_APPROVAL_NOTE || typeof username !== "string" || Number.isNaN(createdAt)) {
+        continue;
+      }
+
+      const login = normalizeLogin(username);
+      approvedAtByLogin.set(login, Math.max(approvedAtByLogin.get(login) ?? createdAt, createdAt));
+    }
+
+    if (notes.length < 100) {
+      break;
+    }
+
+    page += 1;
+  }
+
+  if (page > options.maxPages) {
+    throw toProviderApprovalError("fetch_error", `GitLab note pagination exceeded max pages ${options.maxPages}`, {
+      maxPages: options.maxPages
+    });
+  }
+
+  return approvedAtByLogin;
+}
+
+async function fetchHeadApprovalSummary(
+  context: PullContext,
+  options: ProviderApprovalOptions
+): Promise<ProviderHeadApprovalSummary> {
+  const token = requireToken(options);
+  const headSha = await resolveHeadSha(context, options, token);
+  const pushedAt = await fetchHeadPushedAt(context, options, token, headSha);
+  const approvers = await fetchHumanApproverLogins(context, options, token);
+  const approvedAtByLogin = await fetchLatestApprovalTimes(context, options, token);
+
+  const headApproverLogins: string[] = [];
+  let staleApprovals = 0;
+  for (const login of approvers) {
+    const approvedAt = approvedAtByLogin.get(login);
+    if (approvedAt !== undefined && approvedAt >= pushedAt) {
+      headApproverLogins.push(login);
+    } else {
+      staleApprovals += 1;
+    }
+  }
+
+  return {
+    headSha,
+    approvals: headApproverLogins.length,
+    staleApprovals,
+    headApproverLogins
+  };
+}
+
+async function fetchChangedFiles(context: PullContext, options: ProviderApprovalOptions, token: string): Promise<string[]> {
+  const retryPolicy = normalizeRetryPolicy(options.retry);
+  const apiBase = options.apiBaseUrl ?? GITLAB_API_BASE_URL;
+  const changedFiles: string[] = [];
+
+  let page = 1;
+  while (page <= options.maxPages) {
+    const url = mergeRequestApiUrl(apiBase, context, `/diffs?per_page=100&page=${page}`);
+    const response = await fetchWithApprovalRetry(url, page, token, options, retryPolicy);
+    const payload = (await response.json()) as unknown;
+    const diffs = Array.isArray(payload) ? payload.filter((item): item is GitLabMergeRequestDiff => Boolean(asObject(item))) : [];
+    if (diffs.length === 0) {
+      break;
+    }
+
+    for (const diff of diffs) {
+      const filePath = diff.new_path ?? diff.old_path;
+      if (typeof filePath === "string" && filePath.length > 0) {
+        changedFiles.push(filePath);
+      }
+    }
+
+    if (diffs.length < 100) {
+      break;
+    }
+
+    page += 1;
+  }
+
+  if (page > options.maxPages) {
+    throw toProviderApprovalError("fetch_error", `GitLab diff pagination exceeded max pages ${options.maxPages}`, {
+      maxPages: options.maxPages
+    });
+  }
+
+  return changedFiles;
+}
+
+async function fetchCodeOwnerReview(
+  context: PullContext,
+  options: ProviderApprovalOptions
+): Promise<ProviderCodeOwnerReview> {
+  const token = requireToken(options);
+  const changedFiles = await fetchChangedFiles(context, options, token);
+  const approverLogins = Array.from(await fetchHumanApproverLogins(context, options, token));
+
+  return {
+    changedFiles,
+    approverLogins
+  };
+}
+
+async function fetchTeamMembers(team: ProviderTeamReference, options: ProviderApprovalOptions): Promise<string[]> {
+  const token = requireToken(options);
+  const retryPolicy = normalizeRetryPolicy(options.retry);
+  const apiBase = options.apiBaseUrl ?? GITLAB_API_BASE_URL;
+  const groupPath = encodeURIComponent(`${team.org}/${team.slug}`);
+  const members: string[] = [];
+
+  let page = 1;
+  while (page <= options.maxPages) {
+    const url = `${apiBase}/groups/${groupPath}/members/all?per_page=100&page=${page}`;
+    const response = await fetchWithApprovalRetry(url, page, token, options, retryPolicy);
+    const payload = (await response.json()) as unknown;
+    const entries = Array.isArray(payload) ? payload.filter((item): item is GitLabGroupMember => Boolean(asObject(item))) : [];
+    if (entries.length === 0) {
+      break;
+    }
+
+    for (const entry of entries) {
+      if (typeof entry.username === "string" && entry.username.length > 0) {
+        members.push(normalizeLogin(entry.username));
+      }
+    }
+
+    if (entries.length < 100) {
+      break;
+    }
+
+    page += 1;
+  }
+
+  if (page > options.maxPages) {
+    throw toProviderApprovalError("fetch_error", `GitLab group member pagination exceeded max pages ${options.maxPages}`, {
+      maxPages: options.maxPages
+    });
+  }
+
+  return members;
+}
+
+const GITLAB_STATUS_STATES: Record<ProviderCommitStatus["state"], string> = {
+  pending: "pending",
+  success: "success",
+  failure: "failed",
+  error: "failed"
+};
+
+async function sendAuthorizedRequest(
+  method: "GET" | "POST" | "PUT",
+  url: string,
+  body: unknown,
+  options: ProviderWriteOptions
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => {
+    controller.abort();
+  }, options.fetchTimeoutMs);
+
+  let response: Response;
+  try {
+    response = await (options.fetch ?? fetch)(url, {
+      method,
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+        "PRIVATE-TOKEN": options.authToken
+      },
+      ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+      signal: controller.signal
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const isTimeout = error instanceof Error && error.name === "AbortError";
+    throw toProviderApprovalError(isTimeout ? "timeout" : "fetch_error", `GitLab ${method} request failed: ${message}`, {
+      url
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  if (!response.ok) {
+    const responseText = (await response.text()).slice(0, MAX_ERROR_SNIPPET);
+    throw toProviderApprovalError("http_error", `GitLab ${method} request returned status ${response.status}`, {
+      url,
+      status: response.status,
+      responseText
+    });
+  }
+
+  return response;
+}
+
+async function postCommitStatus(status: ProviderCommitStatus, options: ProviderWriteOptions): Promise<void> {
+  const apiBase = options.apiBaseUrl ?? GITLAB_API_BASE_URL;
+  const projectPath = encodeURIComponent(`${status.owner}/${status.repo}`);
+  const url = `${apiBase}/projects/${projectPath}/statuses/${encodeURIComponent(status.sha)}`;
+  await sendAuthorizedRequest(
+    "POST",
+    url,
+    {
+      state: GITLAB_STATUS_STATES[status.state],
+      name: status.context,
+      description: status.description.slice(0, 255),
+      ...(status.targetUrl ? { target_url: status.targetUrl } : {})
+    },
+    options
+  );
+}
+
+async function upsertStickyComment(
+  comment: ProviderStickyComment,
+  options: ProviderWriteOptions
+): Promise<ProviderStickyCommentResult> {
+  const apiBase = options.apiBaseUrl ?? GITLAB_API_BASE_URL;
+  const projectPath = encodeURIComponent(`${comment.owner}/${comment.repo}`);
+  const notesUrl = `${apiBase}/projects/${projectPath}/merge_requests/${comment.pullNumber}/notes`;
+  const currentUser = (await (await sendAuthorizedRequest("GET", `${apiBase}/user`, undefined, options)).json()) as {
+    username?: unknown;
+  };
+  const username = typeof currentUser.username === "string" ? currentUser.username.toLowerCase() : null;
+  if (!username) {
+    throw toProviderApprovalError("http_error", "GitLab /user response did not include a username", { url: `${apiBase}/user` });
+  }
+
+  for (let page = 1; page <= MAX_STICKY_COMMENT_PAGES; page += 1) {
+    const response = await sendAuthorizedRequest("GET", `${notesUrl}?sort=asc&per_page=100&page=${page}`, undefined, options);
+    const notes = (await response.json()) as GitLabNote[];
+    if (!Array.isArray(notes)) {
+      break;
+    }
+
+    const match = notes.find(
+      (note) =>
+        typeof note.id === "number" &&
+        note.system !== true &&
+        note.author?.username?.toLowerCase() === username &&
+        note.body?.includes(comment.marker)
+    );
+    if (match?.id !== undefined) {
+      await sendAuthorizedRequest("PUT", `${notesUrl}/${match.id}`, { body: comment.body }, options);
+      return {
+        id: String(match.id),
+        action: "updated"
+      };
+    }
+
+    if (notes.length < 100) {
+      break;
+    }
+  }
+
+  const created = (await (await sendAuthorizedRequest("POST", notesUrl, { body: comment.body }, options)).json()) as GitLabNote;
+  return {
+    id: String(created.id ?? ""),
+    action: "created"
+  };
 }
 
 export const gitlabProvider: ProviderAdapter = {
   name: "gitlab",
   approvalTokenEnvVar: "GITLAB_TOKEN",
+  apiBaseUrlEnvVar: "GITLAB_API_URL",
+  sentinel: gitlabSentinelAdapter,
   supportedEvents: GITLAB_SUPPORTED_EVENTS,
   extractTargets: (eventName: string, payload: unknown, policy: ProviderPolicyContext): ProviderTargetExtractionResult => {
     const obj = asObject(payload);
@@ -568,5 +977,10 @@ export const gitlabProvider: ProviderAdapter = {
 
     return extractPullContext(eventName, obj);
   },
-  fetchHumanApprovalCount
+  fetchHumanApprovalCount,
+  fetchHeadApprovalSummary,
+  fetchCodeOwnerReview,
+  fetchTeamMembers,
+  postCommitStatus,
+  upsertStickyComment
 };
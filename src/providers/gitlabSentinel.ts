@@ -0,0 +1,822 @@
+import type {
+  SentinelFailureJob,
+  SentinelFailureRun,
+  SentinelGetJobLogsRequest,
+  SentinelListFailureRunsRequest,
+  SentinelListNotificationsRequest,
+  SentinelListOpenPullRequestsRequest,
+  SentinelListPullRequestFilesRequest,
+  SentinelNotification,
+  SentinelPullRequestFile,
+  SentinelPullRequestSummary,
+  SentinelProviderAdapter,
+  SentinelRepositoryRef,
+  SentinelResolvePullRequestOptions,
+  SentinelUnresolvedComment
+} from "./types";
+
+interface GitLabUserSummary {
+  username?: unknown;
+}
+
+interface GitLabNotePosition {
+  new_path?: unknown;
+  old_path?: unknown;
+  new_line?: unknown;
+  old_line?: unknown;
+}
+
+interface GitLabDiscussionNote {
+  id?: unknown;
+  body?: unknown;
+  author?: GitLabUserSummary;
+  created_at?: unknown;
+  system?: unknown;
+  resolvable?: unknown;
+  resolved?: unknown;
+  position?: GitLabNotePosition | null;
+}
+
+interface GitLabDiscussion {
+  id?: unknown;
+  notes?: GitLabDiscussionNote[];
+}
+
+interface GitLabMergeRequestSummary {
+  iid?: unknown;
+  title?: unknown;
+  state?: unknown;
+  draft?: unknown;
+  work_in_progress?: unknown;
+  author?: GitLabUserSummary;
+  source_branch?: unknown;
+  sha?: unknown;
+  user_notes_count?: unknown;
+  changes_count?: unknown;
+  created_at?: unknown;
+  updated_at?: unknown;
+  web_url?: unknown;
+}
+
+interface GitLabMergeRequestDiff {
+  new_path?: unknown;
+  old_path?: unknown;
+  new_file?: unknown;
+  renamed_file?: unknown;
+  deleted_file?: unknown;
+  diff?: unknown;
+}
+
+interface GitLabPipelineSummary {
+  id?: unknown;
+  iid?: unknown;
+  name?: unknown;
+  sha?: unknown;
+  status?: unknown;
+  web_url?: unknown;
+}
+
+interface GitLabJobSummary {
+  id?: unknown;
+  name?: unknown;
+  stage?: unknown;
+  status?: unknown;
+  allow_failure?: unknown;
+  web_url?: unknown;
+}
+
+interface GitLabTodoSummary {
+  id?: unknown;
+  action_name?: unknown;
+  target_type?: unknown;
+  target_url?: unknown;
+  state?: unknown;
+  updated_at?: unknown;
+  project?: {
+    path_with_namespace?: unknown;
+  };
+  target?: {
+    iid?: unknown;
+    title?: unknown;
+    web_url?: unknown;
+  };
+}
+
+const GITLAB_API_BASE_URL = "https://gitlab.com/api/v4";
+const GITLAB_CI_CONFIG_PATH = ".gitlab-ci.yml";
+const PER_PAGE = 100;
+const MAX_DETAIL_PAGES = 10;
+
+const FAILURE_STATUSES = new Set(["failed", "canceled"]);
+
+const CONCLUSION_BY_STATUS: Record<string, string> = {
+  failed: "failure",
+  canceled: "cancelled",
+  success: "success",
+  skipped: "skipped",
+  manual: "action_required"
+};
+
+function asNonEmptyString(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function asPositiveInt(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    return null;
+  }
+
+  return value;
+}
+
+function asNonNegativeInt(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    return null;
+  }
+
+  return value;
+}
+
+function asIsoTimestamp(value: unknown): string | null {
+  const raw = asNonEmptyString(value);
+  if (!raw) {
+    return null;
+  }
+
+  const parsed = Date.parse(raw);
+  if (Number.isNaN(parsed)) {
+    return null;
+  }
+
+  return new Date(parsed).toISOString();
+}
+
+function parseProjectPath(pathWithNamespace: string): SentinelRepositoryRef | null {
+  const trimmed = pathWithNamespace.trim();
+  const index = trimmed.lastIndexOf("/");
+  if (index <= 0 || index >= trimmed.length - 1) {
+    return null;
+  }
+
+  return {
+    owner: trimmed.slice(0, index),
+    repo: trimmed.slice(index + 1)
+  };
+}
+
+function gitlabApiBase(apiBaseUrl: string | undefined): string {
+  return apiBaseUrl ?? GITLAB_API_BASE_URL;
+}
+
+function projectApiUrl(apiBase: string, repo: SentinelRepositoryRef, suffix: string): string {
+  const projectId = encodeURIComponent(`${repo.owner}/${repo.repo}`);
+  return `${apiBase}/projects/${projectId}${suffix}`;
+}
+
+function normalizeStatus(value: unknown): string {
+  return asNonEmptyString(value)?.toLowerCase() ?? "unknown";
+}
+
+function toConclusion(status: unknown): string {
+  const normalized = normalizeStatus(status);
+  return CONCLUSION_BY_STATUS[normalized] ?? normalized;
+}
+
+function isFailingStatus(status: unknown): boolean {
+  return FAILURE_STATUSES.has(normalizeStatus(status));
+}
+
+function headersForGitLab(token: string): Record<string, string> {
+  return {
+    Accept: "application/json",
+    "PRIVATE-TOKEN": token
+  };
+}
+
+function throwApiError(status: number, url: string, body: string): never {
+  const snippet = body.trim().replace(/\s+/g, " ").slice(0, 220);
+  throw new Error(`E_SENTINEL_API_ERROR: status=${status} url=${url} body=${snippet}`);
+}
+
+async function gitlabRestJson<T>(url: string, token: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: headersForGitLab(token)
+  });
+
+  if (!response.ok) {
+    throwApiError(response.status, url, await response.text());
+  }
+
+  return (await response.json()) as T;
+}
+
+async function gitlabRestText(url: string, token: string): Promise<{ text: string; bytes: number }> {
+  const response = await fetch(url, {
+    headers: {
+      ...headersForGitLab(token),
+      Accept: "text/plain"
+    },
+    redirect: "follow"
+  });
+
+  if (!response.ok) {
+    throwApiError(response.status, url, await response.text());
+  }
+
+  const buffer = await response.arrayBuffer();
+  return {
+    text: Buffer.from(buffer).toString("utf8"),
+    bytes: buffer.byteLength
+  };
+}
+
+async function gitlabRestPaged<T>(baseUrl: string, token: string, maxPages: number): Promise<T[]> {
+  const items: T[] = [];
+
+  for (let page = 1; page <= maxPages; page += 1) {
+    const url = new URL(baseUrl);
+    url.searchParams.set("per_page", String(PER_PAGE));
+    url.searchParams.set("page", String(page));
+
+    const payload = await gitlabRestJson<T[]>(url.toString(), token);
+    const batch = Array.isArray(payload) ? payload : [];
+    items.push(...batch);
+
+    if (batch.length < PER_PAGE) {
+      break;
+    }
+  }
+
+  return items;
+}
+
+function countDiffLines(diff: unknown): { additions: number; deletions: number } {
+  const text = typeof diff === "string" ? diff : "";
+  let additions = 0;
+  let deletions = 0;
+
+  for (const line of text.split("\n")) {
+    if (line.startsWith("+++") || line.startsWith("---")) {
+      continue;
+    }
+
+    if (line.startsWith("+")) {
+      additions += 1;
+    } else if (line.startsWith("-")) {
+      deletions += 1;
+    }
+  }
+
+  return { additions, deletions };
+}
+
+function toDiffStatus(entry: GitLabMergeRequestDiff): string {
+  if (entry.new_file === true) {
+    return "added";
+  }
+
+  if (entry.deleted_file === true) {
+    return "removed";
+  }
+
+  if (entry.renamed_file === true) {
+    return "renamed";
+  }
+
+  return "modified";
+}
+
+function toPullRequestFile(entry: GitLabMergeRequestDiff): SentinelPullRequestFile | null {
+  const pathValue = asNonEmptyString(entry.new_path) ?? asNonEmptyString(entry.old_path);
+  if (!pathValue) {
+    return null;
+  }
+
+  const counts = countDiffLines(entry.diff);
+  return {
+    path: pathValue,
+    status: toDiffStatus(entry),
+    additions: counts.additions,
+    deletions: counts.deletions,
+    changes: counts.additions + counts.deletions
+  };
+}
+
+async function fetchMergeRequestDiffs(
+  repo: SentinelRepositoryRef,
+  mergeRequestIid: number,
+  token: string,
+  apiBase: string,
+  maxPages: number
+): Promise<GitLabMergeRequestDiff[]> {
+  return gitlabRestPaged<GitLabMergeRequestDiff>(
+    projectApiUrl(apiBase, repo, `/merge_requests/${mergeRequestIid}/diffs`),
+    token,
+    maxPages
+  );
+}
+
+async function fetchMergeRequest(
+  repo: SentinelRepositoryRef,
+  mergeRequestIid: number,
+  token: string,
+  apiBase: string
+): Promise<GitLabMergeRequestSummary> {
+  return gitlabRestJson<GitLabMergeRequestSummary>(projectApiUrl(apiBase, repo, `/merge_requests/${mergeRequestIid}`), token);
+}
+
+type PullRequestListFields = Omit<SentinelPullRequestSummary, "additions" | "deletions" | "changedFiles" | "commits">;
+
+function toPullRequestListFields(raw: GitLabMergeRequestSummary): PullRequestListFields | null {
+  const number = asPositiveInt(raw.iid);
+  const title = asNonEmptyString(raw.title);
+  const state = asNonEmptyString(raw.state);
+  const author = asNonEmptyString(raw.author?.username) ?? "unknown";
+  const createdAt = asIsoTimestamp(raw.created_at);
+  const updatedAt = asIsoTimestamp(raw.updated_at);
+  const htmlUrl = asNonEmptyString(raw.web_url);
+  const headSha = asNonEmptyString(raw.sha);
+  const comments = asNonNegativeInt(raw.user_notes_count) ?? 0;
+
+  if (!number || !title || !state || !createdAt || !updatedAt || !htmlUrl || !headSha) {
+    return null;
+  }
+
+  return {
+    number,
+    title,
+    state: state === "opened" ? "open" : state,
+    draft: raw.draft === true || raw.work_in_progress === true,
+    author,
+    comments,
+    reviewComments: 0,
+    createdAt,
+    updatedAt,
+    htmlUrl,
+    headSha
+  };
+}
+
+async function buildPullRequestSummary(
+  repo: SentinelRepositoryRef,
+  fields: PullRequestListFields,
+  token: string,
+  apiBase: string
+): Promise<SentinelPullRequestSummary> {
+  const diffs = await fetchMergeRequestDiffs(repo, fields.number, token, apiBase, MAX_DETAIL_PAGES);
+  const commits = await gitlabRestPaged<unknown>(
+    projectApiUrl(apiBase, repo, `/merge_requests/${fields.number}/commits`),
+    token,
+    MAX_DETAIL_PAGES
+  );
+
+  let additions = 0;
+  let deletions = 0;
+  for (const entry of diffs) {
+    const counts = countDiffLines(entry.diff);
+    additions += counts.additions;
+    deletions += counts.deletions;
+  }
+
+  return {
+    ...fields,
+    additions,
+    deletions,
+    changedFiles: diffs.length,
+    commits: commits.length
+  };
+}
+
+function resolveNoteLocation(note: GitLabDiscussionNote): { file: string; line: number } | null {
+  const position = note.position;
+  if (!position) {
+    return null;
+  }
+
+  const file = asNonEmptyString(position.new_path) ?? asNonEmptyString(position.old_path);
+  if (!file) {
+    return null;
+  }
+
+  return {
+    file,
+    line: asPositiveInt(position.new_line) ?? asPositiveInt(position.old_line) ?? 1
+  };
+}
+
+async function listUnresolvedComments(
+  repo: SentinelRepositoryRef,
+  prNumber: number,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelUnresolvedComment[]> {
+  const apiBase = gitlabApiBase(options.apiBaseUrl);
+  const mergeRequest = await fetchMergeRequest(repo, prNumber, options.authToken, apiBase);
+  const mergeRequestUrl = asNonEmptyString(mergeRequest.web_url);
+  const discussions = await gitlabRestPaged<GitLabDiscussion>(
+    projectApiUrl(apiBase, repo, `/merge_requests/${prNumber}/discussions`),
+    options.authToken,
+    MAX_DETAIL_PAGES
+  );
+
+  const comments: SentinelUnresolvedComment[] = [];
+
+  for (const discussion of discussions) {
+    const notes = Array.isArray(discussion.notes) ? discussion.notes.filter((note) => note.system !== true) : [];
+    const firstNote = notes[0];
+    if (!firstNote || firstNote.resolvable !== true || firstNote.resolved === true) {
+      continue;
+    }
+
+    const location = resolveNoteLocation(firstNote);
+    const latestNote = notes[notes.length - 1] ?? firstNote;
+    const noteId = asPositiveInt(latestNote.id);
+    if (!location || !mergeRequestUrl || !noteId) {
+      continue;
+    }
+
+    comments.push({
+      file: location.file,
+      line: location.line,
+      author: asNonEmptyString(latestNote.author?.username) ?? "unknown",
+      body: asNonEmptyString(latestNote.body) ?? "",
+      createdAt: asIsoTimestamp(latestNote.created_at) ?? new Date(0).toISOString(),
+      url: `${mergeRequestUrl}#note_${noteId}`,
+      resolved: false,
+      outdated: false
+    });
+  }
+
+  return comments;
+}
+
+async function resolveOpenPullRequestForBranch(
+  repo: SentinelRepositoryRef,
+  branch: string,
+  options: SentinelResolvePullRequestOptions
+): Promise<number | null> {
+  const apiBase = gitlabApiBase(options.apiBaseUrl);
+  const url = new URL(projectApiUrl(apiBase, repo, "/merge_requests"));
+  url.searchParams.set("state", "opened");
+  url.searchParams.set("source_branch", branch);
+  url.searchParams.set("per_page", "10");
+
+  const mergeRequests = await gitlabRestJson<GitLabMergeRequestSummary[]>(url.toString(), options.authToken);
+  if (!Array.isArray(mergeRequests)) {
+    return null;
+  }
+
+  for (const mergeRequest of mergeRequests) {
+    const iid = asPositiveInt(mergeRequest.iid);
+    if (iid && asNonEmptyString(mergeRequest.source_branch) === branch) {
+      return iid;
+    }
+  }
+
+  return null;
+}
+
+async function fetchFailingJobsForPipeline(
+  repo: SentinelRepositoryRef,
+  pipelineId: number,
+  token: string,
+  apiBase: string
+): Promise<SentinelFailureJob[]> {
+  const jobs = await gitlabRestPaged<GitLabJobSummary>(
+    projectApiUrl(apiBase, repo, `/pipelines/${pipelineId}/jobs`),
+    token,
+    MAX_DETAIL_PAGES
+  );
+
+  const failingJobs: SentinelFailureJob[] = [];
+  for (const job of jobs) {
+    if (!isFailingStatus(job.status) || job.allow_failure === true) {
+      continue;
+    }
+
+    const jobId = asPositiveInt(job.id);
+    const name = asNonEmptyString(job.name);
+    const htmlUrl = asNonEmptyString(job.web_url);
+    if (!jobId || !name || !htmlUrl) {
+      continue;
+    }
+
+    failingJobs.push({
+      jobId,
+      name,
+      conclusion: toConclusion(job.status),
+      htmlUrl,
+      failedStepName: null,
+      steps: []
+    });
+  }
+
+  failingJobs.sort((left, right) => left.jobId - right.jobId);
+  return failingJobs;
+}
+
+async function toFailureRun(
+  repo: SentinelRepositoryRef,
+  pipeline: GitLabPipelineSummary,
+  token: string,
+  apiBase: string
+): Promise<SentinelFailureRun | null> {
+  const runId = asPositiveInt(pipeline.id);
+  const runNumber = asPositiveInt(pipeline.iid) ?? runId;
+  const headSha = asNonEmptyString(pipeline.sha);
+  const htmlUrl = asNonEmptyString(pipeline.web_url);
+
+  if (!runId || !runNumber || !headSha || !htmlUrl) {
+    return null;
+  }
+
+  const jobs = await fetchFailingJobsForPipeline(repo, runId, token, apiBase);
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return {
+    runId,
+    workflowName: asNonEmptyString(pipeline.name) ?? `Pipeline #${runNumber}`,
+    workflowPath: GITLAB_CI_CONFIG_PATH,
+    runNumber,
+    runAttempt: 1,
+    headSha,
+    conclusion: toConclusion(pipeline.status),
+    htmlUrl,
+    jobs
+  };
+}
+
+async function collectFailureRuns(
+  repo: SentinelRepositoryRef,
+  pipelines: GitLabPipelineSummary[],
+  maxRuns: number,
+  token: string,
+  apiBase: string
+): Promise<SentinelFailureRun[]> {
+  const runs: SentinelFailureRun[] = [];
+
+  for (const pipeline of pipelines) {
+    if (!isFailingStatus(pipeline.status)) {
+      continue;
+    }
+
+    const run = await toFailureRun(repo, pipeline, token, apiBase);
+    if (!run) {
+      continue;
+    }
+
+    runs.push(run);
+    if (runs.length >= maxRuns) {
+      break;
+    }
+  }
+
+  return runs;
+}
+
+async function listFailureRuns(
+  repo: SentinelRepositoryRef,
+  request: SentinelListFailureRunsRequest,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelFailureRun[]> {
+  const apiBase = gitlabApiBase(options.apiBaseUrl);
+  if (request.runId) {
+    const pipeline = await gitlabRestJson<GitLabPipelineSummary>(
+      projectApiUrl(apiBase, repo, `/pipelines/${request.runId}`),
+      options.authToken
+    );
+    const run = await toFailureRun(repo, pipeline, options.authToken, apiBase);
+    return run ? [run] : [];
+  }
+
+  if (request.prNumber) {
+    const mergeRequest = await fetchMergeRequest(repo, request.prNumber, options.authToken, apiBase);
+    const headSha = asNonEmptyString(mergeRequest.sha);
+    if (!headSha) {
+      throw new Error(`E_SENTINEL_API_ERROR: missing merge request head SHA for MR ${request.prNumber}`);
+    }
+
+    const pipelines = await gitlabRestPaged<GitLabPipelineSummary>(
+      projectApiUrl(apiBase, repo, `/merge_requests/${request.prNumber}/pipelines`),
+      options.authToken,
+      1
+    );
+
+    return collectFailureRuns(
+      repo,
+      pipelines.filter((pipeline) => asNonEmptyString(pipeline.sha) === headSha),
+      request.maxRuns,
+      options.authToken,
+      apiBase
+    );
+  }
+
+  const url = new URL(projectApiUrl(apiBase, repo, "/pipelines"));
+  url.searchParams.set("order_by", "id");
+  url.searchParams.set("sort", "desc");
+
+  const pipelines = await gitlabRestPaged<GitLabPipelineSummary>(url.toString(), options.authToken, 1);
+  return collectFailureRuns(repo, pipelines, request.maxRuns, options.authToken, apiBase);
+}
+
+function toNotification(item: GitLabTodoSummary): SentinelNotification | null {
+  const id = asPositiveInt(item.id);
+  const projectPath = asNonEmptyString(item.project?.path_with_namespace);
+  const repository = projectPath ? parseProjectPath(projectPath) : null;
+  if (!id || !repository) {
+    return null;
+  }
+
+  const targetType = asNonEmptyString(item.target_type) ?? "unknown";
+  const isMergeRequest = targetType === "MergeRequest";
+
+  return {
+    id: String(id),
+    reason: asNonEmptyString(item.action_name) ?? "unknown",
+    unread: asNonEmptyString(item.state) === "pending",
+    updatedAt: asIsoTimestamp(item.updated_at) ?? new Date(0).toISOString(),
+    repository,
+    subjectType: isMergeRequest ? "PullRequest" : targetType,
+    title: asNonEmptyString(item.target?.title) ?? "(untitled)",
+    pullNumber: isMergeRequest ? asPositiveInt(item.target?.iid) : null,
+    apiUrl: null,
+    webUrl: asNonEmptyString(item.target_url) ?? asNonEmptyString(item.target?.web_url)
+  };
+}
+
+async function listNotifications(
+  request: SentinelListNotificationsRequest,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelNotification[]> {
+  const apiBase = gitlabApiBase(options.apiBaseUrl);
+  const maxItems = Math.max(1, request.maxItems);
+  const maxPages = Math.max(1, Math.ceil(maxItems / PER_PAGE));
+  const states = request.includeRead ? ["pending", "done"] : ["pending"];
+  const notifications: SentinelNotification[] = [];
+
+  for (const state of states) {
+    for (let page = 1; page <= maxPages && notifications.length < maxItems; page += 1) {
+      const url = new URL(`${apiBase}/todos`);
+      url.searchParams.set("state", state);
+      url.searchParams.set("per_page", String(PER_PAGE));
+      url.searchParams.set("page", String(page));
+
+      const response = await fetch(url.toString(), {
+        headers: headersForGitLab(options.authToken)
+      });
+
+      if (!response.ok) {
+        const body = await response.text();
+        if (response.status === 401 || response.status === 403) {
+          throw new Error(
+            `E_SENTINEL_NOTIFICATIONS_SCOPE_REQUIRED: status=${response.status} ensure token grants read_api access to to-do items`
+          );
+        }
+        throwApiError(response.status, url.toString(), body);
+      }
+
+      const payload = (await response.json()) as GitLabTodoSummary[];
+      const batch = Array.isArray(payload) ? payload : [];
+
+      for (const item of batch) {
+        const notification = toNotification(item);
+        if (!notification) {
+          continue;
+        }
+
+        if (
+          request.repo &&
+          (notification.repository.owner !== request.repo.owner || notification.repository.repo !== request.repo.repo)
+        ) {
+          continue;
+        }
+
+        notifications.push(notification);
+        if (notifications.length >= maxItems) {
+          break;
+        }
+      }
+
+      if (batch.length < PER_PAGE) {
+        break;
+      }
+    }
+  }
+
+  notifications.sort((left, right) => {
+    const updatedCompare = right.updatedAt.localeCompare(left.updatedAt);
+    if (updatedCompare !== 0) {
+      return updatedCompare;
+    }
+
+    const repoCompare = `${left.repository.owner}/${left.repository.repo}`.localeCompare(
+      `${right.repository.owner}/${right.repository.repo}`
+    );
+    if (repoCompare !== 0) {
+      return repoCompare;
+    }
+
+    return left.id.localeCompare(right.id);
+  });
+
+  return notifications;
+}
+
+async function listOpenPullRequests(
+  repo: SentinelRepositoryRef,
+  request: SentinelListOpenPullRequestsRequest,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelPullRequestSummary[]> {
+  const apiBase = gitlabApiBase(options.apiBaseUrl);
+  const maxPullRequests = Math.max(1, request.maxPullRequests);
+  const maxPages = Math.max(1, Math.ceil(maxPullRequests / PER_PAGE));
+
+  const url = new URL(projectApiUrl(apiBase, repo, "/merge_requests"));
+  url.searchParams.set("state", "opened");
+  url.searchParams.set("order_by", "updated_at");
+  url.searchParams.set("sort", "desc");
+
+  const mergeRequests = await gitlabRestPaged<GitLabMergeRequestSummary>(url.toString(), options.authToken, maxPages);
+  const selected = mergeRequests
+    .map(toPullRequestListFields)
+    .filter((fields): fields is PullRequestListFields => fields !== null)
+    .slice(0, maxPullRequests);
+  const results: SentinelPullRequestSummary[] = [];
+
+  for (const fields of selected) {
+    results.push(await buildPullRequestSummary(repo, fields, options.authToken, apiBase));
+  }
+
+  return results;
+}
+
+async function getPullRequestSummary(
+  repo: SentinelRepositoryRef,
+  prNumber: number,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelPullRequestSummary> {
+  const apiBase = gitlabApiBase(options.apiBaseUrl);
+  const mergeRequest = await fetchMergeRequest(repo, prNumber, options.authToken, apiBase);
+  const fields = toPullRequestListFields(mergeRequest);
+  if (!fields) {
+    throw new Error(`E_SENTINEL_API_ERROR: missing merge request summary fields for MR ${prNumber}`);
+  }
+
+  return buildPullRequestSummary(repo, fields, options.authToken, apiBase);
+}
+
+async function listPullRequestFiles(
+  repo: SentinelRepositoryRef,
+  prNumber: number,
+  request: SentinelListPullRequestFilesRequest,
+  options: SentinelResolvePullRequestOptions
+): Promise<SentinelPullRequestFile[]> {
+  const apiBase = gitlabApiBase(options.apiBaseUrl);
+  const maxFiles = Math.max(1, request.maxFiles);
+  const maxPages = Math.max(1, Math.ceil(maxFiles / PER_PAGE));
+  const diffs = await fetchMergeRequestDiffs(repo, prNumber, options.authToken, apiBase, maxPages);
+
+  const files = diffs
+    .map(toPullRequestFile)
+    .filter((item): item is SentinelPullRequestFile => item !== null)
+    .slice(0, maxFiles);
+
+  files.sort((left, right) => {
+    const pathCompare = left.path.localeCompare(right.path);
+    if (pathCompare !== 0) {
+      return pathCompare;
+    }
+
+    return left.status.localeCompare(right.status);
+  });
+
+  return files;
+}
+
+async function getJobLogs(request: SentinelGetJobLogsRequest): Promise<string> {
+  const url = projectApiUrl(gitlabApiBase(request.apiBaseUrl), request.repo, `/jobs/${request.jobId}/trace`);
+  const trace = await gitlabRestText(url, request.authToken);
+
+  if (trace.bytes > request.maxLogBytes) {
+    throw new Error(`E_SENTINEL_LOG_TOO_LARGE: job=${request.jobId} bytes=${trace.bytes} maxLogBytes=${request.maxLogBytes}`);
+  }
+
+  return trace.text;
+}
+
+export const gitlabSentinelAdapter: SentinelProviderAdapter = {
+  resolveOpenPullRequestForBranch,
+  listUnresolvedComments,
+  listFailureRuns,
+  listNotifications,
+  listOpenPullRequests,
+  getPullRequestSummary,
+  listPullRequestFiles,
+  getJobLogs
+};
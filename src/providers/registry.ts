@@ -1,10 +1,16 @@
+import { azureDevOpsProvider } from "./azureDevOps";
 import { bitbucketProvider } from "./bitbucket";
+import { bitbucketServerProvider } from "./bitbucketServer";
+import { giteaProvider } from "./gitea";
 import { githubProvider } from "./github";
 import { gitlabProvider } from "./gitlab";
 import type { ProviderAdapter } from "./types";
 
 const PROVIDERS: Record<string, ProviderAdapter> = {
+  "azure-devops": azureDevOpsProvider,
   bitbucket: bitbucketProvider,
+  "bitbucket-server": bitbucketServerProvider,
+  gitea: giteaProvider,
   github: githubProvider,
   gitlab: gitlabProvider
 };
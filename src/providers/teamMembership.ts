@@ -0,0 +1,57 @@
+import type { ProviderAdapter, ProviderApprovalOptions, ProviderTeamReference } from "./types";
+
+interface CachedTeamMembers {
+  expiresAt: number;
+  members: string[];
+}
+
+export const TEAM_MEMBERSHIP_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const teamMembershipCache = new Map<string, CachedTeamMembers>();
+
+export function parseTeamReference(entry: string): ProviderTeamReference | null {
+  const match = /^@([^/\s]+)\/([^\s]+)$/.exec(entry.trim());
+  if (!match || match[2].split("/").some((segment) => segment.length === 0)) {
+    return null;
+  }
+
+  return {
+    org: match[1],
+    slug: match[2]
+  };
+}
+
+export function formatTeamReference(team: ProviderTeamReference): string {
+  return `@${team.org}/${team.slug}`.toLowerCase();
+}
+
+export function clearTeamMembershipCache(): void {
+  teamMembershipCache.clear();
+}
+
+export async function resolveTeamMembers(
+  provider: ProviderAdapter,
+  team: ProviderTeamReference,
+  options: ProviderApprovalOptions,
+  now: () => number = Date.now
+): Promise<string[]> {
+  if (!provider.fetchTeamMembers) {
+    throw new Error(`E_TEAM_UNSUPPORTED: provider '${provider.name}' cannot resolve team ${formatTeamReference(team)}`);
+  }
+
+  const key = `${provider.name}|${options.apiBaseUrl ?? ""}|${formatTeamReference(team)}`;
+  const cached = teamMembershipCache.get(key);
+  if (cached && cached.expiresAt > now()) {
+    return cached.members;
+  }
+
+  const members = Array.from(new Set((await provider.fetchTeamMembers(team, options)).map((login) => login.trim().toLowerCase())))
+    .filter((login) => login.length > 0)
+    .sort();
+  teamMembershipCache.set(key, {
+    expiresAt: now() + TEAM_MEMBERSHIP_CACHE_TTL_MS,
+    members
+  });
+
+  return members;
+}
@@ -29,6 +29,7 @@ export interface PullContext {
   owner: string;
   repo: string;
   pullNumber: number;
+  headSha?: string;
 }
 
 export interface ProviderTargetExtractionResult {
@@ -39,10 +40,103 @@ export interface ProviderTargetExtractionResult {
 export interface ProviderApprovalOptions {
   authToken?: string;
   githubToken: string;
+  apiBaseUrl?: string;
   allowedAuthors: Set<string>;
   fetchTimeoutMs: number;
   maxPages: number;
   retry: ApprovalRetryPolicy;
+  fetch?: typeof fetch;
+}
+
+export interface ProviderHeadApprovalSummary {
+  headSha: string;
+  approvals: number;
+  staleApprovals: number;
+  headApproverLogins: string[];
+}
+
+export interface ProviderTeamReference {
+  org: string;
+  slug: string;
+}
+
+export interface ProviderCodeOwnerReview {
+  changedFiles: string[];
+  approverLogins: string[];
+}
+
+export type ProviderCommitStatusState = "pending" | "success" | "failure" | "error";
+
+export interface ProviderCommitStatus {
+  owner: string;
+  repo: string;
+  sha: string;
+  state: ProviderCommitStatusState;
+  context: string;
+  description: string;
+  targetUrl?: string;
+}
+
+export type ProviderCheckRunConclusion = "success" | "neutral" | "failure";
+
+export interface ProviderCheckRunAnnotation {
+  path: string;
+  startLine: number;
+  endLine: number;
+  level: "notice" | "warning" | "failure";
+  title: string;
+  message: string;
+}
+
+export interface ProviderCheckRun {
+  owner: string;
+  repo: string;
+  headSha: string;
+  name: string;
+  conclusion: ProviderCheckRunConclusion;
+  title: string;
+  summary: string;
+  annotations: ProviderCheckRunAnnotation[];
+  detailsUrl?: string;
+}
+
+export interface ProviderCheckRunResult {
+  id: number;
+  url?: string;
+}
+
+export interface ProviderStickyComment {
+  owner: string;
+  repo: string;
+  pullNumber: number;
+  marker: string;
+  body: string;
+}
+
+export interface ProviderStickyCommentResult {
+  id: string;
+  action: "created" | "updated";
+}
+
+export interface ProviderHistoryRequest {
+  owner: string;
+  repo: string;
+  limit: number;
+}
+
+export interface ProviderHistoricalPullRequest {
+  number: number;
+  title: string;
+  authorLogin: string;
+  mergedAt: string;
+  targets: ProviderReviewTarget[];
+}
+
+export interface ProviderWriteOptions {
+  authToken: string;
+  apiBaseUrl?: string;
+  fetchTimeoutMs: number;
+  fetch?: typeof fetch;
 }
 
 export interface SentinelRepositoryRef {
@@ -52,6 +146,7 @@ export interface SentinelRepositoryRef {
 
 export interface SentinelResolvePullRequestOptions {
   authToken: string;
+  apiBaseUrl?: string;
 }
 
 export interface SentinelNotification {
@@ -155,6 +250,7 @@ export interface SentinelGetJobLogsRequest {
   repo: SentinelRepositoryRef;
   jobId: number;
   authToken: string;
+  apiBaseUrl?: string;
   maxLogBytes: number;
 }
 
@@ -219,6 +315,7 @@ export class ProviderApprovalError extends Error {
 export interface ProviderAdapter {
   name: string;
   approvalTokenEnvVar?: string;
+  apiBaseUrlEnvVar?: string;
   supportedEvents: ReadonlySet<string>;
   sentinel?: SentinelProviderAdapter;
   extractTargets: (
@@ -228,4 +325,15 @@ export interface ProviderAdapter {
   ) => ProviderTargetExtractionResult;
   extractPullContext: (eventName: string, payload: unknown) => PullContext | null;
   fetchHumanApprovalCount: (context: PullContext, options: ProviderApprovalOptions) => Promise<number>;
+  fetchHeadApprovalSummary?: (context: PullContext, options: ProviderApprovalOptions) => Promise<ProviderHeadApprovalSummary>;
+  fetchCodeOwnerReview?: (context: PullContext, options: ProviderApprovalOptions) => Promise<ProviderCodeOwnerReview>;
+  fetchTeamMembers?: (team: ProviderTeamReference, options: ProviderApprovalOptions) => Promise<string[]>;
+  fetchPullRequestDiff?: (context: PullContext, options: ProviderApprovalOptions) => Promise<string>;
+  postCommitStatus?: (status: ProviderCommitStatus, options: ProviderWriteOptions) => Promise<void>;
+  publishCheckRun?: (checkRun: ProviderCheckRun, options: ProviderWriteOptions) => Promise<ProviderCheckRunResult>;
+  upsertStickyComment?: (comment: ProviderStickyComment, options: ProviderWriteOptions) => Promise<ProviderStickyCommentResult>;
+  listMergedPullRequests?: (
+    request: ProviderHistoryRequest,
+    options: ProviderWriteOptions
+  ) => Promise<ProviderHistoricalPullRequest[]>;
 }
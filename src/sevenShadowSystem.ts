@@ -17,17 +17,84 @@ import {
   verifyPolicyBundle,
   type PolicyOverrideConstraints
 } from "./policyGovernance";
+import { buildAiScorerRegistry, runAiScorer, type AiScorer } from "./aiScorers";
+import { CLASSIFIER_SCORER_NAME, loadPolicyScorers } from "./classifier";
+import {
+  findCodeOwnerApprovalGaps,
+  isCodeOwnersPath,
+  isTeamCodeOwner,
+  parseCodeOwners,
+  readCodeOwnersFile,
+  type CodeOwnersFile
+} from "./codeOwners";
+import { resolveProviderApiBaseUrl } from "./providers/apiBaseUrl";
 import { getProviderByName } from "./providers/registry";
+import { formatTeamReference, parseTeamReference, resolveTeamMembers } from "./providers/teamMembership";
 import { ProviderApprovalError } from "./providers/types";
-import type { ProviderAdapter, ProviderReviewTarget, PullContext } from "./providers/types";
+import type {
+  ProviderAdapter,
+  ProviderApprovalOptions,
+  ProviderCheckRun,
+  ProviderCheckRunAnnotation,
+  ProviderCheckRunResult,
+  ProviderReviewTarget,
+  PullContext
+} from "./providers/types";
+
+const GuardRuleScopeSchema = z
+  .object({
+    sources: z.array(z.enum(["pr_body", "review", "comment"])).min(1).optional(),
+    authorTypes: z.array(z.enum(["User", "Bot", "Unknown"])).min(1).optional(),
+    includeAuthors: z.array(z.string().min(1)).min(1).optional(),
+    excludeAuthors: z.array(z.string().min(1)).default([])
+  })
+  .strict();
 
 const GuardRuleSchema = z.object({
   name: z.string().min(1),
   pattern: z.string().min(1),
   action: z.enum(["block", "score"]),
-  weight: z.number().min(0).max(1).default(0.25)
+  weight: z.number().min(0).max(1).default(0.25),
+  scope: GuardRuleScopeSchema.optional()
 });
 
+const GuardScorerSchema = z
+  .object({
+    name: z.string().min(1),
+    weight: z.number().min(0).max(1)
+  })
+  .strict();
+
+const GuardClassifierSchema = z
+  .object({
+    modelPath: z.string().min(1),
+    sha256: z.string().regex(/^[a-f0-9]{64}$/),
+    weight: z.number().min(0).max(1)
+  })
+  .strict();
+
+const GuardScoringSchema = z
+  .object({
+    ruleWeight: z.number().min(0).max(1).default(1),
+    scorers: z.array(GuardScorerSchema).default([]),
+    classifier: GuardClassifierSchema.optional()
+  })
+  .strict();
+
+const GuardDisclosureSchema = z
+  .object({
+    tags: z.array(z.string().min(1)).default([]),
+    patterns: z.array(z.string().min(1)).default([]),
+    block: z
+      .object({
+        label: z.string().min(1).default("AI-Assisted"),
+        requiredFields: z.array(z.string().regex(/^[a-z][a-z0-9_-]*$/)).default(["tool", "scope"])
+      })
+      .strict()
+      .optional()
+  })
+  .strict();
+
 const GuardRuntimeSchema = z.object({
   failOnUnsupportedEvent: z.boolean().default(true),
   failOnMalformedPayload: z.boolean().default(true),
@@ -54,6 +121,9 @@ const GuardApprovalsSchema = z.object({
   minHumanApprovals: z.number().int().min(0).default(1),
   fetchTimeoutMs: z.number().int().min(250).max(120_000).default(10_000),
   maxPages: z.number().int().min(1).max(50).default(10),
+  requireHeadCommit: z.boolean().default(false),
+  requireCodeOwners: z.boolean().default(false),
+  codeOwnersPath: z.string().min(1).optional(),
   retry: GuardApprovalsRetrySchema.default({})
 });
 
@@ -90,14 +160,29 @@ const GuardPolicyV2SchemaBase = z.object({
   maxAiScore: z.number().min(0).max(1).default(0.65),
   disclosureTag: z.string().min(1).default("[AI-ASSISTED]"),
   disclosureRequiredScore: z.number().min(0).max(1).default(0.45),
+  disclosure: GuardDisclosureSchema.optional(),
   runtime: GuardRuntimeSchema,
   report: GuardReportSchema,
   approvals: GuardApprovalsSchema,
-  rules: z.array(GuardRuleSchema).min(1)
+  rules: z.array(GuardRuleSchema).min(1),
+  scoring: GuardScoringSchema.optional()
 });
 
 export const GuardPolicySchema = GuardPolicyV2SchemaBase.superRefine((policy, ctx) => {
   validateDistinctAuthorLists(policy.blockedAuthors, policy.allowedAuthors, ctx);
+
+  const scorerNames = [
+    ...(policy.scoring?.scorers ?? []).map((scorer) => scorer.name),
+    ...(policy.scoring?.classifier ? [CLASSIFIER_SCORER_NAME] : [])
+  ];
+  const duplicates = scorerNames.filter((name, index) => scorerNames.indexOf(name) !== index);
+  if (duplicates.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["scoring", "scorers"],
+      message: `E_POLICY_SCORER_DUPLICATE: scorers listed more than once (${Array.from(new Set(duplicates)).join(", ")})`
+    });
+  }
 });
 
 const GuardPolicyV1Schema = z.object({
@@ -123,6 +208,11 @@ type GuardPolicyV1 = z.infer<typeof GuardPolicyV1Schema>;
 type GuardRule = z.infer<typeof GuardRuleSchema>;
 type ReportFormat = "json" | "markdown" | "sarif" | "all";
 
+const DEFAULT_CHECK_RUN_NAME = "Seven Shadow System";
+const DISCLOSURE_SCOPES = ["pr_body", "review", "comment"] as const;
+const SNIPPET_CONTEXT_CHARS = 40;
+const MAX_SNIPPET_MATCH_CHARS = 80;
+
 interface ParsedArgs {
   policyPath: string;
   policyBundlePath?: string;
@@ -137,11 +227,14 @@ interface ParsedArgs {
   eventName?: string;
   reportPath?: string;
   provider: string;
+  apiBaseUrl?: string;
   reportFormat: ReportFormat;
   failOnUnsupportedEvent?: boolean;
   maxBodyChars?: number;
   maxEventBytes?: number;
   redact: boolean;
+  checkRun: boolean;
+  checkRunName: string;
 }
 
 interface NormalizedPolicyResult {
@@ -151,12 +244,33 @@ interface NormalizedPolicyResult {
 
 interface CompiledRule extends GuardRule {
   regex: RegExp;
+  includeAuthors: Set<string> | null;
+  excludeAuthors: Set<string>;
+}
+
+interface CompiledScoring {
+  ruleWeight: number;
+  scorers: Array<{ scorer: AiScorer; weight: number }>;
+}
+
+interface CompiledDisclosure {
+  tags: string[];
+  patterns: RegExp[];
+  blockLine: RegExp | null;
+  requiredFields: string[];
+}
+
+interface ParsedDisclosureBlock {
+  disclosure?: DisclosureBlock;
+  error?: string;
 }
 
 interface HumanApprovalsSummary {
   required: number;
   actual: number | null;
   checked: boolean;
+  stale?: number;
+  headSha?: string;
 }
 
 export interface ReviewTarget extends ProviderReviewTarget {}
@@ -170,10 +284,37 @@ export interface GuardFinding {
   details?: Record<string, unknown>;
 }
 
+export interface RuleMatch {
+  rule: string;
+  action: GuardRule["action"];
+  start: number;
+  end: number;
+}
+
+export interface ReportRuleMatch extends RuleMatch {
+  matchHash: string;
+  snippet?: string;
+}
+
+export interface ScoreContribution {
+  scorer: string;
+  value: number;
+  weight: number;
+  contribution: number;
+}
+
+export interface DisclosureBlock {
+  fields: Record<string, string>;
+  scope: ReviewTarget["source"][];
+}
+
 export interface TargetEvaluation {
   target: ReviewTarget;
   aiScore: number;
   matchedRules: string[];
+  ruleMatches: RuleMatch[];
+  scoreContributions?: ScoreContribution[];
+  disclosure?: DisclosureBlock;
   findings: GuardFinding[];
 }
 
@@ -190,6 +331,9 @@ export interface ReportTargetSummary {
   authorType: ReviewTarget["authorType"];
   aiScore: number;
   matchedRules: string[];
+  ruleMatches: ReportRuleMatch[];
+  scoreContributions?: ScoreContribution[];
+  disclosure?: DisclosureBlock;
   findingCodes: string[];
   bodyHash: string;
   body?: string;
@@ -225,6 +369,7 @@ export interface GuardReportV2 {
   evidenceHashes: Record<string, string>;
   accessibilitySummary: AccessibilitySummary;
   generatedReports?: string[];
+  checkRun?: ProviderCheckRunResult | { error: string };
 }
 
 function parseBooleanStrict(value: string, optionName: string): boolean {
@@ -262,7 +407,9 @@ function parseArgs(argv: string[]): ParsedArgs {
     policyPublicKeySpecs: [],
     provider: "github",
     reportFormat: "json",
-    redact: false
+    redact: false,
+    checkRun: false,
+    checkRunName: DEFAULT_CHECK_RUN_NAME
   };
 
   for (let i = 0; i < argv.length; i += 1) {
@@ -398,6 +545,16 @@ function parseArgs(argv: string[]): ParsedArgs {
       continue;
     }
 
+    if (token === "--api-base-url") {
+      const value = argv[i + 1];
+      if (!value || value.startsWith("--")) {
+        throw new Error("E_ARG_VALUE_REQUIRED: --api-base-url");
+      }
+      args.apiBaseUrl = value;
+      i += 1;
+      continue;
+    }
+
     if (token === "--report-format") {
       const value = argv[i + 1];
       if (!value || value.startsWith("--")) {
@@ -449,6 +606,21 @@ function parseArgs(argv: string[]): ParsedArgs {
       continue;
     }
 
+    if (token === "--check-run") {
+      args.checkRun = true;
+      continue;
+    }
+
+    if (token === "--check-run-name") {
+      const value = argv[i + 1];
+      if (!value || value.startsWith("--")) {
+        throw new Error("E_ARG_VALUE_REQUIRED: --check-run-name");
+      }
+      args.checkRunName = value;
+      i += 1;
+      continue;
+    }
+
     if (token.startsWith("--")) {
       throw new Error(`E_UNKNOWN_ARG: ${token}`);
     }
@@ -513,6 +685,8 @@ function withRemediation(finding: GuardFinding): GuardFinding {
     GUARD_BOT_BLOCKED: "Use human-authored reviews or disable blockBotAuthors where policy permits.",
     GUARD_RULE_BLOCK: "Revise the review content or adjust the blocking rule pattern.",
     GUARD_DISCLOSURE_REQUIRED: "Add the configured disclosure tag to high AI-score content.",
+    GUARD_DISCLOSURE_MALFORMED: "Fix the disclosure block so every field is key=value and all required fields and scopes are valid.",
+    GUARD_DISCLOSURE_SCOPE_MISMATCH: "Extend the disclosure block scope to cover the flagged content or add a disclosure tag to it.",
     GUARD_AI_SCORE_EXCEEDED: "Reduce AI-template language or raise maxAiScore with maintainer approval.",
     GUARD_PULL_CONTEXT_MISSING: "Ensure the workflow is triggered by pull-request related events with repository context.",
     GUARD_APPROVALS_UNVERIFIED:
@@ -522,6 +696,12 @@ function withRemediation(finding: GuardFinding): GuardFinding {
     GUARD_APPROVALS_RETRY_EXHAUSTED: "Tune approvals.retry.* settings or reduce provider pressure, then retry verification.",
     GUARD_APPROVALS_FETCH_ERROR: "Retry later or verify provider API/network access and token permissions.",
     GUARD_HUMAN_APPROVALS: "Collect additional human approvals or lower approvals.minHumanApprovals.",
+    GUARD_APPROVALS_STALE: "Ask reviewers to re-approve the current head commit or disable approvals.requireHeadCommit.",
+    GUARD_TEAM_UNRESOLVED:
+      "Grant the provider token read access to team membership or replace the team reference with explicit logins.",
+    GUARD_CODEOWNER_APPROVAL_MISSING: "Request approval from a code owner of each listed path or update CODEOWNERS.",
+    GUARD_CODEOWNERS_MODIFIED: "Land CODEOWNERS changes in a separate pull request so ownership is checked against the base rules.",
+    GUARD_CLASSIFIER_NOT_LOADED: "Load the model with loadPolicyScorers and pass it through the scorers option.",
     GUARD_REPLAY_MISMATCH: "Re-run with the same policy/event inputs or refresh the replay baseline when intended behavior changes."
   };
 
@@ -531,6 +711,220 @@ function withRemediation(finding: GuardFinding): GuardFinding {
   };
 }
 
+export async function expandAuthorTeams(
+  policy: GuardPolicy,
+  provider: ProviderAdapter,
+  env: NodeJS.ProcessEnv,
+  apiBaseUrl: string | undefined,
+  fetchImpl: typeof fetch | undefined
+): Promise<{ policy: GuardPolicy; findings: GuardFinding[] }> {
+  const hasTeams = [
+    ...policy.blockedAuthors,
+    ...policy.allowedAuthors,
+    ...policy.rules.flatMap((rule) => [...(rule.scope?.includeAuthors ?? []), ...(rule.scope?.excludeAuthors ?? [])])
+  ].some((entry) => parseTeamReference(entry));
+  if (!hasTeams) {
+    return {
+      policy,
+      findings: []
+    };
+  }
+
+  const tokenEnvVar = provider.approvalTokenEnvVar ?? "GITHUB_TOKEN";
+  const token = env[tokenEnvVar];
+  const findings: GuardFinding[] = [];
+  const teamOptions: ProviderApprovalOptions = {
+    authToken: token,
+    githubToken: token ?? "",
+    apiBaseUrl,
+    allowedAuthors: new Set(),
+    fetchTimeoutMs: policy.approvals.fetchTimeoutMs,
+    maxPages: policy.approvals.maxPages,
+    retry: policy.approvals.retry,
+    fetch: fetchImpl
+  };
+
+  const unresolvedTeams = new Set<string>();
+  const expand = async (entries: string[]): Promise<string[]> => {
+    const expanded: string[] = [];
+    for (const entry of entries) {
+      const team = parseTeamReference(entry);
+      if (!team) {
+        expanded.push(entry);
+        continue;
+      }
+
+      if (unresolvedTeams.has(formatTeamReference(team))) {
+        continue;
+      }
+
+      try {
+        if (!token) {
+          throw new Error(`${tokenEnvVar} unavailable`);
+        }
+        expanded.push(...(await resolveTeamMembers(provider, team, teamOptions)));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        unresolvedTeams.add(formatTeamReference(team));
+        findings.push(
+          withRemediation({
+            code: "GUARD_TEAM_UNRESOLVED",
+            severity: "block",
+            message: `Unable to resolve team ${formatTeamReference(team)} for provider '${provider.name}'`,
+            details: {
+              provider: provider.name,
+              team: formatTeamReference(team),
+              error: message.slice(0, 220),
+              ...(error instanceof ProviderApprovalError ? { providerErrorKind: error.kind } : {})
+            }
+          })
+        );
+      }
+    }
+
+    return expanded;
+  };
+
+  const blockedAuthors = await expand(policy.blockedAuthors);
+  const blocked = toLowerSet(blockedAuthors);
+  const allowedAuthors = (await expand(policy.allowedAuthors)).filter((entry) => !blocked.has(entry.trim().toLowerCase()));
+  const rules: GuardRule[] = [];
+  for (const rule of policy.rules) {
+    if (!rule.scope) {
+      rules.push(rule);
+      continue;
+    }
+
+    rules.push({
+      ...rule,
+      scope: {
+        ...rule.scope,
+        ...(rule.scope.includeAuthors ? { includeAuthors: await expand(rule.scope.includeAuthors) } : {}),
+        excludeAuthors: await expand(rule.scope.excludeAuthors)
+      }
+    });
+  }
+
+  return {
+    policy: {
+      ...policy,
+      blockedAuthors,
+      allowedAuthors,
+      rules
+    },
+    findings
+  };
+}
+
+async function evaluateCodeOwnerApprovals(
+  policy: GuardPolicy,
+  provider: ProviderAdapter,
+  pullContext: PullContext,
+  approvalOptions: ProviderApprovalOptions,
+  codeOwnersFile: CodeOwnersFile | null,
+  headApproverLogins: string[] | null
+): Promise<GuardFinding[]> {
+  if (!provider.fetchCodeOwnerReview) {
+    return [];
+  }
+
+  if (!codeOwnersFile) {
+    return [
+      withRemediation({
+        code: "GUARD_APPROVALS_UNVERIFIED",
+        severity: "block",
+        message: "CODEOWNERS file not found for approvals.requireCodeOwners",
+        details: {
+          codeOwnersPath: policy.approvals.codeOwnersPath
+        }
+      })
+    ];
+  }
+
+  if (codeOwnersFile.error) {
+    return [
+      withRemediation({
+        code: "GUARD_APPROVALS_UNVERIFIED",
+        severity: "block",
+        message: "CODEOWNERS could not be read for approvals.requireCodeOwners",
+        details: {
+          codeOwnersPath: codeOwnersFile.path,
+          error: codeOwnersFile.error
+        }
+      })
+    ];
+  }
+
+  let rules: ReturnType<typeof parseCodeOwners>;
+  try {
+    rules = parseCodeOwners(codeOwnersFile.content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return [
+      withRemediation({
+        code: "GUARD_APPROVALS_UNVERIFIED",
+        severity: "block",
+        message: "CODEOWNERS could not be parsed for approvals.requireCodeOwners",
+        details: {
+          codeOwnersPath: codeOwnersFile.path,
+          error: message.slice(0, 220)
+        }
+      })
+    ];
+  }
+
+  const review = await provider.fetchCodeOwnerReview(pullContext, approvalOptions);
+  const ownershipChanges = review.changedFiles.filter((filePath) => isCodeOwnersPath(filePath, policy.approvals.codeOwnersPath));
+  if (ownershipChanges.length > 0) {
+    return [
+      withRemediation({
+        code: "GUARD_CODEOWNERS_MODIFIED",
+        severity: "block",
+        message: `Pull request changes CODEOWNERS (${ownershipChanges.join(", ")}); owner approvals cannot be verified against rules it edits`,
+        details: {
+          codeOwnersPath: codeOwnersFile.path,
+          paths: ownershipChanges.slice(0, 10)
+        }
+      })
+    ];
+  }
+
+  const headApprovers = headApproverLogins ? new Set(headApproverLogins) : null;
+  const approverLogins = headApprovers
+    ? review.approverLogins.filter((login) => headApprovers.has(login))
+    : review.approverLogins;
+  let gaps = findCodeOwnerApprovalGaps(rules, review.changedFiles, approverLogins);
+  const teamOwners = Array.from(new Set(gaps.flatMap((gap) => gap.owners.filter(isTeamCodeOwner))));
+  if (teamOwners.length > 0 && provider.fetchTeamMembers) {
+    const teamMembers = new Map<string, string[]>();
+    for (const owner of teamOwners) {
+      const team = parseTeamReference(`@${owner}`);
+      if (team) {
+        teamMembers.set(owner, await resolveTeamMembers(provider, team, approvalOptions));
+      }
+    }
+
+    gaps = findCodeOwnerApprovalGaps(rules, review.changedFiles, approverLogins, teamMembers);
+  }
+
+  if (gaps.length === 0) {
+    return [];
+  }
+
+  const listed = gaps.slice(0, 5).map((gap) => gap.path);
+  return [
+    withRemediation({
+      code: "GUARD_CODEOWNER_APPROVAL_MISSING",
+      severity: "block",
+      message: `Code owner approval missing for ${gaps.length} path(s): ${listed.join(", ")}${gaps.length > listed.length ? ", ..." : ""}`,
+      details: {
+        codeOwnersPath: codeOwnersFile.path,
+        paths: gaps.slice(0, 50)
+      }
+    })
+  ];
+}
+
 function getProvider(name: string): ProviderAdapter {
   const provider = getProviderByName(name);
   if (!provider) {
@@ -723,6 +1117,10 @@ function normalizePolicyInput(policyRaw: unknown): NormalizedPolicyResult {
   throw new Error("E_POLICY_VERSION_UNSUPPORTED: expected version 1 or 2");
 }
 
+export function parseGuardPolicy(policyRaw: unknown): GuardPolicy {
+  return normalizePolicyInput(policyRaw).policy;
+}
+
 function upgradePolicyV1ToV2(policyV1: GuardPolicyV1): GuardPolicy {
   return GuardPolicySchema.parse({
     ...policyV1,
@@ -808,17 +1206,164 @@ function buildRegex(pattern: string): RegExp {
 function compileRules(rules: GuardRule[]): CompiledRule[] {
   return rules.map((rule) => ({
     ...rule,
-    regex: buildRegex(rule.pattern)
+    regex: buildRegex(rule.pattern),
+    includeAuthors: rule.scope?.includeAuthors ? toLowerSet(rule.scope.includeAuthors) : null,
+    excludeAuthors: toLowerSet(rule.scope?.excludeAuthors ?? [])
   }));
 }
 
+function compileScoring(policy: GuardPolicy, customScorers: AiScorer[] = []): CompiledScoring | null {
+  if (!policy.scoring) {
+    return null;
+  }
+
+  const registry = buildAiScorerRegistry(customScorers);
+  const scorers = policy.scoring.scorers.map((entry) => {
+    const scorer = registry.get(entry.name);
+    if (!scorer) {
+      throw new Error(
+        `E_AI_SCORER_UNKNOWN: scorer='${entry.name}' available='${Array.from(registry.keys()).join(", ")}'`
+      );
+    }
+
+    return {
+      scorer,
+      weight: entry.weight
+    };
+  });
+
+  if (policy.scoring.classifier) {
+    const classifier = registry.get(CLASSIFIER_SCORER_NAME);
+    if (!classifier) {
+      throw new Error(`E_CLASSIFIER_MODEL_NOT_LOADED: model='${policy.scoring.classifier.modelPath}'`);
+    }
+
+    scorers.push({
+      scorer: classifier,
+      weight: policy.scoring.classifier.weight
+    });
+  }
+
+  return {
+    ruleWeight: policy.scoring.ruleWeight,
+    scorers
+  };
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function compileDisclosure(policy: GuardPolicy): CompiledDisclosure {
+  const block = policy.disclosure?.block;
+
+  return {
+    tags: [policy.disclosureTag, ...(policy.disclosure?.tags ?? [])].map((tag) => tag.toLowerCase()),
+    patterns: (policy.disclosure?.patterns ?? []).map((pattern) => buildRegex(pattern)),
+    blockLine: block ? new RegExp(`^[\\s>*_-]*${escapeRegex(block.label)}\\s*:(.*)$`, "im") : null,
+    requiredFields: block?.requiredFields ?? []
+  };
+}
+
+function parseDisclosureBlock(body: string, disclosure: CompiledDisclosure): ParsedDisclosureBlock | null {
+  const line = disclosure.blockLine?.exec(body);
+  if (!line) {
+    return null;
+  }
+
+  const fields: Record<string, string> = {};
+  for (const segment of (line[1] ?? "").split(",")) {
+    const trimmed = segment.trim();
+    if (trimmed.length === 0) {
+      continue;
+    }
+
+    const field = /^([a-z][a-z0-9_-]*)\s*=\s*(\S.*)$/i.exec(trimmed);
+    if (!field) {
+      return { error: `field '${trimmed.slice(0, 40)}' is not key=value` };
+    }
+
+    const key = (field[1] ?? "").toLowerCase();
+    if (Object.hasOwn(fields, key)) {
+      return { error: `field '${key}' is repeated` };
+    }
+    fields[key] = (field[2] ?? "").trim();
+  }
+
+  const missing = disclosure.requiredFields.filter((key) => !Object.hasOwn(fields, key));
+  if (missing.length > 0) {
+    return { error: `missing required field(s) ${missing.join(", ")}` };
+  }
+
+  const scope = new Set<ReviewTarget["source"]>();
+  for (const value of (fields.scope ?? "all").split(/[\s+|]+/).filter((item) => item.length > 0)) {
+    const normalized = value.toLowerCase();
+    if (normalized === "all") {
+      DISCLOSURE_SCOPES.forEach((item) => scope.add(item));
+      continue;
+    }
+
+    const source = DISCLOSURE_SCOPES.find((item) => item === normalized);
+    if (!source) {
+      return { error: `scope '${value}' is not one of all, ${DISCLOSURE_SCOPES.join(", ")}` };
+    }
+    scope.add(source);
+  }
+
+  return {
+    disclosure: {
+      fields,
+      scope: DISCLOSURE_SCOPES.filter((item) => scope.has(item))
+    }
+  };
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
+
+function ruleAppliesToTarget(rule: CompiledRule, target: ReviewTarget, author: string): boolean {
+  if (rule.scope?.sources && !rule.scope.sources.includes(target.source)) {
+    return false;
+  }
+
+  if (rule.scope?.authorTypes && !rule.scope.authorTypes.includes(target.authorType)) {
+    return false;
+  }
+
+  if (rule.includeAuthors && !rule.includeAuthors.has(author)) {
+    return false;
+  }
+
+  return !rule.excludeAuthors.has(author);
+}
+
 function evaluateTargetsWithCompiledRules(
   policy: GuardPolicy,
   targets: ReviewTarget[],
-  compiledRules: CompiledRule[]
+  compiledRules: CompiledRule[],
+  compiledScoring: CompiledScoring | null
 ): GuardResult {
   const blockedAuthors = toLowerSet(policy.blockedAuthors);
   const allowedAuthors = toLowerSet(policy.allowedAuthors);
+  const disclosure = compileDisclosure(policy);
+
+  const disclosureBlocks = new Map<string, ParsedDisclosureBlock>();
+  const disclosedScopesByAuthor = new Map<string, Set<ReviewTarget["source"]>>();
+  for (const target of targets) {
+    const parsed = parseDisclosureBlock(target.body, disclosure);
+    if (!parsed) {
+      continue;
+    }
+
+    disclosureBlocks.set(target.referenceId, parsed);
+    if (parsed.disclosure) {
+      const author = normalizeLogin(target.authorLogin);
+      const scopes = disclosedScopesByAuthor.get(author) ?? new Set<ReviewTarget["source"]>();
+      parsed.disclosure.scope.forEach((item) => scopes.add(item));
+      disclosedScopesByAuthor.set(author, scopes);
+    }
+  }
 
   const targetEvaluations: TargetEvaluation[] = [];
   const globalFindings: GuardFinding[] = [];
@@ -827,6 +1372,7 @@ function evaluateTargetsWithCompiledRules(
   for (const target of targets) {
     const findings: GuardFinding[] = [];
     const matchedRules: string[] = [];
+    const ruleMatches: RuleMatch[] = [];
     const author = normalizeLogin(target.authorLogin);
 
     if (allowedAuthors.has(author)) {
@@ -834,6 +1380,7 @@ function evaluateTargetsWithCompiledRules(
         target,
         aiScore: 0,
         matchedRules,
+        ruleMatches,
         findings
       });
       continue;
@@ -863,11 +1410,18 @@ function evaluateTargetsWithCompiledRules(
 
     let aiScore = 0;
     for (const rule of compiledRules) {
-      if (!rule.regex.test(target.body)) {
+      const match = ruleAppliesToTarget(rule, target, author) ? rule.regex.exec(target.body) : null;
+      if (!match) {
         continue;
       }
 
       matchedRules.push(rule.name);
+      ruleMatches.push({
+        rule: rule.name,
+        action: rule.action,
+        start: match.index,
+        end: match.index + match[0].length
+      });
 
       if (rule.action === "block") {
         findings.push(
@@ -887,26 +1441,89 @@ function evaluateTargetsWithCompiledRules(
     }
 
     aiScore = Math.min(1, aiScore);
+
+    let scoreContributions: ScoreContribution[] | undefined;
+    if (compiledScoring) {
+      scoreContributions = [
+        {
+          scorer: "rules",
+          value: roundScore(aiScore),
+          weight: compiledScoring.ruleWeight,
+          contribution: roundScore(aiScore * compiledScoring.ruleWeight)
+        }
+      ];
+
+      let combinedScore = aiScore * compiledScoring.ruleWeight;
+      for (const entry of compiledScoring.scorers) {
+        const value = runAiScorer(entry.scorer, target);
+        combinedScore += value * entry.weight;
+        scoreContributions.push({
+          scorer: entry.scorer.name,
+          value: roundScore(value),
+          weight: entry.weight,
+          contribution: roundScore(value * entry.weight)
+        });
+      }
+
+      aiScore = roundScore(Math.min(1, combinedScore));
+    }
+
     highestScore = Math.max(highestScore, aiScore);
 
-    if (
-      aiScore >= policy.disclosureRequiredScore &&
-      !target.body.toLowerCase().includes(policy.disclosureTag.toLowerCase())
-    ) {
+    const disclosureBlock = disclosureBlocks.get(target.referenceId);
+    if (disclosureBlock?.error) {
       findings.push(
         withRemediation({
-          code: "GUARD_DISCLOSURE_REQUIRED",
+          code: "GUARD_DISCLOSURE_MALFORMED",
           severity: "block",
-          message: `Missing disclosure tag '${policy.disclosureTag}' for high AI-score review`,
+          message: `Malformed disclosure block: ${disclosureBlock.error}`,
           targetReferenceId: target.referenceId,
           details: {
-            aiScore,
-            threshold: policy.disclosureRequiredScore
+            requiredFields: disclosure.requiredFields
           }
         })
       );
     }
 
+    const lowerBody = target.body.toLowerCase();
+    const disclosedScopes = disclosedScopesByAuthor.get(author);
+    if (
+      aiScore >= policy.disclosureRequiredScore &&
+      !disclosure.tags.some((tag) => lowerBody.includes(tag)) &&
+      !disclosure.patterns.some((pattern) => pattern.test(target.body)) &&
+      !disclosedScopes?.has(target.source)
+    ) {
+      if (disclosedScopes) {
+        findings.push(
+          withRemediation({
+            code: "GUARD_DISCLOSURE_SCOPE_MISMATCH",
+            severity: "block",
+            message: `Disclosure scope '${Array.from(disclosedScopes).join("+")}' does not cover high AI-score ${target.source}`,
+            targetReferenceId: target.referenceId,
+            details: {
+              aiScore,
+              threshold: policy.disclosureRequiredScore,
+              source: target.source,
+              disclosedScope: Array.from(disclosedScopes)
+            }
+          })
+        );
+      } else {
+        findings.push(
+          withRemediation({
+            code: "GUARD_DISCLOSURE_REQUIRED",
+            severity: "block",
+            message: `Missing disclosure tag '${policy.disclosureTag}' for high AI-score review`,
+            targetReferenceId: target.referenceId,
+            details: {
+              aiScore,
+              threshold: policy.disclosureRequiredScore
+            }
+          })
+        );
+      }
+    }
+
     if (aiScore > policy.maxAiScore) {
       findings.push(
         withRemediation({
@@ -926,6 +1543,9 @@ function evaluateTargetsWithCompiledRules(
       target,
       aiScore,
       matchedRules,
+      ruleMatches,
+      ...(scoreContributions ? { scoreContributions } : {}),
+      ...(disclosureBlock?.disclosure ? { disclosure: disclosureBlock.disclosure } : {}),
       findings
     });
 
@@ -939,16 +1559,16 @@ function evaluateTargetsWithCompiledRules(
   };
 }
 
-export function evaluateTargets(policy: GuardPolicy, targets: ReviewTarget[]): GuardResult {
+export function evaluateTargets(policy: GuardPolicy, targets: ReviewTarget[], scorers: AiScorer[] = []): GuardResult {
   const compiledRules = compileRules(policy.rules);
-  return evaluateTargetsWithCompiledRules(policy, targets, compiledRules);
+  return evaluateTargetsWithCompiledRules(policy, targets, compiledRules, compileScoring(policy, scorers));
 }
 
 function hashText(value: string): string {
   return crypto.createHash("sha256").update(value, "utf8").digest("hex");
 }
 
-function applyRuntimeTargetLimits(policy: GuardPolicy, targets: ReviewTarget[]): { targets: ReviewTarget[]; findings: GuardFinding[] } {
+export function applyRuntimeTargetLimits(policy: GuardPolicy, targets: ReviewTarget[]): { targets: ReviewTarget[]; findings: GuardFinding[] } {
   const findings: GuardFinding[] = [];
   const trimmedTargets: ReviewTarget[] = [];
 
@@ -999,7 +1619,7 @@ function applyRuntimeTargetLimits(policy: GuardPolicy, targets: ReviewTarget[]):
   };
 }
 
-function decideOutcome(policy: GuardPolicy, findings: GuardFinding[]): "pass" | "warn" | "block" {
+export function decideOutcome(policy: GuardPolicy, findings: GuardFinding[]): "pass" | "warn" | "block" {
   const hasBlock = findings.some((item) => item.severity === "block");
 
   if (hasBlock && policy.enforcement === "block") {
@@ -1042,6 +1662,28 @@ function buildAccessibilitySummary(
   };
 }
 
+function toReportRuleMatch(match: RuleMatch, body: string, policy: GuardPolicy): ReportRuleMatch {
+  const matchedText = body.slice(match.start, match.end);
+  const result: ReportRuleMatch = {
+    ...match,
+    matchHash: hashText(matchedText)
+  };
+
+  if (!policy.report.includeBodies || policy.report.redactionMode === "hash") {
+    return result;
+  }
+
+  if (policy.report.redactionMode === "partial") {
+    result.snippet = matchedText.length > MAX_SNIPPET_MATCH_CHARS ? `${matchedText.slice(0, MAX_SNIPPET_MATCH_CHARS)}…` : matchedText;
+    return result;
+  }
+
+  const contextStart = Math.max(0, match.start - SNIPPET_CONTEXT_CHARS);
+  const contextEnd = Math.min(body.length, match.end + SNIPPET_CONTEXT_CHARS);
+  result.snippet = `${contextStart > 0 ? "…" : ""}${body.slice(contextStart, contextEnd)}${contextEnd < body.length ? "…" : ""}`;
+  return result;
+}
+
 function toReportTarget(
   evaluation: TargetEvaluation,
   findings: GuardFinding[],
@@ -1060,6 +1702,9 @@ function toReportTarget(
     authorType: evaluation.target.authorType,
     aiScore: evaluation.aiScore,
     matchedRules: evaluation.matchedRules,
+    ruleMatches: evaluation.ruleMatches.map((match) => toReportRuleMatch(match, evaluation.target.body, policy)),
+    ...(evaluation.scoreContributions ? { scoreContributions: evaluation.scoreContributions } : {}),
+    ...(evaluation.disclosure ? { disclosure: evaluation.disclosure } : {}),
     findingCodes: targetFindingCodes,
     bodyHash
   };
@@ -1120,6 +1765,49 @@ function renderMarkdownReport(report: GuardReportV2): string {
     }
   }
 
+  const targetsWithMatches = report.targets.filter((target) => target.ruleMatches.length > 0);
+  if (targetsWithMatches.length > 0) {
+    lines.push("");
+    lines.push("## Rule Matches");
+    lines.push("");
+    for (const target of targetsWithMatches) {
+      for (const match of target.ruleMatches) {
+        const evidence = match.snippet
+          ? `"${match.snippet.replace(/\s+/g, " ").replace(/`/g, "'")}"`
+          : `sha256 \`${match.matchHash}\``;
+        lines.push(
+          `- \`${target.referenceId}\` rule \`${match.rule}\` (${match.action}) at chars ${match.start}-${match.end}: ${evidence}`
+        );
+      }
+    }
+  }
+
+  const targetsWithContributions = report.targets.filter((target) => target.scoreContributions);
+  if (targetsWithContributions.length > 0) {
+    lines.push("");
+    lines.push("## AI Score Contributions");
+    lines.push("");
+    for (const target of targetsWithContributions) {
+      const parts = (target.scoreContributions ?? []).map(
+        (item) => `${item.scorer} ${item.value.toFixed(3)} x ${item.weight.toFixed(2)} = ${item.contribution.toFixed(3)}`
+      );
+      lines.push(`- \`${target.referenceId}\` (${target.aiScore.toFixed(3)}): ${parts.join("; ")}`);
+    }
+  }
+
+  const targetsWithDisclosures = report.targets.filter((target) => target.disclosure);
+  if (targetsWithDisclosures.length > 0) {
+    lines.push("");
+    lines.push("## AI Disclosures");
+    lines.push("");
+    for (const target of targetsWithDisclosures) {
+      const fields = Object.entries(target.disclosure?.fields ?? {}).map(([key, value]) => `${key}=${value.replace(/`/g, "'")}`);
+      lines.push(
+        `- \`${target.referenceId}\` (@${target.authorLogin}) covers ${(target.disclosure?.scope ?? []).join(", ")}: ${fields.join(", ")}`
+      );
+    }
+  }
+
   lines.push("");
   lines.push("## Target Evidence Hashes");
   lines.push("");
@@ -1146,16 +1834,37 @@ function renderSarifReport(report: GuardReportV2): Record<string, unknown> {
     };
   });
 
-  const results = report.findings.map((finding) => ({
-    ruleId: finding.code,
-    level: finding.severity === "block" ? "error" : "warning",
-    message: {
-      text: `${finding.message} Remediation: ${finding.remediation ?? "See policy documentation."}`
-    },
-    properties: {
-      targetReferenceId: finding.targetReferenceId ?? null
-    }
-  }));
+  const results = report.findings.map((finding) => {
+    const target = report.targets.find((item) => item.referenceId === finding.targetReferenceId);
+    const rule = typeof finding.details?.rule === "string" ? finding.details.rule : null;
+    const ruleMatches = (target?.ruleMatches ?? []).filter((match) => rule === null || match.rule === rule);
+
+    return {
+      ruleId: finding.code,
+      level: finding.severity === "block" ? "error" : "warning",
+      message: {
+        text: `${finding.message} Remediation: ${finding.remediation ?? "See policy documentation."}`
+      },
+      ...(target && ruleMatches.length > 0
+        ? {
+            locations: [
+              {
+                logicalLocations: [
+                  {
+                    name: target.referenceId,
+                    kind: target.source
+                  }
+                ]
+              }
+            ]
+          }
+        : {}),
+      properties: {
+        targetReferenceId: finding.targetReferenceId ?? null,
+        ...(ruleMatches.length > 0 ? { ruleMatches } : {})
+      }
+    };
+  });
 
   return {
     $schema: "https://json.schemastore.org/sarif-2.1.0.json",
@@ -1175,6 +1884,125 @@ function renderSarifReport(report: GuardReportV2): Record<string, unknown> {
   };
 }
 
+function asObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  return value as Record<string, unknown>;
+}
+
+function toCheckRunConclusion(decision: GuardReportV2["decision"]): ProviderCheckRun["conclusion"] {
+  if (decision === "block") {
+    return "failure";
+  }
+
+  return decision === "warn" ? "neutral" : "success";
+}
+
+function resolveFindingLocation(
+  finding: GuardFinding,
+  eventPayload: unknown,
+  fallbackPath: string | null
+): { path: string; line: number } | null {
+  const comment = asObject(asObject(eventPayload)?.comment);
+  if (comment && typeof comment.path === "string" && finding.targetReferenceId === `comment:${String(comment.id)}`) {
+    const line = [comment.line, comment.original_line].find(
+      (value): value is number => typeof value === "number" && Number.isInteger(value) && value > 0
+    );
+    return {
+      path: comment.path,
+      line: line ?? 1
+    };
+  }
+
+  if (!fallbackPath) {
+    return null;
+  }
+
+  return {
+    path: fallbackPath,
+    line: 1
+  };
+}
+
+function buildCheckRunAnnotations(
+  report: GuardReportV2,
+  eventPayload: unknown,
+  fallbackPath: string | null
+): ProviderCheckRunAnnotation[] {
+  return report.findings.flatMap((finding) => {
+    const location = resolveFindingLocation(finding, eventPayload, fallbackPath);
+    if (!location) {
+      return [];
+    }
+
+    const messageLines = [finding.message];
+    if (finding.remediation) {
+      messageLines.push(`Remediation: ${finding.remediation}`);
+    }
+
+    return [
+      {
+        path: location.path,
+        startLine: location.line,
+        endLine: location.line,
+        level: finding.severity === "block" ? "failure" : "warning",
+        title: finding.targetReferenceId ? `${finding.code} (${finding.targetReferenceId})` : finding.code,
+        message: messageLines.join("\n")
+      }
+    ];
+  });
+}
+
+async function publishGuardCheckRun(
+  report: GuardReportV2,
+  options: {
+    provider: ProviderAdapter;
+    name: string;
+    eventName: string;
+    eventPayload: unknown;
+    fallbackPath: string | null;
+    env: NodeJS.ProcessEnv;
+    apiBaseUrl?: string;
+    fetchTimeoutMs: number;
+  }
+): Promise<ProviderCheckRunResult> {
+  const { provider } = options;
+  if (!provider.publishCheckRun) {
+    throw new Error(`E_CHECK_RUN_UNSUPPORTED: provider '${provider.name}' cannot publish check runs`);
+  }
+
+  const tokenEnvVar = provider.approvalTokenEnvVar ?? "GITHUB_TOKEN";
+  const authToken = options.env[tokenEnvVar];
+  if (!authToken) {
+    throw new Error(`E_CHECK_RUN_TOKEN_REQUIRED: ${tokenEnvVar} is required to publish a check run`);
+  }
+
+  const pullContext = provider.extractPullContext(options.eventName, options.eventPayload);
+  if (!pullContext?.headSha) {
+    throw new Error(`E_CHECK_RUN_HEAD_SHA_MISSING: event '${options.eventName}' does not include a pull request head SHA`);
+  }
+
+  return provider.publishCheckRun(
+    {
+      owner: pullContext.owner,
+      repo: pullContext.repo,
+      headSha: pullContext.headSha,
+      name: options.name,
+      conclusion: toCheckRunConclusion(report.decision),
+      title: `${report.decision.toUpperCase()}: ${report.findings.length} finding(s)`,
+      summary: renderMarkdownReport(report),
+      annotations: buildCheckRunAnnotations(report, options.eventPayload, options.fallbackPath)
+    },
+    {
+      authToken,
+      apiBaseUrl: options.apiBaseUrl,
+      fetchTimeoutMs: options.fetchTimeoutMs
+    }
+  );
+}
+
 async function loadJsonFile(filePath: string): Promise<unknown> {
   const raw = await fs.readFile(filePath, "utf8");
   return JSON.parse(raw) as unknown;
@@ -1250,48 +2078,38 @@ async function writeReports(reportPath: string, format: ReportFormat, report: Gu
   return [jsonPath, markdownPath, sarifPath];
 }
 
-export async function runSevenShadowSystem(
-  argv: string[] = process.argv.slice(2),
-  env: NodeJS.ProcessEnv = process.env
-): Promise<number> {
-  const args = parseArgs(argv);
-  const eventPath = args.eventPath ?? env.GITHUB_EVENT_PATH;
-  const eventName = args.eventName ?? env.GITHUB_EVENT_NAME ?? "unknown";
-
-  if (!eventPath) {
-    throw new Error("E_EVENT_PATH_REQUIRED");
-  }
-
-  const resolvedPolicy = await resolvePolicyMaterial(args);
-  const normalizedPolicy = normalizePolicyInput(resolvedPolicy.policyRaw);
-  const policy = applyCliOverrides(normalizedPolicy.policy, args);
-  const provider = getProvider(args.provider);
+export interface EvaluateGuardOptions {
+  policy: unknown;
+  eventName: string;
+  payload: unknown;
+  provider?: string | ProviderAdapter;
+  env?: NodeJS.ProcessEnv;
+  fetch?: typeof fetch;
+  apiBaseUrl?: string;
+  policyPath?: string;
+  codeOwners?: CodeOwnersFile | null;
+  scorers?: AiScorer[];
+}
 
-  const findings: GuardFinding[] = [];
-  let eventPayload: unknown = {};
-  let eventPayloadAvailable = false;
+interface GuardEvaluationContext {
+  policy: GuardPolicy;
+  policyVersion: 1 | 2;
+  policyPath: string;
+  provider: ProviderAdapter;
+  eventName: string;
+  eventPayload: unknown;
+  eventPayloadAvailable: boolean;
+  eventFindings: GuardFinding[];
+  env: NodeJS.ProcessEnv;
+  apiBaseUrl?: string;
+  fetch?: typeof fetch;
+  codeOwners: CodeOwnersFile | null;
+  scorers?: AiScorer[];
+}
 
-  try {
-    eventPayload = await loadJsonFileWithByteLimit(eventPath, policy.runtime.maxEventBytes);
-    eventPayloadAvailable = true;
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    const isLargeEvent = message.startsWith("E_EVENT_FILE_TOO_LARGE:");
-
-    findings.push(
-      withRemediation({
-        code: isLargeEvent ? "GUARD_EVENT_TOO_LARGE" : "GUARD_EVENT_PARSE_ERROR",
-        severity: policy.runtime.failOnMalformedPayload ? "block" : "warn",
-        message: isLargeEvent
-          ? `Event payload exceeded runtime.maxEventBytes (${policy.runtime.maxEventBytes})`
-          : "Failed to parse event payload JSON",
-        details: {
-          error: message.slice(0, 220),
-          maxEventBytes: policy.runtime.maxEventBytes
-        }
-      })
-    );
-  }
+async function evaluateGuardContext(context: GuardEvaluationContext): Promise<GuardReportV2> {
+  const { policy, provider, eventName, eventPayload, eventPayloadAvailable, env, apiBaseUrl } = context;
+  const findings: GuardFinding[] = [...context.eventFindings];
 
   const eventSupported = provider.supportedEvents.has(eventName);
   if (!eventSupported) {
@@ -1340,14 +2158,39 @@ export async function runSevenShadowSystem(
     }
   }
 
+  const teamExpansion = await expandAuthorTeams(policy, provider, env, apiBaseUrl, context.fetch);
+  findings.push(...teamExpansion.findings);
+
   const limitedTargets = applyRuntimeTargetLimits(policy, targets);
   findings.push(...limitedTargets.findings);
 
-  const compiledRules = compileRules(policy.rules);
-  const baseResult = evaluateTargetsWithCompiledRules(policy, limitedTargets.targets, compiledRules);
+  const scorers = context.scorers ?? [];
+  let scoringPolicy = policy;
+  if (policy.scoring?.classifier && !scorers.some((scorer) => scorer.name === CLASSIFIER_SCORER_NAME)) {
+    findings.push(
+      withRemediation({
+        code: "GUARD_CLASSIFIER_NOT_LOADED",
+        severity: "block",
+        message: "scoring.classifier is configured but no classifier scorer was supplied",
+        details: {
+          modelPath: policy.scoring.classifier.modelPath
+        }
+      })
+    );
+    scoringPolicy = { ...policy, scoring: { ...policy.scoring, classifier: undefined } };
+  }
+
+  const compiledRules = compileRules(teamExpansion.policy.rules);
+  const compiledScoring = compileScoring(scoringPolicy, scorers);
+  const baseResult = evaluateTargetsWithCompiledRules(
+    teamExpansion.policy,
+    limitedTargets.targets,
+    compiledRules,
+    compiledScoring
+  );
   findings.push(...baseResult.findings);
 
-  const allowedAuthors = toLowerSet(policy.allowedAuthors);
+  const allowedAuthors = toLowerSet(teamExpansion.policy.allowedAuthors);
 
   const humanApprovals: HumanApprovalsSummary = {
     required: policy.approvals.minHumanApprovals,
@@ -1355,7 +2198,7 @@ export async function runSevenShadowSystem(
     checked: false
   };
 
-  if (eventSupported && eventPayloadAvailable && policy.approvals.minHumanApprovals > 0) {
+  if (eventSupported && eventPayloadAvailable && (policy.approvals.minHumanApprovals > 0 || policy.approvals.requireCodeOwners)) {
     const pullContext: PullContext | null = provider.extractPullContext(eventName, eventPayload);
 
     if (!pullContext) {
@@ -1381,21 +2224,73 @@ export async function runSevenShadowSystem(
             }
           })
         );
+      } else if (policy.approvals.requireHeadCommit && !provider.fetchHeadApprovalSummary) {
+        findings.push(
+          withRemediation({
+            code: "GUARD_APPROVALS_UNVERIFIED",
+            severity: "block",
+            message: `Provider '${provider.name}' cannot match approvals to the head commit required by approvals.requireHeadCommit`,
+            details: {
+              provider: provider.name
+            }
+          })
+        );
+      } else if (policy.approvals.requireCodeOwners && !provider.fetchCodeOwnerReview) {
+        findings.push(
+          withRemediation({
+            code: "GUARD_APPROVALS_UNVERIFIED",
+            severity: "block",
+            message: `Provider '${provider.name}' cannot list changed files and approvers required by approvals.requireCodeOwners`,
+            details: {
+              provider: provider.name
+            }
+          })
+        );
       } else {
         try {
-          const approvals = await provider.fetchHumanApprovalCount(pullContext, {
+          const approvalOptions: ProviderApprovalOptions = {
             authToken: approvalToken,
             githubToken: approvalToken,
+            apiBaseUrl,
             allowedAuthors,
             fetchTimeoutMs: policy.approvals.fetchTimeoutMs,
             maxPages: policy.approvals.maxPages,
-            retry: policy.approvals.retry
-          });
+            retry: policy.approvals.retry,
+            fetch: context.fetch
+          };
+
+          let approvals: number;
+          let staleApprovals = 0;
+          let headApproverLogins: string[] | null = null;
+          if (policy.approvals.requireHeadCommit && provider.fetchHeadApprovalSummary) {
+            const summary = await provider.fetchHeadApprovalSummary(pullContext, approvalOptions);
+            approvals = summary.approvals;
+            headApproverLogins = summary.headApproverLogins;
+            staleApprovals = summary.staleApprovals;
+            humanApprovals.stale = summary.staleApprovals;
+            humanApprovals.headSha = summary.headSha;
+          } else {
+            approvals = await provider.fetchHumanApprovalCount(pullContext, approvalOptions);
+          }
 
           humanApprovals.actual = approvals;
           humanApprovals.checked = true;
 
-          if (approvals < policy.approvals.minHumanApprovals) {
+          if (approvals < policy.approvals.minHumanApprovals && staleApprovals > 0) {
+            findings.push(
+              withRemediation({
+                code: "GUARD_APPROVALS_STALE",
+                severity: "block",
+                message: `Human approvals ${approvals} on head ${humanApprovals.headSha ?? "unknown"} below required ${policy.approvals.minHumanApprovals}; ${staleApprovals} approval(s) are on an earlier commit`,
+                details: {
+                  approvals,
+                  staleApprovals,
+                  required: policy.approvals.minHumanApprovals,
+                  headSha: humanApprovals.headSha
+                }
+              })
+            );
+          } else if (approvals < policy.approvals.minHumanApprovals) {
             findings.push(
               withRemediation({
                 code: "GUARD_HUMAN_APPROVALS",
@@ -1408,6 +2303,19 @@ export async function runSevenShadowSystem(
               })
             );
           }
+
+          if (policy.approvals.requireCodeOwners) {
+            findings.push(
+              ...(await evaluateCodeOwnerApprovals(
+                policy,
+                provider,
+                pullContext,
+                approvalOptions,
+                context.codeOwners,
+                headApproverLogins
+              ))
+            );
+          }
         } catch (error) {
           const message = error instanceof Error ? error.message : String(error);
           const providerError = error instanceof ProviderApprovalError ? error : null;
@@ -1450,18 +2358,18 @@ export async function runSevenShadowSystem(
     }
   }
 
-  let decision = decideOutcome(policy, findings);
-  let accessibilitySummary = buildAccessibilitySummary(decision, findings);
+  const decision = decideOutcome(policy, findings);
+  const accessibilitySummary = buildAccessibilitySummary(decision, findings);
 
   const reportTargets = baseResult.targetEvaluations.map((item) => toReportTarget(item, findings, policy));
 
-  const report: GuardReportV2 = {
+  return {
     schemaVersion: 2,
     timestamp: new Date().toISOString(),
     provider: provider.name,
     eventName,
-    policyPath: resolvedPolicy.policyPathForReport,
-    policyVersion: normalizedPolicy.inputVersion,
+    policyPath: context.policyPath,
+    policyVersion: context.policyVersion,
     enforcement: policy.enforcement,
     decision,
     targetsScanned: limitedTargets.targets.length,
@@ -1472,16 +2380,130 @@ export async function runSevenShadowSystem(
     evidenceHashes: buildEvidenceHashes(baseResult.targetEvaluations),
     accessibilitySummary
   };
+}
+
+export async function evaluateGuard(options: EvaluateGuardOptions): Promise<GuardReportV2> {
+  const normalizedPolicy = normalizePolicyInput(options.policy);
+  const provider = typeof options.provider === "object" ? options.provider : getProvider(options.provider ?? "github");
+  const env = options.env ?? {};
+
+  return evaluateGuardContext({
+    policy: normalizedPolicy.policy,
+    policyVersion: normalizedPolicy.inputVersion,
+    policyPath: options.policyPath ?? "inline",
+    provider,
+    eventName: options.eventName,
+    eventPayload: options.payload,
+    eventPayloadAvailable: true,
+    eventFindings: [],
+    env,
+    apiBaseUrl: resolveProviderApiBaseUrl(provider, {
+      flag: options.apiBaseUrl,
+      env
+    }),
+    fetch: options.fetch,
+    codeOwners: options.codeOwners ?? null,
+    scorers: options.scorers
+  });
+}
+
+export async function runSevenShadowSystem(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): Promise<number> {
+  const args = parseArgs(argv);
+  const eventPath = args.eventPath ?? env.GITHUB_EVENT_PATH;
+  const eventName = args.eventName ?? env.GITHUB_EVENT_NAME ?? "unknown";
+
+  if (!eventPath) {
+    throw new Error("E_EVENT_PATH_REQUIRED");
+  }
+
+  const resolvedPolicy = await resolvePolicyMaterial(args);
+  const normalizedPolicy = normalizePolicyInput(resolvedPolicy.policyRaw);
+  const policy = applyCliOverrides(normalizedPolicy.policy, args);
+  const provider = getProvider(args.provider);
+  if (args.checkRun && !provider.publishCheckRun) {
+    throw new Error(`E_CHECK_RUN_UNSUPPORTED: provider '${provider.name}' cannot publish check runs`);
+  }
+
+  const apiBaseUrl = resolveProviderApiBaseUrl(provider, {
+    flag: args.apiBaseUrl,
+    env
+  });
+
+  const eventFindings: GuardFinding[] = [];
+  let eventPayload: unknown = {};
+  let eventPayloadAvailable = false;
+
+  try {
+    eventPayload = await loadJsonFileWithByteLimit(eventPath, policy.runtime.maxEventBytes);
+    eventPayloadAvailable = true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const isLargeEvent = message.startsWith("E_EVENT_FILE_TOO_LARGE:");
+
+    eventFindings.push(
+      withRemediation({
+        code: isLargeEvent ? "GUARD_EVENT_TOO_LARGE" : "GUARD_EVENT_PARSE_ERROR",
+        severity: policy.runtime.failOnMalformedPayload ? "block" : "warn",
+        message: isLargeEvent
+          ? `Event payload exceeded runtime.maxEventBytes (${policy.runtime.maxEventBytes})`
+          : "Failed to parse event payload JSON",
+        details: {
+          error: message.slice(0, 220),
+          maxEventBytes: policy.runtime.maxEventBytes
+        }
+      })
+    );
+  }
+
+  const codeOwners = policy.approvals.requireCodeOwners
+    ? await readCodeOwnersFile(process.cwd(), policy.approvals.codeOwnersPath)
+    : null;
+  const policyFilePath = args.policyBundlePath ?? (args.orgPolicyPath ? args.localPolicyPath ?? args.policyPath : args.policyPath);
+
+  const report = await evaluateGuardContext({
+    policy,
+    policyVersion: normalizedPolicy.inputVersion,
+    policyPath: resolvedPolicy.policyPathForReport,
+    provider,
+    eventName,
+    eventPayload,
+    eventPayloadAvailable,
+    eventFindings,
+    env,
+    apiBaseUrl,
+    codeOwners,
+    scorers: await loadPolicyScorers(policy, policyFilePath)
+  });
 
   if (args.replayReportPath) {
     const replayFinding = await evaluateReplayFinding(report, args.replayReportPath);
     if (replayFinding) {
-      findings.push(replayFinding);
-      decision = decideOutcome(policy, findings);
-      accessibilitySummary = buildAccessibilitySummary(decision, findings);
-      report.decision = decision;
-      report.findings = findings;
-      report.accessibilitySummary = accessibilitySummary;
+      report.findings.push(replayFinding);
+      report.decision = decideOutcome(policy, report.findings);
+      report.accessibilitySummary = buildAccessibilitySummary(report.decision, report.findings);
+    }
+  }
+
+  if (args.checkRun) {
+    const relativePolicyPath = path.relative(process.cwd(), path.resolve(process.cwd(), policyFilePath));
+    const inRepo = relativePolicyPath.length > 0 && !relativePolicyPath.startsWith("..") && !path.isAbsolute(relativePolicyPath);
+    try {
+      report.checkRun = await publishGuardCheckRun(report, {
+        provider,
+        name: args.checkRunName,
+        eventName,
+        eventPayload,
+        fallbackPath: inRepo ? relativePolicyPath.split(path.sep).join("/") : null,
+        env,
+        apiBaseUrl,
+        fetchTimeoutMs: policy.approvals.fetchTimeoutMs
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      report.checkRun = { error: message.slice(0, 220) };
     }
   }
 
@@ -1,4 +1,64 @@
-import type { ShadowDomainEvaluation, ShadowEvaluationContext, ShadowFinding } from "./types";
+import { scanMarkupAccessibility } from "./markup";
+import type { ShadowDomainEvaluation, ShadowEvaluationContext, ShadowFinding, ShadowFindingLocation } from "./types";
+
+const MAX_FINDING_LOCATIONS = 20;
+const MARKUP_RULES: Array<{
+  rule: string;
+  code: string;
+  severity: ShadowFinding["severity"];
+  message: string;
+  remediation: string;
+  weight: number;
+}> = [
+  {
+    rule: "click-key-events",
+    code: "SHADOW_ACCESS_CLICK_WITHOUT_KEYBOARD",
+    severity: "high",
+    message: "Click handlers on non-interactive elements have no keyboard equivalent.",
+    remediation: "Use a native button or link, or add a key handler together with an interactive role and tabIndex.",
+    weight: 25
+  },
+  {
+    rule: "button-name",
+    code: "SHADOW_ACCESS_BUTTON_NAME_MISSING",
+    severity: "high",
+    message: "Buttons in changed markup have no accessible name.",
+    remediation: "Give each button visible text, an aria-label or an aria-labelledby reference.",
+    weight: 20
+  },
+  {
+    rule: "img-alt",
+    code: "SHADOW_ACCESS_IMG_ALT_MISSING",
+    severity: "high",
+    message: "Images in changed markup are missing an alt attribute.",
+    remediation: "Add meaningful alt text, or alt=\"\" for purely decorative images.",
+    weight: 18
+  },
+  {
+    rule: "form-label",
+    code: "SHADOW_ACCESS_FORM_LABEL_MISSING",
+    severity: "high",
+    message: "Form controls in changed markup have no associated label.",
+    remediation: "Associate each control with a <label> (wrapping or for/htmlFor), aria-label or aria-labelledby.",
+    weight: 18
+  },
+  {
+    rule: "html-lang",
+    code: "SHADOW_ACCESS_HTML_LANG_MISSING",
+    severity: "medium",
+    message: "Changed <html> elements are missing a lang attribute.",
+    remediation: "Declare the document language with lang (for example lang=\"en\").",
+    weight: 8
+  },
+  {
+    rule: "positive-tabindex",
+    code: "SHADOW_ACCESS_POSITIVE_TABINDEX",
+    severity: "medium",
+    message: "Positive tabindex values override the natural focus order.",
+    remediation: "Use tabIndex 0 or -1 and express focus order through DOM structure.",
+    weight: 8
+  }
+];
 
 function addFinding(
   findings: ShadowFinding[],
@@ -6,7 +66,8 @@ function addFinding(
   severity: ShadowFinding["severity"],
   message: string,
   remediation: string,
-  details: Record<string, unknown> = {}
+  details: Record<string, unknown> = {},
+  locations: ShadowFindingLocation[] = []
 ): void {
   findings.push({
     code,
@@ -14,7 +75,8 @@ function addFinding(
     severity,
     message,
     remediation,
-    details
+    details,
+    ...(locations.length > 0 ? { locations: locations.slice(0, MAX_FINDING_LOCATIONS) } : {})
   });
 }
 
@@ -115,6 +177,29 @@ export function evaluateAccess(context: ShadowEvaluationContext): ShadowDomainEv
     );
   }
 
+  const violations = scanMarkupAccessibility(context.diff);
+  let markupScore = 0;
+  for (const markupRule of MARKUP_RULES) {
+    const matched = violations.filter((violation) => violation.rule === markupRule.rule);
+    if (matched.length === 0) {
+      continue;
+    }
+
+    addFinding(
+      findings,
+      markupRule.code,
+      markupRule.severity,
+      markupRule.message,
+      markupRule.remediation,
+      {
+        violations: matched.length,
+        elements: Array.from(new Set(matched.map((violation) => violation.element))).sort()
+      },
+      matched.map((violation) => ({ file: violation.file, line: violation.line }))
+    );
+    markupScore += matched.length * markupRule.weight;
+  }
+
   const uiSurfaceSignal = countMatches(corpus, /ui|frontend|component|layout|responsive|css|aria|screen reader/i);
   const a11yEvidenceSignal = countMatches(corpus, /aria|alt text|keyboard|screen reader|contrast|focus|wcag|skip nav|lang attribute/i);
 
@@ -139,6 +224,7 @@ export function evaluateAccess(context: ShadowEvaluationContext): ShadowDomainEv
       contrastIssues * 18 +
       focusIndicatorIssues * 18 +
       advisoryHits * 8 +
+      markupScore +
       (uiSurfaceSignal > 0 && a11yEvidenceSignal === 0 ? 12 : 0)
   );
 
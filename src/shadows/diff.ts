@@ -0,0 +1,188 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+
+import type { ShadowDiffFile, ShadowFindingLocation } from "./types";
+
+const execFileAsync = promisify(execFile);
+
+const MAX_GIT_DIFF_BYTES = 64 * 1024 * 1024;
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function makeError(code: string, message: string): Error {
+  return new Error(`${code}: ${message}`);
+}
+
+function stripDiffPath(value: string): string | null {
+  const trimmed = value.split("\t")[0]?.trim().replace(/^"(.*)"$/, "$1") ?? "";
+  if (trimmed === "/dev/null" || trimmed.length === 0) {
+    return null;
+  }
+
+  return trimmed.replace(/^[ab]\//, "");
+}
+
+function resolveStatus(file: ShadowDiffFile, oldPath: string | null, newPath: string | null): ShadowDiffFile["status"] {
+  if (file.status !== "modified") {
+    return file.status;
+  }
+
+  if (oldPath === null && newPath !== null) {
+    return "added";
+  }
+
+  if (newPath === null && oldPath !== null) {
+    return "deleted";
+  }
+
+  return oldPath !== null && newPath !== null && oldPath !== newPath ? "renamed" : "modified";
+}
+
+export function parseUnifiedDiff(text: string): ShadowDiffFile[] {
+  const files: ShadowDiffFile[] = [];
+  let current: ShadowDiffFile | null = null;
+  let oldPath: string | null = null;
+  let newPath: string | null = null;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+  let newLine = 0;
+
+  const startFile = (pathValue: string): ShadowDiffFile => {
+    const file: ShadowDiffFile = {
+      path: pathValue,
+      status: "modified",
+      additions: 0,
+      deletions: 0,
+      addedLines: []
+    };
+    files.push(file);
+    oldPath = null;
+    newPath = null;
+    return file;
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (current && (oldRemaining > 0 || newRemaining > 0)) {
+      if (line.startsWith("+")) {
+        current.addedLines.push({ line: newLine, text: line.slice(1) });
+        current.additions += 1;
+        newLine += 1;
+        newRemaining -= 1;
+        continue;
+      }
+
+      if (line.startsWith("-")) {
+        current.deletions += 1;
+        oldRemaining -= 1;
+        continue;
+      }
+
+      if (line.startsWith(" ") || line.length === 0) {
+        newLine += 1;
+        oldRemaining -= 1;
+        newRemaining -= 1;
+        continue;
+      }
+
+      if (line.startsWith("\\")) {
+        continue;
+      }
+
+      oldRemaining = 0;
+      newRemaining = 0;
+    }
+
+    const gitHeader = /^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/.exec(line);
+    if (gitHeader) {
+      current = startFile(gitHeader[2] ?? "");
+      continue;
+    }
+
+    if (line.startsWith("--- ")) {
+      if (!current || current.additions + current.deletions > 0 || oldPath !== null) {
+        current = startFile(stripDiffPath(line.slice(4)) ?? "");
+      }
+      oldPath = stripDiffPath(line.slice(4));
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+
+    if (line.startsWith("+++ ")) {
+      newPath = stripDiffPath(line.slice(4));
+      current.path = newPath ?? oldPath ?? current.path;
+      current.status = resolveStatus(current, oldPath, newPath);
+      if (current.status === "renamed" && oldPath) {
+        current.previousPath = oldPath;
+      }
+      continue;
+    }
+
+    if (line.startsWith("new file mode")) {
+      current.status = "added";
+      continue;
+    }
+
+    if (line.startsWith("deleted file mode")) {
+      current.status = "deleted";
+      continue;
+    }
+
+    if (line.startsWith("rename from ")) {
+      current.status = "renamed";
+      current.previousPath = line.slice("rename from ".length);
+      continue;
+    }
+
+    if (line.startsWith("rename to ")) {
+      current.path = line.slice("rename to ".length);
+      continue;
+    }
+
+    const hunk = HUNK_HEADER.exec(line);
+    if (hunk) {
+      oldRemaining = Number.parseInt(hunk[2] ?? "1", 10);
+      newRemaining = Number.parseInt(hunk[4] ?? "1", 10);
+      newLine = Number.parseInt(hunk[3] ?? "1", 10);
+    }
+  }
+
+  return files.filter((file) => file.path.length > 0);
+}
+
+export async function readGitDiff(base: string, head = "HEAD", cwd = process.cwd()): Promise<string> {
+  try {
+    const result = await execFileAsync("git", ["diff", "--no-color", "--no-ext-diff", "-M", `${base}...${head}`, "--"], {
+      cwd,
+      maxBuffer: MAX_GIT_DIFF_BYTES
+    });
+    return result.stdout;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw makeError("E_SHADOW_DIFF_READ", message.slice(0, 220));
+  }
+}
+
+export function findAddedLines(
+  diff: ShadowDiffFile[],
+  pattern: RegExp,
+  includeFile: (file: ShadowDiffFile) => boolean = () => true
+): ShadowFindingLocation[] {
+  const matcher = new RegExp(pattern.source, pattern.flags.replace("g", ""));
+  const locations: ShadowFindingLocation[] = [];
+
+  for (const file of diff) {
+    if (!includeFile(file)) {
+      continue;
+    }
+
+    for (const added of file.addedLines) {
+      if (matcher.test(added.text)) {
+        locations.push({ file: file.path, line: added.line });
+      }
+    }
+  }
+
+  return locations;
+}
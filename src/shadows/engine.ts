@@ -1,18 +1,24 @@
 import { z } from "zod";
 
+import type { AiScorer } from "../aiScorers";
+import { compareCoverage, type CoverageReport } from "../coverage";
 import { getProviderByName } from "../providers/registry";
 import { GuardPolicySchema, evaluateTargets, type GuardFinding, type ReviewTarget } from "../sevenShadowSystem";
 import { evaluateAccess } from "./access";
 import { evaluateAesthetics } from "./aesthetics";
+import { parseUnifiedDiff } from "./diff";
 import { evaluateExecution } from "./execution";
 import { evaluateScales } from "./scales";
 import { evaluateSecurity } from "./security";
 import { evaluateTesting } from "./testing";
+import { isMappedSourceFile } from "./testMapping";
 import type {
   NormalizedShadowPolicy,
   ShadowAppliedException,
   ShadowCoveragePolicy,
+  ShadowCoverageThresholds,
   ShadowDecision,
+  ShadowDiffFile,
   ShadowDoctrine,
   ShadowDomain,
   ShadowDomainDecision,
@@ -25,6 +31,7 @@ import type {
   ShadowGateReportV3,
   ShadowRuleConfig,
   ShadowSeverity,
+  ShadowTestMapping,
   ShadowThreshold
 } from "./types";
 import { evaluateValue } from "./value";
@@ -81,6 +88,59 @@ const DEFAULT_SHADOW_RULES: Record<ShadowDomain, ShadowRuleConfig> = {
   Aesthetics: { enabled: true, checkSeverities: {} }
 };
 
+export const DEFAULT_TEST_MAPPING: ShadowTestMapping = {
+  testFiles: [
+    "**/*.test.*",
+    "**/*.spec.*",
+    "**/__tests__/**",
+    "**/*_test.go",
+    "**/test_*.py",
+    "**/*_test.py",
+    "test/**",
+    "tests/**"
+  ],
+  ignore: ["**/*.d.ts"],
+  conventions: [
+    {
+      name: "javascript",
+      sources: ["src/**/*.ts", "src/**/*.tsx", "src/**/*.js", "src/**/*.jsx", "src/**/*.mjs", "src/**/*.cjs"],
+      sourceRoot: "src",
+      tests: [
+        "test/{relDir}/{name}.test.*",
+        "test/{relDir}/{name}.spec.*",
+        "tests/{relDir}/{name}.test.*",
+        "{dir}/{name}.test.*",
+        "{dir}/{name}.spec.*",
+        "{dir}/__tests__/{name}.*"
+      ]
+    },
+    {
+      name: "go",
+      sources: ["**/*.go"],
+      sourceRoot: "",
+      tests: ["{dir}/{name}_test.go"]
+    },
+    {
+      name: "python",
+      sources: ["**/*.py"],
+      sourceRoot: "",
+      tests: ["{dir}/test_{name}.py", "{dir}/{name}_test.py", "{dir}/tests/test_{name}.py", "tests/**/test_{name}.py"]
+    }
+  ]
+};
+
+const DEFAULT_COVERAGE_THRESHOLDS: ShadowCoverageThresholds = {
+  minPatchLines: 5,
+  patchCoverage: {
+    warnBelow: 80,
+    blockBelow: 50
+  },
+  coverageDrop: {
+    warnAt: 0.5,
+    blockAt: 2
+  }
+};
+
 const ShadowThresholdSchema = z.object({
   warnAt: z.number().min(0).max(100),
   blockAt: z.number().min(0).max(100)
@@ -113,6 +173,47 @@ const ShadowCoveragePolicySchema = z.object({
     .length(7)
 });
 
+const ShadowTestConventionSchema = z.object({
+  name: z.string().min(1),
+  sources: z.array(z.string().min(1)).min(1),
+  sourceRoot: z
+    .string()
+    .default("")
+    .transform((value) => value.replace(/^\.?\//, "").replace(/\/+$/, "")),
+  tests: z
+    .array(
+      z
+        .string()
+        .min(1)
+        .refine((value) => !/\{(?!(?:dir|relDir|name|ext)\})[^}]*\}/.test(value), "test templates only support {dir}, {relDir}, {name} and {ext}")
+    )
+    .min(1)
+});
+
+const ShadowTestMappingSchema = z.object({
+  testFiles: z.array(z.string().min(1)).default(DEFAULT_TEST_MAPPING.testFiles),
+  ignore: z.array(z.string().min(1)).default(DEFAULT_TEST_MAPPING.ignore),
+  conventions: z.array(ShadowTestConventionSchema).default(DEFAULT_TEST_MAPPING.conventions)
+});
+
+const ShadowCoverageThresholdsSchema = z.object({
+  minPatchLines: z.number().int().min(1).max(100_000).default(DEFAULT_COVERAGE_THRESHOLDS.minPatchLines),
+  patchCoverage: z
+    .object({
+      warnBelow: z.number().min(0).max(100),
+      blockBelow: z.number().min(0).max(100)
+    })
+    .refine((value) => value.blockBelow <= value.warnBelow, "patchCoverage.blockBelow must be <= warnBelow")
+    .default(DEFAULT_COVERAGE_THRESHOLDS.patchCoverage),
+  coverageDrop: z
+    .object({
+      warnAt: z.number().min(0).max(100),
+      blockAt: z.number().min(0).max(100)
+    })
+    .refine((value) => value.blockAt >= value.warnAt, "coverageDrop.blockAt must be >= warnAt")
+    .default(DEFAULT_COVERAGE_THRESHOLDS.coverageDrop)
+});
+
 const ShadowPolicyV3AdditionsSchema = z.object({
   enforcementStage: z.enum(["whisper", "oath", "throne"]).default("whisper"),
   coveragePolicy: ShadowCoveragePolicySchema.default(DEFAULT_COVERAGE_POLICY),
@@ -137,7 +238,9 @@ const ShadowPolicyV3AdditionsSchema = z.object({
       Value: ShadowRuleConfigSchema,
       Aesthetics: ShadowRuleConfigSchema
     })
-    .default(DEFAULT_SHADOW_RULES)
+    .default(DEFAULT_SHADOW_RULES),
+  testMapping: ShadowTestMappingSchema.default(DEFAULT_TEST_MAPPING),
+  coverageThresholds: ShadowCoverageThresholdsSchema.default(DEFAULT_COVERAGE_THRESHOLDS)
 });
 
 const ShadowDoctrineDomainSchema = z.object({
@@ -166,7 +269,12 @@ const ShadowDoctrineSchema = z.object({
 const ShadowExceptionSchema = z.object({
   check: z.string().min(1),
   reason: z.string().min(1),
-  expiresAt: z.string().min(1)
+  expiresAt: z.string().min(1),
+  fingerprint: z
+    .string()
+    .regex(/^[a-f0-9]{64}$/, "fingerprint must be a lowercase HMAC-SHA256 hex digest")
+    .optional(),
+  path: z.string().trim().min(1).optional()
 });
 
 function parseIsoDate(value: string, field: string): string {
@@ -226,7 +334,9 @@ export function parseShadowExceptions(raw: unknown): ShadowExceptionRecord[] {
       return {
         check: candidate.check,
         reason: candidate.reason,
-        expiresAt: parseIsoDate(candidate.expiresAt, "expiresAt")
+        expiresAt: parseIsoDate(candidate.expiresAt, "expiresAt"),
+        ...(candidate.fingerprint === undefined ? {} : { fingerprint: candidate.fingerprint }),
+        ...(candidate.path === undefined ? {} : { path: candidate.path.replace(/^\.\//, "").replace(/\/+$/, "") })
       };
     });
   } catch (error) {
@@ -268,7 +378,9 @@ function parseShadowPolicyV3(raw: Record<string, unknown>): NormalizedShadowPoli
       tieBreakOrder: normalizeTieBreakOrder(parsedAdditions.coveragePolicy.tieBreakOrder)
     },
     shadowThresholds: parsedAdditions.shadowThresholds,
-    shadowRules: parsedAdditions.shadowRules
+    shadowRules: parsedAdditions.shadowRules,
+    testMapping: parsedAdditions.testMapping,
+    coverageThresholds: parsedAdditions.coverageThresholds
   };
 }
 
@@ -292,7 +404,9 @@ export function parseShadowPolicy(raw: unknown): NormalizedShadowPolicy {
       enforcementStage: "whisper",
       coveragePolicy: DEFAULT_COVERAGE_POLICY,
       shadowThresholds: DEFAULT_THRESHOLDS,
-      shadowRules: DEFAULT_SHADOW_RULES
+      shadowRules: DEFAULT_SHADOW_RULES,
+      testMapping: DEFAULT_TEST_MAPPING,
+      coverageThresholds: DEFAULT_COVERAGE_THRESHOLDS
     };
   }
 
@@ -333,15 +447,16 @@ function toCorpus(payload: Record<string, unknown>, targets: ReviewTarget[]): st
   return pieces.join("\n");
 }
 
-function toPullMetrics(payload: Record<string, unknown>): { changedFiles: number; linesChanged: number } {
+function toPullMetrics(payload: Record<string, unknown>, diff: ShadowDiffFile[]): { changedFiles: number; linesChanged: number } {
   const pullRequest = isRecord(payload.pull_request) ? payload.pull_request : null;
 
   const changedFilesRaw = pullRequest && typeof pullRequest.changed_files === "number" ? pullRequest.changed_files : 0;
   const additionsRaw = pullRequest && typeof pullRequest.additions === "number" ? pullRequest.additions : 0;
   const deletionsRaw = pullRequest && typeof pullRequest.deletions === "number" ? pullRequest.deletions : 0;
+  const diffLinesChanged = diff.reduce((total, file) => total + file.additions + file.deletions, 0);
 
-  const changedFiles = Math.max(0, Math.floor(changedFilesRaw));
-  const linesChanged = Math.max(0, Math.floor(additionsRaw) + Math.floor(deletionsRaw));
+  const changedFiles = Math.max(0, Math.floor(changedFilesRaw), diff.length);
+  const linesChanged = Math.max(0, Math.floor(additionsRaw) + Math.floor(deletionsRaw), diffLinesChanged);
 
   return {
     changedFiles,
@@ -537,31 +652,40 @@ function makeAccessibilitySummary(decision: ShadowDecision, stage: ShadowEnforce
   } as const;
 }
 
+function exceptionMatches(exception: ShadowExceptionRecord, finding: ShadowFinding): boolean {
+  if (exception.check !== finding.code) {
+    return false;
+  }
+
+  if (exception.fingerprint !== undefined && finding.details?.fingerprint !== exception.fingerprint) {
+    return false;
+  }
+
+  if (exception.path !== undefined) {
+    const scope = exception.path;
+    const locations = finding.locations ?? [];
+    return locations.length > 0 && locations.every((location) => location.file === scope || location.file.startsWith(`${scope}/`));
+  }
+
+  return true;
+}
+
 function applyExceptions(
   findings: ShadowFinding[],
   activeExceptions: ShadowExceptionRecord[]
 ): { findings: ShadowFinding[]; applied: ShadowAppliedException[] } {
-  const byCode = new Map<string, ShadowExceptionRecord>();
-  for (const item of activeExceptions) {
-    if (!byCode.has(item.check)) {
-      byCode.set(item.check, item);
-    }
-  }
-
   const kept: ShadowFinding[] = [];
   const applied: ShadowAppliedException[] = [];
 
   for (const finding of findings) {
-    const matching = byCode.get(finding.code);
+    const matching = activeExceptions.find((item) => exceptionMatches(item, finding));
     if (!matching) {
       kept.push(finding);
       continue;
     }
 
     applied.push({
-      check: matching.check,
-      reason: matching.reason,
-      expiresAt: matching.expiresAt,
+      ...matching,
       domain: finding.domain
     });
   }
@@ -612,6 +736,13 @@ export function evaluateShadowGate(options: {
   doctrineRaw: unknown;
   exceptionsRaw?: unknown;
   now?: Date;
+  scorers?: AiScorer[];
+  diff?: string;
+  secretFingerprintKey?: string;
+  coverage?: {
+    head: CoverageReport;
+    base?: CoverageReport;
+  };
 }): ShadowGateEvaluationResult {
   const now = options.now ?? new Date();
   const doctrine = parseShadowDoctrine(options.doctrineRaw);
@@ -712,15 +843,29 @@ export function evaluateShadowGate(options: {
   });
 
   const targets = extraction.targets;
-  const guardResult = evaluateTargets(policy.guardPolicy, targets);
-
-  const metrics = toPullMetrics(options.eventPayload);
+  const guardResult = evaluateTargets(policy.guardPolicy, targets, options.scorers);
+
+  const diff = options.diff === undefined ? [] : parseUnifiedDiff(options.diff);
+  const metrics = toPullMetrics(options.eventPayload, diff);
+  const coverage = options.coverage
+    ? compareCoverage({
+        head: options.coverage.head,
+        base: options.coverage.base,
+        diff: options.diff === undefined ? undefined : diff,
+        isSourceFile: (filePath) => isMappedSourceFile(filePath, policy.testMapping)
+      })
+    : undefined;
   const context: ShadowEvaluationContext = {
     eventName: options.eventName,
     eventPayload: options.eventPayload,
     targets,
     guardFindings: guardResult.findings,
     corpus: toCorpus(options.eventPayload, targets),
+    diff,
+    testMapping: policy.testMapping,
+    ...(coverage ? { coverage } : {}),
+    coverageThresholds: policy.coverageThresholds,
+    ...(options.secretFingerprintKey ? { secretFingerprintKey: options.secretFingerprintKey } : {}),
     changedFiles: metrics.changedFiles,
     linesChanged: metrics.linesChanged
   };
@@ -794,6 +939,24 @@ export function evaluateShadowGate(options: {
     decision,
     selectedDomains,
     targetsScanned: targets.length,
+    ...(options.diff === undefined ? {} : { diffFilesScanned: diff.length }),
+    ...(coverage
+      ? {
+          coverage: {
+            format: coverage.format,
+            head: coverage.head,
+            base: coverage.base,
+            deltaPercent: coverage.deltaPercent,
+            patch: coverage.patch
+              ? {
+                  coveredLines: coverage.patch.coveredLines,
+                  totalLines: coverage.patch.totalLines,
+                  percent: coverage.patch.percent
+                }
+              : null
+          }
+        }
+      : {}),
     highestAiScore: Number(guardResult.highestScore.toFixed(3)),
     findings: allEffectiveFindings,
     shadowDecisions: domainDecisions,
@@ -814,6 +977,24 @@ export function evaluateShadowGate(options: {
   };
 }
 
+function formatPercent(value: number | null): string {
+  return value === null ? "n/a" : `${value.toFixed(2)}%`;
+}
+
+function formatCoverage(coverage: NonNullable<ShadowGateReportV3["coverage"]>): string {
+  const parts = [`head ${formatPercent(coverage.head.percent)}`];
+  if (coverage.base) {
+    parts.push(`base ${formatPercent(coverage.base.percent)}`);
+  }
+  if (coverage.deltaPercent !== null) {
+    parts.push(`delta ${coverage.deltaPercent > 0 ? "+" : ""}${coverage.deltaPercent.toFixed(2)}pp`);
+  }
+  if (coverage.patch) {
+    parts.push(`patch ${formatPercent(coverage.patch.percent)} (${coverage.patch.coveredLines}/${coverage.patch.totalLines} lines)`);
+  }
+  return parts.join(", ");
+}
+
 function colorize(text: string, code: string, enabled: boolean): string {
   if (!enabled) {
     return text;
@@ -845,6 +1026,12 @@ export function renderShadowGateMarkdown(report: ShadowGateReportV3, options: {
   lines.push(`Provider/Event: ${report.provider} / ${report.eventName}`);
   lines.push(`Selected Domains: ${report.selectedDomains.join(", ")}`);
   lines.push(`Targets Scanned: ${report.targetsScanned}`);
+  if (report.diffFilesScanned !== undefined) {
+    lines.push(`Diff Files Scanned: ${report.diffFilesScanned}`);
+  }
+  if (report.coverage) {
+    lines.push(`Coverage: ${formatCoverage(report.coverage)}`);
+  }
   lines.push(`Highest AI Score: ${report.highestAiScore.toFixed(3)}`);
   lines.push("");
   lines.push("## Domain Decisions");
@@ -867,6 +1054,13 @@ export function renderShadowGateMarkdown(report: ShadowGateReportV3, options: {
         `- ${statusBadge(finding.effectiveDecision === "block" ? "block" : "warn", useColor)} [${finding.domain}] ${finding.code}: ${finding.message}`
       );
       lines.push(`  Remediation: ${finding.remediation}`);
+      if (finding.locations && finding.locations.length > 0) {
+        lines.push(`  Locations: ${finding.locations.map((location) => `${location.file}:${location.line}`).join(", ")}`);
+      }
+      const { redacted, fingerprint } = finding.details ?? {};
+      if (typeof redacted === "string" && typeof fingerprint === "string") {
+        lines.push(`  Secret: ${redacted} (fingerprint ${fingerprint})`);
+      }
     }
   }
 
@@ -875,7 +1069,13 @@ export function renderShadowGateMarkdown(report: ShadowGateReportV3, options: {
     lines.push("## Exceptions Applied");
     lines.push("");
     for (const exception of report.exceptionsApplied) {
-      lines.push(`- [${exception.domain}] ${exception.check} (expires ${exception.expiresAt}) - ${exception.reason}`);
+      const scope = [
+        ...(exception.fingerprint ? [`fingerprint ${exception.fingerprint}`] : []),
+        ...(exception.path ? [`path ${exception.path}`] : [])
+      ];
+      lines.push(
+        `- [${exception.domain}] ${exception.check}${scope.length > 0 ? ` [${scope.join(", ")}]` : ""} (expires ${exception.expiresAt}) - ${exception.reason}`
+      );
     }
   }
 
@@ -0,0 +1,352 @@
+import type { ShadowAccessViolation, ShadowDiffFile, ShadowDiffLine } from "./types";
+
+interface MarkupTag {
+  name: string;
+  attributes: Map<string, string>;
+  hasSpread: boolean;
+  closing: boolean;
+  selfClosing: boolean;
+  start: number;
+  end: number;
+}
+
+interface MarkupBlock {
+  lines: ShadowDiffLine[];
+  text: string;
+  tags: MarkupTag[];
+}
+
+const MARKUP_FILE_PATTERN = /\.(?:tsx|jsx|html?|vue)$/i;
+const TAG_NAME_PATTERN = /^[A-Za-z][\w.:-]*/;
+const ATTRIBUTE_NAME_PATTERN = /^[^\s=>/"'{}<]+/;
+const NON_INTERACTIVE_ELEMENTS = new Set([
+  "article",
+  "aside",
+  "div",
+  "footer",
+  "header",
+  "img",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "section",
+  "span",
+  "table",
+  "td",
+  "th",
+  "tr",
+  "ul"
+]);
+const KEY_HANDLER_ATTRIBUTES = ["onkeydown", "onkeyup", "onkeypress"];
+const UNLABELED_INPUT_TYPES = new Set(["hidden", "submit", "button", "reset", "image"]);
+const NAMING_ATTRIBUTES = ["aria-label", "aria-labelledby", "title"];
+
+function findBraceEnd(text: string, start: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let index = start; index < text.length; index += 1) {
+    const char = text[index];
+    if (quote) {
+      if (char === "\\") {
+        index += 1;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+    } else if (char === "{") {
+      depth += 1;
+    } else if (char === "}") {
+      depth -= 1;
+      if (depth === 0) {
+        return index;
+      }
+    }
+  }
+
+  return -1;
+}
+
+function normalizeAttributeName(rawName: string): string {
+  let name = rawName.toLowerCase();
+  if (name.startsWith("v-bind:")) {
+    name = name.slice("v-bind:".length);
+  } else if (name.startsWith(":")) {
+    name = name.slice(1);
+  } else if (name.startsWith("v-on:")) {
+    name = `on${name.slice("v-on:".length).split(".")[0] ?? ""}`;
+  } else if (name.startsWith("@")) {
+    name = `on${name.slice(1).split(".")[0] ?? ""}`;
+  }
+
+  return name === "htmlfor" ? "for" : name;
+}
+
+function skipWhitespace(text: string, index: number): number {
+  let cursor = index;
+  while (cursor < text.length && /\s/.test(text[cursor] ?? "")) {
+    cursor += 1;
+  }
+  return cursor;
+}
+
+function readTag(text: string, start: number): MarkupTag | null {
+  let index = start + 1;
+  const closing = text[index] === "/";
+  if (closing) {
+    index += 1;
+  }
+
+  const nameMatch = TAG_NAME_PATTERN.exec(text.slice(index, index + 64));
+  if (!nameMatch) {
+    return null;
+  }
+
+  const name = nameMatch[0];
+  const attributes = new Map<string, string>();
+  let hasSpread = false;
+  index += name.length;
+
+  while (index < text.length) {
+    index = skipWhitespace(text, index);
+    const char = text[index];
+
+    if (char === ">") {
+      return { name, attributes, hasSpread, closing, selfClosing: false, start, end: index + 1 };
+    }
+
+    if (char === "/" && text[index + 1] === ">") {
+      return { name, attributes, hasSpread, closing, selfClosing: true, start, end: index + 2 };
+    }
+
+    if (char === "{") {
+      const close = findBraceEnd(text, index);
+      if (close < 0) {
+        return null;
+      }
+      hasSpread = hasSpread || /^\{\s*\.\.\./.test(text.slice(index, close));
+      index = close + 1;
+      continue;
+    }
+
+    const attributeMatch = ATTRIBUTE_NAME_PATTERN.exec(text.slice(index, index + 128));
+    if (!attributeMatch) {
+      return null;
+    }
+
+    const rawName = attributeMatch[0];
+    let value = "";
+    index += rawName.length;
+
+    const equals = skipWhitespace(text, index);
+    if (text[equals] === "=") {
+      const valueStart = skipWhitespace(text, equals + 1);
+      const opener = text[valueStart];
+
+      if (opener === '"' || opener === "'") {
+        const close = text.indexOf(opener, valueStart + 1);
+        if (close < 0) {
+          return null;
+        }
+        value = text.slice(valueStart + 1, close);
+        index = close + 1;
+      } else if (opener === "{") {
+        const close = findBraceEnd(text, valueStart);
+        if (close < 0) {
+          return null;
+        }
+        value = text.slice(valueStart + 1, close).trim();
+        index = close + 1;
+      } else {
+        const bare = /^[^\s>]*/.exec(text.slice(valueStart))?.[0] ?? "";
+        value = bare;
+        index = valueStart + bare.length;
+      }
+    }
+
+    attributes.set(normalizeAttributeName(rawName), value);
+  }
+
+  return null;
+}
+
+function readTags(text: string): MarkupTag[] {
+  const tags: MarkupTag[] = [];
+  let index = text.indexOf("<");
+
+  while (index >= 0) {
+    const tag = readTag(text, index);
+    if (tag) {
+      tags.push(tag);
+    }
+    index = text.indexOf("<", tag ? tag.end : index + 1);
+  }
+
+  return tags;
+}
+
+function hasAnyAttribute(tag: MarkupTag, names: string[]): boolean {
+  return names.some((name) => tag.attributes.has(name));
+}
+
+function buttonHasName(text: string, tags: MarkupTag[], index: number): boolean | null {
+  const button = tags[index];
+  if (!button) {
+    return null;
+  }
+
+  const closingIndex = tags.findIndex((tag, position) => position > index && tag.closing && tag.name === "button");
+  const closing = tags[closingIndex];
+  if (!closing) {
+    return null;
+  }
+
+  const inner = tags.slice(index + 1, closingIndex);
+  if (inner.some((tag) => hasAnyAttribute(tag, ["aria-label", "aria-labelledby"]) || (tag.attributes.get("alt") ?? "").trim().length > 0)) {
+    return true;
+  }
+
+  let content = "";
+  let cursor = button.end;
+  for (const tag of inner) {
+    content += text.slice(cursor, tag.start);
+    cursor = tag.end;
+  }
+  content += text.slice(cursor, closing.start);
+
+  return content.replace(/\{\s*\/\*[\s\S]*?\*\/\s*\}/g, "").trim().length > 0;
+}
+
+function splitBlocks(addedLines: ShadowDiffLine[]): ShadowDiffLine[][] {
+  const blocks: ShadowDiffLine[][] = [];
+  let current: ShadowDiffLine[] = [];
+
+  for (const added of addedLines) {
+    const previous = current[current.length - 1];
+    if (previous && added.line !== previous.line + 1) {
+      blocks.push(current);
+      current = [];
+    }
+    current.push(added);
+  }
+
+  if (current.length > 0) {
+    blocks.push(current);
+  }
+
+  return blocks;
+}
+
+function toMarkupBlock(lines: ShadowDiffLine[]): MarkupBlock {
+  const text = lines.map((added) => added.text).join("\n");
+  return { lines, text, tags: readTags(text) };
+}
+
+function scanBlock(
+  file: ShadowDiffFile,
+  block: MarkupBlock,
+  labelTargets: Set<string>,
+  violations: ShadowAccessViolation[]
+): void {
+  const { lines, text, tags } = block;
+  const lineStarts: number[] = [0];
+  for (let index = text.indexOf("\n"); index >= 0; index = text.indexOf("\n", index + 1)) {
+    lineStarts.push(index + 1);
+  }
+
+  const lineAt = (offset: number): number => {
+    let position = 0;
+    while (position + 1 < lineStarts.length && (lineStarts[position + 1] ?? Number.POSITIVE_INFINITY) <= offset) {
+      position += 1;
+    }
+    return lines[position]?.line ?? lines[0]?.line ?? 1;
+  };
+
+  let labelDepth = 0;
+
+  const report = (rule: string, tag: MarkupTag): void => {
+    violations.push({ rule, file: file.path, line: lineAt(tag.start), element: tag.name });
+  };
+
+  tags.forEach((tag, index) => {
+    if (tag.name === "label") {
+      labelDepth = tag.closing ? Math.max(0, labelDepth - 1) : labelDepth + (tag.selfClosing ? 0 : 1);
+      return;
+    }
+
+    if (tag.closing || tag.name !== tag.name.toLowerCase()) {
+      return;
+    }
+
+    const tabIndex = Number.parseInt(tag.attributes.get("tabindex") ?? "", 10);
+    if (Number.isInteger(tabIndex) && tabIndex > 0) {
+      report("positive-tabindex", tag);
+    }
+
+    if (tag.hasSpread) {
+      return;
+    }
+
+    if (tag.name === "img" && !tag.attributes.has("alt")) {
+      report("img-alt", tag);
+    }
+
+    if (tag.name === "html" && !tag.attributes.has("lang") && !tag.attributes.has("xml:lang")) {
+      report("html-lang", tag);
+    }
+
+    if (
+      tag.name === "button" &&
+      !hasAnyAttribute(tag, NAMING_ATTRIBUTES) &&
+      (tag.selfClosing || buttonHasName(text, tags, index) === false)
+    ) {
+      report("button-name", tag);
+    }
+
+    if (NON_INTERACTIVE_ELEMENTS.has(tag.name) && tag.attributes.has("onclick") && !hasAnyAttribute(tag, KEY_HANDLER_ATTRIBUTES)) {
+      report("click-key-events", tag);
+    }
+
+    const isControl =
+      tag.name === "select" ||
+      tag.name === "textarea" ||
+      (tag.name === "input" && !UNLABELED_INPUT_TYPES.has((tag.attributes.get("type") ?? "text").toLowerCase()));
+    if (isControl && !hasAnyAttribute(tag, NAMING_ATTRIBUTES) && labelDepth === 0 && !labelTargets.has(tag.attributes.get("id") ?? "")) {
+      report("form-label", tag);
+    }
+  });
+}
+
+export function isMarkupFile(filePath: string): boolean {
+  return MARKUP_FILE_PATTERN.test(filePath);
+}
+
+export function scanMarkupAccessibility(diff: ShadowDiffFile[]): ShadowAccessViolation[] {
+  const violations: ShadowAccessViolation[] = [];
+
+  for (const file of diff) {
+    if (file.status === "deleted" || !MARKUP_FILE_PATTERN.test(file.path)) {
+      continue;
+    }
+
+    const blocks = splitBlocks(file.addedLines).map(toMarkupBlock);
+    const labelTargets = new Set(
+      blocks
+        .flatMap((block) => block.tags)
+        .filter((tag) => !tag.closing && tag.name === "label")
+        .map((tag) => tag.attributes.get("for") ?? "")
+        .filter((id) => id.length > 0)
+    );
+    for (const block of blocks) {
+      scanBlock(file, block, labelTargets, violations);
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,145 @@
+import { createHmac, randomBytes } from "node:crypto";
+
+import type { ShadowDiffFile, ShadowDiffLine, ShadowSecretMatch } from "./types";
+
+interface SecretSignature {
+  rule: string;
+  pattern: RegExp;
+}
+
+interface SecretCandidate {
+  rule: string;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const SECRET_SIGNATURES: SecretSignature[] = [
+  { rule: "github-token", pattern: /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36}\b/g },
+  { rule: "github-token", pattern: /\bgithub_pat_[A-Za-z0-9_]{80,}\b/g },
+  { rule: "aws-access-key-id", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { rule: "aws-secret-access-key", pattern: /aws.{0,20}?secret.{0,20}?["'\s:=]+([A-Za-z0-9/+]{40})(?![A-Za-z0-9/+=])/gi },
+  { rule: "slack-token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { rule: "slack-webhook", pattern: /https:\/\/hooks\.slack\.com\/services\/T[A-Z0-9]+\/B[A-Z0-9]+\/[A-Za-z0-9]+/g },
+  { rule: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { rule: "gcp-service-account", pattern: /"private_key"\s*:\s*"(-----BEGIN [A-Z ]*PRIVATE KEY-----[^"]*)"/g },
+  { rule: "private-key", pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/g },
+  {
+    rule: "generic-assignment",
+    pattern: /(?:api[_-]?key|secret|token|passw(?:or)?d)["']?\s*[:=]\s*["']([^"'\s]{8,})["']/gi
+  }
+];
+
+const STRING_LITERAL = /(["'`])([A-Za-z0-9+/=_-]{20,})\1/g;
+const HEX_ENTROPY_THRESHOLD = 3;
+const HEX_MIN_LENGTH = 32;
+const BASE64_ENTROPY_THRESHOLD = 4;
+const DIGEST_CONTEXT = /sha\d*|hash|digest|checksum|integrity|commit|uuid/i;
+const SRI_DIGEST = /^sha(?:256|384|512)-/;
+const PLACEHOLDER_VALUE = /^(?:\$\{.*\}|<.*>|\{\{.*\}\}|%\w+%?)$|example|placeholder|changeme|dummy|redacted|x{4,}|\*{4,}/i;
+const ENTROPY_SKIPPED_FILES =
+  /(?:^|\/)(?:package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|go\.sum|poetry\.lock)$|\.(?:min\.js|map|svg)$/;
+
+export function shannonEntropy(value: string): number {
+  if (value.length === 0) {
+    return 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+
+  return entropy;
+}
+
+export function redactSecret(value: string): string {
+  return `${value.length >= 16 ? value.slice(0, 4) : ""}********`;
+}
+
+// Without a configured key, fingerprints are only stable within one process.
+const PROCESS_FINGERPRINT_KEY = randomBytes(32).toString("hex");
+
+function fingerprintSecret(value: string, key: string): string {
+  return createHmac("sha256", key).update(value, "utf8").digest("hex");
+}
+
+function overlaps(candidates: SecretCandidate[], start: number, end: number): boolean {
+  return candidates.some((candidate) => start < candidate.end && end > candidate.start);
+}
+
+function isHighEntropyLiteral(value: string, lineText: string): boolean {
+  if (PLACEHOLDER_VALUE.test(value) || SRI_DIGEST.test(value)) {
+    return false;
+  }
+
+  const digestContext = DIGEST_CONTEXT.test(lineText.replace(value, ""));
+  if (/^[0-9a-f]+$/i.test(value)) {
+    return value.length >= HEX_MIN_LENGTH && !digestContext && shannonEntropy(value) >= HEX_ENTROPY_THRESHOLD;
+  }
+
+  return !digestContext && /[0-9]/.test(value) && /[a-z]/.test(value) && /[A-Z]/.test(value) && shannonEntropy(value) >= BASE64_ENTROPY_THRESHOLD;
+}
+
+function scanLine(file: ShadowDiffFile, added: ShadowDiffLine, next: ShadowDiffLine | undefined): SecretCandidate[] {
+  const candidates: SecretCandidate[] = [];
+
+  for (const signature of SECRET_SIGNATURES) {
+    for (const match of added.text.matchAll(new RegExp(signature.pattern.source, signature.pattern.flags))) {
+      const value = match[1] ?? match[0];
+      const start = (match.index ?? 0) + match[0].indexOf(value);
+      const end = start + value.length;
+      if (overlaps(candidates, start, end)) {
+        continue;
+      }
+
+      if (PLACEHOLDER_VALUE.test(value)) {
+        continue;
+      }
+
+      const keyBody = signature.rule === "private-key" && next && next.line === added.line + 1 ? next.text.trim() : "";
+      candidates.push({ rule: signature.rule, value: `${value}${keyBody}`, start, end });
+    }
+  }
+
+  if (ENTROPY_SKIPPED_FILES.test(file.path)) {
+    return candidates;
+  }
+
+  for (const match of added.text.matchAll(STRING_LITERAL)) {
+    const value = match[2] ?? "";
+    const start = (match.index ?? 0) + 1;
+    const end = start + value.length;
+    if (!overlaps(candidates, start, end) && isHighEntropyLiteral(value, added.text)) {
+      candidates.push({ rule: "high-entropy-string", value, start, end });
+    }
+  }
+
+  return candidates;
+}
+
+export function scanDiffForSecrets(diff: ShadowDiffFile[], fingerprintKey = PROCESS_FINGERPRINT_KEY): ShadowSecretMatch[] {
+  const matches: ShadowSecretMatch[] = [];
+
+  for (const file of diff) {
+    file.addedLines.forEach((added, index) => {
+      for (const candidate of scanLine(file, added, file.addedLines[index + 1])) {
+        matches.push({
+          rule: candidate.rule,
+          file: file.path,
+          line: added.line,
+          fingerprint: fingerprintSecret(candidate.value, fingerprintKey),
+          redacted: redactSecret(candidate.value)
+        });
+      }
+    });
+  }
+
+  return matches;
+}
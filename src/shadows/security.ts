@@ -1,5 +1,47 @@
 import type { GuardFinding } from "../sevenShadowSystem";
-import type { ShadowDomainEvaluation, ShadowEvaluationContext, ShadowFinding } from "./types";
+import { findAddedLines } from "./diff";
+import { isMarkupFile } from "./markup";
+import { scanDiffForSecrets } from "./secrets";
+import type {
+  ShadowDomainEvaluation,
+  ShadowEvaluationContext,
+  ShadowFinding,
+  ShadowFindingLocation,
+  ShadowSecretMatch
+} from "./types";
+
+const MAX_FINDING_LOCATIONS = 20;
+const MAX_SECRET_FINDINGS = 20;
+const SECRET_RULE_LABELS: Record<string, string> = {
+  "github-token": "GitHub token",
+  "aws-access-key-id": "AWS access key ID",
+  "aws-secret-access-key": "AWS secret access key",
+  "slack-token": "Slack token",
+  "slack-webhook": "Slack webhook URL",
+  jwt: "JSON Web Token",
+  "gcp-service-account": "GCP service-account key",
+  "private-key": "private key",
+  "generic-assignment": "hardcoded credential",
+  "high-entropy-string": "high-entropy secret string"
+};
+const HARDCODED_SECRET_PATTERNS = [
+  /(?:api[_-]?key|secret|token|password)\s*[:=]\s*["'][^"'\n]{8,}["']/i,
+  /-----BEGIN (?:RSA|EC|OPENSSH|DSA) PRIVATE KEY-----/i
+];
+const INJECTION_PATTERN = /(?:'|\")\s*or\s*1\s*=\s*1|union\s+select|<script\b|javascript:/i;
+const CODE_INJECTION_PATTERN = new RegExp(
+  [
+    // SQL text concatenated or interpolated with a value
+    /["'`][^"'`]*\b(?:select\b[^"'`]*\bfrom|insert\s+into|update\b[^"'`]*\bset|delete\s+from)\b[^"'`]*["'`]\s*\+\s*[\w$]/.source,
+    /`[^`]*\b(?:select\b[^`]*\bfrom|insert\s+into|update\b[^`]*\bset|delete\s+from)\b[^`]*\$\{/.source,
+    // HTML sinks and code evaluation fed by a variable or an interpolated template
+    /\.(?:inner|outer)HTML\s*\+?=\s*(?:[A-Za-z_$]|`[^`]*\$\{)/.source,
+    /\b(?:eval|new\s+Function)\s*\(\s*(?:[A-Za-z_$]|`[^`]*\$\{)/.source
+  ].join("|"),
+  "i"
+);
+// Outside markup files, a script tag inside a string literal is HTML being assembled in code.
+const SCRIPT_STRING_INJECTION_PATTERN = new RegExp(`${CODE_INJECTION_PATTERN.source}|["'\`][^"'\`]*<script\\b`, "i");
 
 function addFinding(
   findings: ShadowFinding[],
@@ -7,7 +49,8 @@ function addFinding(
   severity: ShadowFinding["severity"],
   message: string,
   remediation: string,
-  details: Record<string, unknown> = {}
+  details: Record<string, unknown> = {},
+  locations: ShadowFindingLocation[] = []
 ): void {
   findings.push({
     code,
@@ -15,7 +58,8 @@ function addFinding(
     severity,
     message,
     remediation,
-    details
+    details,
+    ...(locations.length > 0 ? { locations: locations.slice(0, MAX_FINDING_LOCATIONS) } : {})
   });
 }
 
@@ -24,6 +68,17 @@ function countMatches(text: string, pattern: RegExp): number {
   return matches ? matches.length : 0;
 }
 
+function groupSecrets(matches: ShadowSecretMatch[]): Array<{ match: ShadowSecretMatch; locations: ShadowFindingLocation[] }> {
+  const groups = new Map<string, { match: ShadowSecretMatch; locations: ShadowFindingLocation[] }>();
+  for (const match of matches) {
+    const group = groups.get(match.fingerprint) ?? { match, locations: [] };
+    group.locations.push({ file: match.file, line: match.line });
+    groups.set(match.fingerprint, group);
+  }
+
+  return Array.from(groups.values());
+}
+
 function mapGuardFinding(findings: ShadowFinding[], guardFinding: GuardFinding): void {
   if (guardFinding.code === "GUARD_MALFORMED_EVENT" || guardFinding.code === "GUARD_EVENT_PARSE_ERROR") {
     addFinding(
@@ -71,10 +126,7 @@ export function evaluateSecurity(context: ShadowEvaluationContext): ShadowDomain
   const findings: ShadowFinding[] = [];
   const corpus = context.corpus;
 
-  const hardcodedSecretHits =
-    countMatches(corpus, /(?:api[_-]?key|secret|token|password)\s*[:=]\s*["'][^"'\n]{8,}["']/i) +
-    countMatches(corpus, /-----BEGIN (?:RSA|EC|OPENSSH|DSA) PRIVATE KEY-----/i);
-
+  const hardcodedSecretHits = HARDCODED_SECRET_PATTERNS.reduce((total, pattern) => total + countMatches(corpus, pattern), 0);
   if (hardcodedSecretHits > 0) {
     addFinding(
       findings,
@@ -88,7 +140,31 @@ export function evaluateSecurity(context: ShadowEvaluationContext): ShadowDomain
     );
   }
 
-  const injectionHits = countMatches(corpus, /(?:'|\")\s*or\s*1\s*=\s*1|union\s+select|<script\b|javascript:/i);
+  const secretGroups = groupSecrets(scanDiffForSecrets(context.diff, context.secretFingerprintKey)).slice(0, MAX_SECRET_FINDINGS);
+  for (const { match, locations } of secretGroups) {
+    const entropyOnly = match.rule === "high-entropy-string";
+    addFinding(
+      findings,
+      "SHADOW_SECURITY_SECRET_DETECTED",
+      entropyOnly ? "high" : "critical",
+      `Possible ${SECRET_RULE_LABELS[match.rule] ?? "secret"} detected in added code.`,
+      "Remove the secret from the change and rotate it; allowlist confirmed false positives by fingerprint in the exceptions file.",
+      {
+        rule: match.rule,
+        fingerprint: match.fingerprint,
+        redacted: match.redacted,
+        occurrences: locations.length
+      },
+      locations
+    );
+  }
+  const secretSignatureHits = secretGroups.filter((group) => group.match.rule !== "high-entropy-string").length;
+  const secretEntropyHits = secretGroups.length - secretSignatureHits;
+
+  const injectionLocations = context.diff.flatMap((file) =>
+    findAddedLines([file], isMarkupFile(file.path) ? CODE_INJECTION_PATTERN : SCRIPT_STRING_INJECTION_PATTERN)
+  );
+  const injectionHits = countMatches(corpus, INJECTION_PATTERN) + injectionLocations.length;
   if (injectionHits > 0) {
     addFinding(
       findings,
@@ -98,7 +174,8 @@ export function evaluateSecurity(context: ShadowEvaluationContext): ShadowDomain
       "Validate and sanitize untrusted input; use parameterized queries and output escaping.",
       {
         hits: injectionHits
-      }
+      },
+      injectionLocations
     );
   }
 
@@ -136,7 +213,8 @@ export function evaluateSecurity(context: ShadowEvaluationContext): ShadowDomain
 
   const score = Math.min(
     100,
-    hardcodedSecretHits * 35 +
+    (hardcodedSecretHits + secretSignatureHits) * 35 +
+      secretEntropyHits * 20 +
       injectionHits * 25 +
       authBoundaryHits * 20 +
       cveHits * 10 +
@@ -0,0 +1,147 @@
+import type { ShadowDiffFile, ShadowTestConvention, ShadowTestGap, ShadowTestMapping } from "./types";
+
+export interface ShadowTestMappingResult {
+  sources: number;
+  tested: number;
+  untested: ShadowTestGap[];
+}
+
+const C_STYLE_COMMENT_LINE = /^\s*(?:\/\/|\/\*|\*\/?|$)/;
+const HASH_COMMENT_LINE = /^\s*(?:#|$)/;
+const PUNCTUATION_LINE = /^[\s{}()[\];,]*$/;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+function globToRegexSource(glob: string): string {
+  let source = "";
+  let index = 0;
+
+  while (index < glob.length) {
+    const char = glob[index];
+    if (char === "*" && glob[index + 1] === "*") {
+      if (glob[index + 2] === "/") {
+        source += "(?:.*/)?";
+        index += 3;
+      } else {
+        source += ".*";
+        index += 2;
+      }
+      continue;
+    }
+
+    if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += escapeRegex(char ?? "");
+    }
+    index += 1;
+  }
+
+  return source;
+}
+
+function compileGlob(glob: string): RegExp {
+  return new RegExp(`^${globToRegexSource(glob.replace(/^\.?\//, ""))}$`);
+}
+
+function matchesAny(filePath: string, matchers: RegExp[]): boolean {
+  return matchers.some((matcher) => matcher.test(filePath));
+}
+
+function splitSourcePath(filePath: string, sourceRoot: string): Record<"dir" | "relDir" | "name" | "ext", string> {
+  const slash = filePath.lastIndexOf("/");
+  const dir = slash >= 0 ? filePath.slice(0, slash) : "";
+  const base = filePath.slice(slash + 1);
+  const dot = base.lastIndexOf(".");
+  const root = sourceRoot.replace(/\/+$/, "");
+  const relDir = root.length === 0 ? dir : dir === root ? "" : dir.startsWith(`${root}/`) ? dir.slice(root.length + 1) : dir;
+
+  return {
+    dir,
+    relDir,
+    name: dot > 0 ? base.slice(0, dot) : base,
+    ext: dot > 0 ? base.slice(dot + 1) : ""
+  };
+}
+
+export function expandTestTemplates(filePath: string, convention: ShadowTestConvention): string[] {
+  const parts = splitSourcePath(filePath, convention.sourceRoot);
+
+  return convention.tests.map((template) =>
+    template
+      .replace(/\{(dir|relDir|name|ext)\}/g, (_match, key: keyof typeof parts) => parts[key])
+      .replace(/\/{2,}/g, "/")
+      .replace(/^\//, "")
+  );
+}
+
+function isBehaviorChange(file: ShadowDiffFile): boolean {
+  if (file.deletions > 0) {
+    return true;
+  }
+
+  const commentLine = /\.(?:py|rb|sh)$/.test(file.path) ? HASH_COMMENT_LINE : C_STYLE_COMMENT_LINE;
+  return file.addedLines.some((added) => !commentLine.test(added.text));
+}
+
+export function isExecutableLine(filePath: string, text: string): boolean {
+  const commentLine = /\.(?:py|rb|sh)$/.test(filePath) ? HASH_COMMENT_LINE : C_STYLE_COMMENT_LINE;
+  return !commentLine.test(text) && !PUNCTUATION_LINE.test(text);
+}
+
+export function isMappedSourceFile(filePath: string, mapping: ShadowTestMapping): boolean {
+  if (matchesAny(filePath, mapping.testFiles.map(compileGlob)) || matchesAny(filePath, mapping.ignore.map(compileGlob))) {
+    return false;
+  }
+
+  return mapping.conventions.some((convention) => matchesAny(filePath, convention.sources.map(compileGlob)));
+}
+
+export function mapSourcesToTests(diff: ShadowDiffFile[], mapping: ShadowTestMapping): ShadowTestMappingResult {
+  const testMatchers = mapping.testFiles.map(compileGlob);
+  const ignoreMatchers = mapping.ignore.map(compileGlob);
+  const conventions = mapping.conventions.map((convention) => ({
+    convention,
+    sourceMatchers: convention.sources.map(compileGlob)
+  }));
+
+  const present = diff.filter((file) => file.status !== "deleted");
+  const changedTests = present.filter((file) => matchesAny(file.path, testMatchers)).map((file) => file.path);
+  const result: ShadowTestMappingResult = {
+    sources: 0,
+    tested: 0,
+    untested: []
+  };
+
+  for (const file of present) {
+    if (matchesAny(file.path, testMatchers) || matchesAny(file.path, ignoreMatchers) || !isBehaviorChange(file)) {
+      continue;
+    }
+
+    const match = conventions.find((candidate) => matchesAny(file.path, candidate.sourceMatchers));
+    if (!match) {
+      continue;
+    }
+
+    result.sources += 1;
+    const expectedTests = expandTestTemplates(file.path, match.convention);
+    const expectedMatchers = expectedTests.map(compileGlob);
+    if (changedTests.some((testPath) => matchesAny(testPath, expectedMatchers))) {
+      result.tested += 1;
+      continue;
+    }
+
+    result.untested.push({
+      file: file.path,
+      line: file.addedLines[0]?.line ?? 1,
+      convention: match.convention.name,
+      expectedTests
+    });
+  }
+
+  return result;
+}
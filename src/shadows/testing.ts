@@ -1,4 +1,8 @@
-import type { ShadowDomainEvaluation, ShadowEvaluationContext, ShadowFinding } from "./types";
+import { mapSourcesToTests } from "./testMapping";
+import type { ShadowDomainEvaluation, ShadowEvaluationContext, ShadowFinding, ShadowFindingLocation } from "./types";
+
+const MAX_FINDING_LOCATIONS = 20;
+const MAX_LISTED_FILES = 50;
 
 function addFinding(
   findings: ShadowFinding[],
@@ -6,7 +10,8 @@ function addFinding(
   severity: ShadowFinding["severity"],
   message: string,
   remediation: string,
-  details: Record<string, unknown> = {}
+  details: Record<string, unknown> = {},
+  locations: ShadowFindingLocation[] = []
 ): void {
   findings.push({
     code,
@@ -14,7 +19,8 @@ function addFinding(
     severity,
     message,
     remediation,
-    details
+    details,
+    ...(locations.length > 0 ? { locations: locations.slice(0, MAX_FINDING_LOCATIONS) } : {})
   });
 }
 
@@ -41,6 +47,73 @@ export function evaluateTesting(context: ShadowEvaluationContext): ShadowDomainE
     );
   }
 
+  const mapping = mapSourcesToTests(context.diff, context.testMapping);
+  if (mapping.untested.length > 0) {
+    addFinding(
+      findings,
+      "SHADOW_TESTING_SOURCE_WITHOUT_TESTS",
+      "medium",
+      `${mapping.untested.length} of ${mapping.sources} behavior-changing source file(s) have no corresponding test change.`,
+      "Update or add the mapped test files, or adjust testMapping conventions if the tests live elsewhere.",
+      {
+        sources: mapping.sources,
+        tested: mapping.tested,
+        untestedFiles: mapping.untested.slice(0, MAX_LISTED_FILES).map((gap) => ({
+          file: gap.file,
+          convention: gap.convention,
+          expectedTests: gap.expectedTests
+        }))
+      },
+      mapping.untested.map((gap) => ({ file: gap.file, line: gap.line }))
+    );
+  }
+
+  let coverageScore = 0;
+  const coverage = context.coverage;
+  const thresholds = context.coverageThresholds;
+  if (coverage && coverage.deltaPercent !== null && -coverage.deltaPercent >= thresholds.coverageDrop.warnAt) {
+    const blocking = -coverage.deltaPercent >= thresholds.coverageDrop.blockAt;
+    addFinding(
+      findings,
+      "SHADOW_TESTING_COVERAGE_REGRESSION",
+      blocking ? "high" : "medium",
+      `Line coverage dropped ${Math.abs(coverage.deltaPercent).toFixed(2)} points (base ${coverage.base?.percent ?? "n/a"}%, head ${coverage.head.percent ?? "n/a"}%).`,
+      "Cover the new or changed behavior, or remove dead code paths that lowered coverage.",
+      {
+        basePercent: coverage.base?.percent ?? null,
+        headPercent: coverage.head.percent,
+        deltaPercent: coverage.deltaPercent,
+        threshold: blocking ? thresholds.coverageDrop.blockAt : thresholds.coverageDrop.warnAt
+      }
+    );
+    coverageScore += blocking ? 30 : 15;
+  }
+
+  const patch = coverage?.patch;
+  if (
+    patch &&
+    patch.percent !== null &&
+    patch.totalLines >= thresholds.minPatchLines &&
+    patch.percent < thresholds.patchCoverage.warnBelow
+  ) {
+    const blocking = patch.percent < thresholds.patchCoverage.blockBelow;
+    addFinding(
+      findings,
+      "SHADOW_TESTING_PATCH_COVERAGE_LOW",
+      blocking ? "high" : "medium",
+      `Only ${patch.percent.toFixed(2)}% of changed executable lines are covered (${patch.coveredLines}/${patch.totalLines}).`,
+      "Add tests that exercise the changed lines listed in the finding locations.",
+      {
+        coveredLines: patch.coveredLines,
+        totalLines: patch.totalLines,
+        percent: patch.percent,
+        threshold: blocking ? thresholds.patchCoverage.blockBelow : thresholds.patchCoverage.warnBelow
+      },
+      patch.uncovered
+    );
+    coverageScore += blocking ? 30 : 15;
+  }
+
   const externalDependencyHits = countMatches(corpus, /hits real api|calls production api in test|external network in tests|no mock service worker/i);
   if (externalDependencyHits > 0) {
     addFinding(
@@ -89,6 +162,8 @@ export function evaluateTesting(context: ShadowEvaluationContext): ShadowDomainE
   const score = Math.min(
     100,
     noTestCoverageHits * 26 +
+      Math.min(40, mapping.untested.length * 15) +
+      coverageScore +
       externalDependencyHits * 24 +
       implementationDetailHits * 12 +
       (context.linesChanged >= 300 && behaviorEvidenceHits === 0 ? 18 : 0)
@@ -1,3 +1,4 @@
+import type { CoverageComparison, CoverageFormat, CoverageSummary } from "../coverage";
 import type { AccessibilitySummary, GuardFinding, GuardPolicy, ReviewTarget } from "../sevenShadowSystem";
 
 export const SHADOW_DOMAIN_ORDER = [
@@ -18,6 +19,11 @@ export type ShadowDecision = "pass" | "warn" | "block";
 
 export type ShadowEnforcementStage = "whisper" | "oath" | "throne";
 
+export interface ShadowFindingLocation {
+  file: string;
+  line: number;
+}
+
 export interface ShadowFinding {
   code: string;
   domain: ShadowDomain;
@@ -25,6 +31,7 @@ export interface ShadowFinding {
   message: string;
   remediation: string;
   details?: Record<string, unknown>;
+  locations?: ShadowFindingLocation[];
 }
 
 export interface ShadowThreshold {
@@ -55,11 +62,38 @@ export interface ShadowCoveragePolicy {
   tieBreakOrder: ShadowDomain[];
 }
 
+export interface ShadowTestConvention {
+  name: string;
+  sources: string[];
+  sourceRoot: string;
+  tests: string[];
+}
+
+export interface ShadowTestMapping {
+  testFiles: string[];
+  ignore: string[];
+  conventions: ShadowTestConvention[];
+}
+
+export interface ShadowCoverageThresholds {
+  minPatchLines: number;
+  patchCoverage: {
+    warnBelow: number;
+    blockBelow: number;
+  };
+  coverageDrop: {
+    warnAt: number;
+    blockAt: number;
+  };
+}
+
 export interface ShadowPolicyV3Additions {
   enforcementStage: ShadowEnforcementStage;
   coveragePolicy: ShadowCoveragePolicy;
   shadowThresholds: Record<ShadowDomain, ShadowThreshold>;
   shadowRules: Record<ShadowDomain, ShadowRuleConfig>;
+  testMapping: ShadowTestMapping;
+  coverageThresholds: ShadowCoverageThresholds;
 }
 
 export interface NormalizedShadowPolicy extends ShadowPolicyV3Additions {
@@ -86,18 +120,61 @@ export interface ShadowExceptionRecord {
   check: string;
   reason: string;
   expiresAt: string;
+  fingerprint?: string;
+  path?: string;
 }
 
 export interface ShadowAppliedException extends ShadowExceptionRecord {
   domain: ShadowDomain;
 }
 
+export interface ShadowDiffLine {
+  line: number;
+  text: string;
+}
+
+export interface ShadowDiffFile {
+  path: string;
+  previousPath?: string;
+  status: "added" | "modified" | "deleted" | "renamed";
+  additions: number;
+  deletions: number;
+  addedLines: ShadowDiffLine[];
+}
+
+export interface ShadowSecretMatch {
+  rule: string;
+  file: string;
+  line: number;
+  fingerprint: string;
+  redacted: string;
+}
+
+export interface ShadowAccessViolation {
+  rule: string;
+  file: string;
+  line: number;
+  element: string;
+}
+
+export interface ShadowTestGap {
+  file: string;
+  line: number;
+  convention: string;
+  expectedTests: string[];
+}
+
 export interface ShadowEvaluationContext {
   eventName: string;
   eventPayload: Record<string, unknown>;
   targets: ReviewTarget[];
   guardFindings: GuardFinding[];
   corpus: string;
+  diff: ShadowDiffFile[];
+  testMapping: ShadowTestMapping;
+  coverage?: CoverageComparison;
+  coverageThresholds: ShadowCoverageThresholds;
+  secretFingerprintKey?: string;
   linesChanged: number;
   changedFiles: number;
 }
@@ -117,6 +194,14 @@ export interface ShadowDomainDecision {
   rationale: string;
 }
 
+export interface ShadowCoverageReport {
+  format: CoverageFormat;
+  head: CoverageSummary;
+  base: CoverageSummary | null;
+  deltaPercent: number | null;
+  patch: CoverageSummary | null;
+}
+
 export interface ShadowGateReportV3 {
   schemaVersion: 3;
   timestamp: string;
@@ -127,6 +212,8 @@ export interface ShadowGateReportV3 {
   decision: ShadowDecision;
   selectedDomains: ShadowDomain[];
   targetsScanned: number;
+  diffFilesScanned?: number;
+  coverage?: ShadowCoverageReport;
   highestAiScore: number;
   findings: Array<ShadowFinding & { effectiveDecision: "warn" | "block" }>;
   shadowDecisions: ShadowDomainDecision[];
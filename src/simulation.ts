@@ -0,0 +1,320 @@
+import { z } from "zod";
+
+import type { AiScorer } from "./aiScorers";
+import type { ProviderHistoricalPullRequest } from "./providers/types";
+import {
+  applyRuntimeTargetLimits,
+  decideOutcome,
+  evaluateTargets,
+  type GuardFinding,
+  type GuardPolicy,
+  type ReviewTarget
+} from "./sevenShadowSystem";
+
+type SimulationDecision = "pass" | "warn" | "block";
+
+const SimulationExportSchema = z.object({
+  pullRequests: z.array(
+    z.object({
+      number: z.number().int().min(1),
+      title: z.string().default(""),
+      authorLogin: z.string().default("unknown"),
+      mergedAt: z.string().default(""),
+      targets: z.array(
+        z.object({
+          source: z.enum(["pr_body", "review", "comment"]),
+          referenceId: z.string().min(1),
+          authorLogin: z.string().min(1),
+          authorType: z.enum(["User", "Bot", "Unknown"]).default("Unknown"),
+          body: z.string()
+        })
+      )
+    })
+  )
+});
+
+export interface SimulationPolicy {
+  path: string;
+  policy: GuardPolicy;
+  scorers?: AiScorer[];
+  findings?: GuardFinding[];
+}
+
+export interface SimulatePoliciesOptions {
+  source: string;
+  current: SimulationPolicy;
+  candidate: SimulationPolicy;
+  pullRequests: ProviderHistoricalPullRequest[];
+}
+
+export interface SimulationFlip {
+  number: number;
+  title: string;
+  authorLogin: string;
+  currentDecision: SimulationDecision;
+  candidateDecision: SimulationDecision;
+  addedFindingCodes: string[];
+  removedFindingCodes: string[];
+}
+
+export interface SimulationRuleResult {
+  rule: string;
+  currentMatches: number;
+  candidateMatches: number;
+  flippedPullRequests: number;
+}
+
+export interface SimulationAuthorResult {
+  authorLogin: string;
+  targets: number;
+  currentFlagged: number;
+  candidateFlagged: number;
+  flippedPullRequests: number;
+}
+
+export interface SimulationReport {
+  schemaVersion: 1;
+  source: string;
+  currentPolicyPath: string;
+  candidatePolicyPath: string;
+  pullRequests: number;
+  decisions: {
+    current: Record<SimulationDecision, number>;
+    candidate: Record<SimulationDecision, number>;
+  };
+  flips: SimulationFlip[];
+  rules: SimulationRuleResult[];
+  authors: SimulationAuthorResult[];
+}
+
+interface PolicyOutcome {
+  decision: SimulationDecision;
+  findingCodes: Set<string>;
+  matchedRulesByTarget: Map<string, string[]>;
+  flaggedTargets: Set<string>;
+}
+
+function makeError(code: string, message: string): Error {
+  return new Error(`${code}: ${message}`);
+}
+
+function compareText(a: string, b: string): number {
+  if (a < b) {
+    return -1;
+  }
+
+  if (a > b) {
+    return 1;
+  }
+
+  return 0;
+}
+
+function selectTargets(policy: GuardPolicy, targets: ReviewTarget[]): ReviewTarget[] {
+  return targets.filter(
+    (target) =>
+      (target.source === "pr_body" && policy.scanPrBody) ||
+      (target.source === "review" && policy.scanReviewBody) ||
+      (target.source === "comment" && policy.scanCommentBody)
+  );
+}
+
+function evaluatePullRequest(simulationPolicy: SimulationPolicy, pullRequest: ProviderHistoricalPullRequest): PolicyOutcome {
+  const limitedTargets = applyRuntimeTargetLimits(simulationPolicy.policy, selectTargets(simulationPolicy.policy, pullRequest.targets));
+  const result = evaluateTargets(simulationPolicy.policy, limitedTargets.targets, simulationPolicy.scorers);
+  const findings = [...(simulationPolicy.findings ?? []), ...limitedTargets.findings, ...result.findings];
+
+  return {
+    decision: decideOutcome(simulationPolicy.policy, findings),
+    findingCodes: new Set(findings.map((finding) => finding.code)),
+    matchedRulesByTarget: new Map(
+      result.targetEvaluations.map((evaluation) => [evaluation.target.referenceId, evaluation.matchedRules])
+    ),
+    flaggedTargets: new Set(
+      findings
+        .map((finding) => finding.targetReferenceId)
+        .filter((referenceId): referenceId is string => typeof referenceId === "string")
+    )
+  };
+}
+
+function emptyDecisionCounts(): Record<SimulationDecision, number> {
+  return {
+    pass: 0,
+    warn: 0,
+    block: 0
+  };
+}
+
+export function parseSimulationExport(raw: unknown): ProviderHistoricalPullRequest[] {
+  try {
+    return SimulationExportSchema.parse(raw).pullRequests;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw makeError("E_SIMULATE_EXPORT_INVALID", message.replace(/\s+/g, " ").slice(0, 220));
+  }
+}
+
+export function simulatePolicies(options: SimulatePoliciesOptions): SimulationReport {
+  const decisions = {
+    current: emptyDecisionCounts(),
+    candidate: emptyDecisionCounts()
+  };
+  const flips: SimulationFlip[] = [];
+  const rules = new Map<string, SimulationRuleResult>();
+  const authors = new Map<string, SimulationAuthorResult>();
+
+  const ruleEntry = (rule: string): SimulationRuleResult => {
+    const existing = rules.get(rule) ?? { rule, currentMatches: 0, candidateMatches: 0, flippedPullRequests: 0 };
+    rules.set(rule, existing);
+    return existing;
+  };
+
+  for (const rule of [...options.current.policy.rules, ...options.candidate.policy.rules]) {
+    ruleEntry(rule.name);
+  }
+
+  for (const pullRequest of options.pullRequests) {
+    const current = evaluatePullRequest(options.current, pullRequest);
+    const candidate = evaluatePullRequest(options.candidate, pullRequest);
+    const flipped = current.decision !== candidate.decision;
+
+    decisions.current[current.decision] += 1;
+    decisions.candidate[candidate.decision] += 1;
+
+    if (flipped) {
+      flips.push({
+        number: pullRequest.number,
+        title: pullRequest.title,
+        authorLogin: pullRequest.authorLogin,
+        currentDecision: current.decision,
+        candidateDecision: candidate.decision,
+        addedFindingCodes: Array.from(candidate.findingCodes).filter((code) => !current.findingCodes.has(code)).sort(compareText),
+        removedFindingCodes: Array.from(current.findingCodes).filter((code) => !candidate.findingCodes.has(code)).sort(compareText)
+      });
+    }
+
+    const matchedRuleNames = new Set<string>();
+    for (const [outcome, key] of [
+      [current, "currentMatches"],
+      [candidate, "candidateMatches"]
+    ] as const) {
+      for (const matchedRules of outcome.matchedRulesByTarget.values()) {
+        for (const rule of matchedRules) {
+          ruleEntry(rule)[key] += 1;
+          matchedRuleNames.add(rule);
+        }
+      }
+    }
+
+    if (flipped) {
+      for (const rule of matchedRuleNames) {
+        ruleEntry(rule).flippedPullRequests += 1;
+      }
+    }
+
+    const changedAuthors = new Set<string>();
+    for (const target of pullRequest.targets) {
+      const login = target.authorLogin.trim().toLowerCase();
+      const entry = authors.get(login) ?? {
+        authorLogin: login,
+        targets: 0,
+        currentFlagged: 0,
+        candidateFlagged: 0,
+        flippedPullRequests: 0
+      };
+      authors.set(login, entry);
+
+      const currentFlagged = current.flaggedTargets.has(target.referenceId);
+      const candidateFlagged = candidate.flaggedTargets.has(target.referenceId);
+      entry.targets += 1;
+      entry.currentFlagged += currentFlagged ? 1 : 0;
+      entry.candidateFlagged += candidateFlagged ? 1 : 0;
+      if (currentFlagged !== candidateFlagged) {
+        changedAuthors.add(login);
+      }
+    }
+
+    if (flipped) {
+      for (const login of changedAuthors) {
+        const entry = authors.get(login);
+        if (entry) {
+          entry.flippedPullRequests += 1;
+        }
+      }
+    }
+  }
+
+  return {
+    schemaVersion: 1,
+    source: options.source,
+    currentPolicyPath: options.current.path,
+    candidatePolicyPath: options.candidate.path,
+    pullRequests: options.pullRequests.length,
+    decisions,
+    flips,
+    rules: Array.from(rules.values()).sort((a, b) => compareText(a.rule, b.rule)),
+    authors: Array.from(authors.values())
+      .filter((entry) => entry.flippedPullRequests > 0 || entry.currentFlagged !== entry.candidateFlagged)
+      .sort((a, b) => b.flippedPullRequests - a.flippedPullRequests || compareText(a.authorLogin, b.authorLogin))
+  };
+}
+
+export function renderSimulationMarkdown(report: SimulationReport): string {
+  const lines: string[] = [];
+  const { current, candidate } = report.decisions;
+
+  lines.push("# Seven Shadow Policy Simulation");
+  lines.push("");
+  lines.push(`- Source: \`${report.source}\``);
+  lines.push(`- Current policy: \`${report.currentPolicyPath}\``);
+  lines.push(`- Candidate policy: \`${report.candidatePolicyPath}\``);
+  lines.push(`- Pull requests: ${report.pullRequests}`);
+  lines.push(`- Decision flips: ${report.flips.length}`);
+  lines.push("");
+  lines.push("| Policy | Pass | Warn | Block |");
+  lines.push("| --- | --- | --- | --- |");
+  lines.push(`| Current | ${current.pass} | ${current.warn} | ${current.block} |`);
+  lines.push(`| Candidate | ${candidate.pass} | ${candidate.warn} | ${candidate.block} |`);
+  lines.push("");
+  lines.push("## Flips by Pull Request");
+  lines.push("");
+  if (report.flips.length === 0) {
+    lines.push("No decision flips.");
+  } else {
+    for (const flip of report.flips) {
+      const changes = [
+        ...flip.addedFindingCodes.map((code) => `+${code}`),
+        ...flip.removedFindingCodes.map((code) => `-${code}`)
+      ];
+      lines.push(
+        `- #${flip.number} ${flip.title} (@${flip.authorLogin}): ${flip.currentDecision.toUpperCase()} -> ${flip.candidateDecision.toUpperCase()}${changes.length > 0 ? ` (${changes.join(", ")})` : ""}`
+      );
+    }
+  }
+  lines.push("");
+  lines.push("## Rules");
+  lines.push("");
+  lines.push("| Rule | Current matches | Candidate matches | Flipped PRs |");
+  lines.push("| --- | --- | --- | --- |");
+  for (const rule of report.rules) {
+    lines.push(`| \`${rule.rule}\` | ${rule.currentMatches} | ${rule.candidateMatches} | ${rule.flippedPullRequests} |`);
+  }
+  lines.push("");
+  lines.push("## Authors");
+  lines.push("");
+  if (report.authors.length === 0) {
+    lines.push("No author-level changes.");
+  } else {
+    lines.push("| Author | Targets | Flagged (current) | Flagged (candidate) | Flipped PRs |");
+    lines.push("| --- | --- | --- | --- | --- |");
+    for (const author of report.authors) {
+      lines.push(
+        `| @${author.authorLogin} | ${author.targets} | ${author.currentFlagged} | ${author.candidateFlagged} | ${author.flippedPullRequests} |`
+      );
+    }
+  }
+  lines.push("");
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,119 @@
+import type { GuardReportV2 } from "./sevenShadowSystem";
+import { renderShadowGateMarkdown } from "./shadows/engine";
+import type { ShadowGateReportV3 } from "./shadows/types";
+import type { ProviderAdapter, ProviderStickyCommentResult } from "./providers/types";
+
+export const SUMMARY_COMMENT_MARKER = "<!-- seven-shadow-system:summary -->";
+
+const MAX_SUMMARY_COMMENT_CHARS = 60_000;
+
+export interface SummaryCommentInput {
+  guardReport?: GuardReportV2 | null;
+  shadowGateReport?: ShadowGateReportV3 | null;
+  marker?: string;
+}
+
+export interface PublishSummaryCommentOptions {
+  provider: ProviderAdapter;
+  eventName: string;
+  eventPayload: unknown;
+  body: string;
+  marker?: string;
+  env: NodeJS.ProcessEnv;
+  apiBaseUrl?: string;
+  fetchTimeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+function makeError(code: string, message: string): Error {
+  return new Error(`${code}: ${message}`);
+}
+
+function renderGuardSection(report: GuardReportV2): string[] {
+  const lines: string[] = [];
+
+  lines.push("### Guard");
+  lines.push("");
+  lines.push(report.accessibilitySummary.plainLanguageDecision);
+  lines.push("");
+
+  if (report.findings.length === 0) {
+    lines.push("No findings.");
+    return lines;
+  }
+
+  for (const finding of report.findings) {
+    lines.push(`- [${finding.severity.toUpperCase()}] \`${finding.code}\`: ${finding.message}`);
+    if (finding.remediation) {
+      lines.push(`  Remediation: ${finding.remediation}`);
+    }
+  }
+
+  return lines;
+}
+
+export function renderSummaryComment(input: SummaryCommentInput): string {
+  const marker = input.marker ?? SUMMARY_COMMENT_MARKER;
+  const lines: string[] = [marker, "## Seven Shadow System", ""];
+
+  lines.push("| Check | Decision | Findings |");
+  lines.push("| --- | --- | --- |");
+  if (input.guardReport) {
+    lines.push(`| Guard | ${input.guardReport.decision.toUpperCase()} | ${input.guardReport.findings.length} |`);
+  }
+  if (input.shadowGateReport) {
+    lines.push(`| Shadow Gate | ${input.shadowGateReport.decision.toUpperCase()} | ${input.shadowGateReport.findings.length} |`);
+  }
+  lines.push("");
+
+  if (input.guardReport) {
+    lines.push(...renderGuardSection(input.guardReport));
+    lines.push("");
+  }
+
+  if (input.shadowGateReport) {
+    lines.push(renderShadowGateMarkdown(input.shadowGateReport).replace(/^#/gm, "###").trimEnd());
+    lines.push("");
+  }
+
+  const body = `${lines.join("\n")}\n`;
+  if (body.length <= MAX_SUMMARY_COMMENT_CHARS) {
+    return body;
+  }
+
+  return `${body.slice(0, MAX_SUMMARY_COMMENT_CHARS)}\n\n_Summary truncated; see the CI report artifacts for the full output._\n`;
+}
+
+export async function publishSummaryComment(options: PublishSummaryCommentOptions): Promise<ProviderStickyCommentResult> {
+  const { provider } = options;
+  if (!provider.upsertStickyComment) {
+    throw makeError("E_SUMMARY_COMMENT_UNSUPPORTED", `provider '${provider.name}' cannot publish summary comments`);
+  }
+
+  const tokenEnvVar = provider.approvalTokenEnvVar ?? "GITHUB_TOKEN";
+  const authToken = options.env[tokenEnvVar];
+  if (!authToken) {
+    throw makeError("E_SUMMARY_COMMENT_TOKEN_REQUIRED", `${tokenEnvVar} is required to publish a summary comment`);
+  }
+
+  const pullContext = provider.extractPullContext(options.eventName, options.eventPayload);
+  if (!pullContext) {
+    throw makeError("E_SUMMARY_COMMENT_PULL_CONTEXT_MISSING", `event '${options.eventName}' does not reference a pull request`);
+  }
+
+  return provider.upsertStickyComment(
+    {
+      owner: pullContext.owner,
+      repo: pullContext.repo,
+      pullNumber: pullContext.pullNumber,
+      marker: options.marker ?? SUMMARY_COMMENT_MARKER,
+      body: options.body
+    },
+    {
+      authToken,
+      apiBaseUrl: options.apiBaseUrl,
+      fetchTimeoutMs: options.fetchTimeoutMs ?? 10_000,
+      fetch: options.fetch
+    }
+  );
+}
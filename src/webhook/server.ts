@@ -0,0 +1,511 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import type { AiScorer } from "../aiScorers";
+import type { CodeOwnersFile } from "../codeOwners";
+import { resolveProviderApiBaseUrl } from "../providers/apiBaseUrl";
+import { getProviderByName } from "../providers/registry";
+import type { ProviderAdapter, ProviderCommitStatusState } from "../providers/types";
+import { evaluateGuard } from "../sevenShadowSystem";
+import { evaluateShadowGate } from "../shadows/engine";
+import { publishSummaryComment, renderSummaryComment } from "../summaryComment";
+import {
+  WEBHOOK_PROVIDERS,
+  resolveWebhookDeliveryId,
+  resolveWebhookEventName,
+  verifyWebhookSignature,
+  type WebhookProviderName
+} from "./signatures";
+
+export interface WebhookShadowGateMaterial {
+  policyRaw: unknown;
+  doctrineRaw: unknown;
+  exceptionsRaw?: unknown;
+  scorers?: AiScorer[];
+}
+
+export interface StartWebhookServerOptions {
+  host: "127.0.0.1" | "0.0.0.0";
+  port: number;
+  guardPolicyRaw: unknown;
+  guardPolicyPath: string;
+  guardScorers?: AiScorer[];
+  shadowGate?: WebhookShadowGateMaterial;
+  codeOwners?: CodeOwnersFile | null;
+  secrets: Partial<Record<WebhookProviderName, string>>;
+  env: NodeJS.ProcessEnv;
+  maxQueueSize: number;
+  maxBodyBytes: number;
+  dedupCapacity: number;
+  postStatuses: boolean;
+  postSummaryComment?: boolean;
+  statusTimeoutMs: number;
+  publicUrl?: string;
+  fetch?: typeof fetch;
+  log?: (line: string) => void;
+}
+
+export type WebhookDeliveryState = "queued" | "processing" | "completed" | "failed";
+
+export interface WebhookStatusResult {
+  context: string;
+  state: ProviderCommitStatusState;
+  posted: boolean;
+  error?: string;
+}
+
+export interface WebhookDeliveryRecord {
+  id: string;
+  provider: WebhookProviderName;
+  eventName: string;
+  receivedAt: string;
+  state: WebhookDeliveryState;
+  guardDecision?: "pass" | "warn" | "block";
+  shadowGateDecision?: "pass" | "warn" | "block";
+  statuses: WebhookStatusResult[];
+  summaryComment?: {
+    action?: "created" | "updated";
+    error?: string;
+  };
+  error?: string;
+}
+
+export interface WebhookServerHandle {
+  url: string;
+  close: () => Promise<void>;
+  drain: () => Promise<void>;
+  getDelivery: (id: string) => WebhookDeliveryRecord | undefined;
+  getQueueDepth: () => number;
+}
+
+interface QueuedDelivery {
+  record: WebhookDeliveryRecord;
+  payload: unknown;
+}
+
+const GUARD_STATUS_CONTEXT = "seven-shadow-system/guard";
+const SHADOW_GATE_STATUS_CONTEXT = "seven-shadow-system/shadow-gate";
+
+function makeError(code: string, message: string): Error {
+  return new Error(`${code}: ${message}`);
+}
+
+function sendJson(response: http.ServerResponse, statusCode: number, payload: unknown): void {
+  response.statusCode = statusCode;
+  response.setHeader("Content-Type", "application/json; charset=utf-8");
+  response.end(`${JSON.stringify(payload, null, 2)}\n`);
+}
+
+async function readRequestBody(request: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let totalBytes = 0;
+
+  for await (const chunk of request) {
+    const buffer = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+    totalBytes += buffer.byteLength;
+
+    if (totalBytes > maxBytes) {
+      throw makeError("E_WEBHOOK_BODY_TOO_LARGE", `request body exceeds ${maxBytes} bytes`);
+    }
+
+    chunks.push(buffer);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+function toStatusState(decision: "pass" | "warn" | "block"): ProviderCommitStatusState {
+  return decision === "block" ? "failure" : "success";
+}
+
+function describeDecision(label: string, decision: "pass" | "warn" | "block", findings: number): string {
+  return `${label}: ${decision.toUpperCase()} (${findings} finding${findings === 1 ? "" : "s"})`;
+}
+
+function toErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.slice(0, 220);
+}
+
+export async function startWebhookServer(options: StartWebhookServerOptions): Promise<WebhookServerHandle> {
+  const queue: QueuedDelivery[] = [];
+  const deliveries = new Map<string, WebhookDeliveryRecord>();
+  const idleWaiters: Array<() => void> = [];
+  let processing = false;
+  const log = options.log ?? (() => undefined);
+
+  function rememberDelivery(record: WebhookDeliveryRecord): void {
+    deliveries.delete(record.id);
+    deliveries.set(record.id, record);
+    while (deliveries.size > options.dedupCapacity) {
+      const oldest = deliveries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      deliveries.delete(oldest);
+    }
+  }
+
+  function notifyIdle(): void {
+    if (processing || queue.length > 0) {
+      return;
+    }
+
+    for (const resolve of idleWaiters.splice(0)) {
+      resolve();
+    }
+  }
+
+  async function postStatus(
+    provider: ProviderAdapter,
+    record: WebhookDeliveryRecord,
+    target: { owner: string; repo: string; sha: string },
+    context: string,
+    state: ProviderCommitStatusState,
+    description: string
+  ): Promise<void> {
+    const result: WebhookStatusResult = { context, state, posted: false };
+    record.statuses.push(result);
+
+    const tokenEnvVar = provider.approvalTokenEnvVar ?? "GITHUB_TOKEN";
+    const authToken = options.env[tokenEnvVar];
+    if (!provider.postCommitStatus || !authToken) {
+      result.error = provider.postCommitStatus
+        ? `${tokenEnvVar} unavailable`
+        : `provider '${provider.name}' cannot post commit statuses`;
+      return;
+    }
+
+    try {
+      await provider.postCommitStatus(
+        {
+          ...target,
+          state,
+          context,
+          description,
+          ...(options.publicUrl ? { targetUrl: `${options.publicUrl}/deliveries/${encodeURIComponent(record.id)}` } : {})
+        },
+        {
+          authToken,
+          apiBaseUrl: resolveProviderApiBaseUrl(provider, { env: options.env }),
+          fetchTimeoutMs: options.statusTimeoutMs,
+          fetch: options.fetch
+        }
+      );
+      result.posted = true;
+    } catch (error) {
+      result.error = toErrorMessage(error);
+    }
+  }
+
+  async function processDelivery(item: QueuedDelivery): Promise<void> {
+    const { record, payload } = item;
+    const provider = getProviderByName(record.provider);
+    if (!provider) {
+      throw makeError("E_WEBHOOK_PROVIDER_UNSUPPORTED", `provider '${record.provider}' is not registered`);
+    }
+    record.state = "processing";
+
+    const guardReport = await evaluateGuard({
+      policy: options.guardPolicyRaw,
+      eventName: record.eventName,
+      payload,
+      provider,
+      env: options.env,
+      fetch: options.fetch,
+      policyPath: options.guardPolicyPath,
+      codeOwners: options.codeOwners ?? null,
+      scorers: options.guardScorers
+    });
+    record.guardDecision = guardReport.decision;
+
+    const shadowReport = options.shadowGate
+      ? evaluateShadowGate({
+          providerName: provider.name,
+          eventName: record.eventName,
+          eventPayload: payload,
+          policyRaw: options.shadowGate.policyRaw,
+          doctrineRaw: options.shadowGate.doctrineRaw,
+          exceptionsRaw: options.shadowGate.exceptionsRaw,
+          scorers: options.shadowGate.scorers
+        }).report
+      : null;
+    if (shadowReport) {
+      record.shadowGateDecision = shadowReport.decision;
+    }
+
+    const pullContext = provider.extractPullContext(record.eventName, payload);
+    if (options.postStatuses && pullContext?.headSha) {
+      const target = { owner: pullContext.owner, repo: pullContext.repo, sha: pullContext.headSha };
+      await postStatus(
+        provider,
+        record,
+        target,
+        GUARD_STATUS_CONTEXT,
+        toStatusState(guardReport.decision),
+        describeDecision("Guard", guardReport.decision, guardReport.findings.length)
+      );
+
+      if (shadowReport) {
+        await postStatus(
+          provider,
+          record,
+          target,
+          SHADOW_GATE_STATUS_CONTEXT,
+          toStatusState(shadowReport.decision),
+          describeDecision("Shadow gate", shadowReport.decision, shadowReport.findings.length)
+        );
+      }
+    }
+
+    if (options.postSummaryComment && pullContext) {
+      try {
+        const result = await publishSummaryComment({
+          provider,
+          eventName: record.eventName,
+          eventPayload: payload,
+          body: renderSummaryComment({ guardReport, shadowGateReport: shadowReport }),
+          env: options.env,
+          apiBaseUrl: resolveProviderApiBaseUrl(provider, { env: options.env }),
+          fetchTimeoutMs: options.statusTimeoutMs,
+          fetch: options.fetch
+        });
+        record.summaryComment = { action: result.action };
+      } catch (error) {
+        record.summaryComment = { error: toErrorMessage(error) };
+      }
+    }
+
+    record.state = "completed";
+  }
+
+  async function runQueue(): Promise<void> {
+    if (processing) {
+      return;
+    }
+
+    processing = true;
+    while (queue.length > 0) {
+      const item = queue.shift() as QueuedDelivery;
+      try {
+        await processDelivery(item);
+      } catch (error) {
+        item.record.state = "failed";
+        item.record.error = toErrorMessage(error);
+      }
+
+      log(
+        `delivery ${item.record.id} ${item.record.state} guard=${item.record.guardDecision ?? "n/a"} shadow-gate=${item.record.shadowGateDecision ?? "n/a"}`
+      );
+    }
+    processing = false;
+    notifyIdle();
+  }
+
+  async function handleWebhook(
+    providerName: WebhookProviderName,
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ): Promise<void> {
+    const secret = options.secrets[providerName];
+    if (!secret) {
+      sendJson(response, 404, {
+        code: "E_WEBHOOK_PROVIDER_DISABLED",
+        message: `no webhook secret configured for provider '${providerName}'`
+      });
+      return;
+    }
+
+    const body = await readRequestBody(request, options.maxBodyBytes);
+    if (!verifyWebhookSignature(providerName, request.headers, body, secret)) {
+      sendJson(response, 401, {
+        code: "E_WEBHOOK_SIGNATURE_INVALID",
+        message: `webhook signature verification failed for provider '${providerName}'`
+      });
+      return;
+    }
+
+    const eventName = resolveWebhookEventName(providerName, request.headers);
+    if (!eventName) {
+      sendJson(response, 400, {
+        code: "E_WEBHOOK_EVENT_MISSING",
+        message: `event name header missing for provider '${providerName}'`
+      });
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body.toString("utf8")) as unknown;
+    } catch (error) {
+      sendJson(response, 400, {
+        code: "E_WEBHOOK_PAYLOAD_INVALID_JSON",
+        message: toErrorMessage(error)
+      });
+      return;
+    }
+
+    const deliveryId = resolveWebhookDeliveryId(providerName, request.headers, body);
+    const existing = deliveries.get(deliveryId);
+    if (existing && existing.state !== "failed") {
+      sendJson(response, 200, {
+        status: "duplicate",
+        delivery: existing
+      });
+      return;
+    }
+
+    if (queue.length >= options.maxQueueSize) {
+      response.setHeader("Retry-After", "30");
+      sendJson(response, 503, {
+        code: "E_WEBHOOK_QUEUE_FULL",
+        message: `work queue is full (${options.maxQueueSize} pending deliveries)`
+      });
+      return;
+    }
+
+    const record: WebhookDeliveryRecord = {
+      id: deliveryId,
+      provider: providerName,
+      eventName,
+      receivedAt: new Date().toISOString(),
+      state: "queued",
+      statuses: []
+    };
+    rememberDelivery(record);
+    queue.push({ record, payload });
+    void runQueue();
+
+    sendJson(response, 202, {
+      status: "queued",
+      delivery: record
+    });
+  }
+
+  const server = http.createServer(async (request, response) => {
+    try {
+      const method = request.method ?? "GET";
+      const parsed = new URL(request.url ?? "/", `http://${options.host}`);
+      const pathname = parsed.pathname;
+
+      if (method === "GET" && pathname === "/healthz") {
+        sendJson(response, 200, {
+          ok: true,
+          queueDepth: queue.length + (processing ? 1 : 0),
+          maxQueueSize: options.maxQueueSize,
+          providers: WEBHOOK_PROVIDERS.filter((name) => Boolean(options.secrets[name]))
+        });
+        return;
+      }
+
+      const deliveryMatch = pathname.match(/^\/deliveries\/([^/]+)$/);
+      if (method === "GET" && deliveryMatch) {
+        let deliveryId: string;
+        try {
+          deliveryId = decodeURIComponent(deliveryMatch[1] ?? "");
+        } catch {
+          sendJson(response, 400, {
+            code: "E_WEBHOOK_DELIVERY_ID_INVALID",
+            message: "delivery id is not a valid URI component"
+          });
+          return;
+        }
+
+        const record = deliveries.get(deliveryId);
+        if (!record) {
+          sendJson(response, 404, {
+            code: "E_WEBHOOK_DELIVERY_NOT_FOUND",
+            message: "delivery not found"
+          });
+          return;
+        }
+
+        sendJson(response, 200, record);
+        return;
+      }
+
+      const webhookMatch = pathname.match(/^\/webhooks\/([a-z-]+)$/);
+      if (webhookMatch) {
+        const providerName = webhookMatch[1] as WebhookProviderName;
+        if (!WEBHOOK_PROVIDERS.includes(providerName)) {
+          sendJson(response, 404, {
+            code: "E_WEBHOOK_PROVIDER_UNSUPPORTED",
+            message: `provider '${webhookMatch[1]}' is not supported; use ${WEBHOOK_PROVIDERS.join("|")}`
+          });
+          return;
+        }
+
+        if (method !== "POST") {
+          sendJson(response, 405, {
+            code: "E_WEBHOOK_METHOD_NOT_ALLOWED",
+            message: "only POST is supported for webhook deliveries"
+          });
+          return;
+        }
+
+        await handleWebhook(providerName, request, response);
+        return;
+      }
+
+      sendJson(response, 404, {
+        code: "E_WEBHOOK_NOT_FOUND",
+        message: "route not found"
+      });
+    } catch (error) {
+      const message = toErrorMessage(error);
+      sendJson(response, message.startsWith("E_WEBHOOK_BODY_TOO_LARGE:") ? 413 : 500, {
+        code: message.startsWith("E_WEBHOOK_BODY_TOO_LARGE:") ? "E_WEBHOOK_BODY_TOO_LARGE" : "E_WEBHOOK_INTERNAL",
+        message
+      });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", (error) => {
+      const err = error as NodeJS.ErrnoException;
+      if (err.code === "EADDRINUSE") {
+        reject(makeError("E_WEBHOOK_PORT_IN_USE", `port ${options.port} is already in use`));
+        return;
+      }
+
+      reject(makeError("E_WEBHOOK_SERVER_START", toErrorMessage(error)));
+    });
+
+    server.listen(options.port, options.host, () => {
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  const urlHost = options.host === "0.0.0.0" ? "127.0.0.1" : options.host;
+
+  const drain = async (): Promise<void> => {
+    if (!processing && queue.length === 0) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      idleWaiters.push(resolve);
+    });
+  };
+
+  return {
+    url: `http://${urlHost}:${address.port}`,
+    close: async () => {
+      await new Promise<void>((resolve, reject) => {
+        server.close((error) => {
+          if (error) {
+            reject(error);
+            return;
+          }
+
+          resolve();
+        });
+      });
+      await drain();
+    },
+    drain,
+    getDelivery: (id: string) => deliveries.get(id),
+    getQueueDepth: () => queue.length + (processing ? 1 : 0)
+  };
+}
@@ -0,0 +1,80 @@
+import crypto from "node:crypto";
+
+export type WebhookProviderName = "github" | "gitlab" | "bitbucket";
+
+export const WEBHOOK_PROVIDERS: readonly WebhookProviderName[] = ["bitbucket", "github", "gitlab"];
+
+export const WEBHOOK_SECRET_ENV_VARS: Record<WebhookProviderName, string> = {
+  github: "GITHUB_WEBHOOK_SECRET",
+  gitlab: "GITLAB_WEBHOOK_TOKEN",
+  bitbucket: "BITBUCKET_WEBHOOK_SECRET"
+};
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+function headerValue(headers: WebhookHeaders, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function safeEqual(left: string, right: string): boolean {
+  const a = Buffer.from(left, "utf8");
+  const b = Buffer.from(right, "utf8");
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+function verifyHmacSha256(headerName: string, headers: WebhookHeaders, body: Buffer, secret: string): boolean {
+  const signature = headerValue(headers, headerName)?.trim().toLowerCase();
+  if (!signature || !signature.startsWith("sha256=")) {
+    return false;
+  }
+
+  const expected = `sha256=${crypto.createHmac("sha256", secret).update(body).digest("hex")}`;
+  return safeEqual(signature, expected);
+}
+
+export function verifyWebhookSignature(
+  provider: WebhookProviderName,
+  headers: WebhookHeaders,
+  body: Buffer,
+  secret: string
+): boolean {
+  if (secret.length === 0) {
+    return false;
+  }
+
+  if (provider === "github") {
+    return verifyHmacSha256("x-hub-signature-256", headers, body, secret);
+  }
+
+  if (provider === "bitbucket") {
+    return verifyHmacSha256("x-hub-signature", headers, body, secret);
+  }
+
+  const token = headerValue(headers, "x-gitlab-token");
+  return typeof token === "string" && safeEqual(token, secret);
+}
+
+export function resolveWebhookEventName(provider: WebhookProviderName, headers: WebhookHeaders): string | null {
+  const headerName = provider === "github" ? "x-github-event" : provider === "gitlab" ? "x-gitlab-event" : "x-event-key";
+  const value = headerValue(headers, headerName)?.trim();
+  return value && value.length > 0 ? value : null;
+}
+
+export function resolveWebhookDeliveryId(provider: WebhookProviderName, headers: WebhookHeaders, body: Buffer): string {
+  const headerNames =
+    provider === "github"
+      ? ["x-github-delivery"]
+      : provider === "gitlab"
+        ? ["x-gitlab-event-uuid", "idempotency-key"]
+        : ["x-request-uuid"];
+
+  for (const headerName of headerNames) {
+    const value = headerValue(headers, headerName)?.trim();
+    if (value && value.length > 0) {
+      return `${provider}:${value}`;
+    }
+  }
+
+  return `${provider}:sha256:${crypto.createHash("sha256").update(body).digest("hex")}`;
+}
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { BUILTIN_AI_SCORERS, buildAiScorerRegistry, runAiScorer } from "../src/aiScorers";
+import type { ProviderReviewTarget } from "../src/providers/types";
+
+function makeTarget(body: string): ProviderReviewTarget {
+  return {
+    source: "review",
+    referenceId: "review:1",
+    authorLogin: "reviewer",
+    authorType: "User",
+    body
+  };
+}
+
+function scoreWith(name: string, body: string): number {
+  const scorer = buildAiScorerRegistry().get(name);
+  assert.ok(scorer, `missing scorer ${name}`);
+  return runAiScorer(scorer, makeTarget(body));
+}
+
+const uniformBody = [
+  "## Summary",
+  "",
+  "- This change updates the parser to handle nested blocks.",
+  "- This change also updates the tests to cover nested blocks.",
+  "- Overall, this change may potentially improve the parser.",
+  "",
+  "## Notes",
+  "",
+  "- Additionally, it is worth noting that this might be slower.",
+  "- Generally, the parser is likely to remain stable overall."
+].join("\n");
+
+const humanBody = [
+  "Nice.",
+  "I poked at the nested-block case locally with the fixture from last week's regression and it no longer explodes, which is what I wanted to see before merging this one.",
+  "One nit: rename `tmp` in parseBlock.",
+  "Ship it after that."
+].join(" ");
+
+test("built-in scorers are listed in a stable order", () => {
+  assert.deepEqual(
+    BUILTIN_AI_SCORERS.map((scorer) => scorer.name),
+    ["sentence-length-variance", "hedge-phrase-density", "bullet-heading-ratio", "type-token-ratio"]
+  );
+});
+
+test("built-in scorers rate uniform, hedged, bullet-heavy text above terse human prose", () => {
+  for (const scorer of BUILTIN_AI_SCORERS) {
+    const uniform = runAiScorer(scorer, makeTarget(uniformBody));
+    const human = runAiScorer(scorer, makeTarget(humanBody));
+
+    assert.ok(uniform >= 0 && uniform <= 1, `${scorer.name} uniform=${uniform}`);
+    assert.ok(human >= 0 && human <= 1, `${scorer.name} human=${human}`);
+    assert.ok(uniform > human, `${scorer.name} uniform=${uniform} human=${human}`);
+    assert.equal(runAiScorer(scorer, makeTarget(uniformBody)), uniform);
+  }
+});
+
+test("built-in scorers return zero for bodies too short to measure", () => {
+  for (const scorer of BUILTIN_AI_SCORERS) {
+    assert.equal(scoreWith(scorer.name, "LGTM"), 0);
+  }
+});
+
+test("scorer registry rejects duplicate names and non-finite scores", () => {
+  assert.throws(
+    () => buildAiScorerRegistry([{ name: "type-token-ratio", score: () => 0 }]),
+    /^Error: E_AI_SCORER_DUPLICATE: scorer 'type-token-ratio' is registered more than once$/
+  );
+  assert.throws(
+    () => runAiScorer({ name: "broken", score: () => Number.NaN }, makeTarget("body")),
+    /^Error: E_AI_SCORER_OUTPUT_INVALID: scorer 'broken' returned a non-finite score$/
+  );
+  assert.equal(runAiScorer({ name: "loud", score: () => 4 }, makeTarget("body")), 1);
+});
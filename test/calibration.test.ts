@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { calibratePolicy, renderCalibrationMarkdown } from "../src/calibration";
+import { parseLabeledCorpus } from "../src/classifier";
+import { parseCalibrateArgs } from "../src/commands/calibrate";
+import { parseGuardPolicy } from "../src/sevenShadowSystem";
+
+const policy = parseGuardPolicy({
+  version: 1,
+  maxAiScore: 0.5,
+  disclosureRequiredScore: 0.3,
+  minHumanApprovals: 0,
+  rules: [
+    { name: "explicit", pattern: "as an ai language model", action: "block" },
+    { name: "template", pattern: "great work", action: "score", weight: 0.35 }
+  ]
+});
+
+const examples = parseLabeledCorpus(
+  [
+    { label: "ai", body: "As an AI language model, I approve this change." },
+    { label: "ai", body: "Great work, this is great." },
+    { label: "ai", body: "Great work overall." },
+    { label: "human", body: "great work, but fix the null check" },
+    { label: "human", body: "nit: rename tmp" },
+    { label: "human", body: "fails on windows" }
+  ]
+    .map((example) => JSON.stringify(example))
+    .join("\n")
+);
+
+function calibrate(targetRecall?: number) {
+  return calibratePolicy({
+    policy,
+    examples,
+    policyPath: "inline",
+    corpusPath: "corpus.jsonl",
+    corpusSha256: "0".repeat(64),
+    targetRecall
+  });
+}
+
+test("calibratePolicy reports the confusion matrix and per-rule precision/recall", () => {
+  const report = calibrate();
+
+  assert.deepEqual(report.examples, { total: 6, ai: 3, human: 3 });
+  assert.deepEqual(report.confusionMatrix, {
+    truePositive: 1,
+    falsePositive: 0,
+    trueNegative: 3,
+    falseNegative: 2,
+    precision: 1,
+    recall: 0.3333,
+    accuracy: 0.6667
+  });
+  assert.deepEqual(report.rules, [
+    { rule: "explicit", action: "block", matches: 1, truePositive: 1, falsePositive: 0, falseNegative: 2, precision: 1, recall: 0.3333 },
+    { rule: "template", action: "score", matches: 3, truePositive: 2, falsePositive: 1, falseNegative: 1, precision: 0.6667, recall: 0.6667 }
+  ]);
+});
+
+test("calibratePolicy recommends the highest thresholds that keep the best F1 and the target recall", () => {
+  const report = calibrate();
+
+  assert.deepEqual(report.recommendedThresholds.maxAiScore, { threshold: 0.3, precision: 0.6667, recall: 0.6667, f1: 0.6667 });
+  assert.deepEqual(report.recommendedThresholds.disclosureRequiredScore, {
+    threshold: 0,
+    precision: 0.5,
+    recall: 1,
+    f1: 0.6667,
+    targetRecall: 0.9
+  });
+  assert.equal(calibrate(0.6).recommendedThresholds.disclosureRequiredScore.threshold, 0.3);
+
+  const markdown = renderCalibrationMarkdown(report);
+  assert.ok(markdown.includes("| Labeled ai | 1 | 2 |"));
+  assert.ok(markdown.includes("| `template` | score | 3 | 0.667 | 0.667 |"));
+  assert.ok(markdown.includes("- `maxAiScore`: 0.30 (current 0.50; precision 0.667, recall 0.667, F1 0.667)"));
+});
+
+test("parseCalibrateArgs requires a corpus and validates the target recall", () => {
+  assert.throws(() => parseCalibrateArgs([]), /^Error: E_SENTINEL_ARG_REQUIRED: --corpus$/);
+  assert.throws(() => parseCalibrateArgs(["--corpus", "c.jsonl", "--target-recall", "1.5"]), /E_SENTINEL_ARG_INVALID/);
+  assert.deepEqual(parseCalibrateArgs(["--corpus", "c.jsonl", "--format", "json"]), {
+    policyPath: "config/seven-shadow-system.policy.json",
+    corpusPath: "c.jsonl",
+    targetRecall: 0.9,
+    format: "json"
+  });
+});
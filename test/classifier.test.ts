@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+
+import {
+  createClassifierScorer,
+  loadClassifierModel,
+  loadPolicyScorers,
+  serializeClassifierModel,
+  trainClassifier
+} from "../src/classifier";
+import { runTrainClassifierCommand } from "../src/commands/trainClassifier";
+import { evaluateGuard, parseGuardPolicy } from "../src/sevenShadowSystem";
+
+const corpus = [
+  { label: "ai", body: "Overall, this change is a great improvement. It is worth noting that the refactor improves readability." },
+  { label: "ai", body: "Great work! This PR significantly improves maintainability. It is worth noting the improved test coverage." },
+  { label: "ai", body: "Overall, the implementation looks solid and improves readability and maintainability." },
+  { label: "human", body: "nit: rename tmp, otherwise fine" },
+  { label: "human", body: "this breaks the windows build, see the failing job" },
+  { label: "human", body: "why not reuse parseBlock here? the windows job is red" }
+]
+  .map((example) => JSON.stringify(example))
+  .join("\n");
+
+function makeTarget(body: string) {
+  return {
+    source: "review" as const,
+    referenceId: "review:1",
+    authorLogin: "reviewer",
+    authorType: "User" as const,
+    body
+  };
+}
+
+test("trainClassifier produces byte-identical models for the same corpus", () => {
+  const first = serializeClassifierModel(trainClassifier(corpus, { minCount: 1 }));
+  const second = serializeClassifierModel(trainClassifier(corpus, { minCount: 1 }));
+
+  assert.equal(first, second);
+
+  const model = trainClassifier(corpus, { minCount: 1, maxFeatures: 10 });
+  assert.deepEqual(model.documents, { ai: 3, human: 3 });
+  assert.equal(model.vocabulary.length, 10);
+  assert.deepEqual(
+    model.vocabulary.map(([feature]) => feature),
+    [...model.vocabulary.map(([feature]) => feature)].sort()
+  );
+});
+
+test("classifier scorer ranks AI-style review text above terse human text", () => {
+  const scorer = createClassifierScorer(trainClassifier(corpus, { minCount: 1 }));
+  const aiLike = scorer.score(makeTarget("Overall, great work. It is worth noting this improves maintainability."));
+  const humanLike = scorer.score(makeTarget("nit: the windows job is red, rename tmp"));
+
+  assert.ok(aiLike > 0.9, `aiLike=${aiLike}`);
+  assert.ok(humanLike < 0.1, `humanLike=${humanLike}`);
+});
+
+test("trainClassifier rejects malformed and one-sided corpora", () => {
+  assert.throws(() => trainClassifier('{"label":"ai","body":"x"}\n{"label":"robot","body":"y"}'), /^Error: E_CLASSIFIER_CORPUS_INVALID: line 2:/);
+  assert.throws(
+    () => trainClassifier('{"label":"ai","body":"x"}'),
+    /^Error: E_CLASSIFIER_CORPUS_INVALID: corpus needs at least one 'ai' and one 'human' example$/
+  );
+});
+
+test("train-classifier writes a model that guard policies load by sha256", async () => {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "seven-shadow-classifier-test-"));
+
+  try {
+    const corpusPath = path.join(tempDir, "corpus.jsonl");
+    const modelPath = path.join(tempDir, "model.json");
+    await fs.writeFile(corpusPath, `${corpus}\n`, "utf8");
+
+    assert.equal(await runTrainClassifierCommand(["--corpus", corpusPath, "--out", modelPath, "--min-count", "1", "--format", "json"]), 0);
+
+    const sha256 = crypto.createHash("sha256").update(await fs.readFile(modelPath)).digest("hex");
+    await assert.rejects(loadClassifierModel(modelPath, "0".repeat(64)), /^Error: E_CLASSIFIER_MODEL_HASH_MISMATCH:/);
+
+    const basePolicy = JSON.parse(await fs.readFile(path.join(process.cwd(), "config", "seven-shadow-system.policy.json"), "utf8")) as Record<
+      string,
+      unknown
+    >;
+    const policy = {
+      ...basePolicy,
+      approvals: { ...(basePolicy.approvals as Record<string, unknown>), minHumanApprovals: 0 },
+      scoring: { ruleWeight: 1, classifier: { modelPath: "model.json", sha256, weight: 0.5 } }
+    };
+    const policyPath = path.join(tempDir, "policy.json");
+    const guardInput = {
+      policy,
+      eventName: "pull_request_review",
+      payload: {
+        action: "submitted",
+        repository: { full_name: "acme/repo" },
+        pull_request: { number: 7 },
+        review: {
+          id: 1,
+          body: "Overall, great work. It is worth noting this improves maintainability.",
+          user: { login: "reviewer", type: "User" }
+        }
+      }
+    };
+
+    const unloaded = await evaluateGuard(guardInput);
+    assert.equal(unloaded.decision, "block");
+    assert.deepEqual(
+      unloaded.findings.filter((finding) => finding.code === "GUARD_CLASSIFIER_NOT_LOADED").map((finding) => finding.details),
+      [{ modelPath: "model.json" }]
+    );
+
+    const report = await evaluateGuard({ ...guardInput, scorers: await loadPolicyScorers(parseGuardPolicy(policy), policyPath) });
+    assert.equal(report.findings.some((finding) => finding.code === "GUARD_CLASSIFIER_NOT_LOADED"), false);
+    const contributions = report.targets[0]?.scoreContributions ?? [];
+    assert.deepEqual(
+      contributions.map((item) => item.scorer),
+      ["rules", "classifier"]
+    );
+    assert.ok((contributions[1]?.contribution ?? 0) > 0.45);
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { findCodeOwnerApprovalGaps, parseCodeOwners, resolveCodeOwners } from "../src/codeOwners";
+
+const CODEOWNERS = [
+  "# Default owners",
+  "*                   @Platform-Lead",
+  "*.md                @docs-writer # documentation",
+  "/src/providers/     @acme/integrations @alice",
+  "docs/*              @docs-writer @bob",
+  "**/fixtures/**      @carol",
+  "/src/providers/generated.ts",
+  "[Optional Section]",
+  ""
+].join("\n");
+
+test("parseCodeOwners skips comments, blank lines and sections and normalizes owners", () => {
+  const rules = parseCodeOwners(CODEOWNERS);
+
+  assert.deepEqual(
+    rules.map((rule) => [rule.pattern, rule.owners, rule.line]),
+    [
+      ["*", ["platform-lead"], 2],
+      ["*.md", ["docs-writer"], 3],
+      ["/src/providers/", ["acme/integrations", "alice"], 4],
+      ["docs/*", ["docs-writer", "bob"], 5],
+      ["**/fixtures/**", ["carol"], 6],
+      ["/src/providers/generated.ts", [], 7]
+    ]
+  );
+});
+
+test("resolveCodeOwners applies the last matching rule with gitignore-style anchoring", () => {
+  const rules = parseCodeOwners(CODEOWNERS);
+
+  assert.deepEqual(resolveCodeOwners(rules, "package.json"), ["platform-lead"]);
+  assert.deepEqual(resolveCodeOwners(rules, "nested/README.md"), ["docs-writer"]);
+  assert.deepEqual(resolveCodeOwners(rules, "src/providers/github.ts"), ["acme/integrations", "alice"]);
+  assert.deepEqual(resolveCodeOwners(rules, "lib/src/providers/github.ts"), ["platform-lead"]);
+  assert.deepEqual(resolveCodeOwners(rules, "docs/guide.txt"), ["docs-writer", "bob"]);
+  assert.deepEqual(resolveCodeOwners(rules, "docs/deep/guide.txt"), ["platform-lead"]);
+  assert.deepEqual(resolveCodeOwners(rules, "test/fixtures/event.json"), ["carol"]);
+  assert.deepEqual(resolveCodeOwners(rules, "src/providers/generated.ts"), []);
+});
+
+test("findCodeOwnerApprovalGaps reports sorted unique paths without an owner approval", () => {
+  const rules = parseCodeOwners(CODEOWNERS);
+  const gaps = findCodeOwnerApprovalGaps(
+    rules,
+    ["src/providers/github.ts", "docs/guide.txt", "package.json", "src/providers/generated.ts", "docs/guide.txt"],
+    ["@Alice"]
+  );
+
+  assert.deepEqual(gaps, [
+    { path: "docs/guide.txt", owners: ["docs-writer", "bob"] },
+    { path: "package.json", owners: ["platform-lead"] }
+  ]);
+});
+
+test("parseCodeOwners rejects negated patterns deterministically", () => {
+  assert.throws(() => parseCodeOwners("!src/ @alice"), /^Error: E_CODEOWNERS_PATTERN: negated pattern '!src\/' is not supported \(line 1\)$/);
+});
@@ -4,7 +4,9 @@ import path from "node:path";
 import test from "node:test";
 
 import { parseShadowGateArgs } from "../src/commands/shadowGate";
-import { evaluateShadowGate } from "../src/shadows/engine";
+import { githubProvider } from "../src/providers/github";
+import { parseUnifiedDiff } from "../src/shadows/diff";
+import { evaluateShadowGate, renderShadowGateMarkdown } from "../src/shadows/engine";
 
 function clone<T>(value: T): T {
   return JSON.parse(JSON.stringify(value)) as T;
@@ -369,3 +371,210 @@ test("v2 compatibility: shadow gate runs unchanged v2 policy files", async () =>
   assert.equal(report.policyVersion, 2);
   assert.equal(report.enforcementStage, "whisper");
 });
+
+const SAMPLE_DIFF = [
+  "diff --git a/src/config.ts b/src/config.ts",
+  "index 1111111..2222222 100644",
+  "--- a/src/config.ts",
+  "+++ b/src/config.ts",
+  "@@ -10,3 +10,4 @@ export const config = {",
+  "   region: \"us-east-1\",",
+  "-  retries: 2,",
+  "+  retries: 3,",
+  "+  apiKey: \"sk_live_1234567890abcdef\",",
+  "   timeoutMs: 500",
+  "diff --git a/docs/old.md b/docs/new.md",
+  "similarity index 90%",
+  "rename from docs/old.md",
+  "rename to docs/new.md",
+  "--- a/docs/old.md",
+  "+++ b/docs/new.md",
+  "@@ -1 +1 @@",
+  "--- old heading",
+  "+-- new heading",
+  "diff --git a/src/legacy.ts b/src/legacy.ts",
+  "deleted file mode 100644",
+  "--- a/src/legacy.ts",
+  "+++ /dev/null",
+  "@@ -1,2 +0,0 @@",
+  "-export const legacy = true;",
+  "-export default legacy;",
+  ""
+].join("\n");
+
+test("parseUnifiedDiff records added lines with new-file line numbers per file", () => {
+  assert.deepEqual(parseUnifiedDiff(SAMPLE_DIFF), [
+    {
+      path: "src/config.ts",
+      status: "modified",
+      additions: 2,
+      deletions: 1,
+      addedLines: [
+        { line: 11, text: "  retries: 3," },
+        { line: 12, text: "  apiKey: \"sk_live_1234567890abcdef\"," }
+      ]
+    },
+    {
+      path: "docs/new.md",
+      previousPath: "docs/old.md",
+      status: "renamed",
+      additions: 1,
+      deletions: 1,
+      addedLines: [{ line: 1, text: "-- new heading" }]
+    },
+    {
+      path: "src/legacy.ts",
+      status: "deleted",
+      additions: 0,
+      deletions: 2,
+      addedLines: []
+    }
+  ]);
+});
+
+test("diff-aware evaluation reports secrets in added code with file and line references", async () => {
+  const policyRaw = await loadJson("config/seven-shadow-system.policy.v3.sample.json");
+  const doctrineRaw = await loadJson("config/shadow-doctrine.sample.json");
+  const eventPayload = {
+    repository: {
+      full_name: "acme/repo"
+    },
+    pull_request: {
+      number: 104,
+      title: "Tune retries",
+      body: "Bumps the retry count.",
+      user: {
+        login: "repo-owner",
+        type: "User"
+      }
+    }
+  };
+
+  const withoutDiff = evaluateShadowGate({
+    providerName: "github",
+    eventName: "pull_request",
+    eventPayload,
+    policyRaw,
+    doctrineRaw
+  }).report;
+  assert.equal(withoutDiff.findings.some((finding) => finding.code === "SHADOW_SECURITY_SECRET_DETECTED"), false);
+  assert.equal(withoutDiff.diffFilesScanned, undefined);
+
+  const report = evaluateShadowGate({
+    providerName: "github",
+    eventName: "pull_request",
+    eventPayload,
+    policyRaw,
+    doctrineRaw,
+    diff: SAMPLE_DIFF
+  }).report;
+
+  const secret = report.findings.find((finding) => finding.code === "SHADOW_SECURITY_SECRET_DETECTED");
+  assert.equal(report.diffFilesScanned, 3);
+  assert.equal(report.decision, "block");
+  assert.deepEqual(secret?.locations, [{ file: "src/config.ts", line: 12 }]);
+  assert.match(renderShadowGateMarkdown(report), /Diff Files Scanned: 3[\s\S]*Locations: src\/config\.ts:12/);
+});
+
+test("diff-aware injection checks flag injection shapes in code but not plain script tags or links", async () => {
+  const added = (filePath: string, lines: string[]) =>
+    [
+      `diff --git a/${filePath} b/${filePath}`,
+      `--- a/${filePath}`,
+      `+++ b/${filePath}`,
+      `@@ -0,0 +1,${lines.length} @@`,
+      ...lines.map((line) => `+${line}`)
+    ].join("\n");
+  const evaluateDiff = async (diff: string) =>
+    evaluateShadowGate({
+      providerName: "github",
+      eventName: "pull_request",
+      eventPayload: {
+        repository: { full_name: "acme/repo" },
+        pull_request: { number: 106, title: "Add page", body: "Adds the landing page.", user: { login: "repo-owner", type: "User" } }
+      },
+      policyRaw: await loadJson("config/seven-shadow-system.policy.v3.sample.json"),
+      doctrineRaw: await loadJson("config/shadow-doctrine.sample.json"),
+      diff: `${diff}\n`
+    }).report.findings.find((finding) => finding.code === "SHADOW_SECURITY_INJECTION_SIGNAL");
+
+  const clean = await evaluateDiff(
+    [
+      added("public/index.html", ['<script src="/assets/app.js"></script>', '<a href="javascript:void(0)">Menu</a>']),
+      added("src/App.tsx", ['  <script src="https://cdn.example.com/widget.js" async />']),
+      added("src/links.ts", ['const noop = "javascript:void(0)";'])
+    ].join("\n")
+  );
+  assert.equal(clean, undefined);
+
+  const flagged = await evaluateDiff(
+    [
+      added("src/users.ts", ['const rows = await db.query("SELECT * FROM users WHERE id = " + userId);']),
+      added("src/render.ts", ["panel.innerHTML = `<p>${comment.body}</p>`;", 'const html = "<script>" + payload;'])
+    ].join("\n")
+  );
+  assert.deepEqual(flagged?.locations, [
+    { file: "src/users.ts", line: 1 },
+    { file: "src/render.ts", line: 1 },
+    { file: "src/render.ts", line: 2 }
+  ]);
+});
+
+test("parseShadowGateArgs accepts one diff source", () => {
+  assert.equal(parseShadowGateArgs(["--diff", "pr.diff"]).diffPath, "pr.diff");
+  assert.deepEqual(
+    [parseShadowGateArgs(["--diff-base", "origin/main"]).diffBase, parseShadowGateArgs(["--diff-from-provider"]).diffFromProvider],
+    ["origin/main", true]
+  );
+  assert.throws(() => parseShadowGateArgs(["--diff", "pr.diff", "--diff-base", "main"]), /E_SHADOW_ARG_INVALID/);
+  assert.throws(() => parseShadowGateArgs(["--diff-head", "HEAD"]), /E_SHADOW_ARG_REQUIRED: --diff-base/);
+  assert.throws(() => parseShadowGateArgs(["--diff-base", "-p"]), /E_SHADOW_ARG_INVALID/);
+});
+
+test("github fetchPullRequestDiff rebuilds a unified diff from the pull request files API", async () => {
+  const fetchPullRequestDiff = githubProvider.fetchPullRequestDiff;
+  assert.ok(fetchPullRequestDiff);
+
+  const urls: string[] = [];
+  const diff = await fetchPullRequestDiff(
+    { owner: "acme", repo: "repo", pullNumber: 7 },
+    {
+      githubToken: "token",
+      allowedAuthors: new Set(),
+      fetchTimeoutMs: 5_000,
+      maxPages: 2,
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        baseDelayMs: 1,
+        maxDelayMs: 1,
+        jitterRatio: 0,
+        retryableStatusCodes: []
+      },
+      fetch: async (input: RequestInfo | URL) => {
+        urls.push(typeof input === "string" ? input : input.toString());
+        return new Response(
+          JSON.stringify([
+            { filename: "src/new.ts", status: "added", patch: "@@ -0,0 +1 @@\n+export const token = \"abcdefgh12345\";" },
+            { filename: "assets/logo.png", status: "modified" }
+          ]),
+          {
+            status: 200,
+            headers: {
+              "content-type": "application/json"
+            }
+          }
+        );
+      }
+    }
+  );
+
+  assert.deepEqual(urls, ["https://api.github.com/repos/acme/repo/pulls/7/files?per_page=100&page=1"]);
+  assert.deepEqual(
+    parseUnifiedDiff(diff).map((file) => [file.path, file.status, file.addedLines]),
+    [
+      ["src/new.ts", "added", [{ line: 1, text: "export const token = \"abcdefgh12345\";" }]],
+      ["assets/logo.png", "modified", []]
+    ]
+  );
+});
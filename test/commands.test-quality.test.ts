@@ -1,4 +1,5 @@
 import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
 import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
@@ -44,3 +45,42 @@ test("buildTestQualityReport flags non-behavioral names", async () => {
     await fs.rm(tempDir, { recursive: true, force: true });
   }
 });
+
+test("buildTestQualityReport does not count new test files against patch coverage", async () => {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "7s-test-quality-coverage-"));
+  const originalCwd = process.cwd();
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], { cwd: tempDir, stdio: "pipe" });
+
+  try {
+    await fs.mkdir(path.join(tempDir, "src"), { recursive: true });
+    await fs.mkdir(path.join(tempDir, "test"), { recursive: true });
+    await fs.writeFile(path.join(tempDir, "README.md"), "# Sample\n", "utf8");
+    git("init", "-q");
+    git("add", "-A");
+    git("commit", "-q", "-m", "base");
+    git("branch", "-M", "base");
+
+    await fs.writeFile(path.join(tempDir, "src", "a.ts"), "export const a = 1;\nexport const b = 2;\n", "utf8");
+    await fs.writeFile(path.join(tempDir, "test", "a.test.ts"), "test('reads a', () => {\n  expect(a).toBe(1);\n});\n", "utf8");
+    await fs.writeFile(path.join(tempDir, "lcov.info"), ["SF:src/a.ts", "DA:1,1", "DA:2,1", "end_of_record", ""].join("\n"), "utf8");
+    git("checkout", "-q", "-b", "head");
+    git("add", "src", "test");
+    git("commit", "-q", "-m", "head");
+
+    process.chdir(tempDir);
+    const report = await buildTestQualityReport({
+      rootPath: "test",
+      format: "json",
+      providerName: "github",
+      baseRef: "base",
+      headRef: "head",
+      coveragePath: "lcov.info"
+    });
+
+    assert.deepEqual(report.metrics.coverage?.patch, { coveredLines: 2, totalLines: 2, percent: 100 });
+  } finally {
+    process.chdir(originalCwd);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
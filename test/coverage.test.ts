@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import test from "node:test";
+
+import { parseShadowGateArgs } from "../src/commands/shadowGate";
+import { parseTestQualityArgs } from "../src/commands/testQuality";
+import { compareCoverage, detectCoverageFormat, parseCoverageReport } from "../src/coverage";
+import { parseUnifiedDiff } from "../src/shadows/diff";
+import { evaluateShadowGate, parseShadowPolicy, renderShadowGateMarkdown } from "../src/shadows/engine";
+
+const LCOV = ["TN:", "SF:src/cache.ts", "DA:1,1", "DA:2,0", "DA:3,4", "end_of_record", "SF:src/util.ts", "DA:1,0", "end_of_record", ""].join(
+  "\n"
+);
+
+const COBERTURA = [
+  '<?xml version="1.0" ?>',
+  '<coverage line-rate="0.5">',
+  "  <packages><package name=\"app\"><classes>",
+  '    <class name="cache" filename="src/cache.ts">',
+  "      <methods/>",
+  '      <lines><line number="1" hits="1"/><line number="2" hits="0"/><line number="3" hits="2" branch="true"/></lines>',
+  "    </class>",
+  "  </classes></package></packages>",
+  "</coverage>",
+  ""
+].join("\n");
+
+const ISTANBUL = JSON.stringify({
+  "/repo/src/cache.ts": {
+    path: "/repo/src/cache.ts",
+    statementMap: {
+      "0": { start: { line: 1, column: 0 }, end: { line: 1, column: 20 } },
+      "1": { start: { line: 2, column: 0 }, end: { line: 2, column: 20 } },
+      "2": { start: { line: 2, column: 21 }, end: { line: 2, column: 30 } }
+    },
+    s: { "0": 3, "1": 0, "2": 1 }
+  }
+});
+
+const GO_PROFILE = ["mode: count", "example.com/app/cache.go:3.14,5.2 2 1", "example.com/app/cache.go:7.2,7.20 1 0", ""].join("\n");
+
+function coverageDiff(filePath: string, start: number, added: string[]): string {
+  return [
+    `diff --git a/${filePath} b/${filePath}`,
+    `--- a/${filePath}`,
+    `+++ b/${filePath}`,
+    `@@ -${start},0 +${start},${added.length} @@`,
+    ...added.map((line) => `+${line}`),
+    ""
+  ].join("\n");
+}
+
+async function loadJson(relativePath: string): Promise<Record<string, unknown>> {
+  const raw = await fs.readFile(path.join(process.cwd(), relativePath), "utf8");
+  return JSON.parse(raw) as Record<string, unknown>;
+}
+
+test("parseCoverageReport detects and reads lcov, Cobertura, Istanbul and Go profiles", () => {
+  const lcov = parseCoverageReport(LCOV);
+  assert.equal(lcov.format, "lcov");
+  assert.deepEqual([...(lcov.files.get("src/cache.ts") ?? [])], [[1, 1], [2, 0], [3, 4]]);
+
+  const cobertura = parseCoverageReport(COBERTURA);
+  assert.equal(cobertura.format, "cobertura");
+  assert.deepEqual([...(cobertura.files.get("src/cache.ts") ?? [])], [[1, 1], [2, 0], [3, 2]]);
+
+  const istanbul = parseCoverageReport(ISTANBUL);
+  assert.equal(istanbul.format, "istanbul");
+  assert.deepEqual([...(istanbul.files.get("/repo/src/cache.ts") ?? [])], [[1, 3], [2, 1]]);
+
+  const go = parseCoverageReport(GO_PROFILE);
+  assert.equal(go.format, "go");
+  assert.deepEqual([...(go.files.get("example.com/app/cache.go") ?? [])], [[3, 1], [4, 1], [5, 1], [7, 0]]);
+
+  assert.throws(() => detectCoverageFormat("plain text"), /E_COVERAGE_FORMAT/);
+  assert.throws(() => parseCoverageReport("{not json"), /E_COVERAGE_PARSE/);
+});
+
+test("compareCoverage reports head, base, delta and changed-line patch coverage", () => {
+  const head = parseCoverageReport(LCOV);
+  const base = parseCoverageReport(["SF:src/cache.ts", "DA:1,1", "DA:2,1", "end_of_record", ""].join("\n"));
+  const diff = parseUnifiedDiff(
+    coverageDiff("src/cache.ts", 2, ["if (stale) {", "  return refresh();", "}"]) + coverageDiff("README.md", 1, ["Docs"])
+  );
+
+  const comparison = compareCoverage({ head, base, diff });
+  assert.deepEqual(comparison.head, { coveredLines: 2, totalLines: 4, percent: 50 });
+  assert.deepEqual(comparison.base, { coveredLines: 2, totalLines: 2, percent: 100 });
+  assert.equal(comparison.deltaPercent, -50);
+  assert.deepEqual(comparison.patch, {
+    coveredLines: 1,
+    totalLines: 2,
+    percent: 50,
+    uncovered: [{ file: "src/cache.ts", line: 2 }]
+  });
+
+  assert.equal(compareCoverage({ head }).deltaPercent, null);
+  assert.equal(compareCoverage({ head }).patch, null);
+});
+
+test("compareCoverage counts changed source files missing from the head report as uncovered", () => {
+  const head = parseCoverageReport(LCOV);
+  const diff = parseUnifiedDiff(
+    coverageDiff("src/fresh.ts", 1, ["// Loads nothing yet", "export function fresh(): number {", "  return 1;", "}"]) +
+      coverageDiff("test/fresh.test.ts", 1, ["test();"]) +
+      coverageDiff("docs/fresh.md", 1, ["Docs"])
+  );
+
+  assert.deepEqual(compareCoverage({ head, diff, isSourceFile: (filePath) => filePath.startsWith("src/") }).patch, {
+    coveredLines: 0,
+    totalLines: 2,
+    percent: 0,
+    uncovered: [
+      { file: "src/fresh.ts", line: 2 },
+      { file: "src/fresh.ts", line: 3 }
+    ]
+  });
+  assert.equal(compareCoverage({ head, diff }).patch?.totalLines, 0);
+});
+
+test("Testing shadow gates coverage regression and low patch coverage with policy thresholds", async () => {
+  const policyRaw = await loadJson("config/seven-shadow-system.policy.v3.sample.json");
+  policyRaw.coverageThresholds = {
+    minPatchLines: 2,
+    patchCoverage: { warnBelow: 90, blockBelow: 60 },
+    coverageDrop: { warnAt: 1, blockAt: 5 }
+  };
+
+  const headLines = ["SF:src/cache.ts", ...Array.from({ length: 10 }, (_, index) => `DA:${index + 1},${index < 3 ? 1 : 0}`), "end_of_record", ""];
+  const baseLines = ["SF:src/cache.ts", "DA:1,1", "DA:2,1", "DA:3,1", "DA:4,0", "end_of_record", ""];
+
+  const report = evaluateShadowGate({
+    providerName: "github",
+    eventName: "pull_request",
+    eventPayload: {
+      repository: {
+        full_name: "acme/repo"
+      },
+      pull_request: {
+        number: 108,
+        title: "Cache refresh",
+        body: "Refreshes stale cache entries.",
+        user: {
+          login: "repo-owner",
+          type: "User"
+        }
+      }
+    },
+    policyRaw,
+    doctrineRaw: await loadJson("config/shadow-doctrine.sample.json"),
+    diff: coverageDiff("src/cache.ts", 5, ["const a = 1;", "const b = 2;", "const c = 3;"]),
+    coverage: {
+      head: parseCoverageReport(headLines.join("\n")),
+      base: parseCoverageReport(baseLines.join("\n"))
+    }
+  }).report;
+
+  const byCode = new Map(report.findings.map((finding) => [finding.code, finding]));
+  const regression = byCode.get("SHADOW_TESTING_COVERAGE_REGRESSION");
+  assert.equal(regression?.severity, "high");
+  assert.deepEqual(regression?.details, { basePercent: 75, headPercent: 30, deltaPercent: -45, threshold: 5 });
+
+  const patch = byCode.get("SHADOW_TESTING_PATCH_COVERAGE_LOW");
+  assert.equal(patch?.severity, "high");
+  assert.deepEqual(patch?.locations, [
+    { file: "src/cache.ts", line: 5 },
+    { file: "src/cache.ts", line: 6 },
+    { file: "src/cache.ts", line: 7 }
+  ]);
+  assert.deepEqual(report.coverage?.patch, { coveredLines: 0, totalLines: 3, percent: 0 });
+  assert.match(renderShadowGateMarkdown(report), /Coverage: head 30\.00%, base 75\.00%, delta -45\.00pp, patch 0\.00% \(0\/3 lines\)/);
+
+  policyRaw.coverageThresholds = { patchCoverage: { warnBelow: 50, blockBelow: 80 } };
+  assert.throws(() => parseShadowPolicy(policyRaw), /E_SHADOW_POLICY_INVALID/);
+});
+
+test("coverage flags require a head report when a base report is given", () => {
+  assert.equal(parseShadowGateArgs(["--coverage", "lcov.info", "--base-coverage", "base.info"]).baseCoveragePath, "base.info");
+  assert.throws(() => parseShadowGateArgs(["--base-coverage", "base.info"]), /E_SHADOW_ARG_REQUIRED/);
+  assert.equal(parseTestQualityArgs(["--coverage", "coverage.xml"]).coveragePath, "coverage.xml");
+  assert.throws(() => parseTestQualityArgs(["--base-coverage", "base.xml"]), /E_SENTINEL_ARG_REQUIRED/);
+});
@@ -25,6 +25,7 @@ export interface ApprovalContractCase {
   expectedApprovals: number;
   fetchTimeoutMs: number;
   maxPages: number;
+  apiBaseUrl?: string;
   fetchImpl: typeof fetch;
 }
 
@@ -42,6 +43,7 @@ export interface ProviderApprovalFixtureCase {
   expectedApprovals: number;
   fetchTimeoutMs: number;
   maxPages: number;
+  apiBaseUrl?: string;
   pages: ProviderApprovalPageFixture[];
   defaultStatus?: number;
   defaultBody?: unknown;
@@ -145,6 +147,7 @@ export function runProviderContractSuite(options: ProviderContractSuiteOptions):
       const approvals = await options.provider.fetchHumanApprovalCount(options.approvalCase.context, {
         authToken: "token",
         githubToken: "token",
+        apiBaseUrl: options.approvalCase.apiBaseUrl,
         allowedAuthors: options.approvalCase.allowedAuthors,
         fetchTimeoutMs: options.approvalCase.fetchTimeoutMs,
         maxPages: options.approvalCase.maxPages,
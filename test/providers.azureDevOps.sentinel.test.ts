@@ -0,0 +1,349 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { azureDevOpsSentinelAdapter } from "../src/providers/azureDevOpsSentinel";
+
+const repo = {
+  owner: "acme/Platform",
+  repo: "repo"
+};
+
+const projectPrefix = "https://dev.azure.com/acme/Platform/_apis";
+const repoPrefix = `${projectPrefix}/git/repositories/repo`;
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "content-type": "application/json" }
+  });
+}
+
+function requestPath(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.origin}${parsed.pathname}`;
+}
+
+const pullRequest = {
+  pullRequestId: 27,
+  title: "Harden runtime guard",
+  status: "active",
+  isDraft: false,
+  createdBy: { displayName: "Maintainer", uniqueName: "maintainer@example.com" },
+  creationDate: "2026-02-21T10:00:00.000Z",
+  sourceRefName: "refs/heads/feature/guard",
+  lastMergeSourceCommit: { commitId: "abc123def456" },
+  reviewers: [{ id: "user-1", vote: 0 }]
+};
+
+const threads = [
+  {
+    id: 11,
+    status: "active",
+    threadContext: {
+      filePath: "/src/index.ts",
+      rightFileStart: { line: 12, offset: 1 }
+    },
+    comments: [
+      {
+        id: 1,
+        author: { uniqueName: "reviewer@example.com" },
+        content: "Please handle missing token fallback.",
+        publishedDate: "2026-02-21T11:00:00.000Z",
+        commentType: "text"
+      }
+    ]
+  },
+  {
+    id: 12,
+    status: "fixed",
+    threadContext: { filePath: "/src/skip.ts", rightFileStart: { line: 1 } },
+    comments: [{ id: 2, content: "Resolved already", commentType: "text" }]
+  },
+  {
+    id: 13,
+    status: "active",
+    threadContext: null,
+    comments: [{ id: 3, content: "General question", commentType: "text" }]
+  },
+  {
+    id: 14,
+    status: "active",
+    comments: [{ id: 4, content: "Policy status updated", commentType: "system" }]
+  }
+];
+
+test("azure-devops sentinel resolves active pull request from source branch", async () => {
+  const originalFetch = globalThis.fetch;
+  let requestedUrl = "";
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      requestedUrl = typeof input === "string" ? input : input.toString();
+      return jsonResponse({ value: [pullRequest], count: 1 });
+    };
+
+    const prNumber = await azureDevOpsSentinelAdapter.resolveOpenPullRequestForBranch(repo, "feature/guard", {
+      authToken: "pat"
+    });
+
+    assert.equal(prNumber, 27);
+    const url = new URL(requestedUrl);
+    assert.equal(requestPath(requestedUrl), `${repoPrefix}/pullrequests`);
+    assert.equal(url.searchParams.get("searchCriteria.status"), "active");
+    assert.equal(url.searchParams.get("searchCriteria.sourceRefName"), "refs/heads/feature/guard");
+    assert.equal(url.searchParams.get("api-version"), "7.1");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("azure-devops sentinel returns active file threads as unresolved comments", async () => {
+  const originalFetch = globalThis.fetch;
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      const url = typeof input === "string" ? input : input.toString();
+      if (requestPath(url) === `${repoPrefix}/pullRequests/27/threads`) {
+        return jsonResponse({ value: threads });
+      }
+
+      throw new Error(`Unexpected URL: ${url}`);
+    };
+
+    const comments = await azureDevOpsSentinelAdapter.listUnresolvedComments(repo, 27, { authToken: "pat" });
+
+    assert.deepEqual(comments, [
+      {
+        file: "src/index.ts",
+        line: 12,
+        author: "reviewer@example.com",
+        body: "Please handle missing token fallback.",
+        createdAt: "2026-02-21T11:00:00.000Z",
+        url: "https://dev.azure.com/acme/Platform/_git/repo/pullrequest/27?discussionId=11",
+        resolved: false,
+        outdated: false
+      }
+    ]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("azure-devops sentinel lists failing pipeline jobs for the pull request head and reads job logs", async () => {
+  const originalFetch = globalThis.fetch;
+  const requestedUrls: string[] = [];
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      const url = typeof input === "string" ? input : input.toString();
+      requestedUrls.push(url);
+      const pathValue = requestPath(url);
+
+      if (pathValue === `${repoPrefix}/pullRequests/27`) {
+        return jsonResponse(pullRequest);
+      }
+
+      if (pathValue === `${projectPrefix}/build/builds`) {
+        return jsonResponse({
+          value: [
+            {
+              id: 901,
+              buildNumber: "20260221.3",
+              status: "completed",
+              result: "failed",
+              sourceVersion: "merge-sha",
+              triggerInfo: { "pr.sourceSha": "abc123def456" },
+              definition: { name: "CI" },
+              _links: { web: { href: "https://dev.azure.com/acme/Platform/_build/results?buildId=901" } }
+            },
+            {
+              id: 900,
+              result: "failed",
+              sourceVersion: "merge-sha-old",
+              triggerInfo: { "pr.sourceSha": "old-sha" },
+              definition: { name: "CI" }
+            }
+          ]
+        });
+      }
+
+      if (pathValue === `${projectPrefix}/build/builds/901/timeline`) {
+        return jsonResponse({
+          records: [
+            { id: "job-a", type: "Job", name: "Test", result: "failed", order: 1, log: { id: 7 } },
+            { id: "task-1", parentId: "job-a", type: "Task", name: "Checkout", result: "succeeded", order: 1 },
+            { id: "task-2", parentId: "job-a", type: "Task", name: "npm test", result: "failed", order: 2 },
+            { id: "job-b", type: "Job", name: "Lint", result: "succeeded", order: 2, log: { id: 8 } }
+          ]
+        });
+      }
+
+      if (pathValue === `${projectPrefix}/build/builds/901/logs/7`) {
+        return new Response("npm ERR! Test failed\n", { status: 200 });
+      }
+
+      throw new Error(`Unexpected URL: ${url}`);
+    };
+
+    const runs = await azureDevOpsSentinelAdapter.listFailureRuns(repo, { prNumber: 27, maxRuns: 5 }, { authToken: "pat" });
+
+    assert.equal(runs.length, 1);
+    assert.equal(runs[0]?.runId, 901);
+    assert.equal(runs[0]?.workflowName, "CI");
+    assert.equal(runs[0]?.headSha, "abc123def456");
+    assert.equal(runs[0]?.conclusion, "failure");
+    assert.equal(runs[0]?.jobs.length, 1);
+    assert.equal(runs[0]?.jobs[0]?.name, "Test");
+    assert.equal(runs[0]?.jobs[0]?.failedStepName, "npm test");
+    assert.deepEqual(
+      runs[0]?.jobs[0]?.steps.map((step) => step.conclusion),
+      ["success", "failure"]
+    );
+
+    const buildsUrl = new URL(requestedUrls.find((url) => requestPath(url) === `${projectPrefix}/build/builds`) ?? "");
+    assert.equal(buildsUrl.searchParams.get("branchName"), "refs/pull/27/merge");
+
+    const logs = await azureDevOpsSentinelAdapter.getJobLogs({
+      repo,
+      jobId: runs[0]?.jobs[0]?.jobId ?? 0,
+      authToken: "pat",
+      maxLogBytes: 1_000
+    });
+    assert.equal(logs, "npm ERR! Test failed\n");
+
+    await assert.rejects(
+      azureDevOpsSentinelAdapter.getJobLogs({ repo, jobId: 5, authToken: "pat", maxLogBytes: 1_000 }),
+      /E_SENTINEL_API_ERROR/
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("azure-devops sentinel maps pending reviewer assignments to notifications", async () => {
+  const originalFetch = globalThis.fetch;
+  let pullsUrl = "";
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      const url = typeof input === "string" ? input : input.toString();
+      if (url === "https://dev.azure.com/acme/_apis/connectionData") {
+        return jsonResponse({ authenticatedUser: { id: "user-1" } });
+      }
+
+      if (requestPath(url) === `${repoPrefix}/pullrequests`) {
+        pullsUrl = url;
+        return jsonResponse({
+          value: [
+            pullRequest,
+            {
+              ...pullRequest,
+              pullRequestId: 28,
+              title: "Already reviewed",
+              reviewers: [{ id: "user-1", vote: 10 }]
+            }
+          ]
+        });
+      }
+
+      throw new Error(`Unexpected URL: ${url}`);
+    };
+
+    const notifications = await azureDevOpsSentinelAdapter.listNotifications(
+      { repo, maxItems: 10, includeRead: false },
+      { authToken: "pat" }
+    );
+
+    assert.equal(new URL(pullsUrl).searchParams.get("searchCriteria.reviewerId"), "user-1");
+    assert.equal(notifications.length, 1);
+    assert.equal(notifications[0]?.pullNumber, 27);
+    assert.equal(notifications[0]?.unread, true);
+    assert.equal(notifications[0]?.webUrl, "https://dev.azure.com/acme/Platform/_git/repo/pullrequest/27");
+
+    await assert.rejects(
+      azureDevOpsSentinelAdapter.listNotifications({ maxItems: 10, includeRead: false }, { authToken: "pat" }),
+      /E_SENTINEL_ARG_INVALID/
+    );
+    await assert.rejects(
+      azureDevOpsSentinelAdapter.listNotifications(
+        { repo: { owner: "acme", repo: "repo" }, maxItems: 10, includeRead: false },
+        { authToken: "pat" }
+      ),
+      /E_SENTINEL_ARG_INVALID: azure-devops --repo/
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("azure-devops sentinel lists active pull requests, summary, and changed files", async () => {
+  const originalFetch = globalThis.fetch;
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      const url = typeof input === "string" ? input : input.toString();
+      const pathValue = requestPath(url);
+
+      if (pathValue === `${repoPrefix}/pullrequests`) {
+        return jsonResponse({ value: [pullRequest] });
+      }
+
+      if (pathValue === `${repoPrefix}/pullRequests/27`) {
+        return jsonResponse(pullRequest);
+      }
+
+      if (pathValue === `${repoPrefix}/pullRequests/27/iterations`) {
+        return jsonResponse({
+          value: [
+            { id: 1, updatedDate: "2026-02-21T10:30:00.000Z" },
+            { id: 2, updatedDate: "2026-02-21T12:00:00.000Z" }
+          ]
+        });
+      }
+
+      if (pathValue === `${repoPrefix}/pullRequests/27/iterations/2/changes`) {
+        return jsonResponse({
+          changeEntries: [
+            { changeType: "edit", item: { path: "/src/commands/score.ts" } },
+            { changeType: "add", item: { path: "/src/commands/patterns.ts" } }
+          ]
+        });
+      }
+
+      if (pathValue === `${repoPrefix}/pullRequests/27/commits`) {
+        return jsonResponse({ value: [{ commitId: "a" }, { commitId: "b" }] });
+      }
+
+      if (pathValue === `${repoPrefix}/pullRequests/27/threads`) {
+        return jsonResponse({ value: threads });
+      }
+
+      throw new Error(`Unexpected URL: ${url}`);
+    };
+
+    const pulls = await azureDevOpsSentinelAdapter.listOpenPullRequests(repo, { maxPullRequests: 5 }, { authToken: "pat" });
+    assert.equal(pulls.length, 1);
+
+    const summary = await azureDevOpsSentinelAdapter.getPullRequestSummary(repo, 27, { authToken: "pat" });
+    assert.equal(summary.state, "open");
+    assert.equal(summary.author, "maintainer@example.com");
+    assert.equal(summary.changedFiles, 2);
+    assert.equal(summary.commits, 2);
+    assert.equal(summary.comments, 1);
+    assert.equal(summary.reviewComments, 2);
+    assert.equal(summary.updatedAt, "2026-02-21T12:00:00.000Z");
+    assert.equal(summary.htmlUrl, "https://dev.azure.com/acme/Platform/_git/repo/pullrequest/27");
+    assert.equal(summary.headSha, "abc123def456");
+
+    const files = await azureDevOpsSentinelAdapter.listPullRequestFiles(repo, 27, { maxFiles: 10 }, { authToken: "pat" });
+    assert.deepEqual(
+      files.map((file) => [file.path, file.status]),
+      [
+        ["src/commands/patterns.ts", "added"],
+        ["src/commands/score.ts", "modified"]
+      ]
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
@@ -0,0 +1,179 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { azureDevOpsProvider } from "../src/providers/azureDevOps";
+import { azureDevOpsSentinelAdapter } from "../src/providers/azureDevOpsSentinel";
+import { getProviderByName } from "../src/providers/registry";
+import type { ApprovalRetryPolicy, ProviderPolicyContext } from "../src/providers/types";
+import { ProviderApprovalError } from "../src/providers/types";
+
+const defaultPolicy: ProviderPolicyContext = {
+  scanPrBody: true,
+  scanReviewBody: true,
+  scanCommentBody: true,
+  approvals: {
+    fetchTimeoutMs: 5_000,
+    maxPages: 10
+  }
+};
+
+const retry: ApprovalRetryPolicy = {
+  enabled: true,
+  maxAttempts: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 2,
+  jitterRatio: 0,
+  retryableStatusCodes: [429, 500, 502, 503, 504]
+};
+
+const repository = {
+  name: "repo",
+  project: {
+    name: "Platform"
+  }
+};
+
+const resourceContainers = {
+  collection: {
+    baseUrl: "https://dev.azure.com/acme/"
+  }
+};
+
+test("azure-devops provider is registered with expected supported events and sentinel adapter", () => {
+  assert.equal(getProviderByName("azure-devops"), azureDevOpsProvider);
+  assert.equal(azureDevOpsProvider.sentinel, azureDevOpsSentinelAdapter);
+  assert.equal(azureDevOpsProvider.approvalTokenEnvVar, "AZURE_DEVOPS_TOKEN");
+  assert.equal(azureDevOpsProvider.apiBaseUrlEnvVar, "AZURE_DEVOPS_API_URL");
+  assert.deepEqual(Array.from(azureDevOpsProvider.supportedEvents).sort(), [
+    "git.pullrequest.created",
+    "git.pullrequest.updated",
+    "ms.vss-code.git-pullrequest-comment-event"
+  ]);
+});
+
+test("azure-devops provider extracts pull request and comment targets", () => {
+  const prTargets = azureDevOpsProvider.extractTargets(
+    "git.pullrequest.updated",
+    {
+      resource: {
+        pullRequestId: 27,
+        description: "Please validate deterministic trust behavior.",
+        createdBy: { displayName: "Maintainer", uniqueName: "maintainer@example.com" },
+        repository
+      },
+      resourceContainers
+    },
+    defaultPolicy
+  );
+
+  assert.deepEqual(prTargets.targets.map((item) => item.source), ["pr_body"]);
+  assert.equal(prTargets.targets[0]?.authorLogin, "maintainer@example.com");
+  assert.equal(prTargets.targets[0]?.referenceId, "pr:27");
+  assert.deepEqual(prTargets.malformedReasons, []);
+
+  const commentTargets = azureDevOpsProvider.extractTargets(
+    "ms.vss-code.git-pullrequest-comment-event",
+    {
+      resource: {
+        comment: {
+          id: 5,
+          content: "Automated reminder to add a regression test.",
+          commentType: "text",
+          author: { displayName: "Platform Build Service (acme)", uniqueName: "Build\\8b2e4f6a" }
+        },
+        pullRequest: { pullRequestId: 27, repository }
+      },
+      resourceContainers
+    },
+    defaultPolicy
+  );
+
+  assert.deepEqual(commentTargets.targets.map((item) => item.source), ["comment"]);
+  assert.equal(commentTargets.targets[0]?.authorType, "Bot");
+  assert.equal(commentTargets.targets[0]?.referenceId, "comment:5");
+});
+
+test("azure-devops provider resolves organization from visualstudio.com collections", () => {
+  const context = azureDevOpsProvider.extractPullContext("git.pullrequest.created", {
+    resource: { pullRequestId: 3, repository },
+    resourceContainers: {
+      collection: {
+        baseUrl: "https://acme.visualstudio.com/"
+      }
+    }
+  });
+
+  assert.deepEqual(context, { owner: "acme/Platform", repo: "repo", pullNumber: 3 });
+});
+
+test("azure-devops provider rejects unsupported event names deterministically", () => {
+  const unsupported = azureDevOpsProvider.extractTargets(
+    "git.pullrequest.merged",
+    { resource: { pullRequestId: 27, repository }, resourceContainers },
+    defaultPolicy
+  );
+
+  assert.deepEqual(unsupported.targets, []);
+  assert.deepEqual(unsupported.malformedReasons, ["unsupported event 'git.pullrequest.merged'"]);
+});
+
+test("azure-devops provider queries reviewers with basic auth on the configured base URL", async () => {
+  const originalFetch = globalThis.fetch;
+  let requestedUrl = "";
+  let authorization = "";
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+      requestedUrl = typeof input === "string" ? input : input.toString();
+      authorization = String((init?.headers as Record<string, string> | undefined)?.Authorization ?? "");
+      return new Response(
+        JSON.stringify({
+          value: [{ vote: 10, displayName: "Alice", uniqueName: "alice@example.com" }]
+        }),
+        {
+          status: 200,
+          headers: { "content-type": "application/json" }
+        }
+      );
+    };
+
+    const approvals = await azureDevOpsProvider.fetchHumanApprovalCount(
+      { owner: "DefaultCollection/Platform", repo: "repo", pullNumber: 27 },
+      {
+        authToken: "pat",
+        githubToken: "pat",
+        apiBaseUrl: "https://tfs.example.com/tfs",
+        allowedAuthors: new Set(),
+        fetchTimeoutMs: 5_000,
+        maxPages: 5,
+        retry
+      }
+    );
+
+    assert.equal(approvals, 1);
+    assert.equal(
+      requestedUrl,
+      "https://tfs.example.com/tfs/DefaultCollection/Platform/_apis/git/repositories/repo/pullRequests/27/reviewers?api-version=7.1"
+    );
+    assert.equal(authorization, `Basic ${Buffer.from(":pat").toString("base64")}`);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("azure-devops provider fails closed when pull context owner lacks a project", async () => {
+  await assert.rejects(
+    azureDevOpsProvider.fetchHumanApprovalCount(
+      { owner: "acme", repo: "repo", pullNumber: 27 },
+      {
+        authToken: "pat",
+        githubToken: "pat",
+        allowedAuthors: new Set(),
+        fetchTimeoutMs: 5_000,
+        maxPages: 5,
+        retry
+      }
+    ),
+    (error: unknown) => error instanceof ProviderApprovalError && error.kind === "fetch_error"
+  );
+});
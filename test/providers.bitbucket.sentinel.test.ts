@@ -0,0 +1,465 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { bitbucketProvider } from "../src/providers/bitbucket";
+import { bitbucketSentinelAdapter } from "../src/providers/bitbucketSentinel";
+
+const repo = {
+  owner: "acme",
+  repo: "repo"
+};
+
+const repoPrefix = "https://api.bitbucket.org/2.0/repositories/acme/repo";
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "content-type": "application/json" }
+  });
+}
+
+const pullRequest = {
+  id: 7,
+  title: "Harden runtime guard",
+  state: "OPEN",
+  draft: false,
+  author: { nickname: "maintainer", uuid: "{author}" },
+  comment_count: 3,
+  created_on: "2026-02-21T10:00:00.000000+00:00",
+  updated_on: "2026-02-21T12:00:00.000000+00:00",
+  links: { html: { href: "https://bitbucket.org/acme/repo/pull-requests/7" } },
+  source: {
+    branch: { name: "feature/guard" },
+    commit: { hash: "abc123def456" }
+  }
+};
+
+const diffstat = [
+  {
+    status: "modified",
+    lines_added: 2,
+    lines_removed: 1,
+    old: { path: "src/commands/score.ts" },
+    new: { path: "src/commands/score.ts" }
+  },
+  {
+    status: "added",
+    lines_added: 1,
+    lines_removed: 0,
+    old: null,
+    new: { path: "src/commands/patterns.ts" }
+  }
+];
+
+test("bitbucket provider exposes the sentinel adapter", () => {
+  assert.equal(bitbucketProvider.sentinel, bitbucketSentinelAdapter);
+});
+
+test("bitbucket sentinel resolves open pull request from source branch", async () => {
+  const originalFetch = globalThis.fetch;
+  let requestedUrl = "";
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      requestedUrl = typeof input === "string" ? input : input.toString();
+      return jsonResponse({ values: [pullRequest] });
+    };
+
+    const prNumber = await bitbucketSentinelAdapter.resolveOpenPullRequestForBranch(repo, "feature/guard", {
+      authToken: "token"
+    });
+
+    assert.equal(prNumber, 7);
+    const url = new URL(requestedUrl);
+    assert.equal(`${url.origin}${url.pathname}`, `${repoPrefix}/pullrequests`);
+    assert.equal(url.searchParams.get("state"), "OPEN");
+    assert.equal(url.searchParams.get("q"), 'source.branch.name="feature/guard"');
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("bitbucket sentinel returns unresolved inline comments and open tasks", async () => {
+  const originalFetch = globalThis.fetch;
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url.startsWith(`${repoPrefix}/pullrequests/7/comments?`)) {
+        return jsonResponse({
+          values: [
+            {
+              id: 101,
+              content: { raw: "Please handle missing token fallback." },
+              user: { nickname: "reviewer" },
+              created_on: "2026-02-21T10:00:00.000000+00:00",
+              inline: { path: "src/index.ts", to: 12, from: null },
+              links: { html: { href: "https://bitbucket.org/acme/repo/pull-requests/7#comment-101" } }
+            },
+            {
+              id: 102,
+              content: { raw: "Reply in thread" },
+              user: { nickname: "maintainer" },
+              parent: { id: 101 },
+              inline: { path: "src/index.ts", to: 12 }
+            },
+            {
+              id: 103,
+              content: { raw: "Resolved thread" },
+              user: { nickname: "skip" },
+              resolution: { type: "comment_resolution" },
+              inline: { path: "src/skip.ts", to: 1 }
+            },
+            {
+              id: 104,
+              content: { raw: "General note" },
+              user: { nickname: "skip" }
+            }
+          ]
+        });
+      }
+
+      if (url.startsWith(`${repoPrefix}/pullrequests/7/tasks?`)) {
+        return jsonResponse({
+          values: [
+            {
+              id: 1,
+              state: "UNRESOLVED",
+              content: { raw: "Add a regression test" },
+              creator: { nickname: "reviewer-two" },
+              created_on: "2026-02-21T11:00:00.000000+00:00",
+              comment: { id: 104 }
+            },
+            {
+              id: 2,
+              state: "RESOLVED",
+              content: { raw: "Done" },
+              creator: { nickname: "skip" }
+            }
+          ]
+        });
+      }
+
+      throw new Error(`Unexpected URL: ${url}`);
+    };
+
+    const comments = await bitbucketSentinelAdapter.listUnresolvedComments(repo, 7, {
+      authToken: "token"
+    });
+
+    assert.equal(comments.length, 2);
+    assert.equal(comments[0]?.file, "src/index.ts");
+    assert.equal(comments[0]?.line, 12);
+    assert.equal(comments[0]?.author, "reviewer");
+    assert.equal(comments[0]?.url, "https://bitbucket.org/acme/repo/pull-requests/7#comment-101");
+    assert.equal(comments[1]?.file, "(pull request)");
+    assert.equal(comments[1]?.author, "reviewer-two");
+    assert.equal(comments[1]?.url, "https://bitbucket.org/acme/repo/pull-requests/7#comment-104");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("bitbucket sentinel lists failing pipeline steps for the pull request head and reads step logs", async () => {
+  const originalFetch = globalThis.fetch;
+  const pipelineUuid = encodeURIComponent("{pipe-41}");
+  const failedStepUuid = encodeURIComponent("{step-b}");
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url === `${repoPrefix}/pullrequests/7`) {
+        return jsonResponse(pullRequest);
+      }
+
+      if (url.startsWith(`${repoPrefix}/pipelines/?`)) {
+        return jsonResponse({
+          values: [
+            {
+              uuid: "{pipe-41}",
+              build_number: 41,
+              state: { name: "COMPLETED", result: { name: "FAILED" } },
+              target: { commit: { hash: "abc123def456789" } }
+            },
+            {
+              uuid: "{pipe-40}",
+              build_number: 40,
+              state: { name: "COMPLETED", result: { name: "FAILED" } },
+              target: { commit: { hash: "0ld5ha" } }
+            },
+            {
+              uuid: "{pipe-39}",
+              build_number: 39,
+              state: { name: "COMPLETED", result: { name: "SUCCESSFUL" } },
+              target: { commit: { hash: "abc123def456789" } }
+            }
+          ]
+        });
+      }
+
+      if (url === `${repoPrefix}/pipelines/41`) {
+        return jsonResponse({ uuid: "{pipe-41}", build_number: 41 });
+      }
+
+      if (url.startsWith(`${repoPrefix}/pipelines/${pipelineUuid}/steps/?`)) {
+        return jsonResponse({
+          values: [
+            { uuid: "{step-a}", name: "lint", state: { name: "COMPLETED", result: { name: "SUCCESSFUL" } } },
+            { uuid: "{step-b}", name: "unit-tests", state: { name: "COMPLETED", result: { name: "FAILED" } } }
+          ]
+        });
+      }
+
+      if (url === `${repoPrefix}/pipelines/${pipelineUuid}/steps/${failedStepUuid}/log`) {
+        return new Response("FAIL test/example.test.ts\nError: expected pass", {
+          status: 200,
+          headers: { "content-type": "application/octet-stream" }
+        });
+      }
+
+      throw new Error(`Unexpected URL: ${url}`);
+    };
+
+    const runs = await bitbucketSentinelAdapter.listFailureRuns(
+      repo,
+      {
+        prNumber: 7,
+        maxRuns: 5
+      },
+      {
+        authToken: "token"
+      }
+    );
+
+    assert.equal(runs.length, 1);
+    assert.equal(runs[0]?.runId, 41);
+    assert.equal(runs[0]?.workflowPath, "bitbucket-pipelines.yml");
+    assert.equal(runs[0]?.conclusion, "failure");
+    assert.equal(runs[0]?.htmlUrl, "https://bitbucket.org/acme/repo/pipelines/results/41");
+    assert.deepEqual(runs[0]?.jobs.map((job) => job.name), ["unit-tests"]);
+
+    const jobId = runs[0]?.jobs[0]?.jobId ?? 0;
+    const logText = await bitbucketSentinelAdapter.getJobLogs({
+      repo,
+      jobId,
+      authToken: "token",
+      maxLogBytes: 500_000
+    });
+    assert.match(logText, /FAIL test\/example\.test\.ts/);
+
+    await assert.rejects(
+      bitbucketSentinelAdapter.getJobLogs({
+        repo,
+        jobId,
+        authToken: "token",
+        maxLogBytes: 8
+      }),
+      /E_SENTINEL_LOG_TOO_LARGE/
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("bitbucket sentinel maps pending review requests to pull request notifications", async () => {
+  const originalFetch = globalThis.fetch;
+  let reviewerQuery = "";
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      const url = new URL(typeof input === "string" ? input : input.toString());
+
+      if (url.pathname === "/2.0/user") {
+        return jsonResponse({ uuid: "{me}", nickname: "me" });
+      }
+
+      if (url.pathname === "/2.0/repositories/acme/repo/pullrequests") {
+        reviewerQuery = url.searchParams.get("q") ?? "";
+        return jsonResponse({
+          values: [
+            {
+              ...pullRequest,
+              participants: [{ user: { uuid: "{me}" }, role: "REVIEWER", approved: false, state: null }]
+            },
+            {
+              ...pullRequest,
+              id: 8,
+              title: "Already approved",
+              participants: [{ user: { uuid: "{me}" }, role: "REVIEWER", approved: true, state: "approved" }]
+            }
+          ]
+        });
+      }
+
+      throw new Error(`Unexpected URL: ${url.toString()}`);
+    };
+
+    const notifications = await bitbucketSentinelAdapter.listNotifications(
+      {
+        repo,
+        maxItems: 20,
+        includeRead: false
+      },
+      {
+        authToken: "token"
+      }
+    );
+
+    assert.equal(reviewerQuery, 'reviewers.uuid="{me}"');
+    assert.equal(notifications.length, 1);
+    assert.equal(notifications[0]?.pullNumber, 7);
+    assert.equal(notifications[0]?.subjectType, "PullRequest");
+    assert.equal(notifications[0]?.reason, "review_requested");
+    assert.equal(notifications[0]?.unread, true);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("bitbucket sentinel fails closed when notification scope or repository is missing", async () => {
+  const originalFetch = globalThis.fetch;
+
+  try {
+    globalThis.fetch = async () => new Response("forbidden", { status: 403 });
+
+    await assert.rejects(
+      bitbucketSentinelAdapter.listNotifications(
+        {
+          repo,
+          maxItems: 5,
+          includeRead: false
+        },
+        {
+          authToken: "token"
+        }
+      ),
+      /E_SENTINEL_NOTIFICATIONS_SCOPE_REQUIRED/
+    );
+
+    await assert.rejects(
+      bitbucketSentinelAdapter.listNotifications(
+        {
+          maxItems: 5,
+          includeRead: false
+        },
+        {
+          authToken: "token"
+        }
+      ),
+      /E_SENTINEL_ARG_INVALID/
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("bitbucket sentinel lists open pull requests, summary, and changed files", async () => {
+  const originalFetch = globalThis.fetch;
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url.startsWith(`${repoPrefix}/pullrequests?`)) {
+        return jsonResponse({ values: [pullRequest] });
+      }
+
+      if (url === `${repoPrefix}/pullrequests/7`) {
+        return jsonResponse(pullRequest);
+      }
+
+      if (url.startsWith(`${repoPrefix}/pullrequests/7/diffstat?`)) {
+        return jsonResponse({ values: diffstat });
+      }
+
+      if (url.startsWith(`${repoPrefix}/pullrequests/7/commits?`)) {
+        return jsonResponse({ values: [{ hash: "abc123def456" }, { hash: "def456abc123" }] });
+      }
+
+      throw new Error(`Unexpected URL: ${url}`);
+    };
+
+    const pulls = await bitbucketSentinelAdapter.listOpenPullRequests(
+      repo,
+      {
+        maxPullRequests: 10
+      },
+      {
+        authToken: "token"
+      }
+    );
+    assert.equal(pulls.length, 1);
+    assert.equal(pulls[0]?.number, 7);
+    assert.equal(pulls[0]?.state, "open");
+
+    const summary = await bitbucketSentinelAdapter.getPullRequestSummary(repo, 7, {
+      authToken: "token"
+    });
+    assert.equal(summary.author, "maintainer");
+    assert.equal(summary.additions, 3);
+    assert.equal(summary.deletions, 1);
+    assert.equal(summary.changedFiles, 2);
+    assert.equal(summary.commits, 2);
+    assert.equal(summary.comments, 3);
+    assert.equal(summary.headSha, "abc123def456");
+
+    const files = await bitbucketSentinelAdapter.listPullRequestFiles(
+      repo,
+      7,
+      {
+        maxFiles: 10
+      },
+      {
+        authToken: "token"
+      }
+    );
+    assert.deepEqual(
+      files.map((file) => file.path),
+      ["src/commands/patterns.ts", "src/commands/score.ts"]
+    );
+    assert.equal(files[1]?.changes, 3);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("bitbucket sentinel only fetches pull request details up to maxPullRequests", async () => {
+  const originalFetch = globalThis.fetch;
+  const detailUrls: string[] = [];
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url.startsWith(`${repoPrefix}/pullrequests?`)) {
+        return jsonResponse({
+          values: [{ ...pullRequest, id: 9, source: {} }, pullRequest, { ...pullRequest, id: 8 }, { ...pullRequest, id: 6 }]
+        });
+      }
+
+      detailUrls.push(url);
+      if (/\/pullrequests\/\d+\/diffstat\?/.test(url)) {
+        return jsonResponse({ values: diffstat });
+      }
+
+      if (/\/pullrequests\/\d+\/commits\?/.test(url)) {
+        return jsonResponse({ values: [{ hash: "abc123def456" }] });
+      }
+
+      throw new Error(`Unexpected URL: ${url}`);
+    };
+
+    const pulls = await bitbucketSentinelAdapter.listOpenPullRequests(repo, { maxPullRequests: 2 }, { authToken: "token" });
+
+    assert.deepEqual(
+      pulls.map((pull) => pull.number),
+      [7, 8]
+    );
+    assert.equal(detailUrls.length, 4);
+    assert.equal(detailUrls.some((url) => url.includes("/pullrequests/6/") || url.includes("/pullrequests/9/")), false);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
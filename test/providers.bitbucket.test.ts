@@ -192,3 +192,71 @@ test("bitbucket provider counts unique approved humans", async () => {
     globalThis.fetch = originalFetch;
   }
 });
+
+test("bitbucket provider counts only approvals recorded after the head commit update", async () => {
+  const originalFetch = globalThis.fetch;
+  const respond = (body: unknown): Response =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: {
+        "content-type": "application/json"
+      }
+    });
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL) => {
+      const url = typeof input === "string" ? input : input.toString();
+      if (url.includes("/activity")) {
+        return respond({
+          values: [
+            { approval: { date: "2026-01-03T00:00:00Z", user: { nickname: "bob", type: "user" } } },
+            { update: { date: "2026-01-02T00:00:00Z", source: { commit: { hash: "abc1234" } } } },
+            { approval: { date: "2026-01-01T12:00:00Z", user: { nickname: "alice", type: "user" } } },
+            { update: { date: "2026-01-01T00:00:00Z", source: { commit: { hash: "0ld5ha" } } } }
+          ]
+        });
+      }
+
+      return respond({
+        source: { commit: { hash: "abc1234" } },
+        participants: [
+          { approved: true, user: { nickname: "alice", type: "user" } },
+          { approved: true, user: { nickname: "bob", type: "user" } }
+        ]
+      });
+    };
+
+    const summary = await bitbucketProvider.fetchHeadApprovalSummary?.(
+      {
+        owner: "acme-workspace",
+        repo: "repo",
+        pullNumber: 7,
+        headSha: "abc1234def5678"
+      },
+      {
+        authToken: "token",
+        githubToken: "token",
+        allowedAuthors: new Set(),
+        fetchTimeoutMs: 5_000,
+        maxPages: 5,
+        retry: {
+          enabled: true,
+          maxAttempts: 2,
+          baseDelayMs: 1,
+          maxDelayMs: 2,
+          jitterRatio: 0,
+          retryableStatusCodes: [429, 500, 502, 503, 504]
+        }
+      }
+    );
+
+    assert.deepEqual(summary, {
+      headSha: "abc1234def5678",
+      approvals: 1,
+      staleApprovals: 1,
+      headApproverLogins: ["bob"]
+    });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
@@ -0,0 +1,147 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { bitbucketServerProvider } from "../src/providers/bitbucketServer";
+import { getProviderByName } from "../src/providers/registry";
+import type { ApprovalRetryPolicy, ProviderPolicyContext } from "../src/providers/types";
+import { ProviderApprovalError } from "../src/providers/types";
+
+const defaultPolicy: ProviderPolicyContext = {
+  scanPrBody: true,
+  scanReviewBody: true,
+  scanCommentBody: true,
+  approvals: {
+    fetchTimeoutMs: 5_000,
+    maxPages: 10
+  }
+};
+
+const retry: ApprovalRetryPolicy = {
+  enabled: true,
+  maxAttempts: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 2,
+  jitterRatio: 0,
+  retryableStatusCodes: [429, 500, 502, 503, 504]
+};
+
+const toRef = {
+  repository: {
+    slug: "repo",
+    project: {
+      key: "ACME"
+    }
+  }
+};
+
+test("bitbucket-server provider is registered with expected supported events", () => {
+  assert.equal(getProviderByName("bitbucket-server"), bitbucketServerProvider);
+  assert.equal(bitbucketServerProvider.approvalTokenEnvVar, "BITBUCKET_SERVER_TOKEN");
+  assert.equal(bitbucketServerProvider.apiBaseUrlEnvVar, "BITBUCKET_SERVER_BASE_URL");
+  assert.deepEqual(Array.from(bitbucketServerProvider.supportedEvents).sort(), [
+    "pr:comment:added",
+    "pr:comment:edited",
+    "pr:modified",
+    "pr:opened"
+  ]);
+});
+
+test("bitbucket-server provider extracts pull request and comment targets", () => {
+  const prTargets = bitbucketServerProvider.extractTargets(
+    "pr:modified",
+    {
+      actor: { slug: "maintainer", type: "NORMAL" },
+      pullRequest: {
+        id: 7,
+        description: "Please validate deterministic trust behavior.",
+        author: { user: { slug: "maintainer", type: "NORMAL" } },
+        toRef
+      }
+    },
+    defaultPolicy
+  );
+
+  assert.deepEqual(prTargets.targets.map((item) => item.source), ["pr_body"]);
+  assert.equal(prTargets.targets[0]?.authorLogin, "maintainer");
+  assert.deepEqual(prTargets.malformedReasons, []);
+
+  const commentTargets = bitbucketServerProvider.extractTargets(
+    "pr:comment:added",
+    {
+      actor: { slug: "ci-service", type: "SERVICE" },
+      pullRequest: { id: 7, toRef },
+      comment: {
+        id: 99,
+        text: "Automated reminder to add a regression test.",
+        author: { slug: "ci-service", type: "SERVICE" }
+      }
+    },
+    defaultPolicy
+  );
+
+  assert.deepEqual(commentTargets.targets.map((item) => item.source), ["comment"]);
+  assert.equal(commentTargets.targets[0]?.authorType, "Bot");
+  assert.equal(commentTargets.targets[0]?.referenceId, "comment:99");
+});
+
+test("bitbucket-server provider rejects unsupported event names deterministically", () => {
+  const unsupported = bitbucketServerProvider.extractTargets("pr:merged", { pullRequest: { id: 7, toRef } }, defaultPolicy);
+
+  assert.deepEqual(unsupported.targets, []);
+  assert.deepEqual(unsupported.malformedReasons, ["unsupported event 'pr:merged'"]);
+});
+
+test("bitbucket-server provider queries the configured Data Center base URL", async () => {
+  const originalFetch = globalThis.fetch;
+  let requestedUrl = "";
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      requestedUrl = typeof input === "string" ? input : input.toString();
+      return new Response(
+        JSON.stringify({
+          reviewers: [{ approved: true, status: "APPROVED", user: { slug: "alice", type: "NORMAL" } }]
+        }),
+        {
+          status: 200,
+          headers: { "content-type": "application/json" }
+        }
+      );
+    };
+
+    const approvals = await bitbucketServerProvider.fetchHumanApprovalCount(
+      { owner: "ACME", repo: "repo", pullNumber: 7 },
+      {
+        authToken: "token",
+        githubToken: "token",
+        apiBaseUrl: "https://bitbucket.example.com/context/",
+        allowedAuthors: new Set(),
+        fetchTimeoutMs: 5_000,
+        maxPages: 5,
+        retry
+      }
+    );
+
+    assert.equal(approvals, 1);
+    assert.equal(requestedUrl, "https://bitbucket.example.com/context/rest/api/1.0/projects/ACME/repos/repo/pull-requests/7");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("bitbucket-server provider fails closed when base URL is not configured", async () => {
+  await assert.rejects(
+    bitbucketServerProvider.fetchHumanApprovalCount(
+      { owner: "ACME", repo: "repo", pullNumber: 7 },
+      {
+        authToken: "token",
+        githubToken: "token",
+        allowedAuthors: new Set(),
+        fetchTimeoutMs: 5_000,
+        maxPages: 5,
+        retry
+      }
+    ),
+    (error: unknown) => error instanceof ProviderApprovalError && error.kind === "fetch_error"
+  );
+});
@@ -80,6 +80,7 @@ for (const relativeProviderPath of manifest.providers) {
       expectedApprovals: fixture.approvalCase.expectedApprovals,
       fetchTimeoutMs: fixture.approvalCase.fetchTimeoutMs,
       maxPages: fixture.approvalCase.maxPages,
+      apiBaseUrl: fixture.approvalCase.apiBaseUrl,
       fetchImpl: buildPagedFetchStub({
         pages: fixture.approvalCase.pages,
         defaultStatus: fixture.approvalCase.defaultStatus,
@@ -0,0 +1,150 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { giteaProvider } from "../src/providers/gitea";
+import { getProviderByName } from "../src/providers/registry";
+import type { ApprovalRetryPolicy, ProviderPolicyContext } from "../src/providers/types";
+import { ProviderApprovalError } from "../src/providers/types";
+
+const defaultPolicy: ProviderPolicyContext = {
+  scanPrBody: true,
+  scanReviewBody: true,
+  scanCommentBody: true,
+  approvals: {
+    fetchTimeoutMs: 5_000,
+    maxPages: 10
+  }
+};
+
+const retry: ApprovalRetryPolicy = {
+  enabled: true,
+  maxAttempts: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 2,
+  jitterRatio: 0,
+  retryableStatusCodes: [429, 500, 502, 503, 504]
+};
+
+const repository = {
+  name: "repo",
+  full_name: "acme/repo",
+  owner: { login: "acme" }
+};
+
+test("gitea provider is registered with expected supported events", () => {
+  assert.equal(getProviderByName("gitea"), giteaProvider);
+  assert.equal(giteaProvider.approvalTokenEnvVar, "GITEA_TOKEN");
+  assert.equal(giteaProvider.apiBaseUrlEnvVar, "GITEA_API_URL");
+  assert.deepEqual(Array.from(giteaProvider.supportedEvents).sort(), [
+    "issue_comment",
+    "pull_request",
+    "pull_request_comment",
+    "pull_request_review",
+    "pull_request_review_approved",
+    "pull_request_review_rejected"
+  ]);
+});
+
+test("gitea provider attributes review content to the webhook sender", () => {
+  const result = giteaProvider.extractTargets(
+    "pull_request_review",
+    {
+      pull_request: { number: 12, body: "", user: { login: "maintainer" } },
+      review: { type: "pull_request_review_rejected", content: "Please split this change." },
+      repository,
+      sender: { login: "reviewer" }
+    },
+    defaultPolicy
+  );
+
+  assert.deepEqual(result.malformedReasons, []);
+  assert.deepEqual(result.targets.map((item) => item.source), ["review"]);
+  assert.equal(result.targets[0]?.authorLogin, "reviewer");
+  assert.equal(result.targets[0]?.authorType, "User");
+  assert.equal(result.targets[0]?.referenceId, "review:12");
+});
+
+test("gitea provider treats actions accounts as bots on pull_request_comment", () => {
+  const result = giteaProvider.extractTargets(
+    "pull_request_comment",
+    {
+      issue: { number: 12, pull_request: { merged: false } },
+      comment: { id: 77, body: "Workflow run finished.", user: { login: "forgejo-actions" } },
+      repository,
+      is_pull: true
+    },
+    defaultPolicy
+  );
+
+  assert.deepEqual(result.targets.map((item) => item.source), ["comment"]);
+  assert.equal(result.targets[0]?.authorType, "Bot");
+  assert.deepEqual(giteaProvider.extractPullContext("pull_request_comment", {
+    issue: { number: 12 },
+    repository,
+    is_pull: true
+  }), { owner: "acme", repo: "repo", pullNumber: 12 });
+});
+
+test("gitea provider rejects unsupported event names deterministically", () => {
+  const unsupported = giteaProvider.extractTargets(
+    "push",
+    { pull_request: { number: 12, body: "text" }, repository },
+    defaultPolicy
+  );
+
+  assert.deepEqual(unsupported.targets, []);
+  assert.deepEqual(unsupported.malformedReasons, ["unsupported event 'push'"]);
+});
+
+test("gitea provider queries reviews on the configured API base URL with token auth", async () => {
+  const originalFetch = globalThis.fetch;
+  let requestedUrl = "";
+  let authorization = "";
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+      requestedUrl = typeof input === "string" ? input : input.toString();
+      authorization = String((init?.headers as Record<string, string> | undefined)?.Authorization ?? "");
+      return new Response(JSON.stringify([{ id: 1, state: "APPROVED", user: { login: "alice" } }]), {
+        status: 200,
+        headers: { "content-type": "application/json" }
+      });
+    };
+
+    const approvals = await giteaProvider.fetchHumanApprovalCount(
+      { owner: "acme", repo: "repo", pullNumber: 12 },
+      {
+        authToken: "token",
+        githubToken: "token",
+        apiBaseUrl: "https://git.example.com/api/v1/",
+        allowedAuthors: new Set(),
+        fetchTimeoutMs: 5_000,
+        maxPages: 5,
+        retry
+      }
+    );
+
+    assert.equal(approvals, 1);
+    assert.equal(requestedUrl, "https://git.example.com/api/v1/repos/acme/repo/pulls/12/reviews?limit=50&page=1");
+    assert.equal(authorization, "token token");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("gitea provider fails closed when API base URL is missing", async () => {
+  await assert.rejects(
+    giteaProvider.fetchHumanApprovalCount(
+      { owner: "acme", repo: "repo", pullNumber: 12 },
+      {
+        authToken: "token",
+        githubToken: "token",
+        allowedAuthors: new Set(),
+        fetchTimeoutMs: 5_000,
+        maxPages: 5,
+        retry
+      }
+    ),
+    (error: unknown) => error instanceof ProviderApprovalError && error.kind === "fetch_error"
+  );
+});
@@ -405,3 +405,55 @@ test("github sentinel lists open pull requests, summary, and files", async () =>
     globalThis.fetch = originalFetch;
   }
 });
+
+test("github sentinel routes REST and GraphQL calls through a GitHub Enterprise Server base URL", async () => {
+  const originalFetch = globalThis.fetch;
+  const requestedUrls: string[] = [];
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      const url = typeof input === "string" ? input : input.toString();
+      requestedUrls.push(url);
+
+      if (url.endsWith("/api/graphql")) {
+        return new Response(
+          JSON.stringify({
+            data: {
+              repository: {
+                pullRequest: {
+                  reviewThreads: {
+                    pageInfo: { hasNextPage: false, endCursor: null },
+                    nodes: []
+                  }
+                }
+              }
+            }
+          }),
+          {
+            status: 200,
+            headers: { "content-type": "application/json" }
+          }
+        );
+      }
+
+      return new Response(JSON.stringify([{ number: 42 }]), {
+        status: 200,
+        headers: { "content-type": "application/json" }
+      });
+    };
+
+    const options = {
+      authToken: "token",
+      apiBaseUrl: "https://ghe.example.com/api/v3"
+    };
+    const prNumber = await githubSentinelAdapter.resolveOpenPullRequestForBranch(repo, "feature/test", options);
+    const comments = await githubSentinelAdapter.listUnresolvedComments(repo, 42, options);
+
+    assert.equal(prNumber, 42);
+    assert.deepEqual(comments, []);
+    assert.ok(requestedUrls[0]?.startsWith("https://ghe.example.com/api/v3/repos/acme/platform/pulls?"));
+    assert.equal(requestedUrls[1], "https://ghe.example.com/api/graphql");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
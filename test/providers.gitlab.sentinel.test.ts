@@ -0,0 +1,469 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { gitlabProvider } from "../src/providers/gitlab";
+import { gitlabSentinelAdapter } from "../src/providers/gitlabSentinel";
+
+const repo = {
+  owner: "acme/platform",
+  repo: "repo"
+};
+
+const projectPrefix = "https://gitlab.com/api/v4/projects/acme%2Fplatform%2Frepo";
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "content-type": "application/json" }
+  });
+}
+
+const mergeRequest = {
+  iid: 7,
+  title: "Harden runtime guard",
+  state: "opened",
+  draft: false,
+  author: { username: "maintainer" },
+  source_branch: "feature/guard",
+  sha: "abc123",
+  user_notes_count: 3,
+  created_at: "2026-02-21T10:00:00.000Z",
+  updated_at: "2026-02-21T12:00:00.000Z",
+  web_url: "https://gitlab.com/acme/platform/repo/-/merge_requests/7"
+};
+
+const mergeRequestDiffs = [
+  {
+    new_path: "src/commands/score.ts",
+    old_path: "src/commands/score.ts",
+    new_file: false,
+    deleted_file: false,
+    renamed_file: false,
+    diff: "@@ -1,2 +1,3 @@\n-const a = 1;\n+const a = 2;\n+const b = 3;\n"
+  },
+  {
+    new_path: "src/commands/patterns.ts",
+    old_path: "src/commands/patterns.ts",
+    new_file: true,
+    deleted_file: false,
+    renamed_file: false,
+    diff: "@@ -0,0 +1,1 @@\n+export {};\n"
+  }
+];
+
+test("gitlab provider exposes the sentinel adapter", () => {
+  assert.equal(gitlabProvider.sentinel, gitlabSentinelAdapter);
+});
+
+test("gitlab sentinel resolves open merge request from source branch", async () => {
+  const originalFetch = globalThis.fetch;
+  let requestedUrl = "";
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      requestedUrl = typeof input === "string" ? input : input.toString();
+      return jsonResponse([mergeRequest]);
+    };
+
+    const prNumber = await gitlabSentinelAdapter.resolveOpenPullRequestForBranch(repo, "feature/guard", {
+      authToken: "token"
+    });
+
+    assert.equal(prNumber, 7);
+    assert.ok(requestedUrl.startsWith(`${projectPrefix}/merge_requests?`));
+    assert.match(requestedUrl, /source_branch=feature%2Fguard/);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("gitlab sentinel returns unresolved diff discussions with file and line", async () => {
+  const originalFetch = globalThis.fetch;
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url === `${projectPrefix}/merge_requests/7`) {
+        return jsonResponse(mergeRequest);
+      }
+
+      if (url.startsWith(`${projectPrefix}/merge_requests/7/discussions?`)) {
+        return jsonResponse([
+          {
+            id: "d1",
+            notes: [
+              {
+                id: 101,
+                body: "Please handle missing token fallback.",
+                author: { username: "reviewer" },
+                created_at: "2026-02-21T10:00:00.000Z",
+                resolvable: true,
+                resolved: false,
+                position: { new_path: "src/index.ts", new_line: 12 }
+              },
+              {
+                id: 102,
+                body: "Still open after the latest push.",
+                author: { username: "reviewer-two" },
+                created_at: "2026-02-21T11:00:00.000Z",
+                resolvable: true,
+                resolved: false,
+                position: { new_path: "src/index.ts", new_line: 12 }
+              }
+            ]
+          },
+          {
+            id: "d2",
+            notes: [
+              {
+                id: 201,
+                body: "Resolved thread",
+                author: { username: "skip" },
+                resolvable: true,
+                resolved: true,
+                position: { new_path: "src/skip.ts", new_line: 1 }
+              }
+            ]
+          },
+          {
+            id: "d3",
+            notes: [
+              {
+                id: 301,
+                body: "General discussion without diff position",
+                author: { username: "skip" },
+                resolvable: true,
+                resolved: false,
+                position: null
+              }
+            ]
+          }
+        ]);
+      }
+
+      throw new Error(`Unexpected URL: ${url}`);
+    };
+
+    const comments = await gitlabSentinelAdapter.listUnresolvedComments(repo, 7, {
+      authToken: "token"
+    });
+
+    assert.equal(comments.length, 1);
+    assert.equal(comments[0]?.file, "src/index.ts");
+    assert.equal(comments[0]?.line, 12);
+    assert.equal(comments[0]?.author, "reviewer-two");
+    assert.equal(comments[0]?.url, "https://gitlab.com/acme/platform/repo/-/merge_requests/7#note_102");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("gitlab sentinel lists failing pipelines for the merge request head and reads job traces", async () => {
+  const originalFetch = globalThis.fetch;
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url === `${projectPrefix}/merge_requests/7`) {
+        return jsonResponse(mergeRequest);
+      }
+
+      if (url.startsWith(`${projectPrefix}/merge_requests/7/pipelines?`)) {
+        return jsonResponse([
+          {
+            id: 900,
+            iid: 41,
+            sha: "abc123",
+            status: "failed",
+            web_url: "https://gitlab.com/acme/platform/repo/-/pipelines/900"
+          },
+          {
+            id: 899,
+            iid: 40,
+            sha: "old-sha",
+            status: "failed",
+            web_url: "https://gitlab.com/acme/platform/repo/-/pipelines/899"
+          }
+        ]);
+      }
+
+      if (url.startsWith(`${projectPrefix}/pipelines/900/jobs?`)) {
+        return jsonResponse([
+          {
+            id: 500,
+            name: "unit-tests",
+            stage: "test",
+            status: "failed",
+            allow_failure: false,
+            web_url: "https://gitlab.com/acme/platform/repo/-/jobs/500"
+          },
+          {
+            id: 501,
+            name: "optional-audit",
+            stage: "test",
+            status: "failed",
+            allow_failure: true,
+            web_url: "https://gitlab.com/acme/platform/repo/-/jobs/501"
+          },
+          {
+            id: 502,
+            name: "lint",
+            stage: "test",
+            status: "success",
+            allow_failure: false,
+            web_url: "https://gitlab.com/acme/platform/repo/-/jobs/502"
+          }
+        ]);
+      }
+
+      if (url === `${projectPrefix}/jobs/500/trace`) {
+        return new Response("FAIL test/example.test.ts\nError: expected pass", {
+          status: 200,
+          headers: { "content-type": "text/plain" }
+        });
+      }
+
+      throw new Error(`Unexpected URL: ${url}`);
+    };
+
+    const runs = await gitlabSentinelAdapter.listFailureRuns(
+      repo,
+      {
+        prNumber: 7,
+        maxRuns: 5
+      },
+      {
+        authToken: "token"
+      }
+    );
+
+    assert.equal(runs.length, 1);
+    assert.equal(runs[0]?.runId, 900);
+    assert.equal(runs[0]?.workflowPath, ".gitlab-ci.yml");
+    assert.equal(runs[0]?.conclusion, "failure");
+    assert.deepEqual(runs[0]?.jobs.map((job) => job.name), ["unit-tests"]);
+
+    const logText = await gitlabSentinelAdapter.getJobLogs({
+      repo,
+      jobId: 500,
+      authToken: "token",
+      maxLogBytes: 500_000
+    });
+    assert.match(logText, /FAIL test\/example\.test\.ts/);
+
+    await assert.rejects(
+      gitlabSentinelAdapter.getJobLogs({
+        repo,
+        jobId: 500,
+        authToken: "token",
+        maxLogBytes: 8
+      }),
+      /E_SENTINEL_LOG_TOO_LARGE/
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("gitlab sentinel maps pending to-do items to pull request notifications", async () => {
+  const originalFetch = globalThis.fetch;
+  const requestedStates: string[] = [];
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      const url = new URL(typeof input === "string" ? input : input.toString());
+      if (url.pathname === "/api/v4/todos") {
+        requestedStates.push(url.searchParams.get("state") ?? "");
+        return jsonResponse([
+          {
+            id: 1,
+            action_name: "review_requested",
+            target_type: "MergeRequest",
+            target_url: "https://gitlab.com/acme/platform/repo/-/merge_requests/7",
+            state: "pending",
+            updated_at: "2026-02-21T12:00:00.000Z",
+            project: { path_with_namespace: "acme/platform/repo" },
+            target: { iid: 7, title: "Harden runtime guard" }
+          },
+          {
+            id: 2,
+            action_name: "mentioned",
+            target_type: "Issue",
+            state: "pending",
+            updated_at: "2026-02-21T11:00:00.000Z",
+            project: { path_with_namespace: "acme/platform/repo" },
+            target: { iid: 11, title: "Issue update" }
+          },
+          {
+            id: 3,
+            action_name: "assigned",
+            target_type: "MergeRequest",
+            state: "pending",
+            updated_at: "2026-02-21T13:00:00.000Z",
+            project: { path_with_namespace: "acme/other" },
+            target: { iid: 9, title: "Other project" }
+          }
+        ]);
+      }
+
+      throw new Error(`Unexpected URL: ${url.toString()}`);
+    };
+
+    const notifications = await gitlabSentinelAdapter.listNotifications(
+      {
+        repo,
+        maxItems: 20,
+        includeRead: false
+      },
+      {
+        authToken: "token"
+      }
+    );
+
+    assert.deepEqual(requestedStates, ["pending"]);
+    assert.equal(notifications.length, 2);
+    assert.equal(notifications[0]?.pullNumber, 7);
+    assert.equal(notifications[0]?.subjectType, "PullRequest");
+    assert.equal(notifications[0]?.unread, true);
+    assert.equal(notifications[1]?.pullNumber, null);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("gitlab sentinel fails closed when to-do scope is missing", async () => {
+  const originalFetch = globalThis.fetch;
+
+  try {
+    globalThis.fetch = async () => new Response("forbidden", { status: 403 });
+
+    await assert.rejects(
+      gitlabSentinelAdapter.listNotifications(
+        {
+          maxItems: 5,
+          includeRead: false
+        },
+        {
+          authToken: "token"
+        }
+      ),
+      /E_SENTINEL_NOTIFICATIONS_SCOPE_REQUIRED/
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("gitlab sentinel lists open merge requests, summary, and changed files", async () => {
+  const originalFetch = globalThis.fetch;
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url.startsWith(`${projectPrefix}/merge_requests?`)) {
+        return jsonResponse([mergeRequest]);
+      }
+
+      if (url === `${projectPrefix}/merge_requests/7`) {
+        return jsonResponse(mergeRequest);
+      }
+
+      if (url.startsWith(`${projectPrefix}/merge_requests/7/diffs?`)) {
+        return jsonResponse(mergeRequestDiffs);
+      }
+
+      if (url.startsWith(`${projectPrefix}/merge_requests/7/commits?`)) {
+        return jsonResponse([{ id: "abc123" }, { id: "def456" }]);
+      }
+
+      throw new Error(`Unexpected URL: ${url}`);
+    };
+
+    const pulls = await gitlabSentinelAdapter.listOpenPullRequests(
+      repo,
+      {
+        maxPullRequests: 10
+      },
+      {
+        authToken: "token"
+      }
+    );
+    assert.equal(pulls.length, 1);
+    assert.equal(pulls[0]?.number, 7);
+    assert.equal(pulls[0]?.state, "open");
+
+    const summary = await gitlabSentinelAdapter.getPullRequestSummary(repo, 7, {
+      authToken: "token"
+    });
+    assert.equal(summary.title, "Harden runtime guard");
+    assert.equal(summary.additions, 3);
+    assert.equal(summary.deletions, 1);
+    assert.equal(summary.changedFiles, 2);
+    assert.equal(summary.commits, 2);
+    assert.equal(summary.headSha, "abc123");
+
+    const files = await gitlabSentinelAdapter.listPullRequestFiles(
+      repo,
+      7,
+      {
+        maxFiles: 10
+      },
+      {
+        authToken: "token"
+      }
+    );
+
+    assert.equal(files.length, 2);
+    assert.equal(files[0]?.path, "src/commands/patterns.ts");
+    assert.equal(files[0]?.status, "added");
+    assert.equal(files[1]?.path, "src/commands/score.ts");
+    assert.equal(files[1]?.changes, 3);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("gitlab sentinel only fetches merge request details up to maxPullRequests", async () => {
+  const originalFetch = globalThis.fetch;
+  const detailUrls: string[] = [];
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL): Promise<Response> => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url.startsWith(`${projectPrefix}/merge_requests?`)) {
+        return jsonResponse([
+          { ...mergeRequest, iid: 9, sha: undefined },
+          mergeRequest,
+          { ...mergeRequest, iid: 8 },
+          { ...mergeRequest, iid: 6 }
+        ]);
+      }
+
+      detailUrls.push(url);
+      if (/\/merge_requests\/\d+\/diffs\?/.test(url)) {
+        return jsonResponse(mergeRequestDiffs);
+      }
+
+      if (/\/merge_requests\/\d+\/commits\?/.test(url)) {
+        return jsonResponse([{ id: "abc123" }]);
+      }
+
+      throw new Error(`Unexpected URL: ${url}`);
+    };
+
+    const pulls = await gitlabSentinelAdapter.listOpenPullRequests(repo, { maxPullRequests: 2 }, { authToken: "token" });
+
+    assert.deepEqual(
+      pulls.map((pull) => pull.number),
+      [7, 8]
+    );
+    assert.equal(detailUrls.length, 4);
+    assert.equal(detailUrls.some((url) => url.includes("/merge_requests/6/") || url.includes("/merge_requests/9/")), false);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
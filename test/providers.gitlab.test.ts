@@ -229,3 +229,72 @@ test("gitlab provider counts unique non-bot approvals", async () => {
     globalThis.fetch = originalFetch;
   }
 });
+
+test("gitlab provider counts only approvals granted after the head commit was pushed", async () => {
+  const originalFetch = globalThis.fetch;
+  const respond = (body: unknown): Response =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: {
+        "content-type": "application/json"
+      }
+    });
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL) => {
+      const url = typeof input === "string" ? input : input.toString();
+      if (url.includes("/versions")) {
+        return respond([
+          { head_commit_sha: "head-sha", created_at: "2026-01-02T00:00:00Z" },
+          { head_commit_sha: "old-sha", created_at: "2026-01-01T00:00:00Z" }
+        ]);
+      }
+      if (url.includes("/notes")) {
+        return respond([
+          { system: true, body: "approved this merge request", created_at: "2026-01-01T12:00:00Z", author: { username: "alice" } },
+          { system: true, body: "approved this merge request", created_at: "2026-01-03T00:00:00Z", author: { username: "bob" } },
+          { system: false, body: "approved this merge request", created_at: "2026-01-03T00:00:00Z", author: { username: "alice" } }
+        ]);
+      }
+      if (url.includes("/approvals")) {
+        return respond({
+          approved_by: [{ user: { username: "alice", bot: false } }, { user: { username: "bob", bot: false } }]
+        });
+      }
+
+      return respond({ iid: 7, sha: "head-sha" });
+    };
+
+    const summary = await gitlabProvider.fetchHeadApprovalSummary?.(
+      {
+        owner: "acme/platform",
+        repo: "repo",
+        pullNumber: 7
+      },
+      {
+        authToken: "token",
+        githubToken: "token",
+        allowedAuthors: new Set(),
+        fetchTimeoutMs: 5_000,
+        maxPages: 5,
+        retry: {
+          enabled: true,
+          maxAttempts: 2,
+          baseDelayMs: 1,
+          maxDelayMs: 2,
+          jitterRatio: 0,
+          retryableStatusCodes: [429, 500, 502, 503, 504]
+        }
+      }
+    );
+
+    assert.deepEqual(summary, {
+      headSha: "head-sha",
+      approvals: 1,
+      staleApprovals: 1,
+      headApproverLogins: ["bob"]
+    });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
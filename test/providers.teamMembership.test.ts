@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { bitbucketProvider } from "../src/providers/bitbucket";
+import { gitlabProvider } from "../src/providers/gitlab";
+import { clearTeamMembershipCache, parseTeamReference, resolveTeamMembers } from "../src/providers/teamMembership";
+import type { ProviderApprovalOptions } from "../src/providers/types";
+
+const options: ProviderApprovalOptions = {
+  authToken: "token",
+  githubToken: "token",
+  allowedAuthors: new Set(),
+  fetchTimeoutMs: 5_000,
+  maxPages: 5,
+  retry: {
+    enabled: true,
+    maxAttempts: 2,
+    baseDelayMs: 1,
+    maxDelayMs: 2,
+    jitterRatio: 0,
+    retryableStatusCodes: [429, 500, 502, 503, 504]
+  }
+};
+
+test("parseTeamReference accepts @org/team and nested group references only", () => {
+  assert.deepEqual(parseTeamReference("@acme/maintainers"), { org: "acme", slug: "maintainers" });
+  assert.deepEqual(parseTeamReference(" @acme/platform/oncall "), { org: "acme", slug: "platform/oncall" });
+  assert.equal(parseTeamReference("alice"), null);
+  assert.equal(parseTeamReference("acme/maintainers"), null);
+  assert.equal(parseTeamReference("@acme/"), null);
+  assert.equal(parseTeamReference("@acme//team"), null);
+});
+
+test("resolveTeamMembers caches gitlab group members until the TTL expires", async () => {
+  const originalFetch = globalThis.fetch;
+  const requestedUrls: string[] = [];
+  let now = 1_000;
+  clearTeamMembershipCache();
+
+  try {
+    globalThis.fetch = async (input: RequestInfo | URL) => {
+      requestedUrls.push(typeof input === "string" ? input : input.toString());
+      return new Response(JSON.stringify([{ username: "Alice" }, { username: "bob" }, { username: "alice" }]), {
+        status: 200,
+        headers: {
+          "content-type": "application/json"
+        }
+      });
+    };
+
+    const team = { org: "acme", slug: "platform/oncall" };
+    assert.deepEqual(await resolveTeamMembers(gitlabProvider, team, options, () => now), ["alice", "bob"]);
+    now += 60_000;
+    assert.deepEqual(await resolveTeamMembers(gitlabProvider, team, options, () => now), ["alice", "bob"]);
+    assert.equal(requestedUrls.length, 1);
+    assert.equal(requestedUrls[0], "https://gitlab.com/api/v4/groups/acme%2Fplatform%2Foncall/members/all?per_page=100&page=1");
+
+    now += 5 * 60 * 1000;
+    await resolveTeamMembers(gitlabProvider, team, options, () => now);
+    assert.equal(requestedUrls.length, 2);
+  } finally {
+    globalThis.fetch = originalFetch;
+    clearTeamMembershipCache();
+  }
+});
+
+test("resolveTeamMembers rejects providers without a team membership API", async () => {
+  await assert.rejects(
+    resolveTeamMembers(bitbucketProvider, { org: "acme", slug: "maintainers" }, options),
+    /^Error: E_TEAM_UNSUPPORTED: provider 'bitbucket' cannot resolve team @acme\/maintainers$/
+  );
+});
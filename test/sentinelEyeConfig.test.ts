@@ -5,6 +5,8 @@ import path from "node:path";
 import test from "node:test";
 
 import {
+  createDefaultSentinelEyeConfig,
+  getConfiguredApiBaseUrl,
   loadSentinelEyeConfig,
   parseSentinelEyeConfig,
   writeSentinelEyeConfig
@@ -139,3 +141,28 @@ test("writeSentinelEyeConfig persists canonical JSON with deterministic ordering
     await fs.rm(tempDir, { recursive: true, force: true });
   }
 });
+
+test("parseSentinelEyeConfig accepts per-provider API base URLs", () => {
+  const config = parseSentinelEyeConfig({
+    ...createDefaultSentinelEyeConfig(),
+    providers: {
+      gitlab: {
+        apiBaseUrl: "https://gitlab.example.com/api/v4"
+      }
+    }
+  });
+
+  assert.equal(getConfiguredApiBaseUrl(config, "gitlab"), "https://gitlab.example.com/api/v4");
+  assert.equal(getConfiguredApiBaseUrl(config, "github"), undefined);
+
+  assert.throws(() => {
+    parseSentinelEyeConfig({
+      ...createDefaultSentinelEyeConfig(),
+      providers: {
+        gitlab: {
+          apiBaseUrl: "not a url"
+        }
+      }
+    });
+  }, /E_SENTINEL_CONFIG_INVALID/);
+});
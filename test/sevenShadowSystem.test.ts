@@ -1,3 +1,4 @@
+import crypto from "node:crypto";
 import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
@@ -8,10 +9,13 @@ import { promisify } from "node:util";
 
 import {
   GuardPolicySchema,
+  evaluateGuard,
   evaluateTargets,
   extractTargetsFromEvent,
   runSevenShadowSystem
 } from "../src/sevenShadowSystem";
+import { githubProvider } from "../src/providers/github";
+import { clearTeamMembershipCache } from "../src/providers/teamMembership";
 
 const execFileAsync = promisify(execFile);
 
@@ -157,6 +161,163 @@ test("evaluateTargets rejects unsafe regex patterns", () => {
   }, /E_UNSAFE_RULE_REGEX/);
 });
 
+test("evaluateTargets applies rules only to targets inside the rule scope", () => {
+  const scopedPolicy = GuardPolicySchema.parse({
+    ...basePolicy,
+    blockBotAuthors: false,
+    rules: [
+      {
+        name: "review-template",
+        pattern: "great work",
+        action: "score",
+        weight: 0.4,
+        scope: {
+          sources: ["review"],
+          excludeAuthors: ["Trusted-Reviewer"]
+        }
+      },
+      {
+        name: "bot-phrasing",
+        pattern: "as requested",
+        action: "block",
+        scope: {
+          authorTypes: ["Bot"],
+          includeAuthors: ["helper[bot]"]
+        }
+      }
+    ]
+  });
+
+  const result = evaluateTargets(scopedPolicy, [
+    { source: "pr_body", referenceId: "pr:1", authorLogin: "author", authorType: "User", body: "Great work on this PR." },
+    { source: "review", referenceId: "review:1", authorLogin: "reviewer", authorType: "User", body: "Great work." },
+    { source: "review", referenceId: "review:2", authorLogin: "trusted-reviewer", authorType: "User", body: "Great work." },
+    { source: "comment", referenceId: "comment:1", authorLogin: "helper[bot]", authorType: "Bot", body: "Updated as requested." },
+    { source: "comment", referenceId: "comment:2", authorLogin: "other[bot]", authorType: "Bot", body: "Updated as requested." },
+    { source: "comment", referenceId: "comment:3", authorLogin: "human", authorType: "User", body: "Updated as requested." }
+  ]);
+
+  assert.deepEqual(
+    result.targetEvaluations.map((evaluation) => [evaluation.target.referenceId, evaluation.matchedRules]),
+    [
+      ["pr:1", []],
+      ["review:1", ["review-template"]],
+      ["review:2", []],
+      ["comment:1", ["bot-phrasing"]],
+      ["comment:2", []],
+      ["comment:3", []]
+    ]
+  );
+  assert.deepEqual(
+    result.findings.map((finding) => [finding.code, finding.targetReferenceId]),
+    [
+      ["GUARD_DISCLOSURE_REQUIRED", "review:1"],
+      ["GUARD_RULE_BLOCK", "comment:1"]
+    ]
+  );
+});
+
+test("evaluateTargets combines the rule score with weighted scorers and reports each contribution", () => {
+  const scoredPolicy = GuardPolicySchema.parse({
+    ...basePolicy,
+    scoring: {
+      ruleWeight: 0.5,
+      scorers: [
+        { name: "bullet-heading-ratio", weight: 0.2 },
+        { name: "constant", weight: 0.5 }
+      ]
+    }
+  });
+  const target = {
+    source: "review" as const,
+    referenceId: "review:scored",
+    authorLogin: "reviewer",
+    authorType: "User" as const,
+    body: "Great work. [AI-ASSISTED]"
+  };
+
+  const result = evaluateTargets(scoredPolicy, [target], [{ name: "constant", score: () => 0.8 }]);
+
+  assert.equal(result.highestScore, 0.575);
+  assert.deepEqual(result.targetEvaluations[0]?.scoreContributions, [
+    { scorer: "rules", value: 0.35, weight: 0.5, contribution: 0.175 },
+    { scorer: "bullet-heading-ratio", value: 0, weight: 0.2, contribution: 0 },
+    { scorer: "constant", value: 0.8, weight: 0.5, contribution: 0.4 }
+  ]);
+  assert.deepEqual(
+    result.findings.map((finding) => finding.code),
+    ["GUARD_AI_SCORE_EXCEEDED"]
+  );
+  assert.equal(evaluateTargets(basePolicy, [target]).targetEvaluations[0]?.scoreContributions, undefined);
+
+  assert.throws(() => evaluateTargets(scoredPolicy, [target]), /^Error: E_AI_SCORER_UNKNOWN: scorer='constant'/);
+  assert.throws(
+    () => GuardPolicySchema.parse({ ...scoredPolicy, scoring: { scorers: [{ name: "type-token-ratio", weight: 0.1 }, { name: "type-token-ratio", weight: 0.2 }] } }),
+    /E_POLICY_SCORER_DUPLICATE/
+  );
+});
+
+test("evaluateTargets accepts disclosure tag variants, patterns and scoped disclosure blocks", () => {
+  const disclosurePolicy = GuardPolicySchema.parse({
+    ...basePolicy,
+    disclosure: {
+      tags: ["[AI]"],
+      patterns: ["drafted with (copilot|an assistant)"],
+      block: {}
+    }
+  });
+  const makeTarget = (source: "pr_body" | "review" | "comment", referenceId: string, authorLogin: string, body: string) => ({
+    source,
+    referenceId,
+    authorLogin,
+    authorType: "User" as const,
+    body
+  });
+  const targets = [
+    makeTarget("pr_body", "pr:1", "alice", "Adds a cache.\n\nAI-Assisted: tool=copilot, scope=pr_body+review"),
+    makeTarget("review", "review:1", "Alice", "Great work on the cache."),
+    makeTarget("comment", "comment:1", "alice", "Great work, merging."),
+    makeTarget("review", "review:2", "bob", "Great work [ai]"),
+    makeTarget("review", "review:3", "carol", "Great work. Drafted with Copilot."),
+    makeTarget("review", "review:4", "dave", "Great work\nAI-Assisted: tool=copilot"),
+    makeTarget("review", "review:5", "erin", "Great work\nai-assisted: tool=copilot, scope=everything"),
+    makeTarget("review", "review:6", "frank", "Great work")
+  ];
+
+  const result = evaluateTargets(disclosurePolicy, targets);
+
+  assert.deepEqual(result.targetEvaluations[0]?.disclosure, {
+    fields: { tool: "copilot", scope: "pr_body+review" },
+    scope: ["pr_body", "review"]
+  });
+  assert.deepEqual(
+    result.findings.map((finding) => [finding.code, finding.targetReferenceId]),
+    [
+      ["GUARD_DISCLOSURE_SCOPE_MISMATCH", "comment:1"],
+      ["GUARD_DISCLOSURE_MALFORMED", "review:4"],
+      ["GUARD_DISCLOSURE_REQUIRED", "review:4"],
+      ["GUARD_DISCLOSURE_MALFORMED", "review:5"],
+      ["GUARD_DISCLOSURE_REQUIRED", "review:5"],
+      ["GUARD_DISCLOSURE_REQUIRED", "review:6"]
+    ]
+  );
+  assert.match(result.findings[1]?.message ?? "", /missing required field\(s\) scope/);
+  assert.match(result.findings[3]?.message ?? "", /scope 'everything' is not one of/);
+
+  assert.deepEqual(
+    evaluateTargets(basePolicy, targets.slice(0, 4)).findings.map((finding) => [finding.code, finding.targetReferenceId]),
+    [
+      ["GUARD_DISCLOSURE_REQUIRED", "review:1"],
+      ["GUARD_DISCLOSURE_REQUIRED", "comment:1"],
+      ["GUARD_DISCLOSURE_REQUIRED", "review:2"]
+    ]
+  );
+  assert.throws(
+    () => evaluateTargets(GuardPolicySchema.parse({ ...basePolicy, disclosure: { patterns: ["(a+)+$"] } }), targets),
+    /E_UNSAFE_RULE_REGEX/
+  );
+});
+
 test("runSevenShadowSystem blocks malformed payloads", async () => {
   const tempDir = await makeTempDir();
 
@@ -520,7 +681,7 @@ test("runSevenShadowSystem retries on 429 and succeeds when approval fetch later
   }
 });
 
-test("runSevenShadowSystem blocks with GUARD_APPROVALS_RETRY_EXHAUSTED after repeated 429 responses", async () => {
+test("runSevenShadowSystem routes approval fetches through --api-base-url", async () => {
   const tempDir = await makeTempDir();
   const originalFetch = globalThis.fetch;
 
@@ -533,27 +694,35 @@ test("runSevenShadowSystem blocks with GUARD_APPROVALS_RETRY_EXHAUSTED after rep
       ...basePolicy,
       approvals: {
         ...basePolicy.approvals,
-        minHumanApprovals: 1,
-        retry: {
-          ...basePolicy.approvals.retry,
-          maxAttempts: 2,
-          baseDelayMs: 1,
-          maxDelayMs: 1,
-          jitterRatio: 0
-        }
+        minHumanApprovals: 1
       }
     };
 
     await fs.writeFile(policyPath, `${JSON.stringify(policy, null, 2)}\n`, "utf8");
     await writeApprovalEvent(eventPath);
 
-    globalThis.fetch = async () =>
-      new Response("rate limited", {
-        status: 429,
-        headers: {
-          "retry-after": "0"
+    const requestedUrls: string[] = [];
+    globalThis.fetch = async (input: RequestInfo | URL) => {
+      requestedUrls.push(typeof input === "string" ? input : input.toString());
+
+      return new Response(
+        JSON.stringify([
+          {
+            state: "APPROVED",
+            user: {
+              login: "reviewer-ok",
+              type: "User"
+            }
+          }
+        ]),
+        {
+          status: 200,
+          headers: {
+            "content-type": "application/json"
+          }
         }
-      });
+      );
+    };
 
     const code = await runSevenShadowSystem(
       [
@@ -564,22 +733,40 @@ test("runSevenShadowSystem blocks with GUARD_APPROVALS_RETRY_EXHAUSTED after rep
         "--event-name",
         "pull_request_review",
         "--report",
-        reportPath
+        reportPath,
+        "--api-base-url",
+        "https://ghe.example.com/api/v3/"
       ],
-      { ...process.env, GITHUB_TOKEN: "token" }
+      { ...process.env, GITHUB_TOKEN: "token", GITHUB_API_URL: "https://ignored.example.com" }
     );
 
-    const report = JSON.parse(await fs.readFile(reportPath, "utf8")) as { findings: Array<{ code: string }> };
-
-    assert.equal(code, 1);
-    assert.equal(report.findings.some((item) => item.code === "GUARD_APPROVALS_RETRY_EXHAUSTED"), true);
+    assert.equal(code, 0);
+    assert.ok(requestedUrls.length > 0);
+    assert.ok(requestedUrls.every((url) => url.startsWith("https://ghe.example.com/api/v3/repos/acme/repo/pulls/42/reviews")));
+
+    await assert.rejects(
+      runSevenShadowSystem(
+        [
+          "--policy",
+          policyPath,
+          "--event",
+          eventPath,
+          "--event-name",
+          "pull_request_review",
+          "--report",
+          reportPath
+        ],
+        { ...process.env, GITHUB_TOKEN: "token", GITHUB_API_URL: "ghe.example.com/api/v3?x=1" }
+      ),
+      /E_API_BASE_URL_INVALID: GITHUB_API_URL/
+    );
   } finally {
     globalThis.fetch = originalFetch;
     await fs.rm(tempDir, { recursive: true, force: true });
   }
 });
 
-test("runSevenShadowSystem blocks with GUARD_APPROVALS_TIMEOUT after timeout retries are exhausted", async () => {
+test("runSevenShadowSystem reports GUARD_APPROVALS_STALE when approvals predate the head commit", async () => {
   const tempDir = await makeTempDir();
   const originalFetch = globalThis.fetch;
 
@@ -593,51 +780,136 @@ test("runSevenShadowSystem blocks with GUARD_APPROVALS_TIMEOUT after timeout ret
       approvals: {
         ...basePolicy.approvals,
         minHumanApprovals: 1,
-        fetchTimeoutMs: 250,
-        retry: {
-          ...basePolicy.approvals.retry,
-          maxAttempts: 2,
-          baseDelayMs: 1,
-          maxDelayMs: 1,
-          jitterRatio: 0
-        }
+        requireHeadCommit: true
       }
     };
 
     await fs.writeFile(policyPath, `${JSON.stringify(policy, null, 2)}\n`, "utf8");
     await writeApprovalEvent(eventPath);
 
-    globalThis.fetch = async () => {
-      const timeoutError = new Error("aborted");
-      timeoutError.name = "AbortError";
-      throw timeoutError;
+    const requestedUrls: string[] = [];
+    let reviews = [
+      {
+        state: "APPROVED",
+        commit_id: "old-sha",
+        user: { login: "reviewer-ok", type: "User" }
+      }
+    ];
+    globalThis.fetch = async (input: RequestInfo | URL) => {
+      const url = typeof input === "string" ? input : input.toString();
+      requestedUrls.push(url);
+      const body = url.includes("/reviews") ? reviews : { number: 42, head: { sha: "head-sha" } };
+
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: {
+          "content-type": "application/json"
+        }
+      });
     };
 
-    const code = await runSevenShadowSystem(
-      [
-        "--policy",
-        policyPath,
-        "--event",
-        eventPath,
-        "--event-name",
-        "pull_request_review",
-        "--report",
-        reportPath
-      ],
-      { ...process.env, GITHUB_TOKEN: "token" }
+    const args = ["--policy", policyPath, "--event", eventPath, "--event-name", "pull_request_review", "--report", reportPath];
+    const staleCode = await runSevenShadowSystem(args, { ...process.env, GITHUB_TOKEN: "token" });
+    const staleReport = JSON.parse(await fs.readFile(reportPath, "utf8")) as {
+      humanApprovals: { actual: number | null; stale?: number; headSha?: string };
+      findings: Array<{ code: string }>;
+    };
+
+    assert.equal(staleCode, 1);
+    assert.equal(requestedUrls[0], "https://api.github.com/repos/acme/repo/pulls/42");
+    assert.deepEqual(
+      staleReport.findings.map((item) => item.code).filter((code) => code.startsWith("GUARD_APPROVALS") || code === "GUARD_HUMAN_APPROVALS"),
+      ["GUARD_APPROVALS_STALE"]
     );
+    assert.equal(staleReport.humanApprovals.actual, 0);
+    assert.equal(staleReport.humanApprovals.stale, 1);
+    assert.equal(staleReport.humanApprovals.headSha, "head-sha");
+
+    reviews = [{ ...reviews[0], commit_id: "head-sha" }];
+    const freshCode = await runSevenShadowSystem(args, { ...process.env, GITHUB_TOKEN: "token" });
+    const freshReport = JSON.parse(await fs.readFile(reportPath, "utf8")) as {
+      humanApprovals: { actual: number | null; stale?: number };
+    };
 
-    const report = JSON.parse(await fs.readFile(reportPath, "utf8")) as { findings: Array<{ code: string }> };
+    assert.equal(freshCode, 0);
+    assert.equal(freshReport.humanApprovals.actual, 1);
+    assert.equal(freshReport.humanApprovals.stale, 0);
+  } finally {
+    globalThis.fetch = originalFetch;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
 
-    assert.equal(code, 1);
-    assert.equal(report.findings.some((item) => item.code === "GUARD_APPROVALS_TIMEOUT"), true);
+test("runSevenShadowSystem ignores code owner approvals that predate the head commit when requireHeadCommit is set", async () => {
+  const tempDir = await makeTempDir();
+  const originalFetch = globalThis.fetch;
+
+  try {
+    const policyPath = path.join(tempDir, "policy.json");
+    const eventPath = path.join(tempDir, "event.json");
+    const reportPath = path.join(tempDir, "report.json");
+    const codeOwnersPath = path.join(tempDir, "CODEOWNERS");
+
+    const policy = {
+      ...basePolicy,
+      approvals: {
+        ...basePolicy.approvals,
+        minHumanApprovals: 1,
+        requireHeadCommit: true,
+        requireCodeOwners: true,
+        codeOwnersPath
+      }
+    };
+
+    await fs.writeFile(policyPath, `${JSON.stringify(policy, null, 2)}\n`, "utf8");
+    await fs.writeFile(codeOwnersPath, "/src/ @alice\n", "utf8");
+    await writeApprovalEvent(eventPath);
+
+    let reviews = [
+      { state: "APPROVED", commit_id: "old-sha", user: { login: "alice", type: "User" } },
+      { state: "APPROVED", commit_id: "head-sha", user: { login: "bob", type: "User" } }
+    ];
+    globalThis.fetch = async (input: RequestInfo | URL) => {
+      const url = typeof input === "string" ? input : input.toString();
+      const body = url.includes("/files")
+        ? [{ filename: "src/index.ts" }]
+        : url.includes("/reviews")
+          ? reviews
+          : { number: 42, head: { sha: "head-sha" } };
+
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: {
+          "content-type": "application/json"
+        }
+      });
+    };
+
+    const args = ["--policy", policyPath, "--event", eventPath, "--event-name", "pull_request_review", "--report", reportPath];
+    const staleCode = await runSevenShadowSystem(args, { ...process.env, GITHUB_TOKEN: "token" });
+    const staleReport = JSON.parse(await fs.readFile(reportPath, "utf8")) as {
+      findings: Array<{ code: string; details?: { paths?: Array<{ path: string; owners: string[] }> } }>;
+    };
+    const finding = staleReport.findings.find((item) => item.code === "GUARD_CODEOWNER_APPROVAL_MISSING");
+
+    assert.equal(staleCode, 1);
+    assert.deepEqual(finding?.details?.paths, [{ path: "src/index.ts", owners: ["alice"] }]);
+
+    reviews = reviews.map((review) => ({ ...review, commit_id: "head-sha" }));
+    const freshCode = await runSevenShadowSystem(args, { ...process.env, GITHUB_TOKEN: "token" });
+    const freshReport = JSON.parse(await fs.readFile(reportPath, "utf8")) as {
+      findings: Array<{ code: string }>;
+    };
+
+    assert.equal(freshCode, 0);
+    assert.equal(freshReport.findings.some((item) => item.code === "GUARD_CODEOWNER_APPROVAL_MISSING"), false);
   } finally {
     globalThis.fetch = originalFetch;
     await fs.rm(tempDir, { recursive: true, force: true });
   }
 });
 
-test("runSevenShadowSystem maps non-retryable provider 4xx errors to GUARD_APPROVALS_FETCH_ERROR", async () => {
+test("runSevenShadowSystem reports GUARD_CODEOWNER_APPROVAL_MISSING for paths without an owner approval", async () => {
   const tempDir = await makeTempDir();
   const originalFetch = globalThis.fetch;
 
@@ -645,19 +917,81 @@ test("runSevenShadowSystem maps non-retryable provider 4xx errors to GUARD_APPRO
     const policyPath = path.join(tempDir, "policy.json");
     const eventPath = path.join(tempDir, "event.json");
     const reportPath = path.join(tempDir, "report.json");
+    const codeOwnersPath = path.join(tempDir, "CODEOWNERS");
 
     const policy = {
       ...basePolicy,
       approvals: {
         ...basePolicy.approvals,
         minHumanApprovals: 1,
-        retry: {
-          ...basePolicy.approvals.retry,
-          maxAttempts: 3,
-          baseDelayMs: 1,
-          maxDelayMs: 1,
-          jitterRatio: 0
+        requireCodeOwners: true,
+        codeOwnersPath
+      }
+    };
+
+    await fs.writeFile(policyPath, `${JSON.stringify(policy, null, 2)}\n`, "utf8");
+    await fs.writeFile(codeOwnersPath, "* @lead\n/src/ @alice\n/docs/ @bob\n", "utf8");
+    await writeApprovalEvent(eventPath);
+
+    let approvers = ["alice"];
+    globalThis.fetch = async (input: RequestInfo | URL) => {
+      const url = typeof input === "string" ? input : input.toString();
+      const body = url.includes("/files")
+        ? [{ filename: "src/index.ts" }, { filename: "docs/guide.md" }, { filename: "package.json" }]
+        : approvers.map((login) => ({ state: "APPROVED", user: { login, type: "User" } }));
+
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: {
+          "content-type": "application/json"
         }
+      });
+    };
+
+    const args = ["--policy", policyPath, "--event", eventPath, "--event-name", "pull_request_review", "--report", reportPath];
+    const missingCode = await runSevenShadowSystem(args, { ...process.env, GITHUB_TOKEN: "token" });
+    const missingReport = JSON.parse(await fs.readFile(reportPath, "utf8")) as {
+      findings: Array<{ code: string; message: string; details?: { paths?: Array<{ path: string; owners: string[] }> } }>;
+    };
+    const finding = missingReport.findings.find((item) => item.code === "GUARD_CODEOWNER_APPROVAL_MISSING");
+
+    assert.equal(missingCode, 1);
+    assert.equal(finding?.message, "Code owner approval missing for 2 path(s): docs/guide.md, package.json");
+    assert.deepEqual(finding?.details?.paths, [
+      { path: "docs/guide.md", owners: ["bob"] },
+      { path: "package.json", owners: ["lead"] }
+    ]);
+
+    approvers = ["alice", "bob", "lead"];
+    const coveredCode = await runSevenShadowSystem(args, { ...process.env, GITHUB_TOKEN: "token" });
+    const coveredReport = JSON.parse(await fs.readFile(reportPath, "utf8")) as {
+      findings: Array<{ code: string }>;
+    };
+
+    assert.equal(coveredCode, 0);
+    assert.equal(coveredReport.findings.some((item) => item.code === "GUARD_CODEOWNER_APPROVAL_MISSING"), false);
+  } finally {
+    globalThis.fetch = originalFetch;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("runSevenShadowSystem fails closed when approvals.requireCodeOwners has no CODEOWNERS file", async () => {
+  const tempDir = await makeTempDir();
+  const originalFetch = globalThis.fetch;
+
+  try {
+    const policyPath = path.join(tempDir, "policy.json");
+    const eventPath = path.join(tempDir, "event.json");
+    const reportPath = path.join(tempDir, "report.json");
+
+    const policy = {
+      ...basePolicy,
+      approvals: {
+        ...basePolicy.approvals,
+        minHumanApprovals: 0,
+        requireCodeOwners: true,
+        codeOwnersPath: path.join(tempDir, "missing", "CODEOWNERS")
       }
     };
 
@@ -665,69 +999,709 @@ test("runSevenShadowSystem maps non-retryable provider 4xx errors to GUARD_APPRO
     await writeApprovalEvent(eventPath);
 
     globalThis.fetch = async () =>
-      new Response("forbidden", {
-        status: 403
+      new Response(JSON.stringify([]), {
+        status: 200,
+        headers: {
+          "content-type": "application/json"
+        }
       });
 
     const code = await runSevenShadowSystem(
-      [
-        "--policy",
-        policyPath,
-        "--event",
-        eventPath,
-        "--event-name",
-        "pull_request_review",
-        "--report",
-        reportPath
-      ],
+      ["--policy", policyPath, "--event", eventPath, "--event-name", "pull_request_review", "--report", reportPath],
       { ...process.env, GITHUB_TOKEN: "token" }
     );
-
-    const report = JSON.parse(await fs.readFile(reportPath, "utf8")) as { findings: Array<{ code: string }> };
+    const report = JSON.parse(await fs.readFile(reportPath, "utf8")) as {
+      findings: Array<{ code: string; message: string }>;
+    };
 
     assert.equal(code, 1);
-    assert.equal(report.findings.some((item) => item.code === "GUARD_APPROVALS_FETCH_ERROR"), true);
+    assert.deepEqual(
+      report.findings.filter((item) => item.code === "GUARD_APPROVALS_UNVERIFIED").map((item) => item.message),
+      ["CODEOWNERS file not found for approvals.requireCodeOwners"]
+    );
   } finally {
     globalThis.fetch = originalFetch;
     await fs.rm(tempDir, { recursive: true, force: true });
   }
 });
 
-test("runSevenShadowSystem writes all report formats", async () => {
+test("runSevenShadowSystem blocks when the pull request edits CODEOWNERS or CODEOWNERS cannot be read", async () => {
   const tempDir = await makeTempDir();
+  const originalFetch = globalThis.fetch;
 
   try {
     const policyPath = path.join(tempDir, "policy.json");
     const eventPath = path.join(tempDir, "event.json");
-    const reportBase = path.join(tempDir, "report");
+    const reportPath = path.join(tempDir, "report.json");
+    const codeOwnersPath = path.join(tempDir, "CODEOWNERS");
+
+    const writePolicy = async (configuredPath: string): Promise<void> => {
+      const policy = {
+        ...basePolicy,
+        approvals: {
+          ...basePolicy.approvals,
+          minHumanApprovals: 0,
+          requireCodeOwners: true,
+          codeOwnersPath: configuredPath
+        }
+      };
+      await fs.writeFile(policyPath, `${JSON.stringify(policy, null, 2)}\n`, "utf8");
+    };
 
-    await fs.writeFile(policyPath, `${JSON.stringify(basePolicy, null, 2)}\n`, "utf8");
+    await writePolicy(codeOwnersPath);
+    await fs.writeFile(codeOwnersPath, "* @alice\n", "utf8");
+    await writeApprovalEvent(eventPath);
 
-    await fs.writeFile(
-      eventPath,
-      `${JSON.stringify({
-        repository: { full_name: "acme/repo" },
-        pull_request: { number: 42, body: "Body", user: { login: "repo-owner", type: "User" } },
-        review: { id: 101, body: "Great work [AI-ASSISTED]", user: { login: "human-reviewer", type: "User" } }
-      })}\n`,
-      "utf8"
-    );
+    globalThis.fetch = async (input: RequestInfo | URL) => {
+      const url = typeof input === "string" ? input : input.toString();
+      const body = url.includes("/files")
+        ? [{ filename: "src/index.ts" }, { filename: ".github/CODEOWNERS" }]
+        : [{ state: "APPROVED", user: { login: "alice", type: "User" } }];
 
-    await runSevenShadowSystem(
-      [
-        "--policy",
-        policyPath,
-        "--event",
-        eventPath,
-        "--event-name",
-        "pull_request_review",
-        "--report",
-        reportBase,
-        "--report-format",
-        "all"
-      ],
-      process.env
-    );
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: {
+          "content-type": "application/json"
+        }
+      });
+    };
+
+    const args = ["--policy", policyPath, "--event", eventPath, "--event-name", "pull_request_review", "--report", reportPath];
+    const modifiedCode = await runSevenShadowSystem(args, { ...process.env, GITHUB_TOKEN: "token" });
+    const modifiedReport = JSON.parse(await fs.readFile(reportPath, "utf8")) as {
+      findings: Array<{ code: string; details?: { paths?: string[] } }>;
+    };
+
+    assert.equal(modifiedCode, 1);
+    assert.deepEqual(
+      modifiedReport.findings.find((item) => item.code === "GUARD_CODEOWNERS_MODIFIED")?.details?.paths,
+      [".github/CODEOWNERS"]
+    );
+
+    await writePolicy(tempDir);
+    const unreadableCode = await runSevenShadowSystem(args, { ...process.env, GITHUB_TOKEN: "token" });
+    const unreadableReport = JSON.parse(await fs.readFile(reportPath, "utf8")) as {
+      findings: Array<{ code: string; message: string }>;
+    };
+
+    assert.equal(unreadableCode, 1);
+    assert.deepEqual(
+      unreadableReport.findings.filter((item) => item.code === "GUARD_APPROVALS_UNVERIFIED").map((item) => item.message),
+      ["CODEOWNERS could not be read for approvals.requireCodeOwners"]
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("runSevenShadowSystem resolves team references in author lists and approval counting", async () => {
+  const tempDir = await makeTempDir();
+  const originalFetch = globalThis.fetch;
+  clearTeamMembershipCache();
+
+  try {
+    const policyPath = path.join(tempDir, "policy.json");
+    const eventPath = path.join(tempDir, "event.json");
+    const reportPath = path.join(tempDir, "report.json");
+
+    const policy = {
+      ...basePolicy,
+      blockedAuthors: ["@acme/contractors"],
+      allowedAuthors: ["@acme/maintainers"],
+      approvals: {
+        ...basePolicy.approvals,
+        minHumanApprovals: 1
+      }
+    };
+
+    await fs.writeFile(policyPath, `${JSON.stringify(policy, null, 2)}\n`, "utf8");
+    await writeApprovalEvent(eventPath);
+
+    const teamRequests: string[] = [];
+    globalThis.fetch = async (input: RequestInfo | URL) => {
+      const url = typeof input === "string" ? input : input.toString();
+      let body: unknown = [{ state: "APPROVED", user: { login: "trusted-lead", type: "User" } }];
+      if (url.includes("/teams/")) {
+        teamRequests.push(url);
+        body = url.includes("/teams/contractors/")
+          ? [{ login: "Human-Reviewer" }]
+          : [{ login: "trusted-lead" }, { login: "human-reviewer" }];
+      }
+
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: {
+          "content-type": "application/json"
+        }
+      });
+    };
+
+    const args = ["--policy", policyPath, "--event", eventPath, "--event-name", "pull_request_review", "--report", reportPath];
+    for (let run = 0; run < 2; run += 1) {
+      const code = await runSevenShadowSystem(args, { ...process.env, GITHUB_TOKEN: "token" });
+      const report = JSON.parse(await fs.readFile(reportPath, "utf8")) as {
+        humanApprovals: { actual: number | null };
+        findings: Array<{ code: string; targetReferenceId?: string }>;
+      };
+
+      assert.equal(code, 1);
+      assert.equal(report.humanApprovals.actual, 0);
+      assert.deepEqual(
+        report.findings.filter((item) => item.code === "GUARD_BLOCKED_AUTHOR").map((item) => item.targetReferenceId),
+        ["review:9"]
+      );
+      assert.equal(report.findings.some((item) => item.code === "GUARD_HUMAN_APPROVALS"), true);
+    }
+
+    assert.deepEqual(teamRequests, [
+      "https://api.github.com/orgs/acme/teams/contractors/members?per_page=100&page=1",
+      "https://api.github.com/orgs/acme/teams/maintainers/members?per_page=100&page=1"
+    ]);
+  } finally {
+    globalThis.fetch = originalFetch;
+    clearTeamMembershipCache();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("runSevenShadowSystem blocks with GUARD_TEAM_UNRESOLVED when team membership cannot be read", async () => {
+  const tempDir = await makeTempDir();
+  clearTeamMembershipCache();
+
+  try {
+    const policyPath = path.join(tempDir, "policy.json");
+    const eventPath = path.join(tempDir, "event.json");
+    const reportPath = path.join(tempDir, "report.json");
+    const env = { ...process.env };
+    delete env.GITHUB_TOKEN;
+
+    await fs.writeFile(
+      policyPath,
+      `${JSON.stringify({ ...basePolicy, allowedAuthors: ["@acme/maintainers"] }, null, 2)}\n`,
+      "utf8"
+    );
+    await writeApprovalEvent(eventPath);
+
+    const code = await runSevenShadowSystem(
+      ["--policy", policyPath, "--event", eventPath, "--event-name", "pull_request_review", "--report", reportPath],
+      env
+    );
+    const report = JSON.parse(await fs.readFile(reportPath, "utf8")) as {
+      findings: Array<{ code: string; message: string; details?: { error?: string } }>;
+    };
+    const finding = report.findings.find((item) => item.code === "GUARD_TEAM_UNRESOLVED");
+
+    assert.equal(code, 1);
+    assert.equal(finding?.message, "Unable to resolve team @acme/maintainers for provider 'github'");
+    assert.equal(finding?.details?.error, "GITHUB_TOKEN unavailable");
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("evaluateGuard applies rules scoped to a team to the team members", async () => {
+  clearTeamMembershipCache();
+
+  try {
+    const report = await evaluateGuard({
+      policy: {
+        ...basePolicy,
+        rules: [
+          {
+            name: "team-template",
+            pattern: "looks good",
+            action: "score",
+            weight: 0.2,
+            scope: {
+              includeAuthors: ["@acme/reviewers"]
+            }
+          }
+        ]
+      },
+      eventName: "pull_request_review",
+      payload: {
+        repository: { full_name: "acme/repo" },
+        pull_request: { number: 42, body: "Test PR body", user: { login: "repo-owner", type: "User" } },
+        review: { id: 9, body: "Looks good to me", user: { login: "human-reviewer", type: "User" } }
+      },
+      provider: "github",
+      env: { GITHUB_TOKEN: "token" },
+      fetch: async () =>
+        new Response(JSON.stringify([{ login: "Human-Reviewer" }]), {
+          status: 200,
+          headers: {
+            "content-type": "application/json"
+          }
+        })
+    });
+
+    assert.deepEqual(
+      report.targets.map((target) => [target.referenceId, target.matchedRules]),
+      [
+        ["pr:42", []],
+        ["review:9", ["team-template"]]
+      ]
+    );
+  } finally {
+    clearTeamMembershipCache();
+  }
+});
+
+test("evaluateGuard returns the report without console output and uses the injected fetch", async () => {
+  const originalFetch = globalThis.fetch;
+  const originalLog = console.log;
+  const logged: unknown[] = [];
+  const requestedUrls: string[] = [];
+
+  try {
+    globalThis.fetch = async () => {
+      throw new Error("global fetch must not be used");
+    };
+    console.log = (...items: unknown[]) => {
+      logged.push(items);
+    };
+
+    const report = await evaluateGuard({
+      policy: {
+        ...basePolicy,
+        approvals: {
+          ...basePolicy.approvals,
+          minHumanApprovals: 1
+        }
+      },
+      eventName: "pull_request_review",
+      payload: {
+        repository: { full_name: "acme/repo" },
+        pull_request: { number: 42, body: "Test PR body", user: { login: "repo-owner", type: "User" } },
+        review: { id: 9, body: "Looks good to me", user: { login: "human-reviewer", type: "User" } }
+      },
+      provider: "github",
+      env: { GITHUB_TOKEN: "token", GITHUB_API_URL: "https://ghe.example.com/api/v3" },
+      fetch: async (input: RequestInfo | URL) => {
+        requestedUrls.push(typeof input === "string" ? input : input.toString());
+        return new Response(JSON.stringify([{ state: "APPROVED", user: { login: "reviewer-ok", type: "User" } }]), {
+          status: 200,
+          headers: {
+            "content-type": "application/json"
+          }
+        });
+      }
+    });
+
+    assert.equal(report.decision, "pass");
+    assert.equal(report.policyPath, "inline");
+    assert.equal(report.policyVersion, 2);
+    assert.equal(report.targetsScanned, 2);
+    assert.deepEqual(report.humanApprovals, { required: 1, actual: 1, checked: true });
+    assert.deepEqual(requestedUrls, ["https://ghe.example.com/api/v3/repos/acme/repo/pulls/42/reviews?per_page=100&page=1"]);
+    assert.equal(report.generatedReports, undefined);
+    assert.deepEqual(logged, []);
+  } finally {
+    globalThis.fetch = originalFetch;
+    console.log = originalLog;
+  }
+});
+
+test("evaluateGuard accepts provider adapters and reports missing approval tokens from the provided env only", async () => {
+  const report = await evaluateGuard({
+    policy: {
+      ...basePolicy,
+      approvals: {
+        ...basePolicy.approvals,
+        minHumanApprovals: 1
+      }
+    },
+    eventName: "pull_request_review",
+    payload: {
+      repository: { full_name: "acme/repo" },
+      pull_request: { number: 42, body: "Test PR body", user: { login: "repo-owner", type: "User" } },
+      review: { id: 9, body: "Looks good to me", user: { login: "human-reviewer", type: "User" } }
+    },
+    provider: githubProvider,
+    policyPath: "policies/guard.json"
+  });
+
+  assert.equal(report.decision, "block");
+  assert.equal(report.policyPath, "policies/guard.json");
+  assert.deepEqual(
+    report.findings.map((item) => item.code),
+    ["GUARD_APPROVALS_UNVERIFIED"]
+  );
+});
+
+test("runSevenShadowSystem publishes a check run with the markdown summary and per-finding annotations", async () => {
+  const tempDir = await makeTempDir();
+  const originalFetch = globalThis.fetch;
+  const requests: Array<{ url: string; method: string; body: Record<string, unknown> }> = [];
+
+  try {
+    const policyPath = path.join(tempDir, "policy.json");
+    const eventPath = path.join(tempDir, "event.json");
+
+    await fs.writeFile(policyPath, `${JSON.stringify(basePolicy, null, 2)}\n`, "utf8");
+    await fs.writeFile(
+      eventPath,
+      `${JSON.stringify({
+        repository: { full_name: "acme/repo" },
+        pull_request: {
+          number: 42,
+          body: "Test PR body",
+          user: { login: "repo-owner", type: "User" },
+          head: { sha: "head-sha-1" }
+        },
+        comment: {
+          id: 77,
+          body: "As an AI language model, I suggest renaming this.",
+          path: "src/index.ts",
+          line: 12,
+          user: { login: "reviewer", type: "User" }
+        }
+      })}\n`,
+      "utf8"
+    );
+
+    globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+      requests.push({
+        url: typeof input === "string" ? input : input.toString(),
+        method: init?.method ?? "GET",
+        body: JSON.parse(String(init?.body)) as Record<string, unknown>
+      });
+      return new Response(JSON.stringify({ id: 555, html_url: "https://github.com/acme/repo/runs/555" }), {
+        status: 201,
+        headers: {
+          "content-type": "application/json"
+        }
+      });
+    };
+
+    const code = await runSevenShadowSystem(
+      [
+        "--policy",
+        policyPath,
+        "--event",
+        eventPath,
+        "--event-name",
+        "pull_request_review_comment",
+        "--check-run",
+        "--check-run-name",
+        "guard"
+      ],
+      { ...process.env, GITHUB_TOKEN: "token", GITHUB_API_URL: "" }
+    );
+
+    assert.equal(code, 1);
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0]?.url, "https://api.github.com/repos/acme/repo/check-runs");
+    assert.equal(requests[0]?.method, "POST");
+
+    const body = requests[0]?.body as {
+      name: string;
+      head_sha: string;
+      status: string;
+      conclusion: string;
+      output: { title: string; summary: string; annotations: Array<Record<string, unknown>> };
+    };
+    assert.equal(body.name, "guard");
+    assert.equal(body.head_sha, "head-sha-1");
+    assert.equal(body.status, "completed");
+    assert.equal(body.conclusion, "failure");
+    assert.equal(body.output.title, "BLOCK: 1 finding(s)");
+    assert.match(body.output.summary, /^# Seven Shadow System Report/);
+    assert.deepEqual(body.output.annotations, [
+      {
+        path: "src/index.ts",
+        start_line: 12,
+        end_line: 12,
+        annotation_level: "failure",
+        title: "GUARD_RULE_BLOCK (comment:77)",
+        message: body.output.annotations[0]?.message
+      }
+    ]);
+    assert.match(String(body.output.annotations[0]?.message), /\nRemediation: /);
+
+    await assert.rejects(
+      runSevenShadowSystem(
+        ["--policy", policyPath, "--event", eventPath, "--event-name", "pull_request_review_comment", "--provider", "gitlab", "--check-run"],
+        { ...process.env, GITLAB_TOKEN: "token" }
+      ),
+      /^Error: E_CHECK_RUN_UNSUPPORTED: provider 'gitlab' cannot publish check runs$/
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("runSevenShadowSystem keeps the guard exit code when the check run cannot be published", async () => {
+  const tempDir = await makeTempDir();
+  const originalFetch = globalThis.fetch;
+  const originalLog = console.log;
+  const printed: string[] = [];
+  const requests: Array<{ annotations: unknown[] }> = [];
+
+  try {
+    const policyPath = path.join(tempDir, "policy.json");
+    const eventPath = path.join(tempDir, "event.json");
+    const reportPath = path.join(tempDir, "report.json");
+
+    await fs.writeFile(policyPath, `${JSON.stringify({ ...basePolicy, enforcement: "warn" }, null, 2)}\n`, "utf8");
+    await fs.writeFile(
+      eventPath,
+      `${JSON.stringify({
+        repository: { full_name: "acme/repo" },
+        pull_request: {
+          number: 42,
+          body: "As an AI language model, I wrote this change.",
+          user: { login: "repo-owner", type: "User" },
+          head: { sha: "head-sha-1" }
+        }
+      })}\n`,
+      "utf8"
+    );
+
+    globalThis.fetch = async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as { output: { annotations: unknown[] } };
+      requests.push({ annotations: body.output.annotations });
+      return new Response(JSON.stringify({ message: "Resource not accessible by integration" }), {
+        status: 403,
+        headers: {
+          "content-type": "application/json"
+        }
+      });
+    };
+    console.log = (message: string) => {
+      printed.push(message);
+    };
+
+    const code = await runSevenShadowSystem(
+      ["--policy", policyPath, "--event", eventPath, "--event-name", "pull_request", "--check-run", "--report", reportPath],
+      { ...process.env, GITHUB_TOKEN: "token", GITHUB_API_URL: "" }
+    );
+    console.log = originalLog;
+
+    const report = JSON.parse(printed.join("\n")) as { decision: string; checkRun?: { error?: string } };
+    assert.equal(code, 0);
+    assert.equal(report.decision, "warn");
+    assert.match(report.checkRun?.error ?? "", /403/);
+    const writtenReport = JSON.parse(await fs.readFile(reportPath, "utf8")) as { checkRun?: { error?: string } };
+    assert.equal(writtenReport.checkRun?.error, report.checkRun?.error);
+    assert.deepEqual(requests, [{ annotations: [] }]);
+  } finally {
+    console.log = originalLog;
+    globalThis.fetch = originalFetch;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("runSevenShadowSystem blocks with GUARD_APPROVALS_RETRY_EXHAUSTED after repeated 429 responses", async () => {
+  const tempDir = await makeTempDir();
+  const originalFetch = globalThis.fetch;
+
+  try {
+    const policyPath = path.join(tempDir, "policy.json");
+    const eventPath = path.join(tempDir, "event.json");
+    const reportPath = path.join(tempDir, "report.json");
+
+    const policy = {
+      ...basePolicy,
+      approvals: {
+        ...basePolicy.approvals,
+        minHumanApprovals: 1,
+        retry: {
+          ...basePolicy.approvals.retry,
+          maxAttempts: 2,
+          baseDelayMs: 1,
+          maxDelayMs: 1,
+          jitterRatio: 0
+        }
+      }
+    };
+
+    await fs.writeFile(policyPath, `${JSON.stringify(policy, null, 2)}\n`, "utf8");
+    await writeApprovalEvent(eventPath);
+
+    globalThis.fetch = async () =>
+      new Response("rate limited", {
+        status: 429,
+        headers: {
+          "retry-after": "0"
+        }
+      });
+
+    const code = await runSevenShadowSystem(
+      [
+        "--policy",
+        policyPath,
+        "--event",
+        eventPath,
+        "--event-name",
+        "pull_request_review",
+        "--report",
+        reportPath
+      ],
+      { ...process.env, GITHUB_TOKEN: "token" }
+    );
+
+    const report = JSON.parse(await fs.readFile(reportPath, "utf8")) as { findings: Array<{ code: string }> };
+
+    assert.equal(code, 1);
+    assert.equal(report.findings.some((item) => item.code === "GUARD_APPROVALS_RETRY_EXHAUSTED"), true);
+  } finally {
+    globalThis.fetch = originalFetch;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("runSevenShadowSystem blocks with GUARD_APPROVALS_TIMEOUT after timeout retries are exhausted", async () => {
+  const tempDir = await makeTempDir();
+  const originalFetch = globalThis.fetch;
+
+  try {
+    const policyPath = path.join(tempDir, "policy.json");
+    const eventPath = path.join(tempDir, "event.json");
+    const reportPath = path.join(tempDir, "report.json");
+
+    const policy = {
+      ...basePolicy,
+      approvals: {
+        ...basePolicy.approvals,
+        minHumanApprovals: 1,
+        fetchTimeoutMs: 250,
+        retry: {
+          ...basePolicy.approvals.retry,
+          maxAttempts: 2,
+          baseDelayMs: 1,
+          maxDelayMs: 1,
+          jitterRatio: 0
+        }
+      }
+    };
+
+    await fs.writeFile(policyPath, `${JSON.stringify(policy, null, 2)}\n`, "utf8");
+    await writeApprovalEvent(eventPath);
+
+    globalThis.fetch = async () => {
+      const timeoutError = new Error("aborted");
+      timeoutError.name = "AbortError";
+      throw timeoutError;
+    };
+
+    const code = await runSevenShadowSystem(
+      [
+        "--policy",
+        policyPath,
+        "--event",
+        eventPath,
+        "--event-name",
+        "pull_request_review",
+        "--report",
+        reportPath
+      ],
+      { ...process.env, GITHUB_TOKEN: "token" }
+    );
+
+    const report = JSON.parse(await fs.readFile(reportPath, "utf8")) as { findings: Array<{ code: string }> };
+
+    assert.equal(code, 1);
+    assert.equal(report.findings.some((item) => item.code === "GUARD_APPROVALS_TIMEOUT"), true);
+  } finally {
+    globalThis.fetch = originalFetch;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("runSevenShadowSystem maps non-retryable provider 4xx errors to GUARD_APPROVALS_FETCH_ERROR", async () => {
+  const tempDir = await makeTempDir();
+  const originalFetch = globalThis.fetch;
+
+  try {
+    const policyPath = path.join(tempDir, "policy.json");
+    const eventPath = path.join(tempDir, "event.json");
+    const reportPath = path.join(tempDir, "report.json");
+
+    const policy = {
+      ...basePolicy,
+      approvals: {
+        ...basePolicy.approvals,
+        minHumanApprovals: 1,
+        retry: {
+          ...basePolicy.approvals.retry,
+          maxAttempts: 3,
+          baseDelayMs: 1,
+          maxDelayMs: 1,
+          jitterRatio: 0
+        }
+      }
+    };
+
+    await fs.writeFile(policyPath, `${JSON.stringify(policy, null, 2)}\n`, "utf8");
+    await writeApprovalEvent(eventPath);
+
+    globalThis.fetch = async () =>
+      new Response("forbidden", {
+        status: 403
+      });
+
+    const code = await runSevenShadowSystem(
+      [
+        "--policy",
+        policyPath,
+        "--event",
+        eventPath,
+        "--event-name",
+        "pull_request_review",
+        "--report",
+        reportPath
+      ],
+      { ...process.env, GITHUB_TOKEN: "token" }
+    );
+
+    const report = JSON.parse(await fs.readFile(reportPath, "utf8")) as { findings: Array<{ code: string }> };
+
+    assert.equal(code, 1);
+    assert.equal(report.findings.some((item) => item.code === "GUARD_APPROVALS_FETCH_ERROR"), true);
+  } finally {
+    globalThis.fetch = originalFetch;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("runSevenShadowSystem writes all report formats", async () => {
+  const tempDir = await makeTempDir();
+
+  try {
+    const policyPath = path.join(tempDir, "policy.json");
+    const eventPath = path.join(tempDir, "event.json");
+    const reportBase = path.join(tempDir, "report");
+
+    await fs.writeFile(policyPath, `${JSON.stringify(basePolicy, null, 2)}\n`, "utf8");
+
+    await fs.writeFile(
+      eventPath,
+      `${JSON.stringify({
+        repository: { full_name: "acme/repo" },
+        pull_request: { number: 42, body: "Body", user: { login: "repo-owner", type: "User" } },
+        review: { id: 101, body: "Great work [AI-ASSISTED]", user: { login: "human-reviewer", type: "User" } }
+      })}\n`,
+      "utf8"
+    );
+
+    await runSevenShadowSystem(
+      [
+        "--policy",
+        policyPath,
+        "--event",
+        eventPath,
+        "--event-name",
+        "pull_request_review",
+        "--report",
+        reportBase,
+        "--report-format",
+        "all"
+      ],
+      process.env
+    );
 
     const jsonExists = await fs
       .access(`${reportBase}.json`)
@@ -752,6 +1726,86 @@ test("runSevenShadowSystem writes all report formats", async () => {
   }
 });
 
+test("runSevenShadowSystem records rule match offsets with redaction-aware snippets in every report format", async () => {
+  const tempDir = await makeTempDir();
+
+  try {
+    const policyPath = path.join(tempDir, "policy.json");
+    const eventPath = path.join(tempDir, "event.json");
+    const reportBase = path.join(tempDir, "report");
+    const reviewBody = "Thanks for the update. As an AI language model, I think this is fine.";
+
+    await fs.writeFile(
+      policyPath,
+      `${JSON.stringify({ ...basePolicy, report: { includeBodies: true, redactionMode: "none" } }, null, 2)}\n`,
+      "utf8"
+    );
+    await fs.writeFile(
+      eventPath,
+      `${JSON.stringify({
+        repository: { full_name: "acme/repo" },
+        pull_request: { number: 42, body: "Body", user: { login: "repo-owner", type: "User" } },
+        review: { id: 101, body: reviewBody, user: { login: "human-reviewer", type: "User" } }
+      })}\n`,
+      "utf8"
+    );
+
+    const code = await runSevenShadowSystem(
+      ["--policy", policyPath, "--event", eventPath, "--event-name", "pull_request_review", "--report", reportBase, "--report-format", "all"],
+      process.env
+    );
+
+    const report = JSON.parse(await fs.readFile(`${reportBase}.json`, "utf8")) as {
+      targets: Array<{ referenceId: string; ruleMatches: Array<Record<string, unknown>> }>;
+    };
+    const markdown = await fs.readFile(`${reportBase}.md`, "utf8");
+    const sarif = JSON.parse(await fs.readFile(`${reportBase}.sarif`, "utf8")) as {
+      runs: Array<{ results: Array<{ ruleId: string; properties: { ruleMatches?: unknown[] } }> }>;
+    };
+    const start = reviewBody.toLowerCase().indexOf("as an ai language model");
+
+    assert.equal(code, 1);
+    assert.deepEqual(report.targets.find((target) => target.referenceId === "review:101")?.ruleMatches, [
+      {
+        rule: "explicit",
+        action: "block",
+        start,
+        end: start + "as an ai language model".length,
+        matchHash: crypto.createHash("sha256").update("As an AI language model").digest("hex"),
+        snippet: reviewBody
+      }
+    ]);
+    assert.match(markdown, /## Rule Matches\n\n- `review:101` rule `explicit` \(block\) at chars 23-46: "Thanks for the update\. As an AI/);
+    assert.equal(sarif.runs[0]?.results.find((result) => result.ruleId === "GUARD_RULE_BLOCK")?.properties.ruleMatches?.length, 1);
+
+    const longBody = `${"x".repeat(60)} as an ai language model ${"y".repeat(60)}`;
+    const partial = await evaluateGuard({
+      policy: { ...basePolicy, report: { includeBodies: true, redactionMode: "partial" } },
+      eventName: "pull_request_review",
+      payload: {
+        repository: { full_name: "acme/repo" },
+        pull_request: { number: 42, user: { login: "repo-owner", type: "User" } },
+        review: { id: 7, body: longBody, user: { login: "human", type: "User" } }
+      }
+    });
+    const hashed = await evaluateGuard({
+      policy: basePolicy,
+      eventName: "pull_request_review",
+      payload: {
+        repository: { full_name: "acme/repo" },
+        pull_request: { number: 42, user: { login: "repo-owner", type: "User" } },
+        review: { id: 7, body: longBody, user: { login: "human", type: "User" } }
+      }
+    });
+
+    assert.equal(partial.targets[0]?.ruleMatches[0]?.snippet, "as an ai language model");
+    assert.equal(hashed.targets[0]?.ruleMatches[0]?.snippet, undefined);
+    assert.equal(hashed.targets[0]?.ruleMatches[0]?.start, 61);
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
+
 test("runSevenShadowSystem report meets accessibility contract markers", async () => {
   const tempDir = await makeTempDir();
 
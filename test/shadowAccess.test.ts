@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import test from "node:test";
+
+import { parseUnifiedDiff } from "../src/shadows/diff";
+import { evaluateShadowGate, renderShadowGateMarkdown } from "../src/shadows/engine";
+import { scanMarkupAccessibility } from "../src/shadows/markup";
+
+const MARKUP_DIFF = [
+  "diff --git a/src/Card.tsx b/src/Card.tsx",
+  "index 1111111..2222222 100644",
+  "--- a/src/Card.tsx",
+  "+++ b/src/Card.tsx",
+  "@@ -4,2 +4,14 @@ export function Card(props: CardProps) {",
+  "   return (",
+  "+    <div className=\"card\" onClick={() => props.onOpen(props.id)}>",
+  "+      <img src={props.image} />",
+  "+      <img src={props.icon} alt=\"\" />",
+  "+      <button onClick={props.onClose}>",
+  "+        <svg viewBox=\"0 0 10 10\" />",
+  "+      </button>",
+  "+      <button aria-label=\"Share\" tabIndex={2} />",
+  "+      <input type=\"text\" placeholder=\"Search\" />",
+  "+      <label>Name <input name=\"name\" /></label>",
+  "+      <label htmlFor=\"email\">Email</label>",
+  "+      <input id=\"email\" type=\"email\" />",
+  "+      <Avatar onClick={props.onOpen} {...props.avatar} />",
+  "     </div>",
+  "diff --git a/public/index.html b/public/index.html",
+  "new file mode 100644",
+  "--- /dev/null",
+  "+++ b/public/index.html",
+  "@@ -0,0 +1,3 @@",
+  "+<!doctype html>",
+  "+<html>",
+  "+<span @click=\"open\" @keydown.enter=\"open\">Open</span>",
+  "diff --git a/src/util.ts b/src/util.ts",
+  "--- a/src/util.ts",
+  "+++ b/src/util.ts",
+  "@@ -1 +1,2 @@",
+  " export const a = 1;",
+  "+export const b = (items: Array<string>) => <img src=\"x\" />;",
+  ""
+].join("\n");
+
+async function loadJson(relativePath: string): Promise<unknown> {
+  const raw = await fs.readFile(path.join(process.cwd(), relativePath), "utf8");
+  return JSON.parse(raw) as unknown;
+}
+
+test("scanMarkupAccessibility reports concrete violations in added markup with file and line", () => {
+  assert.deepEqual(
+    scanMarkupAccessibility(parseUnifiedDiff(MARKUP_DIFF)).map((violation) => `${violation.rule}@${violation.file}:${violation.line}`),
+    [
+      "click-key-events@src/Card.tsx:5",
+      "img-alt@src/Card.tsx:6",
+      "button-name@src/Card.tsx:8",
+      "positive-tabindex@src/Card.tsx:11",
+      "form-label@src/Card.tsx:12",
+      "html-lang@public/index.html:2"
+    ]
+  );
+});
+
+test("Access shadow surfaces markup violations as SHADOW_ACCESS findings with locations", async () => {
+  const report = evaluateShadowGate({
+    providerName: "github",
+    eventName: "pull_request",
+    eventPayload: {
+      repository: {
+        full_name: "acme/repo"
+      },
+      pull_request: {
+        number: 106,
+        title: "Card layout",
+        body: "Adds the card component.",
+        user: {
+          login: "repo-owner",
+          type: "User"
+        }
+      }
+    },
+    policyRaw: await loadJson("config/seven-shadow-system.policy.v3.sample.json"),
+    doctrineRaw: await loadJson("config/shadow-doctrine.sample.json"),
+    diff: MARKUP_DIFF
+  }).report;
+
+  assert.ok(report.selectedDomains.includes("Access"));
+  const byCode = new Map(report.findings.map((finding) => [finding.code, finding]));
+  assert.deepEqual(byCode.get("SHADOW_ACCESS_CLICK_WITHOUT_KEYBOARD")?.locations, [{ file: "src/Card.tsx", line: 5 }]);
+  assert.deepEqual(byCode.get("SHADOW_ACCESS_IMG_ALT_MISSING")?.details, { violations: 1, elements: ["img"] });
+  assert.equal(byCode.get("SHADOW_ACCESS_HTML_LANG_MISSING")?.severity, "medium");
+  assert.ok(byCode.has("SHADOW_ACCESS_BUTTON_NAME_MISSING"));
+  assert.ok(byCode.has("SHADOW_ACCESS_FORM_LABEL_MISSING"));
+  assert.ok(byCode.has("SHADOW_ACCESS_POSITIVE_TABINDEX"));
+  assert.match(renderShadowGateMarkdown(report), /SHADOW_ACCESS_FORM_LABEL_MISSING[^\n]*\n[^\n]*\n {2}Locations: src\/Card\.tsx:12/);
+});
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import test from "node:test";
+
+import { parseUnifiedDiff } from "../src/shadows/diff";
+import { evaluateShadowGate, parseShadowPolicy } from "../src/shadows/engine";
+import { expandTestTemplates, mapSourcesToTests } from "../src/shadows/testMapping";
+
+function fileDiff(filePath: string, added: string[], status: "new" | "modified" = "modified"): string[] {
+  return [
+    `diff --git a/${filePath} b/${filePath}`,
+    ...(status === "new" ? ["new file mode 100644", "--- /dev/null"] : [`--- a/${filePath}`]),
+    `+++ b/${filePath}`,
+    `@@ -${status === "new" ? "0,0" : "1,0"} +1,${added.length} @@`,
+    ...added.map((line) => `+${line}`)
+  ];
+}
+
+const MAPPING_DIFF = [
+  ...fileDiff("src/cache/store.ts", ["export const ttl = 60;"]),
+  ...fileDiff("test/cache/store.test.ts", ["test(\"ttl\", () => {});"]),
+  ...fileDiff("src/router.tsx", ["export const routes = [];"]),
+  ...fileDiff("src/types.d.ts", ["export type Id = string;"]),
+  ...fileDiff("src/notes.ts", ["// clarify intent"]),
+  ...fileDiff("pkg/server/handler.go", ["func Handle() {}"]),
+  ...fileDiff("pkg/server/handler_test.go", ["func TestHandle(t *testing.T) {}"], "new"),
+  ...fileDiff("app/billing.py", ["def charge():", "    pass"]),
+  ...fileDiff("README.md", ["More docs"]),
+  ""
+].join("\n");
+
+async function loadJson(relativePath: string): Promise<Record<string, unknown>> {
+  const raw = await fs.readFile(path.join(process.cwd(), relativePath), "utf8");
+  return JSON.parse(raw) as Record<string, unknown>;
+}
+
+test("mapSourcesToTests lists behavior-changing sources without a mapped test change", async () => {
+  const policy = parseShadowPolicy(await loadJson("config/seven-shadow-system.policy.v3.sample.json"));
+  const result = mapSourcesToTests(parseUnifiedDiff(MAPPING_DIFF), policy.testMapping);
+
+  assert.equal(result.sources, 4);
+  assert.equal(result.tested, 2);
+  assert.deepEqual(
+    result.untested.map((gap) => `${gap.convention}:${gap.file}:${gap.line}`),
+    ["javascript:src/router.tsx:1", "python:app/billing.py:1"]
+  );
+  assert.ok(result.untested[1]?.expectedTests.includes("app/test_billing.py"));
+});
+
+test("expandTestTemplates fills dir, relDir, name and ext placeholders", () => {
+  assert.deepEqual(
+    expandTestTemplates("lib/parsers/csv.js", {
+      name: "lib",
+      sources: ["lib/**/*.js"],
+      sourceRoot: "lib",
+      tests: ["spec/{relDir}/{name}_spec.{ext}", "{dir}/__tests__/{name}.{ext}"]
+    }),
+    ["spec/parsers/csv_spec.js", "lib/parsers/__tests__/csv.js"]
+  );
+});
+
+test("Testing shadow reports untested sources using policy testMapping conventions", async () => {
+  const policyRaw = await loadJson("config/seven-shadow-system.policy.v3.sample.json");
+  policyRaw.testMapping = {
+    conventions: [{ name: "lib", sources: ["src/**/*.tsx"], sourceRoot: "src", tests: ["specs/{relDir}/{name}.spec.tsx"] }]
+  };
+
+  const report = evaluateShadowGate({
+    providerName: "github",
+    eventName: "pull_request",
+    eventPayload: {
+      repository: {
+        full_name: "acme/repo"
+      },
+      pull_request: {
+        number: 107,
+        title: "Routing",
+        body: "Adds routes.",
+        user: {
+          login: "repo-owner",
+          type: "User"
+        }
+      }
+    },
+    policyRaw,
+    doctrineRaw: await loadJson("config/shadow-doctrine.sample.json"),
+    diff: MAPPING_DIFF
+  }).report;
+
+  const finding = report.findings.find((item) => item.code === "SHADOW_TESTING_SOURCE_WITHOUT_TESTS");
+  assert.equal(finding?.message, "1 of 1 behavior-changing source file(s) have no corresponding test change.");
+  assert.deepEqual(finding?.locations, [{ file: "src/router.tsx", line: 1 }]);
+  assert.deepEqual(finding?.details?.untestedFiles, [
+    { file: "src/router.tsx", convention: "lib", expectedTests: ["specs/router.spec.tsx"] }
+  ]);
+
+  policyRaw.testMapping = { conventions: [{ name: "bad", sources: ["src/**"], tests: ["test/{base}.test.ts"] }] };
+  assert.throws(() => parseShadowPolicy(policyRaw), /E_SHADOW_POLICY_INVALID/);
+});
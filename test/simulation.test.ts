@@ -0,0 +1,214 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { parseSimulateArgs } from "../src/commands/simulate";
+import { githubProvider } from "../src/providers/github";
+import { parseGuardPolicy } from "../src/sevenShadowSystem";
+import { parseSimulationExport, renderSimulationMarkdown, simulatePolicies } from "../src/simulation";
+
+function makePolicy(maxAiScore: number) {
+  return parseGuardPolicy({
+    version: 1,
+    enforcement: "block",
+    maxAiScore,
+    disclosureRequiredScore: maxAiScore,
+    minHumanApprovals: 0,
+    rules: [{ name: "template", pattern: "great work", action: "score", weight: 0.5 }]
+  });
+}
+
+const pullRequests = parseSimulationExport({
+  pullRequests: [
+    {
+      number: 7,
+      title: "Add cache",
+      authorLogin: "alice",
+      mergedAt: "2026-01-02T00:00:00Z",
+      targets: [
+        { source: "pr_body", referenceId: "pr:7", authorLogin: "alice", authorType: "User", body: "Adds a cache." },
+        { source: "review", referenceId: "review:70", authorLogin: "bob", authorType: "User", body: "Great work, ship it." }
+      ]
+    },
+    {
+      number: 8,
+      title: "Fix typo",
+      authorLogin: "carol",
+      mergedAt: "2026-01-03T00:00:00Z",
+      targets: [{ source: "comment", referenceId: "comment:80", authorLogin: "dave", body: "nit: wording" }]
+    }
+  ]
+});
+
+test("simulatePolicies reports decision flips per pull request, rule and author", () => {
+  const report = simulatePolicies({
+    source: "export:history.json",
+    current: { path: "current.json", policy: makePolicy(0.9) },
+    candidate: { path: "candidate.json", policy: makePolicy(0.3) },
+    pullRequests
+  });
+
+  assert.equal(report.pullRequests, 2);
+  assert.deepEqual(report.decisions, {
+    current: { pass: 2, warn: 0, block: 0 },
+    candidate: { pass: 1, warn: 0, block: 1 }
+  });
+  assert.equal(report.flips.length, 1);
+  assert.equal(report.flips[0]?.number, 7);
+  assert.equal(report.flips[0]?.candidateDecision, "block");
+  assert.ok(report.flips[0]?.addedFindingCodes.includes("GUARD_AI_SCORE_EXCEEDED"));
+  assert.deepEqual(report.rules, [{ rule: "template", currentMatches: 1, candidateMatches: 1, flippedPullRequests: 1 }]);
+  assert.deepEqual(report.authors, [
+    { authorLogin: "bob", targets: 1, currentFlagged: 0, candidateFlagged: 1, flippedPullRequests: 1 }
+  ]);
+
+  const markdown = renderSimulationMarkdown(report);
+  assert.ok(markdown.includes("| Candidate | 1 | 0 | 1 |"));
+  assert.ok(markdown.includes("- #7 Add cache (@alice): PASS -> BLOCK"));
+  assert.ok(markdown.includes("| @bob | 1 | 0 | 1 | 1 |"));
+});
+
+test("simulatePolicies applies the guard target limits and policy-wide findings", () => {
+  const current = makePolicy(0.9);
+  const candidate = { ...current, runtime: { ...current.runtime, maxTargets: 1, maxBodyChars: 10 } };
+  const teamFinding = {
+    code: "GUARD_TEAM_UNRESOLVED",
+    severity: "block" as const,
+    message: "Unable to resolve team @acme/reviewers for provider 'github'"
+  };
+
+  const report = simulatePolicies({
+    source: "export:history.json",
+    current: { path: "current.json", policy: current },
+    candidate: { path: "candidate.json", policy: candidate },
+    pullRequests
+  });
+
+  assert.deepEqual(report.decisions.candidate, { pass: 0, warn: 0, block: 2 });
+  assert.deepEqual(report.flips[0]?.addedFindingCodes, ["GUARD_BODY_TRUNCATED", "GUARD_TARGET_LIMIT_REACHED"]);
+  assert.deepEqual(report.flips[1]?.addedFindingCodes, ["GUARD_BODY_TRUNCATED"]);
+
+  const teams = simulatePolicies({
+    source: "export:history.json",
+    current: { path: "current.json", policy: current },
+    candidate: { path: "candidate.json", policy: current, findings: [teamFinding] },
+    pullRequests
+  });
+  assert.deepEqual(teams.decisions.candidate, { pass: 0, warn: 0, block: 2 });
+});
+
+test("parseSimulationExport rejects malformed exports", () => {
+  assert.throws(() => parseSimulationExport({ pullRequests: [{ number: 0, targets: [] }] }), /E_SIMULATE_EXPORT_INVALID/);
+});
+
+test("github listMergedPullRequests collects bodies, reviews and comments of merged pull requests", async () => {
+  const listMergedPullRequests = githubProvider.listMergedPullRequests;
+  assert.ok(listMergedPullRequests);
+
+  const urls: string[] = [];
+  const responses: Record<string, unknown> = {
+    "/repos/acme/widgets/pulls?state=closed&sort=updated&direction=desc&per_page=100&page=1": [
+      { number: 5, title: "Closed", merged_at: null, user: { login: "eve", type: "User" } },
+      { number: 4, title: "Merged", body: "Body", merged_at: "2026-01-01T00:00:00Z", user: { login: "Alice", type: "User" } }
+    ],
+    "/repos/acme/widgets/pulls/4/reviews?per_page=100&page=1": [
+      { id: 40, body: "LGTM", user: { login: "bob", type: "User" } },
+      { id: 41, body: "", user: { login: "bob", type: "User" } }
+    ],
+    "/repos/acme/widgets/pulls/4/comments?per_page=100&page=1": [],
+    "/repos/acme/widgets/issues/4/comments?per_page=100&page=1": [
+      { id: 42, body: "Thanks", user: { login: "ci-bot[bot]", type: "Bot" } }
+    ]
+  };
+
+  const history = await listMergedPullRequests(
+    { owner: "acme", repo: "widgets", limit: 10 },
+    {
+      authToken: "token",
+      apiBaseUrl: "https://api.example.test",
+      fetchTimeoutMs: 5_000,
+      fetch: async (input: RequestInfo | URL) => {
+        const url = (typeof input === "string" ? input : input.toString()).replace("https://api.example.test", "");
+        urls.push(url);
+        return new Response(JSON.stringify(responses[url] ?? []), {
+          status: 200,
+          headers: {
+            "content-type": "application/json"
+          }
+        });
+      }
+    }
+  );
+
+  assert.equal(urls.length, 4);
+  assert.deepEqual(history, [
+    {
+      number: 4,
+      title: "Merged",
+      authorLogin: "Alice",
+      mergedAt: "2026-01-01T00:00:00Z",
+      targets: [
+        { source: "pr_body", referenceId: "pr:4", authorLogin: "Alice", authorType: "User", body: "Body" },
+        { source: "review", referenceId: "review:40", authorLogin: "bob", authorType: "User", body: "LGTM" },
+        { source: "comment", referenceId: "comment:42", authorLogin: "ci-bot[bot]", authorType: "Bot", body: "Thanks" }
+      ]
+    }
+  ]);
+});
+
+test("github listMergedPullRequests returns the most recently merged pull requests", async () => {
+  const listMergedPullRequests = githubProvider.listMergedPullRequests;
+  assert.ok(listMergedPullRequests);
+
+  const firstPage = [
+    { number: 100, title: "Old merge, new activity", merged_at: "2026-01-01T00:00:00Z", updated_at: "2026-01-10T00:00:00Z" },
+    ...Array.from({ length: 99 }, (_, index) => ({ number: 200 + index, merged_at: null, updated_at: "2026-01-05T00:00:00Z" }))
+  ];
+  const pages: Record<string, unknown> = {
+    "/repos/acme/widgets/pulls?state=closed&sort=updated&direction=desc&per_page=100&page=1": firstPage,
+    "/repos/acme/widgets/pulls?state=closed&sort=updated&direction=desc&per_page=100&page=2": [
+      { number: 99, title: "Recent merge", merged_at: "2026-01-04T00:00:00Z", updated_at: "2026-01-04T00:00:00Z" }
+    ]
+  };
+
+  const history = await listMergedPullRequests(
+    { owner: "acme", repo: "widgets", limit: 1 },
+    {
+      authToken: "token",
+      apiBaseUrl: "https://api.example.test",
+      fetchTimeoutMs: 5_000,
+      fetch: async (input: RequestInfo | URL) => {
+        const url = (typeof input === "string" ? input : input.toString()).replace("https://api.example.test", "");
+        return new Response(JSON.stringify(pages[url] ?? []), {
+          status: 200,
+          headers: {
+            "content-type": "application/json"
+          }
+        });
+      }
+    }
+  );
+
+  assert.deepEqual(
+    history.map((pullRequest) => pullRequest.number),
+    [99]
+  );
+});
+
+test("parseSimulateArgs requires a candidate and exactly one history source", () => {
+  assert.throws(() => parseSimulateArgs(["--export", "h.json"]), /^Error: E_SENTINEL_ARG_REQUIRED: --candidate$/);
+  assert.throws(() => parseSimulateArgs(["--candidate", "c.json"]), /exactly one of --export or --repo/);
+  assert.throws(
+    () => parseSimulateArgs(["--candidate", "c.json", "--export", "h.json", "--repo", "acme/widgets"]),
+    /exactly one of --export or --repo/
+  );
+  assert.throws(() => parseSimulateArgs(["--candidate", "c.json", "--repo", "acme"]), /E_SENTINEL_ARG_INVALID/);
+  assert.throws(() => parseSimulateArgs(["--candidate", "c.json", "--repo", "acme/widgets", "--limit", "0"]), /--limit/);
+  assert.deepEqual(parseSimulateArgs(["--candidate", "c.json", "--repo", "acme/widgets", "--limit", "20"]), {
+    policyPath: "config/seven-shadow-system.policy.json",
+    candidatePath: "c.json",
+    repo: "acme/widgets",
+    providerName: "github",
+    limit: 20,
+    format: "md"
+  });
+});
@@ -0,0 +1,219 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import test from "node:test";
+
+import { bitbucketProvider } from "../src/providers/bitbucket";
+import { githubProvider } from "../src/providers/github";
+import { gitlabProvider } from "../src/providers/gitlab";
+import { evaluateGuard } from "../src/sevenShadowSystem";
+import { evaluateShadowGate } from "../src/shadows/engine";
+import { SUMMARY_COMMENT_MARKER, publishSummaryComment, renderSummaryComment } from "../src/summaryComment";
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  body: unknown;
+}
+
+async function loadJson(relativePath: string): Promise<unknown> {
+  return JSON.parse(await fs.readFile(path.join(process.cwd(), relativePath), "utf8")) as unknown;
+}
+
+function makeFetch(requests: RecordedRequest[], responses: unknown[]): typeof fetch {
+  return async (input: RequestInfo | URL, init?: RequestInit) => {
+    requests.push({
+      url: typeof input === "string" ? input : input.toString(),
+      method: init?.method ?? "GET",
+      body: typeof init?.body === "string" ? (JSON.parse(init.body) as unknown) : null
+    });
+    return new Response(JSON.stringify(responses.shift() ?? {}), {
+      status: 200,
+      headers: {
+        "content-type": "application/json"
+      }
+    });
+  };
+}
+
+test("renderSummaryComment combines guard findings and the shadow gate markdown under the marker", async () => {
+  const eventPayload = await loadJson("examples/pr_review_event.json");
+  const guardReport = await evaluateGuard({
+    policy: await loadJson("config/seven-shadow-system.policy.json"),
+    eventName: "pull_request_review",
+    payload: eventPayload
+  });
+  const shadowGateReport = evaluateShadowGate({
+    eventName: "pull_request_review",
+    eventPayload,
+    policyRaw: await loadJson("config/seven-shadow-system.policy.v3.sample.json"),
+    doctrineRaw: await loadJson("config/shadow-doctrine.sample.json"),
+    now: new Date("2026-02-23T10:00:00.000Z")
+  }).report;
+
+  const body = renderSummaryComment({ guardReport, shadowGateReport });
+  const lines = body.split("\n");
+
+  assert.equal(lines[0], SUMMARY_COMMENT_MARKER);
+  assert.equal(lines[1], "## Seven Shadow System");
+  assert.ok(lines.includes(`| Guard | ${guardReport.decision.toUpperCase()} | ${guardReport.findings.length} |`));
+  assert.ok(lines.includes(`| Shadow Gate | ${shadowGateReport.decision.toUpperCase()} | ${shadowGateReport.findings.length} |`));
+  assert.ok(lines.includes("### Guard"));
+  assert.ok(lines.includes("### Seven Shadows Gate"));
+  assert.ok(lines.includes("#### Domain Decisions"));
+  assert.equal(lines.filter((line) => line.startsWith("# ")).length, 0);
+});
+
+test("publishSummaryComment edits the marked GitHub comment instead of posting a new one", async () => {
+  const requests: RecordedRequest[] = [];
+  const result = await publishSummaryComment({
+    provider: githubProvider,
+    eventName: "pull_request",
+    eventPayload: { repository: { full_name: "acme/repo" }, pull_request: { number: 42 } },
+    body: `${SUMMARY_COMMENT_MARKER}\nnew summary\n`,
+    env: { GITHUB_TOKEN: "token" },
+    fetch: makeFetch(requests, [
+      { login: "shadow-bot" },
+      [
+        { id: 5, body: "unrelated", user: { login: "shadow-bot" } },
+        { id: 9, body: `${SUMMARY_COMMENT_MARKER}\nold summary\n`, user: { login: "Shadow-Bot" } }
+      ],
+      { id: 9 }
+    ])
+  });
+
+  assert.deepEqual(result, { id: "9", action: "updated" });
+  assert.deepEqual(requests, [
+    {
+      url: "https://api.github.com/user",
+      method: "GET",
+      body: null
+    },
+    {
+      url: "https://api.github.com/repos/acme/repo/issues/42/comments?per_page=100&page=1",
+      method: "GET",
+      body: null
+    },
+    {
+      url: "https://api.github.com/repos/acme/repo/issues/comments/9",
+      method: "PATCH",
+      body: { body: `${SUMMARY_COMMENT_MARKER}\nnew summary\n` }
+    }
+  ]);
+});
+
+test("publishSummaryComment creates a GitLab note when no marked note exists", async () => {
+  const requests: RecordedRequest[] = [];
+  const result = await publishSummaryComment({
+    provider: gitlabProvider,
+    eventName: "Merge Request Hook",
+    eventPayload: await loadJson("examples/gitlab/merge-request-hook.json"),
+    body: `${SUMMARY_COMMENT_MARKER}\nsummary\n`,
+    env: { GITLAB_TOKEN: "token" },
+    fetch: makeFetch(requests, [
+      { username: "shadow-bot" },
+      [
+        { id: 3, body: SUMMARY_COMMENT_MARKER, system: true, author: { username: "shadow-bot" } },
+        { id: 4, body: SUMMARY_COMMENT_MARKER, author: { username: "contributor" } }
+      ],
+      { id: 11 }
+    ])
+  });
+
+  assert.deepEqual(result, { id: "11", action: "created" });
+  assert.deepEqual(
+    requests.map((request) => request.method),
+    ["GET", "GET", "POST"]
+  );
+  assert.match(requests[0]?.url ?? "", /\/user$/);
+  assert.match(requests[2]?.url ?? "", /\/merge_requests\/\d+\/notes$/);
+  assert.deepEqual(requests[2]?.body, { body: `${SUMMARY_COMMENT_MARKER}\nsummary\n` });
+});
+
+test("publishSummaryComment follows Bitbucket pagination and updates the marked comment", async () => {
+  const requests: RecordedRequest[] = [];
+  const result = await publishSummaryComment({
+    provider: bitbucketProvider,
+    eventName: "pullrequest:created",
+    eventPayload: await loadJson("examples/bitbucket/pullrequest-created.json"),
+    body: `${SUMMARY_COMMENT_MARKER}\nsummary\n`,
+    env: { BITBUCKET_TOKEN: "token" },
+    fetch: makeFetch(requests, [
+      { uuid: "{bot}" },
+      { values: [{ id: 1, content: { raw: "first" }, user: { uuid: "{bot}" } }], next: "https://api.bitbucket.org/2.0/next-page" },
+      { values: [{ id: 2, content: { raw: `${SUMMARY_COMMENT_MARKER}\nold` }, user: { uuid: "{bot}" } }] },
+      {}
+    ])
+  });
+
+  assert.deepEqual(result, { id: "2", action: "updated" });
+  assert.equal(requests[0]?.url, "https://api.bitbucket.org/2.0/user");
+  assert.equal(requests[2]?.url, "https://api.bitbucket.org/2.0/next-page");
+  assert.equal(requests[3]?.method, "PUT");
+  assert.match(requests[3]?.url ?? "", /\/pullrequests\/\d+\/comments\/2$/);
+  assert.deepEqual(requests[3]?.body, { content: { raw: `${SUMMARY_COMMENT_MARKER}\nsummary\n` } });
+});
+
+test("publishSummaryComment ignores marked comments written by other accounts", async () => {
+  const requests: RecordedRequest[] = [];
+  const result = await publishSummaryComment({
+    provider: githubProvider,
+    eventName: "pull_request",
+    eventPayload: { repository: { full_name: "acme/repo" }, pull_request: { number: 42 } },
+    body: `${SUMMARY_COMMENT_MARKER}\nnew summary\n`,
+    env: { GITHUB_TOKEN: "token" },
+    fetch: makeFetch(requests, [
+      { login: "shadow-bot" },
+      [{ id: 7, body: `${SUMMARY_COMMENT_MARKER}\nplanted`, user: { login: "contributor", type: "User" } }],
+      { id: 12 }
+    ])
+  });
+
+  assert.deepEqual(result, { id: "12", action: "created" });
+  assert.deepEqual(requests[2], {
+    url: "https://api.github.com/repos/acme/repo/issues/42/comments",
+    method: "POST",
+    body: { body: `${SUMMARY_COMMENT_MARKER}\nnew summary\n` }
+  });
+});
+
+test("publishSummaryComment only matches bot comments when the GitHub token cannot read /user", async () => {
+  const requests: RecordedRequest[] = [];
+  const responses: unknown[] = [
+    [
+      { id: 7, body: `${SUMMARY_COMMENT_MARKER}\nplanted`, user: { login: "contributor", type: "User" } },
+      { id: 8, body: `${SUMMARY_COMMENT_MARKER}\nold`, user: { login: "github-actions[bot]", type: "Bot" } }
+    ],
+    { id: 8 }
+  ];
+  const recordingFetch = makeFetch(requests, responses);
+  const result = await publishSummaryComment({
+    provider: githubProvider,
+    eventName: "pull_request",
+    eventPayload: { repository: { full_name: "acme/repo" }, pull_request: { number: 42 } },
+    body: `${SUMMARY_COMMENT_MARKER}\nnew summary\n`,
+    env: { GITHUB_TOKEN: "token" },
+    fetch: async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input).endsWith("/user")) {
+        return new Response(JSON.stringify({ message: "Resource not accessible by integration" }), { status: 403 });
+      }
+      return recordingFetch(input, init);
+    }
+  });
+
+  assert.deepEqual(result, { id: "8", action: "updated" });
+  assert.equal(requests[1]?.url, "https://api.github.com/repos/acme/repo/issues/comments/8");
+});
+
+test("publishSummaryComment requires the provider token", async () => {
+  await assert.rejects(
+    publishSummaryComment({
+      provider: githubProvider,
+      eventName: "pull_request",
+      eventPayload: { repository: { full_name: "acme/repo" }, pull_request: { number: 42 } },
+      body: "summary",
+      env: {}
+    }),
+    /^Error: E_SUMMARY_COMMENT_TOKEN_REQUIRED: GITHUB_TOKEN is required to publish a summary comment$/
+  );
+});
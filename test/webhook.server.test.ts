@@ -0,0 +1,209 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import test from "node:test";
+
+import { resolveWebhookDeliveryId, verifyWebhookSignature } from "../src/webhook/signatures";
+import { startWebhookServer, type StartWebhookServerOptions } from "../src/webhook/server";
+
+const guardPolicy = {
+  version: 1,
+  enforcement: "block",
+  blockBotAuthors: true,
+  blockedAuthors: [],
+  allowedAuthors: [],
+  scanPrBody: true,
+  scanReviewBody: true,
+  scanCommentBody: true,
+  maxAiScore: 0.5,
+  disclosureTag: "[AI-ASSISTED]",
+  disclosureRequiredScore: 0.3,
+  minHumanApprovals: 0,
+  rules: [
+    {
+      name: "explicit",
+      pattern: "as an ai language model",
+      action: "block"
+    }
+  ]
+};
+
+const pullRequestPayload = {
+  action: "opened",
+  repository: { full_name: "acme/repo" },
+  pull_request: {
+    number: 42,
+    body: "As an AI language model, I wrote this change.",
+    user: { login: "contributor", type: "User" },
+    head: { sha: "abc123" }
+  }
+};
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  body: unknown;
+}
+
+function signGithub(body: string, secret: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+function makeRecordingFetch(requests: RecordedRequest[]): typeof fetch {
+  return async (input: RequestInfo | URL, init?: RequestInit) => {
+    requests.push({
+      url: typeof input === "string" ? input : input.toString(),
+      method: init?.method ?? "GET",
+      body: typeof init?.body === "string" ? (JSON.parse(init.body) as unknown) : null
+    });
+    return new Response(JSON.stringify({ id: 1 }), {
+      status: 201,
+      headers: {
+        "content-type": "application/json"
+      }
+    });
+  };
+}
+
+async function startTestServer(overrides: Partial<StartWebhookServerOptions> = {}) {
+  return startWebhookServer({
+    host: "127.0.0.1",
+    port: 0,
+    guardPolicyRaw: guardPolicy,
+    guardPolicyPath: "inline",
+    secrets: { github: "gh-secret", gitlab: "gl-token" },
+    env: { GITHUB_TOKEN: "token" },
+    maxQueueSize: 10,
+    maxBodyBytes: 64 * 1024,
+    dedupCapacity: 100,
+    postStatuses: true,
+    statusTimeoutMs: 1000,
+    ...overrides
+  });
+}
+
+async function deliverGithub(url: string, body: string, deliveryId: string, secret = "gh-secret"): Promise<Response> {
+  return fetch(`${url}/webhooks/github`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-github-event": "pull_request",
+      "x-github-delivery": deliveryId,
+      "x-hub-signature-256": signGithub(body, secret)
+    },
+    body
+  });
+}
+
+test("verifyWebhookSignature checks GitHub and Bitbucket HMACs and the GitLab token", () => {
+  const body = Buffer.from('{"ok":true}');
+  const hmac = signGithub(body.toString("utf8"), "secret");
+
+  assert.equal(verifyWebhookSignature("github", { "x-hub-signature-256": hmac }, body, "secret"), true);
+  assert.equal(verifyWebhookSignature("github", { "x-hub-signature-256": hmac }, body, "other"), false);
+  assert.equal(verifyWebhookSignature("github", {}, body, "secret"), false);
+  assert.equal(verifyWebhookSignature("bitbucket", { "x-hub-signature": hmac }, body, "secret"), true);
+  assert.equal(verifyWebhookSignature("gitlab", { "x-gitlab-token": "secret" }, body, "secret"), true);
+  assert.equal(verifyWebhookSignature("gitlab", { "x-gitlab-token": "secret" }, body, ""), false);
+  assert.equal(resolveWebhookDeliveryId("github", { "x-github-delivery": "d-1" }, body), "github:d-1");
+  assert.match(resolveWebhookDeliveryId("bitbucket", {}, body), /^bitbucket:sha256:[0-9a-f]{64}$/);
+});
+
+test("webhook server rejects bad signatures, runs the guard and posts a commit status", async () => {
+  const requests: RecordedRequest[] = [];
+  const server = await startTestServer({ fetch: makeRecordingFetch(requests), publicUrl: "https://7s.example.com" });
+
+  try {
+    const body = JSON.stringify(pullRequestPayload);
+
+    const rejected = await deliverGithub(server.url, body, "delivery-1", "wrong-secret");
+    assert.equal(rejected.status, 401);
+    assert.equal(((await rejected.json()) as { code: string }).code, "E_WEBHOOK_SIGNATURE_INVALID");
+
+    const accepted = await deliverGithub(server.url, body, "delivery-1");
+    assert.equal(accepted.status, 202);
+    await server.drain();
+
+    const duplicate = await deliverGithub(server.url, body, "delivery-1");
+    assert.equal(duplicate.status, 200);
+    assert.equal(((await duplicate.json()) as { status: string }).status, "duplicate");
+    await server.drain();
+
+    const record = server.getDelivery("github:delivery-1");
+    assert.equal(record?.state, "completed");
+    assert.equal(record?.guardDecision, "block");
+    assert.deepEqual(requests, [
+      {
+        url: "https://api.github.com/repos/acme/repo/statuses/abc123",
+        method: "POST",
+        body: {
+          state: "failure",
+          context: "seven-shadow-system/guard",
+          description: "Guard: BLOCK (1 finding)",
+          target_url: "https://7s.example.com/deliveries/github%3Adelivery-1"
+        }
+      }
+    ]);
+
+    const disabled = await fetch(`${server.url}/webhooks/bitbucket`, { method: "POST", body: "{}" });
+    assert.equal(disabled.status, 404);
+  } finally {
+    await server.close();
+  }
+});
+
+test("webhook server answers 503 with Retry-After when the work queue is full", async () => {
+  let releaseStatus: () => void = () => undefined;
+  const statusGate = new Promise<void>((resolve) => {
+    releaseStatus = resolve;
+  });
+  const server = await startTestServer({
+    maxQueueSize: 1,
+    fetch: async () => {
+      await statusGate;
+      return new Response("{}", { status: 201 });
+    }
+  });
+
+  try {
+    const body = JSON.stringify(pullRequestPayload);
+
+    assert.equal((await deliverGithub(server.url, body, "delivery-a")).status, 202);
+    assert.equal((await deliverGithub(server.url, body, "delivery-b")).status, 202);
+
+    const full = await deliverGithub(server.url, body, "delivery-c");
+    assert.equal(full.status, 503);
+    assert.equal(full.headers.get("retry-after"), "30");
+    assert.equal(((await full.json()) as { code: string }).code, "E_WEBHOOK_QUEUE_FULL");
+
+    const health = (await (await fetch(`${server.url}/healthz`)).json()) as { queueDepth: number; providers: string[] };
+    assert.equal(health.queueDepth, 2);
+    assert.deepEqual(health.providers, ["github", "gitlab"]);
+  } finally {
+    releaseStatus();
+    await server.close();
+  }
+});
+
+test("webhook server re-runs redelivered failed deliveries and rejects malformed delivery ids", async () => {
+  const server = await startTestServer({ guardPolicyRaw: { version: 99 } });
+
+  try {
+    const body = JSON.stringify(pullRequestPayload);
+
+    assert.equal((await deliverGithub(server.url, body, "delivery-f")).status, 202);
+    await server.drain();
+    assert.equal(server.getDelivery("github:delivery-f")?.state, "failed");
+
+    const redelivered = await deliverGithub(server.url, body, "delivery-f");
+    assert.equal(redelivered.status, 202);
+    assert.equal(((await redelivered.json()) as { status: string }).status, "queued");
+    await server.drain();
+    assert.equal(server.getDelivery("github:delivery-f")?.state, "failed");
+
+    const malformed = await fetch(`${server.url}/deliveries/%E0%A4%A`);
+    assert.equal(malformed.status, 400);
+    assert.equal(((await malformed.json()) as { code: string }).code, "E_WEBHOOK_DELIVERY_ID_INVALID");
+  } finally {
+    await server.close();
+  }
+});